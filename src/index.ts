@@ -10,15 +10,18 @@ import {
   ReadResourceRequestSchema,
   Resource,
 } from "@modelcontextprotocol/sdk/types.js";
-import { exec } from "child_process";
+import { exec, execFile, spawn, ChildProcess } from "child_process";
 import { promisify } from "util";
-import { readFile, access } from "fs/promises";
+import { readFile, writeFile, mkdir, access, stat, readdir, rm } from "fs/promises";
+import { watch, FSWatcher } from "fs";
+import { createHash } from "crypto";
 import { glob } from "glob";
 import path from "path";
 import { XMLParser } from "fast-xml-parser";
-import { platform } from "os";
+import { platform, homedir, tmpdir } from "os";
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 const DEFAULT_WORKSPACE = process.env.MCP_WORKSPACE || "/workspace";
 
 // Detect container runtime (Docker or Podman)
@@ -54,6 +57,40 @@ function getMavenCommand(): string {
   return isWindows ? "mvn.cmd" : "mvn";
 }
 
+// Get Gradle command, preferring the project's wrapper when present
+async function getGradleCommand(projectPath: string): Promise<string> {
+  const isWindows = platform() === "win32";
+  const wrapper = isWindows ? "gradlew.bat" : "gradlew";
+  if (await fileExists(path.join(projectPath, wrapper))) {
+    return isWindows ? wrapper : `./${wrapper}`;
+  }
+  return isWindows ? "gradle.bat" : "gradle";
+}
+
+type BuildTool = "maven" | "gradle" | "none";
+
+const GRADLE_BUILD_FILES = ["build.gradle", "build.gradle.kts", "gradlew"];
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await access(filePath);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+// Detect build tool from project files (Maven wins if both are present)
+async function detectBuildTool(projectPath: string): Promise<BuildTool> {
+  if (await fileExists(path.join(projectPath, "pom.xml"))) return "maven";
+
+  for (const file of GRADLE_BUILD_FILES) {
+    if (await fileExists(path.join(projectPath, file))) return "gradle";
+  }
+
+  return "none";
+}
+
 function resolveProjectPath(input?: string): string {
   if (!input || input.trim() === "") return DEFAULT_WORKSPACE;
   if (/^[A-Za-z]:\\/.test(input)) return DEFAULT_WORKSPACE;
@@ -64,20 +101,20 @@ function resolveProjectPath(input?: string): string {
 const TOOLS: Tool[] = [
   {
     name: "check_environment",
-    description: "Check development environment: Maven, Java, Docker/Podman availability, platform info",
+    description: "Check development environment: Maven, Gradle, Java, Docker/Podman availability, platform info",
     inputSchema: {
       type: "object",
       properties: {
         projectPath: {
           type: "string",
-          description: "Optional: Path to verify Maven wrapper exists",
+          description: "Optional: Path to detect the build tool and verify Maven/Gradle wrapper exists",
         },
       },
     },
   },
   {
     name: "investigate_jwt_claims",
-    description: "Extract JWT claim structure from JwtTokenUtil/JwtRequestFilter without reading full file. Returns only the claims that production code expects.",
+    description: "Discover the JWT claims production code reads (custom filters, OAuth2 resource server, JwtAuthenticationConverter, @AuthenticationPrincipal Jwt), the signing key/JWK source and algorithm, and return a test token recipe (jwt() post-processor or locally signed HS256/RS256 token)",
     inputSchema: {
       type: "object",
       properties: {
@@ -85,6 +122,10 @@ const TOOLS: Tool[] = [
           type: "string",
           description: "Path to the Spring Boot project root",
         },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to limit the search to; defaults to all modules",
+        },
       },
       required: ["projectPath"],
     },
@@ -99,13 +140,17 @@ const TOOLS: Tool[] = [
           type: "string",
           description: "Path to the Spring Boot project root",
         },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to limit the search to; defaults to all modules",
+        },
       },
       required: ["projectPath"],
     },
   },
   {
     name: "investigate_entity_relationships",
-    description: "Map entity relationships (@ManyToOne, @OneToMany) for a specific entity. Returns dependency graph without full file content.",
+    description: "Map entity relationships (@ManyToOne, @OneToMany, @OneToOne, @ManyToMany) for a specific entity. Returns dependency graph without full file content.",
     inputSchema: {
       type: "object",
       properties: {
@@ -113,9 +158,13 @@ const TOOLS: Tool[] = [
           type: "string",
           description: "Path to the Spring Boot project root",
         },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to limit the search to; defaults to all modules",
+        },
         entityName: {
           type: "string",
-          description: "Name of the entity class to investigate",
+          description: "Name of the entity class to investigate - simple name, fully-qualified name, file path or a close abbreviation (UserCtrl)",
         },
       },
       required: ["projectPath", "entityName"],
@@ -123,7 +172,7 @@ const TOOLS: Tool[] = [
   },
   {
     name: "find_missing_properties",
-    description: "Find all @Value properties in production code and check which are missing from application-test.properties",
+    description: "Resolve @Value and @ConfigurationProperties keys against application.{properties,yml,yaml} and profile variants (main + test resources) under the test profile; reports each key as resolved, default-only or missing",
     inputSchema: {
       type: "object",
       properties: {
@@ -131,13 +180,17 @@ const TOOLS: Tool[] = [
           type: "string",
           description: "Path to the Spring Boot project root",
         },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to limit the search to; defaults to all modules",
+        },
       },
       required: ["projectPath"],
     },
   },
   {
     name: "validate_maven_compile",
-    description: "Run 'mvn clean compile test-compile' and return structured results (pass/fail, error summary)",
+    description: "Run 'mvn clean compile test-compile' (or 'gradle clean compileJava compileTestJava' on Gradle projects) and return structured results (pass/fail, error summary)",
     inputSchema: {
       type: "object",
       properties: {
@@ -145,13 +198,21 @@ const TOOLS: Tool[] = [
           type: "string",
           description: "Path to the Spring Boot project root",
         },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to build with -pl <module> -am (Gradle: subproject path)",
+        },
+        timeoutMinutes: {
+          type: "number",
+          description: "Optional: kill the build after this many minutes (default: 3)",
+        },
       },
       required: ["projectPath"],
     },
   },
   {
     name: "run_test_checkpoint",
-    description: "Run specific test class or method and return structured results (pass/fail counts, failure messages)",
+    description: "Run specific test class or method with Maven or Gradle and return structured results (pass/fail counts, failure messages)",
     inputSchema: {
       type: "object",
       properties: {
@@ -159,6 +220,10 @@ const TOOLS: Tool[] = [
           type: "string",
           description: "Path to the Spring Boot project root",
         },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to test with -pl <module> -am (Gradle: subproject path)",
+        },
         testClass: {
           type: "string",
           description: "Test class name (e.g., 'SmokeTest' or 'UserControllerTest')",
@@ -167,6 +232,53 @@ const TOOLS: Tool[] = [
           type: "string",
           description: "Optional: specific test method name",
         },
+        timeoutMinutes: {
+          type: "number",
+          description: "Optional: kill the run after this many minutes (default: 2); use start_build_job for long suites",
+        },
+      },
+      required: ["projectPath", "testClass"],
+    },
+  },
+  {
+    name: "detect_flaky_tests",
+    description: "Rerun a test class or method N times (optionally in random method order, with a shared or forked JVM) and report the pass rate per test, clustered failure messages and static causes of flakiness (missing @DirtiesContext, static mutable state, Thread.sleep, time-dependent assertions)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectPath: {
+          type: "string",
+          description: "Path to the Spring Boot project root",
+        },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to test with -pl <module> -am (Gradle: subproject path)",
+        },
+        testClass: {
+          type: "string",
+          description: "Test class name (e.g., 'UserControllerTest'), a pattern or a comma-separated list",
+        },
+        testMethod: {
+          type: "string",
+          description: "Optional: specific test method name",
+        },
+        runs: {
+          type: "number",
+          description: "Optional: number of runs (default: 5, max: 20)",
+        },
+        randomOrder: {
+          type: "boolean",
+          description: "Optional: randomize JUnit 5 method order with a new seed per run; failing seeds are reported (default: false)",
+        },
+        contextMode: {
+          type: "string",
+          enum: ["reuse", "fork", "both"],
+          description: "Optional: 'reuse' shares one JVM and cached Spring contexts across classes, 'fork' starts a JVM per class, 'both' alternates and compares (default: reuse)",
+        },
+        timeoutMinutes: {
+          type: "number",
+          description: "Optional: kill each run after this many minutes (default: 2)",
+        },
       },
       required: ["projectPath", "testClass"],
     },
@@ -181,9 +293,13 @@ const TOOLS: Tool[] = [
           type: "string",
           description: "Path to the Spring Boot project root",
         },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to limit the search to; defaults to all modules",
+        },
         controllerName: {
           type: "string",
-          description: "Controller class name",
+          description: "Controller class name - simple name, fully-qualified name, file path or a close abbreviation (UserCtrl)",
         },
       },
       required: ["projectPath", "controllerName"],
@@ -199,6 +315,10 @@ const TOOLS: Tool[] = [
           type: "string",
           description: "Path to the Spring Boot project root",
         },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to limit the search to; defaults to all modules",
+        },
         dtoPackage: {
           type: "string",
           description: "DTO package path (e.g., 'com.example.dto')",
@@ -217,13 +337,17 @@ const TOOLS: Tool[] = [
           type: "string",
           description: "Path to the Spring Boot project root",
         },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to limit the search to; defaults to all modules",
+        },
       },
       required: ["projectPath"],
     },
   },
   {
     name: "analyze_repository",
-    description: "Extract repository query methods, custom queries, and whether it uses soft-delete filtering",
+    description: "Analyze every repository method: @Query text (JPQL or native) with its named parameters, @Modifying, Pageable/Sort, projections and @EntityGraph; derived query names are parsed into property paths and checked against the entity so typos show up before runtime. Also reports soft-delete filtering",
     inputSchema: {
       type: "object",
       properties: {
@@ -231,9 +355,13 @@ const TOOLS: Tool[] = [
           type: "string",
           description: "Path to the Spring Boot project root",
         },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to limit the search to; defaults to all modules",
+        },
         repositoryName: {
           type: "string",
-          description: "Repository interface name",
+          description: "Repository interface name - simple name, fully-qualified name, file path or a close abbreviation (UserCtrl)",
         },
       },
       required: ["projectPath", "repositoryName"],
@@ -241,7 +369,25 @@ const TOOLS: Tool[] = [
   },
   {
     name: "check_spring_boot_version",
-    description: "Detect Spring Boot version and Java version from pom.xml. Returns 2.x vs 3.x and javax vs jakarta info.",
+    description: "Detect Spring Boot version and Java version from pom.xml or build.gradle(.kts). Returns 2.x vs 3.x and javax vs jakarta info.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectPath: {
+          type: "string",
+          description: "Path to the Spring Boot project root",
+        },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to resolve versions for; defaults to the root pom",
+        },
+      },
+      required: ["projectPath"],
+    },
+  },
+  {
+    name: "analyze_dependencies",
+    description: "Parse the resolved dependency tree (mvn dependency:tree -Dverbose or gradle dependencies --configuration testRuntimeClasspath, cached under target/ or build/) and flag version conflicts, misaligned JUnit/Mockito/Jackson/Spring versions, duplicate JUnit engines, javax and jakarta APIs on one classpath, and test libraries incompatible with the Spring Boot and Java versions",
     inputSchema: {
       type: "object",
       properties: {
@@ -249,6 +395,26 @@ const TOOLS: Tool[] = [
           type: "string",
           description: "Path to the Spring Boot project root",
         },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to analyze with -pl <module> -am (Gradle: subproject path)",
+        },
+        artifact: {
+          type: "string",
+          description: "Optional: show every path that brings in artifacts matching this text (e.g. 'mockito' or 'org.hamcrest:hamcrest-core')",
+        },
+        treeFile: {
+          type: "string",
+          description: "Optional: saved dependency:tree or gradle dependencies output to read instead of running the build",
+        },
+        refresh: {
+          type: "boolean",
+          description: "Optional: rerun the build even if the cached tree is newer than the build files (default: false)",
+        },
+        timeoutMinutes: {
+          type: "number",
+          description: "Optional: kill the build after this many minutes (default: 3)",
+        },
       },
       required: ["projectPath"],
     },
@@ -263,721 +429,10407 @@ const TOOLS: Tool[] = [
           type: "string",
           description: "Path to the Spring Boot project root",
         },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to limit the search to; defaults to all modules",
+        },
         serviceName: {
           type: "string",
-          description: "Service class name",
+          description: "Service class name - simple name, fully-qualified name, file path or a close abbreviation (UserCtrl)",
         },
       },
       required: ["projectPath", "serviceName"],
     },
   },
-];
-
-const RESOURCES: Resource[] = [
   {
-    uri: "mcp://spring-integration-test/health",
-    name: "health",
-    description: "Simple liveness resource to verify the MCP server is reachable",
-    mimeType: "text/plain",
+    name: "generate_controller_test",
+    description: "Generate a JUnit 5 MockMvc integration test skeleton for a controller: a happy-path test per endpoint plus 401/403 tests for secured endpoints, using the project's response wrapper, JSON naming and javax/jakarta conventions",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectPath: {
+          type: "string",
+          description: "Path to the Spring Boot project root",
+        },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to limit the search to; defaults to all modules",
+        },
+        controllerName: {
+          type: "string",
+          description: "Controller class name - simple name, fully-qualified name, file path or a close abbreviation (UserCtrl)",
+        },
+        writeFile: {
+          type: "boolean",
+          description: "Optional: write the test under src/test/java instead of returning its content (never overwrites)",
+        },
+      },
+      required: ["projectPath", "controllerName"],
+    },
   },
-];
-
-// Helper functions
-async function checkEnvironment(projectPath?: string): Promise<string> {
-  const results: any = {
-    platform: platform(),
-    maven: { available: false, version: "" },
-    java: { available: false, version: "" },
-    container: { runtime: "none", version: "" },
-    recommendations: [],
-  };
-
-  const mvnCmd = getMavenCommand();
-
-  // Check Maven
-  try {
-    const { stdout } = await execAsync(`${mvnCmd} -version`);
-    results.maven.available = true;
-    const versionMatch = stdout.match(/Apache Maven ([\d.]+)/);
-    if (versionMatch) results.maven.version = versionMatch[1];
-  } catch (error) {
-    results.recommendations.push("Install Maven: https://maven.apache.org/install.html");
-  }
-
-  // Check Java
-  try {
-    const { stdout } = await execAsync("java -version");
-    results.java.available = true;
-    const versionMatch = stdout.match(/version "?([^"\s]+)"?/);
-    if (versionMatch) results.java.version = versionMatch[1];
-  } catch (error) {
-    results.recommendations.push("Install Java JDK 11+: https://adoptium.net/");
-  }
-
-  // Check container runtime
-  const runtime = await detectContainerRuntime();
-  results.container.runtime = runtime;
-
-  if (runtime !== "none") {
-    try {
-      const { stdout } = await execAsync(`${runtime} --version`);
-      const versionMatch = stdout.match(/version ([\d.]+)/);
-      if (versionMatch) results.container.version = versionMatch[1];
-    } catch (error) {
-      // Version check failed
-    }
-  } else {
-    results.recommendations.push(
-      "Optional: Install Docker (https://docs.docker.com/get-docker/) or Podman (https://podman.io/getting-started/installation)"
-    );
-  }
-
-  // Check Maven wrapper if project path provided
-  if (projectPath) {
-    const wrapperPath = path.join(
-      projectPath,
-      platform() === "win32" ? "mvnw.cmd" : "mvnw"
-    );
-    try {
-      await access(wrapperPath);
-      results.mavenWrapper = true;
-      results.recommendations.push("Maven wrapper found - use ./mvnw instead of mvn");
-    } catch (error) {
-      results.mavenWrapper = false;
-    }
-  }
-
-  // Platform-specific recommendations
-  if (results.platform === "win32") {
-    results.recommendations.push("Windows detected - ensure paths use double backslashes in config");
-  }
-
-  return JSON.stringify(results, null, 2);
-}
-
-async function findJavaFiles(projectPath: string, pattern: string): Promise<string[]> {
-  const srcPath = path.join(projectPath, "src", "main", "java");
-  const files = await glob(`${srcPath}/**/${pattern}.java`);
-  return files;
-}
-
-async function findTestFiles(projectPath: string, pattern: string): Promise<string[]> {
-  const testPath = path.join(projectPath, "src", "test", "java");
-  const files = await glob(`${testPath}/**/${pattern}.java`);
-  return files;
-}
-
-async function readJavaFile(filePath: string): Promise<string> {
-  return await readFile(filePath, "utf-8");
-}
-
-// Tool implementations
-async function investigateJwtClaims(projectPath: string): Promise<string> {
-  // Find JwtTokenUtil or JwtRequestFilter
-  const jwtUtilFiles = await findJavaFiles(projectPath, "*JwtTokenUtil*");
-  const jwtFilterFiles = await findJavaFiles(projectPath, "*JwtRequestFilter*");
-  const jwtFiles = [...jwtUtilFiles, ...jwtFilterFiles];
-
-  if (jwtFiles.length === 0) {
-    return JSON.stringify({
-      found: false,
-      message: "No JWT utility files found. Search for files containing 'Jwt'",
-    }, null, 2);
-  }
-
-  const claims: string[] = [];
-  const claimMethods: Record<string, string> = {};
-
-  for (const file of jwtFiles) {
-    const content = await readJavaFile(file);
-
-    // Extract getClaim or get() calls
-    const getClaimPattern = /\.get(?:Claim)?\(['"]([\w_]+)['"]\)/g;
-    const matches = content.matchAll(getClaimPattern);
-
-    for (const match of matches) {
-      claims.push(match[1]);
-    }
-
-    // Extract standard JWT methods
-    if (content.includes(".getId()")) claimMethods.jti = "getUserId() or similar";
-    if (content.includes(".getSubject()")) claimMethods.sub = "getEmail() or username";
-
-    // Extract custom claims
-    const customClaimPattern = /claims\.get\(['"]([\w_]+)['"]\)/g;
-    const customMatches = content.matchAll(customClaimPattern);
-
-    for (const match of customMatches) {
-      claims.push(match[1]);
-    }
-  }
-
-  return JSON.stringify({
-    found: true,
-    file: path.basename(jwtFiles[0]),
-    standardClaims: claimMethods,
-    customClaims: [...new Set(claims)],
-    recommendation: "Include these claims in BaseIntegrationTest.generateTestToken()",
-  }, null, 2);
-}
-
-async function investigateResponseWrapper(projectPath: string): Promise<string> {
-  const adviceFiles = await findJavaFiles(projectPath, "*Advice*");
-  const configFiles = await findJavaFiles(projectPath, "*Response*");
-  const allFiles = [...adviceFiles, ...configFiles];
-
-  let hasWrapper = false;
-  let wrapperClass = "";
-  let wrapperField = "data";
-
-  for (const file of allFiles) {
-    const content = await readJavaFile(file);
-
-    if (content.includes("ResponseBodyAdvice") || content.includes("@ControllerAdvice")) {
-      hasWrapper = true;
-      wrapperClass = path.basename(file, ".java");
-
-      // Try to find the wrapper field name
-      const wrapperPattern = /class\s+\w+\s*\{[^}]*(\w+)\s*:/;
-      const match = content.match(wrapperPattern);
-      if (match) wrapperField = match[1];
-    }
-  }
-
-  return JSON.stringify({
-    hasWrapper,
-    wrapperClass: hasWrapper ? wrapperClass : "None",
-    wrapperField: hasWrapper ? wrapperField : "N/A",
-    jsonPathPrefix: hasWrapper ? `$.${wrapperField}` : "$",
-    recommendation: hasWrapper
-      ? `Use jsonPath("$.${wrapperField}.id") in controller tests`
-      : "Use jsonPath(\"$.id\") directly in controller tests",
-  }, null, 2);
-}
-
-async function investigateEntityRelationships(
-  projectPath: string,
-  entityName: string
-): Promise<string> {
-  const entityFiles = await findJavaFiles(projectPath, entityName);
-
-  if (entityFiles.length === 0) {
-    return JSON.stringify({
-      found: false,
-      message: `Entity ${entityName} not found`,
-    }, null, 2);
-  }
+  {
+    name: "list_endpoints",
+    description: "List every endpoint of every @RestController/@Controller as one deduplicated route table (method, path, params, body DTO, return type, security annotations), or export it as an OpenAPI 3 document",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectPath: {
+          type: "string",
+          description: "Path to the Spring Boot project root",
+        },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to limit the search to; defaults to all modules",
+        },
+        format: {
+          type: "string",
+          enum: ["table", "openapi"],
+          description: "Optional: 'table' (default) or 'openapi' for an OpenAPI 3 document",
+        },
+      },
+      required: ["projectPath"],
+    },
+  },
+  {
+    name: "find_untested_code",
+    description: "Match controllers, services and repositories against tests under src/test/java (test naming, request paths in test bodies, autowired and @MockBean types). Lists untested endpoints and public service methods, largest first.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectPath: {
+          type: "string",
+          description: "Path to the Spring Boot project root",
+        },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to limit the search to; defaults to all modules",
+        },
+      },
+      required: ["projectPath"],
+    },
+  },
+  {
+    name: "analyze_test_contexts",
+    description: "Group Spring test classes under src/test/java by their context cache key (test annotation, context classes, @Import, @ActiveProfiles, @TestPropertySource, @MockBean, @DynamicPropertySource, @ServiceConnection, @AutoConfigure*). Counts the contexts a full run starts, lists the annotation differences that split them, and shows where extending BaseIntegrationTest would merge contexts.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectPath: {
+          type: "string",
+          description: "Path to the Spring Boot project root",
+        },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to limit the search to; defaults to all modules",
+        },
+      },
+      required: ["projectPath"],
+    },
+  },
+  {
+    name: "get_coverage_summary",
+    description: "Read the JaCoCo XML report (or run tests under the JaCoCo agent first) and return line/branch coverage per class and method plus uncovered line ranges",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectPath: {
+          type: "string",
+          description: "Path to the Spring Boot project root",
+        },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to limit the search to; defaults to all modules",
+        },
+        className: {
+          type: "string",
+          description: "Optional: class to report on (simple or fully-qualified name), e.g. 'UserService'. Adds per-method detail.",
+        },
+        run: {
+          type: "boolean",
+          description: "Optional: run the tests with the JaCoCo agent before reading the report (default: read existing report)",
+        },
+        testClass: {
+          type: "string",
+          description: "Optional: with run, only run this test class",
+        },
+        timeoutMinutes: {
+          type: "number",
+          description: "Optional: with run, kill the test run after this many minutes (default: 3)",
+        },
+      },
+      required: ["projectPath"],
+    },
+  },
+  {
+    name: "start_build_job",
+    description: "Start a compile or test run as a background job and return its job ID. Sends MCP progress notifications (current module and test class) while waiting.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectPath: {
+          type: "string",
+          description: "Path to the Spring Boot project root",
+        },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to build with -pl <module> -am (Gradle: subproject path)",
+        },
+        kind: {
+          type: "string",
+          enum: ["compile", "test"],
+          description: "compile: clean compile test-compile; test: run tests (default: test)",
+        },
+        testClass: {
+          type: "string",
+          description: "Optional: test class to run; omit to run the whole suite",
+        },
+        testMethod: {
+          type: "string",
+          description: "Optional: specific test method name",
+        },
+        timeoutMinutes: {
+          type: "number",
+          description: "Optional: kill the job after this many minutes (default: 30, or MCP_BUILD_TIMEOUT_MINUTES)",
+        },
+        waitSeconds: {
+          type: "number",
+          description: "Optional: block up to this many seconds (max 600) for the job to finish, streaming progress (default: 0)",
+        },
+      },
+      required: ["projectPath"],
+    },
+  },
+  {
+    name: "get_job_status",
+    description: "Report a build job's status, current module/test class and running counts; returns the structured result once finished. Omit jobId to list all jobs.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        jobId: {
+          type: "string",
+          description: "Job ID returned by start_build_job",
+        },
+        waitSeconds: {
+          type: "number",
+          description: "Optional: block up to this many seconds (max 600) for the job to finish, streaming progress (default: 0)",
+        },
+      },
+    },
+  },
+  {
+    name: "cancel_job",
+    description: "Cancel a running build job; results of the test classes that already finished are kept",
+    inputSchema: {
+      type: "object",
+      properties: {
+        jobId: {
+          type: "string",
+          description: "Job ID returned by start_build_job",
+        },
+      },
+      required: ["jobId"],
+    },
+  },
+  {
+    name: "analyze_test_datasource",
+    description: "Report which database the tests use (H2/embedded, Testcontainers or external) from config, dependencies and test sources; checks the Docker/Podman runtime, socket and Ryuk settings, and suggests a @ServiceConnection or @DynamicPropertySource setup",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectPath: {
+          type: "string",
+          description: "Path to the Spring Boot project root",
+        },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to limit the search to; defaults to all modules",
+        },
+      },
+      required: ["projectPath"],
+    },
+  },
+  {
+    name: "analyze_security_config",
+    description: "Extract SecurityFilterChain / WebSecurityConfigurerAdapter rules (matchers, permitAll/authenticated/hasRole), CSRF, CORS and method security (@PreAuthorize, @Secured, @RolesAllowed), and build a per-endpoint access matrix with the @WithMockUser roles each route needs",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectPath: {
+          type: "string",
+          description: "Path to the Spring Boot project root",
+        },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to limit the search to; defaults to all modules",
+        },
+      },
+      required: ["projectPath"],
+    },
+  },
+  {
+    name: "entity_graph",
+    description: "Map every @Entity: relationships with cascade/fetch/optional/nullable/mappedBy, @MappedSuperclass fields and @Embedded types; returns a test-data insertion order, explained cycles and a Mermaid or DOT diagram",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectPath: {
+          type: "string",
+          description: "Path to the Spring Boot project root",
+        },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to limit the search to; defaults to all modules",
+        },
+        format: {
+          type: "string",
+          enum: ["mermaid", "dot"],
+          description: "Optional: diagram format (default: mermaid)",
+        },
+      },
+      required: ["projectPath"],
+    },
+  },
+  {
+    name: "generate_entity_fixture",
+    description: "Generate a Java test-data factory for a JPA entity: fills every non-nullable column with values that respect @Column(length), @Size, @NotNull, enums and unique constraints, persists required @ManyToOne/@OneToOne parents first and sets soft-delete flags to a live value",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectPath: {
+          type: "string",
+          description: "Path to the Spring Boot project root",
+        },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to limit the search to; defaults to all modules",
+        },
+        entityName: {
+          type: "string",
+          description: "Entity class name - simple name, fully-qualified name, file path or a close abbreviation (UserCtrl)",
+        },
+        writeFile: {
+          type: "boolean",
+          description: "Optional: write the factory under src/test/java instead of returning its content (never overwrites)",
+        },
+      },
+      required: ["projectPath", "entityName"],
+    },
+  },
+  {
+    name: "check_schema_drift",
+    description: "Compare @Entity/@Table/@Column/@JoinColumn mappings with the schema built from Flyway db/migration/V*.sql scripts or Liquibase changelogs (XML/YAML/SQL) without starting a database: missing tables, missing columns, nullability and type mismatches",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectPath: {
+          type: "string",
+          description: "Path to the Spring Boot project root",
+        },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to limit the search to; defaults to all modules",
+        },
+      },
+      required: ["projectPath"],
+    },
+  },
+  {
+    name: "map_exception_handling",
+    description: "Map exceptions to HTTP responses: @ControllerAdvice/@RestControllerAdvice @ExceptionHandler methods, @ResponseStatus exception classes and ResponseStatusException usages. For each endpoint, lists the exceptions that can reach it through the services it calls, with the resulting status code and error body shape",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectPath: {
+          type: "string",
+          description: "Path to the Spring Boot project root",
+        },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to limit the search to; defaults to all modules",
+        },
+        controllerName: {
+          type: "string",
+          description: "Optional: only map the endpoints of this controller - simple name, fully-qualified name, file path or a close abbreviation (UserCtrl)",
+        },
+      },
+      required: ["projectPath"],
+    },
+  },
+  {
+    name: "trace_endpoint",
+    description: "Trace the call chain behind one endpoint: from the controller handler through injected services (field, constructor and Lombok @RequiredArgsConstructor injection, interfaces resolved to their implementation) down to repositories and outbound clients (RestTemplate, WebClient, RestClient, Feign, messaging). Returns the chain, @Transactional boundaries and the collaborators an integration test must mock or stub",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectPath: {
+          type: "string",
+          description: "Path to the Spring Boot project root",
+        },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to limit the search to; defaults to all modules",
+        },
+        method: {
+          type: "string",
+          description: "HTTP method, e.g. POST",
+        },
+        path: {
+          type: "string",
+          description: "Request path, e.g. /api/orders/42 or /api/orders/{id}",
+        },
+      },
+      required: ["projectPath", "method", "path"],
+    },
+  },
+  {
+    name: "get_index_status",
+    description: "Report the in-process project index that tools share: indexed Java and config file counts, per source root listing time and whether fs.watch is active, files changed or deleted on disk since they were read, cache hits and read/parse timings. refresh: true indexes every Java and config file now",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectPath: {
+          type: "string",
+          description: "Path to the Spring Boot project root",
+        },
+        module: {
+          type: "string",
+          description: "Optional: Maven module (artifactId or path) to limit the search to; defaults to all modules",
+        },
+        refresh: {
+          type: "boolean",
+          description: "Optional: read and parse every Java and config file before reporting (default: false)",
+        },
+      },
+      required: ["projectPath"],
+    },
+  },
+];
+
+const RESOURCES: Resource[] = [
+  {
+    uri: "mcp://spring-integration-test/health",
+    name: "health",
+    description: "Simple liveness resource to verify the MCP server is reachable",
+    mimeType: "text/plain",
+  },
+];
+
+// Helper functions
+async function checkEnvironment(projectPath?: string): Promise<string> {
+  const results: any = {
+    platform: platform(),
+    maven: { available: false, version: "" },
+    gradle: { available: false, version: "" },
+    java: { available: false, version: "" },
+    container: { runtime: "none", version: "" },
+    recommendations: [],
+  };
+
+  const mvnCmd = getMavenCommand();
+
+  // Check Maven
+  try {
+    const { stdout } = await execAsync(`${mvnCmd} -version`);
+    results.maven.available = true;
+    const versionMatch = stdout.match(/Apache Maven ([\d.]+)/);
+    if (versionMatch) results.maven.version = versionMatch[1];
+  } catch (error) {
+    results.recommendations.push("Install Maven: https://maven.apache.org/install.html");
+  }
+
+  // Check Gradle
+  try {
+    const { stdout } = await execAsync(`${platform() === "win32" ? "gradle.bat" : "gradle"} --version`);
+    results.gradle.available = true;
+    const versionMatch = stdout.match(/Gradle ([\d.]+)/);
+    if (versionMatch) results.gradle.version = versionMatch[1];
+  } catch (error) {
+    // Gradle is optional - projects usually ship a wrapper
+  }
+
+  // Check Java
+  try {
+    const { stdout } = await execAsync("java -version");
+    results.java.available = true;
+    const versionMatch = stdout.match(/version "?([^"\s]+)"?/);
+    if (versionMatch) results.java.version = versionMatch[1];
+  } catch (error) {
+    results.recommendations.push("Install Java JDK 11+: https://adoptium.net/");
+  }
+
+  // Check container runtime
+  const runtime = await detectContainerRuntime();
+  results.container.runtime = runtime;
+
+  if (runtime !== "none") {
+    try {
+      const { stdout } = await execAsync(`${runtime} --version`);
+      const versionMatch = stdout.match(/version ([\d.]+)/);
+      if (versionMatch) results.container.version = versionMatch[1];
+    } catch (error) {
+      // Version check failed
+    }
+  } else {
+    results.recommendations.push(
+      "Optional: Install Docker (https://docs.docker.com/get-docker/) or Podman (https://podman.io/getting-started/installation)"
+    );
+  }
+
+  // Check build tool and wrappers if project path provided
+  if (projectPath) {
+    results.buildTool = await detectBuildTool(projectPath);
+
+    const wrapperPath = path.join(
+      projectPath,
+      platform() === "win32" ? "mvnw.cmd" : "mvnw"
+    );
+    try {
+      await access(wrapperPath);
+      results.mavenWrapper = true;
+      results.recommendations.push("Maven wrapper found - use ./mvnw instead of mvn");
+    } catch (error) {
+      results.mavenWrapper = false;
+    }
+
+    const gradleWrapperPath = path.join(
+      projectPath,
+      platform() === "win32" ? "gradlew.bat" : "gradlew"
+    );
+    results.gradleWrapper = await fileExists(gradleWrapperPath);
+    if (results.gradleWrapper) {
+      results.recommendations.push("Gradle wrapper found - use ./gradlew instead of gradle");
+    } else if (results.buildTool === "gradle" && !results.gradle.available) {
+      results.recommendations.push("Install Gradle (https://gradle.org/install/) or add the Gradle wrapper");
+    }
+  }
+
+  // Platform-specific recommendations
+  if (results.platform === "win32") {
+    results.recommendations.push("Windows detected - ensure paths use double backslashes in config");
+  }
+
+  return JSON.stringify(results, null, 2);
+}
+
+interface MavenDependency {
+  groupId: string;
+  artifactId: string;
+  version?: string;
+  scope?: string;
+  type?: string;
+}
+
+interface ProjectModule {
+  name: string; // artifactId for Maven modules, directory name otherwise
+  relativePath: string; // "." for the project root
+  directory: string;
+  packaging?: string;
+  properties: Record<string, string>; // own + inherited, placeholders resolved
+  managedVersions: Record<string, string>; // "groupId:artifactId" -> version from dependencyManagement
+  dependencies: MavenDependency[]; // versions filled in from dependencyManagement
+  springBootVersion?: string;
+}
+
+const pomParser = new XMLParser({ parseTagValue: false });
+
+function asArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function interpolate(value: string | undefined, properties: Record<string, string>): string | undefined {
+  if (value === undefined) return undefined;
+  let result = String(value).trim();
+  // Properties may reference each other, so resolve a few levels deep
+  for (let i = 0; i < 5 && result.includes("${"); i++) {
+    result = result.replace(/\$\{([^}]+)\}/g, (placeholder, key) => properties[key] ?? placeholder);
+  }
+  return result;
+}
+
+// `tracked` collects every POM read, so a cached module list knows what to revalidate
+async function readPom(pomPath: string, tracked?: Set<string>): Promise<any | null> {
+  tracked?.add(pomPath);
+  try {
+    const file = await indexedFile(pomPath);
+    if (file.pom === undefined) file.pom = pomParser.parse(file.content).project ?? null;
+    return file.pom;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Resolve a module's parent chain, inheriting properties and dependencyManagement
+async function resolveMavenModule(
+  pomPath: string,
+  projectPath: string,
+  cache: Map<string, ProjectModule | null>,
+  tracked?: Set<string>
+): Promise<ProjectModule | null> {
+  if (cache.has(pomPath)) return cache.get(pomPath) ?? null;
+  cache.set(pomPath, null); // Guards against parent cycles
+
+  const pom = await readPom(pomPath, tracked);
+  if (!pom) return null;
+
+  const directory = path.dirname(pomPath);
+  let inherited: ProjectModule | null = null;
+
+  if (pom.parent) {
+    const parentRelative = pom.parent.relativePath ?? "../pom.xml";
+    let parentPomPath = path.resolve(directory, String(parentRelative || "../pom.xml"));
+    if (!parentPomPath.endsWith(".xml")) parentPomPath = path.join(parentPomPath, "pom.xml");
+
+    const parentPom = parentRelative === "" ? null : await readPom(parentPomPath, tracked);
+    if (parentPom && parentPom.artifactId === pom.parent.artifactId) {
+      inherited = await resolveMavenModule(parentPomPath, projectPath, cache, tracked);
+    }
+  }
+
+  const artifactId = String(pom.artifactId ?? path.basename(directory));
+  const version = pom.version ?? pom.parent?.version;
+  const properties: Record<string, string> = {
+    ...(inherited?.properties ?? {}),
+    "project.artifactId": artifactId,
+    "project.groupId": String(pom.groupId ?? pom.parent?.groupId ?? ""),
+    "project.version": String(version ?? ""),
+    "project.parent.version": String(pom.parent?.version ?? ""),
+  };
+  for (const [key, value] of Object.entries(pom.properties ?? {})) {
+    properties[key] = String(value);
+  }
+  for (const key of Object.keys(properties)) {
+    properties[key] = interpolate(properties[key], properties) ?? "";
+  }
+
+  const managedVersions: Record<string, string> = { ...(inherited?.managedVersions ?? {}) };
+  for (const dep of asArray<any>(pom.dependencyManagement?.dependencies?.dependency)) {
+    const resolvedVersion = interpolate(dep.version, properties);
+    if (resolvedVersion) {
+      managedVersions[`${interpolate(dep.groupId, properties)}:${interpolate(dep.artifactId, properties)}`] = resolvedVersion;
+    }
+  }
+
+  const dependencies: MavenDependency[] = asArray<any>(pom.dependencies?.dependency).map((dep) => {
+    const groupId = interpolate(dep.groupId, properties) ?? "";
+    const depArtifactId = interpolate(dep.artifactId, properties) ?? "";
+    return {
+      groupId,
+      artifactId: depArtifactId,
+      version: interpolate(dep.version, properties) ?? managedVersions[`${groupId}:${depArtifactId}`],
+      scope: dep.scope,
+      type: dep.type,
+    };
+  });
+
+  const isBootParent =
+    pom.parent?.groupId === "org.springframework.boot" &&
+    pom.parent?.artifactId === "spring-boot-starter-parent";
+  const springBootVersion =
+    (isBootParent ? interpolate(pom.parent.version, properties) : undefined) ||
+    inherited?.springBootVersion ||
+    managedVersions["org.springframework.boot:spring-boot-dependencies"] ||
+    properties["spring-boot.version"];
+
+  const module: ProjectModule = {
+    name: artifactId,
+    relativePath: path.relative(projectPath, directory).split(path.sep).join("/") || ".",
+    directory,
+    packaging: pom.packaging,
+    properties,
+    managedVersions,
+    dependencies,
+    springBootVersion,
+  };
+  cache.set(pomPath, module);
+  return module;
+}
+
+// Module lists by project with the content hash of every POM read for them ("" when missing)
+const mavenModuleLists = new Map<string, { poms: Map<string, string>; modules: ProjectModule[] }>();
+
+async function pomHash(pomPath: string): Promise<string> {
+  return indexedFile(pomPath).then((file) => file.hash, () => "");
+}
+
+// Walk <modules> recursively from the root pom.xml; empty when the project is not Maven.
+// Reused until one of the POMs it was built from changes.
+async function discoverMavenModules(projectPath: string): Promise<ProjectModule[]> {
+  const listed = mavenModuleLists.get(path.resolve(projectPath));
+  if (listed) {
+    let unchanged = true;
+    for (const [pomPath, hash] of listed.poms) {
+      if ((await pomHash(pomPath)) !== hash) {
+        unchanged = false;
+        break;
+      }
+    }
+    if (unchanged) return listed.modules;
+  }
+
+  const tracked = new Set<string>();
+  const cache = new Map<string, ProjectModule | null>();
+  const modules: ProjectModule[] = [];
+  const visited = new Set<string>();
+  const queue = [path.resolve(projectPath, "pom.xml")];
+
+  while (queue.length > 0) {
+    const pomPath = queue.shift()!;
+    if (visited.has(pomPath)) continue;
+    visited.add(pomPath);
+
+    const module = await resolveMavenModule(pomPath, path.resolve(projectPath), cache, tracked);
+    if (!module) continue;
+    modules.push(module);
+
+    const pom = await readPom(pomPath, tracked);
+    for (const child of asArray<any>(pom?.modules?.module)) {
+      let childPomPath = path.resolve(module.directory, String(child));
+      if (!childPomPath.endsWith(".xml")) childPomPath = path.join(childPomPath, "pom.xml");
+      queue.push(childPomPath);
+    }
+  }
+
+  const poms = new Map<string, string>();
+  for (const pomPath of tracked) poms.set(pomPath, await pomHash(pomPath));
+  mavenModuleLists.set(path.resolve(projectPath), { poms, modules });
+  return modules;
+}
+
+// Gradle project paths (":services:user") name the directory services/user
+function moduleDirectoryName(moduleName: string): string {
+  if (!moduleName.startsWith(":")) return moduleName;
+  return moduleName.split(":").filter(Boolean).join("/") || ".";
+}
+
+// Module names outside a Maven reactor end up in Gradle command lines: only word characters,
+// dots and dashes between ":" or "/" separators, and never "." or ".." segments
+const MODULE_NAME_PATTERN = /^:?[\w.-]+(?:[:/][\w.-]+)*\/?$/;
+
+async function moduleDirectory(projectPath: string, moduleName: string): Promise<string> {
+  const relativePath = moduleDirectoryName(moduleName).replace(/\/$/, "");
+  if (!MODULE_NAME_PATTERN.test(moduleName) || relativePath.split("/").some((segment) => /^\.\.?$/.test(segment))) {
+    throw new Error(`Invalid module "${moduleName}" - pass a Gradle project path (:services:user) or a directory (services/user)`);
+  }
+  const directory = path.join(projectPath, relativePath);
+  const isDirectory = await stat(directory).then((s) => s.isDirectory(), () => false);
+  if (!isDirectory) throw new Error(`Module "${moduleName}" not found - ${relativePath} is not a directory of the project`);
+  return directory;
+}
+
+// All modules when no name is given, otherwise the one matching artifactId, path or directory name
+async function selectModules(projectPath: string, moduleName?: string): Promise<ProjectModule[]> {
+  let modules = await discoverMavenModules(projectPath);
+
+  if (modules.length === 0) {
+    const directory = moduleName ? await moduleDirectory(projectPath, moduleName) : projectPath;
+    const relativePath = moduleName ? path.relative(projectPath, directory).split(path.sep).join("/") : ".";
+    modules = [{
+      name: path.basename(path.resolve(directory)),
+      relativePath,
+      directory,
+      properties: {},
+      managedVersions: {},
+      dependencies: [],
+    }];
+    return modules;
+  }
+
+  if (!moduleName) return modules;
+
+  const normalized = moduleName.replace(/\\/g, "/").replace(/^\.\/|\/$/g, "").replace(/^:/, "");
+  const match = modules.find((m) =>
+    m.name === normalized ||
+    m.relativePath === normalized ||
+    path.basename(m.directory) === normalized
+  );
+
+  if (!match) {
+    throw new Error(
+      `Module ${moduleName} not found. Available modules: ${modules.map((m) => m.relativePath).join(", ")}`
+    );
+  }
+
+  return [match];
+}
+
+async function getSourceRoots(
+  projectPath: string,
+  sourceSet: "main" | "test",
+  kind: "java" | "resources",
+  moduleName?: string
+): Promise<string[]> {
+  const modules = await selectModules(projectPath, moduleName);
+  return modules.map((m) => path.join(m.directory, "src", sourceSet, kind));
+}
+
+// Module directory of a source file, relative to the project ("." for the root module)
+function moduleOfFile(projectPath: string, filePath: string): string {
+  const relative = path.relative(projectPath, filePath).split(path.sep).join("/");
+  const srcIndex = relative.indexOf("src/");
+  return srcIndex > 0 ? relative.slice(0, srcIndex - 1) : ".";
+}
+
+// Project index: every Java, config and build file (POMs, Gradle scripts, migrations) is read
+// and parsed once and shared by all tools.
+// Entries are keyed by absolute path with the mtime, size and content hash they were read at.
+interface IndexedFile {
+  root?: string; // Listed source root, whose watcher reports changes to this file
+  mtimeMs: number;
+  size: number;
+  hash: string;
+  content: string;
+  stale: boolean; // Flagged by the watcher, revalidated on next access
+  java?: JavaSourceFile;
+  config?: Record<string, string>[];
+  pom?: any; // Parsed <project>, null when the file is not a POM
+}
+
+interface IndexedRoot {
+  files: string[];
+  directories: Map<string, number>; // Directory mtimes at listing time (-1 when missing)
+  watcher?: FSWatcher;
+  stale: boolean;
+  listedAt: number;
+  listingMs: number;
+}
+
+// MCP_INDEX_WATCH=false checks mtimes only, for bind mounts that deliver no file events (Docker Desktop)
+const INDEX_WATCH = !/^(false|0|no)$/i.test(process.env.MCP_INDEX_WATCH || "");
+
+const projectIndex = {
+  files: new Map<string, IndexedFile>(),
+  roots: new Map<string, IndexedRoot>(),
+  counters: { hits: 0, reads: 0, unchangedReads: 0, parses: 0, watchEvents: 0 },
+  timing: { readMs: 0, parseMs: 0 },
+};
+
+// First position in a sorted array whose value is not less than `value`
+function sortedIndexOf(values: string[], value: string): number {
+  let low = 0;
+  let high = values.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (values[middle] < value) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+}
+
+function watchSourceRoot(root: string, indexed: IndexedRoot) {
+  if (!INDEX_WATCH) return;
+  try {
+    const watcher = watch(root, { recursive: true, persistent: false }, (eventType, filename) => {
+      projectIndex.counters.watchEvents++;
+      if (eventType === "rename" || !filename) indexed.stale = true;
+      const changed = filename ? path.join(root, filename.toString()) : root;
+      const entry = projectIndex.files.get(changed);
+      if (entry) {
+        entry.stale = true;
+      } else if (eventType === "rename" || !filename) {
+        // A renamed directory takes every file below it along - a contiguous range of the sorted listing
+        const prefix = changed + path.sep;
+        for (let i = sortedIndexOf(indexed.files, prefix); i < indexed.files.length && indexed.files[i].startsWith(prefix); i++) {
+          const below = projectIndex.files.get(indexed.files[i]);
+          if (below) below.stale = true;
+        }
+      }
+    });
+    watcher.on("error", () => {
+      // Root removed or out of inotify watches - fall back to mtime checks
+      watcher.close();
+      indexed.watcher = undefined;
+      indexed.stale = true;
+    });
+    indexed.watcher = watcher;
+  } catch (error) {
+    // Missing root or no recursive watch support - mtime checks only
+  }
+}
+
+async function listSourceRoot(root: string): Promise<Pick<IndexedRoot, "files" | "directories">> {
+  const files: string[] = [];
+  const directories = new Map<string, number>();
+  const visit = async (directory: string) => {
+    try {
+      directories.set(directory, (await stat(directory)).mtimeMs);
+      for (const entry of await readdir(directory, { withFileTypes: true })) {
+        const child = path.join(directory, entry.name);
+        if (entry.isDirectory()) await visit(child);
+        else if (entry.isFile()) files.push(child);
+      }
+    } catch (error) {
+      directories.set(directory, -1);
+    }
+  };
+  await visit(root);
+  return { files: files.sort(), directories };
+}
+
+async function directoriesChanged(indexed: IndexedRoot): Promise<boolean> {
+  for (const [directory, mtimeMs] of indexed.directories) {
+    const current = await stat(directory).then((s) => s.mtimeMs, () => -1);
+    if (current !== mtimeMs) return true;
+  }
+  return false;
+}
+
+// File listing of a source root; relisted after a watcher event, or when a directory mtime moved
+async function indexedSourceRoot(sourceRoot: string): Promise<IndexedRoot> {
+  const root = path.resolve(sourceRoot);
+  const cached = projectIndex.roots.get(root);
+  if (cached && !cached.stale && (cached.watcher || !(await directoriesChanged(cached)))) return cached;
+
+  const started = Date.now();
+  const indexed: IndexedRoot = {
+    ...(await listSourceRoot(root)),
+    watcher: cached?.watcher,
+    stale: false,
+    listedAt: started,
+    listingMs: 0,
+  };
+  indexed.listingMs = Date.now() - started;
+  if (cached?.watcher) {
+    // The watcher callback holds the old entry; keep flagging through it
+    Object.assign(cached, indexed);
+  } else {
+    projectIndex.roots.set(root, indexed);
+    watchSourceRoot(root, indexed);
+  }
+  for (const file of indexed.files) {
+    const entry = projectIndex.files.get(file);
+    if (entry) entry.root = root;
+  }
+  return projectIndex.roots.get(root)!;
+}
+
+// Java files under the given source roots, sorted
+async function javaSourceFiles(sourceRoots: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const sourceRoot of sourceRoots) {
+    files.push(...(await indexedSourceRoot(sourceRoot)).files.filter((f) => f.endsWith(".java")));
+  }
+  return files.sort();
+}
+
+// Content of a file through the index; throws like readFile when the file is missing
+async function indexedFile(filePath: string): Promise<IndexedFile> {
+  const key = path.resolve(filePath);
+  const cached = projectIndex.files.get(key);
+  if (cached && !cached.stale && cached.root && projectIndex.roots.get(cached.root)?.watcher) {
+    projectIndex.counters.hits++;
+    return cached;
+  }
+
+  const stats = await stat(key);
+  if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+    cached.stale = false;
+    projectIndex.counters.hits++;
+    return cached;
+  }
+
+  const started = Date.now();
+  const content = await readFile(key, "utf-8");
+  const hash = createHash("sha1").update(content).digest("hex");
+  projectIndex.timing.readMs += Date.now() - started;
+  projectIndex.counters.reads++;
+
+  const root = Array.from(projectIndex.roots.keys()).find((r) => key.startsWith(r + path.sep));
+  // Touched but unchanged: keep the parsed model
+  const unchanged = cached !== undefined && cached.hash === hash;
+  if (unchanged) projectIndex.counters.unchangedReads++;
+  const file: IndexedFile = unchanged
+    ? { ...cached, root, mtimeMs: stats.mtimeMs, size: stats.size, stale: false }
+    : { root, mtimeMs: stats.mtimeMs, size: stats.size, hash, content, stale: false };
+  projectIndex.files.set(key, file);
+  return file;
+}
+
+async function readJavaFile(filePath: string): Promise<string> {
+  return (await indexedFile(filePath)).content;
+}
+
+// Build scripts and migrations; throws like readFile when the file is missing
+async function readIndexedFile(filePath: string): Promise<string> {
+  return (await indexedFile(filePath)).content;
+}
+
+// "UserService", "*Controller" or "web/*Controller" against the tail of a file path
+function javaFilePattern(pattern: string): RegExp {
+  const expression = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, "[^/]*").replace(/\?/g, "[^/]");
+  return new RegExp(`(^|/)${expression}\\.java$`);
+}
+
+async function findJavaFiles(projectPath: string, pattern: string, moduleName?: string): Promise<string[]> {
+  const srcPaths = await getSourceRoots(projectPath, "main", "java", moduleName);
+  const matcher = javaFilePattern(pattern);
+  return (await javaSourceFiles(srcPaths)).filter((file) => matcher.test(file.split(path.sep).join("/")));
+}
+
+async function findTestFiles(projectPath: string, pattern: string, moduleName?: string): Promise<string[]> {
+  const testPaths = await getSourceRoots(projectPath, "test", "java", moduleName);
+  const matcher = javaFilePattern(pattern);
+  return (await javaSourceFiles(testPaths)).filter((file) => matcher.test(file.split(path.sep).join("/")));
+}
+
+interface JavaClassMatch {
+  name: string;
+  qualifiedName: string;
+  file: string;
+}
+
+interface ClassResolution {
+  match?: JavaClassMatch;
+  matchedBy?: "file path" | "qualified name" | "simple name" | "case-insensitive name" | "abbreviation";
+  candidates: JavaClassMatch[]; // Several classes fit equally well
+  suggestions: string[]; // Nothing fits; near misses by edit distance
+}
+
+// Letters of the query in order within the name, starting with its first letter
+// (Usr -> User, UserCtrl -> UserController); the gap is how many letters the query leaves out
+function abbreviationGap(query: string, name: string): number | undefined {
+  const lowerQuery = query.toLowerCase();
+  const lowerName = name.toLowerCase();
+  if (lowerQuery[0] !== lowerName[0]) return undefined;
+  let position = 0;
+  for (const letter of lowerQuery) {
+    position = lowerName.indexOf(letter, position);
+    if (position < 0) return undefined;
+    position++;
+  }
+  return lowerName.length - lowerQuery.length;
+}
+
+// Main-source classes for a user-supplied name: a file path, a fully-qualified name (nested
+// classes too), a simple name in any case, or an abbreviation. `accepts` prefers the kind of
+// class the caller expects (controllers, entities, ...) when several fit.
+async function resolveJavaClass(
+  projectPath: string,
+  name: string,
+  moduleName?: string,
+  accepts?: (javaClass: JavaClass) => boolean
+): Promise<ClassResolution> {
+  const declared: JavaClassMatch[] = [];
+  for (const srcPath of await getSourceRoots(projectPath, "main", "java", moduleName)) {
+    for (const file of await javaSourceFiles([srcPath])) {
+      const relative = path.relative(path.resolve(srcPath), file).replace(/\.java$/, "");
+      declared.push({ name: path.basename(relative), qualifiedName: relative.split(path.sep).join("."), file });
+    }
+  }
+
+  const accepted = async (matches: JavaClassMatch[]) => {
+    const kept: JavaClassMatch[] = [];
+    for (const match of matches) {
+      const javaClass = allJavaClasses(await parseJavaFile(match.file)).find((c) => c.name === match.name);
+      if (!accepts || (javaClass && accepts(javaClass))) kept.push(match);
+    }
+    return kept;
+  };
+  const resolved = async (matches: JavaClassMatch[], matchedBy: ClassResolution["matchedBy"]): Promise<ClassResolution> => {
+    // Duplicates in other packages or modules: keep the ones of the expected kind when that decides it
+    const preferred = matches.length > 1 ? await accepted(matches) : matches;
+    const remaining = preferred.length > 0 ? preferred : matches;
+    return remaining.length === 1
+      ? { match: remaining[0], matchedBy, candidates: [], suggestions: [] }
+      : { candidates: remaining, suggestions: [] };
+  };
+
+  let query = name.trim();
+  if (/\.java$|[\\/]/.test(query)) {
+    const file = path.resolve(projectPath, query);
+    const tail = path.sep + path.normalize(query).replace(/^[\\/]+/, "");
+    const byPath = declared.filter((d) => d.file === file || d.file.endsWith(tail));
+    if (byPath.length > 0) return resolved(byPath, "file path");
+    query = path.basename(query, ".java");
+  }
+
+  if (query.includes(".")) {
+    // com.acme.web.UserController, or com.acme.web.Outer.Inner through Outer.java
+    const outer = declared
+      .filter((d) => query === d.qualifiedName || query.startsWith(`${d.qualifiedName}.`))
+      .sort((a, b) => b.qualifiedName.length - a.qualifiedName.length)[0];
+    if (outer) {
+      const match = { name: query.split(".").pop()!, qualifiedName: query, file: outer.file };
+      if (allJavaClasses(await parseJavaFile(outer.file)).some((c) => c.name === match.name)) {
+        return { match, matchedBy: "qualified name", candidates: [], suggestions: [] };
+      }
+    }
+    query = query.split(".").pop()!;
+  }
+
+  const exact = declared.filter((d) => d.name === query);
+  if (exact.length > 0) return resolved(exact, "simple name");
+  const ignoringCase = declared.filter((d) => d.name.toLowerCase() === query.toLowerCase());
+  if (ignoringCase.length > 0) return resolved(ignoringCase, "case-insensitive name");
+
+  // Abbreviations (UserCtrl -> UserController): only classes of the expected kind qualify, and
+  // only one that fits alone is taken; kind first, then closest first, so the cap cannot hide a rival
+  const gaps = new Map<JavaClassMatch, number>();
+  for (const d of declared) {
+    const gap = abbreviationGap(query, d.name);
+    if (gap !== undefined) gaps.set(d, gap);
+  }
+  const abbreviated = (await accepted(Array.from(gaps.keys())))
+    .sort((a, b) => gaps.get(a)! - gaps.get(b)!)
+    .slice(0, 50);
+  if (abbreviated.length === 1) {
+    return { match: abbreviated[0], matchedBy: "abbreviation", candidates: [], suggestions: [] };
+  }
+
+  // Several abbreviations fit: list them; none fits: suggest other kinds and near misses by edit distance
+  const byLetters = Array.from(gaps.entries())
+    .sort((a, b) => a[1] - b[1])
+    .map(([d]) => d.name);
+  const byDistance = declared
+    .map((d) => ({ name: d.name, distance: editDistance(query.toLowerCase(), d.name.toLowerCase()) }))
+    .filter((entry) => entry.distance <= Math.max(2, Math.floor(query.length / 2)))
+    .sort((a, b) => a.distance - b.distance)
+    .map((entry) => entry.name);
+  const suggestions = abbreviated.length > 1 ? byDistance : [...byLetters, ...byDistance];
+  return { candidates: abbreviated.slice(0, 10), suggestions: Array.from(new Set(suggestions)).slice(0, 5) };
+}
+
+// found: false for a name that did not resolve to exactly one class
+function unresolvedClass(projectPath: string, label: string, name: string, resolution: ClassResolution): string {
+  if (resolution.candidates.length > 0) {
+    return JSON.stringify({
+      found: false,
+      message: `${label} ${name} matches ${resolution.candidates.length} classes - pass the fully-qualified name or file path`,
+      candidates: resolution.candidates.map((c) => ({
+        qualifiedName: c.qualifiedName,
+        file: path.relative(projectPath, c.file).split(path.sep).join("/"),
+      })),
+      ...(resolution.suggestions.length > 0 ? { didYouMean: resolution.suggestions } : {}),
+    }, null, 2);
+  }
+  return JSON.stringify({
+    found: false,
+    message: `${label} ${name} not found`,
+    ...(resolution.suggestions.length > 0 ? { didYouMean: resolution.suggestions } : {}),
+  }, null, 2);
+}
+
+// Shown when the class was found by something other than its exact simple name
+function resolvedFrom(name: string, resolution: ClassResolution): { resolvedFrom?: { name: string; matchedBy: string } } {
+  return resolution.match && resolution.matchedBy !== "simple name"
+    ? { resolvedFrom: { name, matchedBy: resolution.matchedBy! } }
+    : {};
+}
+
+// Java source model - a declaration-level parser for classes, annotations,
+// fields, constructors and methods. Method bodies are kept as raw text.
+type JavaAnnotationValue = string | string[];
+
+interface JavaAnnotation {
+  name: string; // simple name, e.g. "GetMapping"
+  qualifiedName: string;
+  attributes: Record<string, JavaAnnotationValue>; // single-element form is stored as "value"
+  expressions?: Record<string, string[]>; // per attribute, values written as expressions (constants, enums, ...) rather than literals
+  line: number;
+}
+
+interface JavaParameter {
+  name: string;
+  type: string;
+  modifiers: string[];
+  annotations: JavaAnnotation[];
+}
+
+interface JavaField {
+  name: string;
+  type: string;
+  modifiers: string[];
+  annotations: JavaAnnotation[];
+  initializer?: string;
+  line: number;
+}
+
+interface JavaConstructor {
+  modifiers: string[];
+  annotations: JavaAnnotation[];
+  parameters: JavaParameter[];
+  throws: string[];
+  body?: string;
+  line: number;
+}
+
+interface JavaMethod extends JavaConstructor {
+  name: string;
+  returnType: string;
+  typeParameters?: string;
+  defaultValue?: JavaAnnotationValue;
+  endLine: number;
+}
+
+interface JavaClass {
+  name: string;
+  kind: "class" | "interface" | "enum" | "record" | "annotation";
+  modifiers: string[];
+  annotations: JavaAnnotation[];
+  typeParameters?: string;
+  extends: string[];
+  implements: string[];
+  fields: JavaField[];
+  constructors: JavaConstructor[];
+  methods: JavaMethod[];
+  enumConstants: string[];
+  recordComponents: JavaParameter[];
+  innerClasses: JavaClass[];
+  line: number;
+}
+
+interface JavaSourceFile {
+  packageName: string;
+  imports: string[];
+  classes: JavaClass[];
+}
+
+interface JavaToken {
+  kind: "ident" | "string" | "char" | "number" | "punct";
+  value: string;
+  start: number;
+  end: number;
+  line: number;
+}
+
+const JAVA_MODIFIERS = new Set([
+  "public", "protected", "private", "static", "final", "abstract", "native",
+  "synchronized", "transient", "volatile", "strictfp", "default", "sealed",
+]);
+
+const JAVA_MULTI_CHAR_PUNCT = ["...", "->", "::"];
+
+function unescapeJavaString(raw: string): string {
+  return raw.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, escaped: string) => {
+    if (escaped.length === 5) return String.fromCharCode(parseInt(escaped.slice(1), 16));
+    return ({ n: "\n", t: "\t", r: "\r", b: "\b", f: "\f", s: " " } as Record<string, string>)[escaped] ?? escaped;
+  });
+}
+
+function tokenizeJava(source: string): JavaToken[] {
+  const tokens: JavaToken[] = [];
+  const length = source.length;
+  let i = 0;
+  let line = 1;
+
+  const advanceTo = (stop: number) => {
+    for (; i < stop; i++) if (source[i] === "\n") line++;
+  };
+
+  while (i < length) {
+    const ch = source[i];
+
+    if (ch === "\n" || /\s/.test(ch)) {
+      advanceTo(i + 1);
+      continue;
+    }
+    if (ch === "/" && source[i + 1] === "/") {
+      const end = source.indexOf("\n", i);
+      advanceTo(end < 0 ? length : end);
+      continue;
+    }
+    if (ch === "/" && source[i + 1] === "*") {
+      const end = source.indexOf("*/", i + 2);
+      advanceTo(end < 0 ? length : end + 2);
+      continue;
+    }
+
+    const start = i;
+    const startLine = line;
+
+    if (source.startsWith('"""', i)) {
+      let j = i + 3;
+      while (j < length && !(source.startsWith('"""', j) && source[j - 1] !== "\\")) j++;
+      const raw = source.slice(source.indexOf("\n", i + 3) + 1, j);
+      advanceTo(Math.min(j + 3, length));
+      tokens.push({ kind: "string", value: unescapeJavaString(raw), start, end: i, line: startLine });
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let j = i + 1;
+      while (j < length && source[j] !== ch && source[j] !== "\n") {
+        if (source[j] === "\\") j++;
+        j++;
+      }
+      const raw = source.slice(i + 1, j);
+      advanceTo(Math.min(j + 1, length));
+      tokens.push({
+        kind: ch === '"' ? "string" : "char",
+        value: unescapeJavaString(raw),
+        start,
+        end: i,
+        line: startLine,
+      });
+      continue;
+    }
+
+    if (/[\p{L}_$]/u.test(ch)) {
+      let j = i + 1;
+      while (j < length && /[\p{L}\p{N}_$]/u.test(source[j])) j++;
+      tokens.push({ kind: "ident", value: source.slice(i, j), start, end: j, line: startLine });
+      i = j;
+      continue;
+    }
+
+    if (/\d/.test(ch) || (ch === "." && /\d/.test(source[i + 1] ?? ""))) {
+      let j = i + 1;
+      while (j < length && /[\w.]/.test(source[j])) j++;
+      tokens.push({ kind: "number", value: source.slice(i, j), start, end: j, line: startLine });
+      i = j;
+      continue;
+    }
+
+    const multi = JAVA_MULTI_CHAR_PUNCT.find((p) => source.startsWith(p, i));
+    const value = multi ?? ch;
+    tokens.push({ kind: "punct", value, start, end: i + value.length, line: startLine });
+    i += value.length;
+  }
+
+  return tokens;
+}
+
+function parseJavaSource(source: string): JavaSourceFile {
+  const tokens = tokenizeJava(source);
+  const result: JavaSourceFile = { packageName: "", imports: [], classes: [] };
+  let pos = 0;
+
+  const peek = (offset = 0): JavaToken | undefined => tokens[pos + offset];
+  const isPunct = (value: string, offset = 0) =>
+    peek(offset)?.kind === "punct" && peek(offset)?.value === value;
+  const isIdent = (value?: string, offset = 0) =>
+    peek(offset)?.kind === "ident" && (value === undefined || peek(offset)?.value === value);
+  const textOf = (from: number, to: number) =>
+    from <= to && tokens[from] && tokens[to] ? source.slice(tokens[from].start, tokens[to].end) : "";
+
+  // Consume a balanced open/close pair starting at the current token; returns the closing index
+  const skipBalanced = (open: string, close: string): number => {
+    let depth = 0;
+    while (pos < tokens.length) {
+      const token = tokens[pos++];
+      if (token.kind !== "punct") continue;
+      if (token.value === open) depth++;
+      if (token.value === close && --depth === 0) return pos - 1;
+    }
+    return tokens.length - 1;
+  };
+
+  const parseQualifiedName = (): string => {
+    let name = isIdent() ? tokens[pos++].value : "";
+    while (isPunct(".") && isIdent(undefined, 1)) {
+      name += "." + tokens[pos + 1].value;
+      pos += 2;
+    }
+    return name;
+  };
+
+  // Collects the source text of non-literal element values for the attribute being parsed
+  let expressionSink: string[] | undefined;
+
+  const parseElementValue = (): JavaAnnotationValue => {
+    if (isPunct("{")) {
+      pos++;
+      const items: string[] = [];
+      while (pos < tokens.length && !isPunct("}")) {
+        const before = pos;
+        const value = parseElementValue();
+        items.push(...(Array.isArray(value) ? value : [value]));
+        if (isPunct(",")) pos++;
+        else if (pos === before) pos++;
+      }
+      pos++;
+      return items;
+    }
+
+    if (isPunct("@")) {
+      const start = pos;
+      parseAnnotation();
+      return textOf(start, pos - 1);
+    }
+
+    const start = pos;
+    let depth = 0;
+    while (pos < tokens.length) {
+      const token = tokens[pos];
+      if (token.kind === "punct") {
+        if (["(", "[", "{"].includes(token.value)) depth++;
+        if ([")", "]", "}"].includes(token.value)) {
+          if (depth === 0) break;
+          depth--;
+        }
+        if ((token.value === "," || token.value === ";") && depth === 0) break;
+      }
+      pos++;
+    }
+
+    const expression = tokens.slice(start, pos);
+    const isStringConcat = expression.length > 0 && expression.every((token, index) =>
+      index % 2 === 0 ? token.kind === "string" : token.kind === "punct" && token.value === "+"
+    );
+    if (isStringConcat) return expression.filter((t) => t.kind === "string").map((t) => t.value).join("");
+    const text = textOf(start, pos - 1);
+    expressionSink?.push(text);
+    return text;
+  };
+
+  function parseAnnotation(): JavaAnnotation {
+    const line = tokens[pos].line;
+    pos++; // @
+    const qualifiedName = parseQualifiedName();
+    const attributes: Record<string, JavaAnnotationValue> = {};
+    let expressions: Record<string, string[]> | undefined;
+
+    const parseAttribute = (key: string) => {
+      const outer = expressionSink;
+      const sink: string[] = [];
+      expressionSink = sink;
+      attributes[key] = parseElementValue();
+      expressionSink = outer;
+      if (sink.length > 0) (expressions ??= {})[key] = sink;
+    };
+
+    if (isPunct("(")) {
+      pos++;
+      if (isIdent() && isPunct("=", 1)) {
+        while (isIdent() && isPunct("=", 1)) {
+          const key = tokens[pos].value;
+          pos += 2;
+          parseAttribute(key);
+          if (isPunct(",")) pos++;
+        }
+      } else if (!isPunct(")")) {
+        parseAttribute("value");
+      }
+      while (pos < tokens.length && !isPunct(")")) pos++;
+      pos++;
+    }
+
+    return {
+      name: qualifiedName.split(".").pop() || qualifiedName,
+      qualifiedName,
+      attributes,
+      ...(expressions ? { expressions } : {}),
+      line,
+    };
+  }
+
+  const parseModifiers = (): { modifiers: string[]; annotations: JavaAnnotation[] } => {
+    const modifiers: string[] = [];
+    const annotations: JavaAnnotation[] = [];
+
+    while (pos < tokens.length) {
+      if (isPunct("@") && !isIdent("interface", 1)) {
+        annotations.push(parseAnnotation());
+      } else if (isIdent() && JAVA_MODIFIERS.has(tokens[pos].value)) {
+        modifiers.push(tokens[pos++].value);
+      } else if (isIdent("non") && isPunct("-", 1) && isIdent("sealed", 2)) {
+        modifiers.push("non-sealed");
+        pos += 3;
+      } else {
+        break;
+      }
+    }
+
+    return { modifiers, annotations };
+  };
+
+  const parseTypeArguments = (): string => {
+    pos++; // <
+    const args: string[] = [];
+    while (pos < tokens.length && !isPunct(">")) {
+      const before = pos;
+      args.push(parseType());
+      if (isPunct(",")) pos++;
+      else if (pos === before) pos++;
+    }
+    pos++; // >
+    return `<${args.join(", ")}>`;
+  };
+
+  function parseType(): string {
+    while (isPunct("@") && !isIdent("interface", 1)) parseAnnotation();
+
+    if (isPunct("?")) {
+      pos++;
+      if (isIdent("extends") || isIdent("super")) {
+        const bound = tokens[pos++].value;
+        return `? ${bound} ${parseType()}`;
+      }
+      return "?";
+    }
+
+    let type = isIdent() ? tokens[pos++].value : "";
+    while (pos < tokens.length) {
+      if (isPunct("<")) {
+        type += parseTypeArguments();
+      } else if (isPunct(".") && (isIdent(undefined, 1) || isPunct("@", 1))) {
+        pos++;
+        while (isPunct("@")) parseAnnotation();
+        type += "." + (isIdent() ? tokens[pos++].value : "");
+      } else {
+        break;
+      }
+    }
+    while (isPunct("[") && isPunct("]", 1)) {
+      pos += 2;
+      type += "[]";
+    }
+    if (isPunct("...")) {
+      pos++;
+      type += "...";
+    }
+    return type;
+  }
+
+  const parseParameters = (): JavaParameter[] => {
+    const parameters: JavaParameter[] = [];
+    pos++; // (
+    while (pos < tokens.length && !isPunct(")")) {
+      const before = pos;
+      const { modifiers, annotations } = parseModifiers();
+      let type = parseType();
+      const name = isIdent() ? tokens[pos++].value : "";
+      while (isPunct("[") && isPunct("]", 1)) {
+        pos += 2;
+        type += "[]";
+      }
+      if (type) parameters.push({ name, type, modifiers, annotations });
+      if (isPunct(",")) pos++;
+      else if (pos === before) pos++;
+    }
+    pos++; // )
+    return parameters;
+  };
+
+  const parseThrows = (): string[] => {
+    const thrown: string[] = [];
+    if (!isIdent("throws")) return thrown;
+    pos++;
+    thrown.push(parseType());
+    while (isPunct(",")) {
+      pos++;
+      thrown.push(parseType());
+    }
+    return thrown;
+  };
+
+  const parseBody = (): { body?: string; endLine: number } => {
+    if (isPunct("{")) {
+      const start = pos;
+      const end = skipBalanced("{", "}");
+      return { body: textOf(start, end), endLine: tokens[end].line };
+    }
+    const endLine = peek()?.line ?? 0;
+    if (isPunct(";")) pos++;
+    return { endLine };
+  };
+
+  // Field initializer up to the next top-level ',' or ';', tolerating generic commas
+  const parseInitializer = (): string => {
+    const start = pos;
+    let depth = 0;
+    let angles = 0;
+    while (pos < tokens.length) {
+      const token = tokens[pos];
+      if (token.kind === "punct") {
+        if (["(", "[", "{"].includes(token.value)) depth++;
+        if ([")", "]", "}"].includes(token.value)) {
+          if (depth === 0) break;
+          depth--;
+        }
+        const previous = tokens[pos - 1];
+        if (token.value === "<" && depth === 0 && previous?.kind === "ident" && /^[A-Z]/.test(previous.value)) angles++;
+        if (token.value === ">" && angles > 0) angles--;
+        if ((token.value === "," || token.value === ";") && depth === 0 && angles === 0) break;
+      }
+      pos++;
+    }
+    return textOf(start, pos - 1);
+  };
+
+  const isTypeDeclarationStart = (): boolean =>
+    isIdent("class") ||
+    isIdent("interface") ||
+    isIdent("enum") ||
+    (isPunct("@") && isIdent("interface", 1)) ||
+    (isIdent("record") && isIdent(undefined, 1) && (isPunct("(", 2) || isPunct("<", 2)));
+
+  const parseEnumConstants = (javaClass: JavaClass) => {
+    while (pos < tokens.length) {
+      parseModifiers();
+      if (!isIdent()) break;
+      javaClass.enumConstants.push(tokens[pos++].value);
+      if (isPunct("(")) skipBalanced("(", ")");
+      if (isPunct("{")) skipBalanced("{", "}");
+      if (isPunct(",")) pos++;
+      else break;
+    }
+    if (isPunct(";")) pos++;
+  };
+
+  const parseClassBody = (javaClass: JavaClass) => {
+    pos++; // {
+    if (javaClass.kind === "enum") parseEnumConstants(javaClass);
+
+    while (pos < tokens.length && !isPunct("}")) {
+      const memberStart = pos;
+
+      if (isPunct(";")) {
+        pos++;
+        continue;
+      }
+
+      const { modifiers, annotations } = parseModifiers();
+
+      if (isPunct("{")) {
+        skipBalanced("{", "}"); // Initializer block
+        continue;
+      }
+
+      if (isTypeDeclarationStart()) {
+        javaClass.innerClasses.push(parseTypeDeclaration(modifiers, annotations));
+        continue;
+      }
+
+      let typeParameters: string | undefined;
+      if (isPunct("<")) {
+        const start = pos;
+        typeParameters = textOf(start, skipBalanced("<", ">"));
+      }
+
+      const line = peek()?.line ?? 0;
+
+      if (isIdent(javaClass.name) && isPunct("(", 1)) {
+        pos++;
+        const parameters = parseParameters();
+        const thrown = parseThrows();
+        const { body } = parseBody();
+        javaClass.constructors.push({ modifiers, annotations, parameters, throws: thrown, body, line });
+        continue;
+      }
+
+      if (javaClass.kind === "record" && isIdent(javaClass.name) && isPunct("{", 1)) {
+        pos++;
+        skipBalanced("{", "}"); // Compact canonical constructor
+        continue;
+      }
+
+      const type = parseType();
+      if (!isIdent()) {
+        if (pos === memberStart) pos++;
+        continue;
+      }
+      const name = tokens[pos++].value;
+
+      if (isPunct("(")) {
+        const parameters = parseParameters();
+        let returnType = type;
+        while (isPunct("[") && isPunct("]", 1)) {
+          pos += 2;
+          returnType += "[]";
+        }
+        const thrown = parseThrows();
+        let defaultValue: JavaAnnotationValue | undefined;
+        if (isIdent("default")) {
+          pos++;
+          defaultValue = parseElementValue();
+        }
+        const { body, endLine } = parseBody();
+        javaClass.methods.push({
+          name,
+          returnType,
+          typeParameters,
+          modifiers,
+          annotations,
+          parameters,
+          throws: thrown,
+          defaultValue,
+          body,
+          line,
+          endLine,
+        });
+        continue;
+      }
+
+      // One declaration may introduce several fields: int a = 1, b;
+      let fieldName = name;
+      while (pos < tokens.length) {
+        let fieldType = type;
+        const fieldLine = tokens[pos - 1].line;
+        while (isPunct("[") && isPunct("]", 1)) {
+          pos += 2;
+          fieldType += "[]";
+        }
+        let initializer: string | undefined;
+        if (isPunct("=")) {
+          pos++;
+          initializer = parseInitializer();
+        }
+        javaClass.fields.push({ name: fieldName, type: fieldType, modifiers, annotations, initializer, line: fieldLine });
+        if (isPunct(",") && isIdent(undefined, 1)) {
+          fieldName = tokens[pos + 1].value;
+          pos += 2;
+          continue;
+        }
+        break;
+      }
+      if (isPunct(";")) pos++;
+      if (pos === memberStart) pos++;
+    }
+
+    pos++; // }
+  };
+
+  function parseTypeDeclaration(modifiers: string[], annotations: JavaAnnotation[]): JavaClass {
+    const line = tokens[pos].line;
+    let kind: JavaClass["kind"];
+    if (isPunct("@")) {
+      pos += 2;
+      kind = "annotation";
+    } else {
+      kind = tokens[pos++].value as JavaClass["kind"];
+    }
+
+    const javaClass: JavaClass = {
+      name: isIdent() ? tokens[pos++].value : "",
+      kind,
+      modifiers,
+      annotations,
+      extends: [],
+      implements: [],
+      fields: [],
+      constructors: [],
+      methods: [],
+      enumConstants: [],
+      recordComponents: [],
+      innerClasses: [],
+      line,
+    };
+
+    if (isPunct("<")) {
+      const start = pos;
+      javaClass.typeParameters = textOf(start, skipBalanced("<", ">"));
+    }
+
+    if (kind === "record" && isPunct("(")) {
+      javaClass.recordComponents = parseParameters();
+      for (const component of javaClass.recordComponents) {
+        javaClass.fields.push({
+          name: component.name,
+          type: component.type,
+          modifiers: ["private", "final"],
+          annotations: component.annotations,
+          line,
+        });
+      }
+    }
+
+    while (isIdent("extends") || isIdent("implements") || isIdent("permits")) {
+      const keyword = tokens[pos++].value;
+      const types = [parseType()];
+      while (isPunct(",")) {
+        pos++;
+        types.push(parseType());
+      }
+      if (keyword === "extends") javaClass.extends.push(...types);
+      if (keyword === "implements") javaClass.implements.push(...types);
+    }
+
+    while (pos < tokens.length && !isPunct("{")) pos++;
+    if (isPunct("{")) parseClassBody(javaClass);
+
+    return javaClass;
+  }
+
+  while (pos < tokens.length) {
+    if (isIdent("package")) {
+      pos++;
+      result.packageName = parseQualifiedName();
+    } else if (isIdent("import")) {
+      pos++;
+      let name = "";
+      while (pos < tokens.length && !isPunct(";")) {
+        const value = tokens[pos++].value;
+        name += value === "static" && name === "" ? "static " : value;
+      }
+      result.imports.push(name);
+    } else if (isPunct(";")) {
+      pos++;
+    } else {
+      const before = pos;
+      const { modifiers, annotations } = parseModifiers();
+      if (isTypeDeclarationStart()) {
+        result.classes.push(parseTypeDeclaration(modifiers, annotations));
+      } else if (pos === before) {
+        pos++;
+      }
+    }
+  }
+
+  return result;
+}
+
+async function parseJavaFile(filePath: string): Promise<JavaSourceFile> {
+  const file = await indexedFile(filePath);
+  if (!file.java) {
+    const started = Date.now();
+    file.java = parseJavaSource(file.content);
+    projectIndex.timing.parseMs += Date.now() - started;
+    projectIndex.counters.parses++;
+  }
+  return file.java;
+}
+
+// Top-level and nested classes of a file, outermost first
+function allJavaClasses(file: JavaSourceFile): JavaClass[] {
+  const classes: JavaClass[] = [];
+  const visit = (javaClass: JavaClass) => {
+    classes.push(javaClass);
+    javaClass.innerClasses.forEach(visit);
+  };
+  file.classes.forEach(visit);
+  return classes;
+}
+
+// The class named after the file, falling back to the first declared class
+function primaryJavaClass(file: JavaSourceFile, name: string): JavaClass | undefined {
+  return allJavaClasses(file).find((c) => c.name === name) ?? file.classes[0];
+}
+
+function getAnnotation(node: { annotations: JavaAnnotation[] }, ...names: string[]): JavaAnnotation | undefined {
+  return node.annotations.find((a) => names.includes(a.name));
+}
+
+function hasAnnotation(node: { annotations: JavaAnnotation[] }, ...names: string[]): boolean {
+  return getAnnotation(node, ...names) !== undefined;
+}
+
+// Values of the first attribute present, always as an array (e.g. value/path on @GetMapping)
+function annotationValues(annotation: JavaAnnotation | undefined, ...keys: string[]): string[] {
+  if (!annotation) return [];
+  for (const key of keys) {
+    const value = annotation.attributes[key];
+    if (value !== undefined) return Array.isArray(value) ? value : [value];
+  }
+  return [];
+}
+
+// "java.util.List<com.x.UserDto>" -> "List"
+function simpleTypeName(type: string): string {
+  const raw = type.replace(/<.*$/s, "").replace(/\[\]|\.\.\./g, "");
+  return raw.split(".").pop() || raw;
+}
+
+// Top-level generic arguments: "Map<String, List<Long>>" -> ["String", "List<Long>"]
+function typeArguments(type: string): string[] {
+  const open = type.indexOf("<");
+  if (open < 0) return [];
+  const inner = type.slice(open + 1, type.lastIndexOf(">"));
+  const args: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const ch of inner) {
+    if (ch === "<") depth++;
+    if (ch === ">") depth--;
+    if (ch === "," && depth === 0) {
+      args.push(current.trim());
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) args.push(current.trim());
+  return args;
+}
+
+// Tool implementations
+const JWT_CLAIM_CONSTANTS: Record<string, string> = {
+  SUB: "sub", ISS: "iss", AUD: "aud", EXP: "exp", IAT: "iat", NBF: "nbf", JTI: "jti",
+  PREFERRED_USERNAME: "preferred_username", EMAIL: "email", NAME: "name", GIVEN_NAME: "given_name",
+  FAMILY_NAME: "family_name", EMAIL_VERIFIED: "email_verified", SCOPE: "scope",
+};
+
+// Standard claim getters on jjwt Claims, Spring's Jwt and auth0 DecodedJWT
+const STANDARD_CLAIM_GETTERS: Record<string, string> = {
+  getSubject: "sub",
+  getId: "jti",
+  getIssuer: "iss",
+  getAudience: "aud",
+  getExpiration: "exp",
+  getExpiresAt: "exp",
+  getIssuedAt: "iat",
+  getNotBefore: "nbf",
+};
+
+const CLAIM_ACCESSOR_TYPES: Record<string, string> = {
+  getClaimAsString: "string",
+  getClaimAsStringList: "string[]",
+  getClaimAsMap: "object",
+  getClaimAsBoolean: "boolean",
+  getClaimAsInstant: "instant",
+  getClaimAsURL: "url",
+};
+
+interface JwtClaimUsage {
+  name: string;
+  type: string;
+  accessors: string[];
+  usedIn: string[];
+}
+
+function sampleClaimValue(claim: JwtClaimUsage, role: string): string {
+  if (/role|authorit|group|scope/i.test(claim.name)) {
+    return claim.type === "string" ? `"${role}"` : `List.of("${role}")`;
+  }
+  if (claim.type === "string[]") return 'List.of("test")';
+  if (claim.type === "boolean") return "true";
+  if (claim.type === "instant") return "Instant.now()";
+  if (claim.type === "object") return "Map.of()";
+  if (claim.type === "number") return "1L";
+  return /id$/i.test(claim.name) ? '"1"' : '"test"';
+}
+
+async function investigateJwtClaims(projectPath: string, moduleName?: string): Promise<string> {
+  const srcPaths = await getSourceRoots(projectPath, "main", "java", moduleName);
+  const javaFiles = await javaSourceFiles(srcPaths);
+
+  // String constants anywhere in the project, so getClaim(ROLES_CLAIM) resolves
+  const sources = new Map<string, string>();
+  const constants: Record<string, string> = {};
+  for (const file of javaFiles) {
+    const content = await readJavaFile(file);
+    sources.set(file, content);
+    for (const match of content.matchAll(/static\s+final\s+String\s+(\w+)\s*=\s*"([^"]*)"/g)) {
+      constants[match[1]] = match[2];
+      constants[`${path.basename(file, ".java")}.${match[1]}`] = match[2];
+    }
+  }
+  const claimName = (literal: string | undefined, constant: string | undefined): string | undefined => {
+    if (literal !== undefined) return literal;
+    if (!constant) return undefined;
+    const name = constant.replace(/^.*\.(?=\w+\.\w+$)/, "");
+    return constants[name] ?? constants[name.replace(/^.*\./, "")] ?? JWT_CLAIM_CONSTANTS[name.replace(/^.*\./, "")];
+  };
+
+  const claims = new Map<string, JwtClaimUsage>();
+  const standardClaims: Record<string, string[]> = {};
+  const issuedClaims = new Set<string>();
+  const jwtFiles: string[] = [];
+  const principalUsages: string[] = [];
+  const authorities: Record<string, string> = {};
+  const algorithms = new Set<string>();
+  const keyProperties = new Set<string>();
+  let mechanism: "oauth2-resource-server" | "custom-filter" | "unknown" = "unknown";
+  let library: string | undefined;
+  let jjwtModernApi = false;
+  let base64Secret = false;
+
+  const addClaim = (name: string, type: string, accessor: string, className: string) => {
+    const claim = claims.get(name) ?? { name, type, accessors: [], usedIn: [] };
+    if (claim.type === "unknown") claim.type = type;
+    if (!claim.accessors.includes(accessor)) claim.accessors.push(accessor);
+    if (!claim.usedIn.includes(className)) claim.usedIn.push(className);
+    claims.set(name, claim);
+  };
+
+  for (const [file, content] of sources) {
+    if (!/Jwt|JWT|Claims|jsonwebtoken|BearerToken/.test(content)) continue;
+    const className = path.basename(file, ".java");
+    jwtFiles.push(path.relative(projectPath, file));
+
+    // Claim reads: Jwt.getClaim*/hasClaim, jjwt claims.get(...), auth0 getClaim(...).asString()
+    const accessPattern = /\.(getClaim(?:As\w+)?|hasClaim)\(\s*(?:"([^"]+)"|([A-Za-z_][\w.]*))\s*\)(\.as(\w+)\(\))?/g;
+    for (const match of content.matchAll(accessPattern)) {
+      const name = claimName(match[2], match[3]);
+      if (!name) continue;
+      const auth0Type = match[5] ? match[5].toLowerCase().replace("list", "[]") : undefined;
+      addClaim(name, CLAIM_ACCESSOR_TYPES[match[1]] ?? auth0Type ?? "unknown", match[1], className);
+    }
+    const claimsGetPattern = /(?:claims|getBody\(\)|getPayload\(\)|payload)\.get\(\s*(?:"([^"]+)"|([A-Za-z_][\w.]*))\s*(?:,\s*(\w+)\.class)?\s*\)/gi;
+    for (const match of content.matchAll(claimsGetPattern)) {
+      const name = claimName(match[1], match[2]);
+      if (!name) continue;
+      const type = match[3] === "String" ? "string" : match[3] === "List" ? "string[]" : match[3] === "Boolean" ? "boolean"
+        : match[3] && /^(Long|Integer)$/.test(match[3]) ? "number" : "unknown";
+      addClaim(name, type, "Claims.get", className);
+    }
+    // Claims the application issues itself
+    for (const match of content.matchAll(/\.(?:claim|withClaim)\(\s*(?:"([^"]+)"|([A-Za-z_][\w.]*))\s*,/g)) {
+      const name = claimName(match[1], match[2]);
+      if (name) issuedClaims.add(name);
+    }
+    for (const [getter, claim] of Object.entries(STANDARD_CLAIM_GETTERS)) {
+      if (content.includes(`.${getter}()`) && /Claims|Jwt|DecodedJWT/.test(content)) {
+        standardClaims[claim] = Array.from(new Set([...(standardClaims[claim] ?? []), className]));
+      }
+    }
+
+    // Authorities mapping (JwtGrantedAuthoritiesConverter / JwtAuthenticationConverter)
+    const authoritiesClaim = content.match(/setAuthoritiesClaimName\(\s*(?:"([^"]+)"|([A-Za-z_][\w.]*))\s*\)/);
+    if (authoritiesClaim) authorities.claim = claimName(authoritiesClaim[1], authoritiesClaim[2]) ?? authoritiesClaim[0];
+    const authorityPrefix = content.match(/setAuthorityPrefix\(\s*"([^"]*)"\s*\)/);
+    if (authorityPrefix) authorities.prefix = authorityPrefix[1];
+    const principalClaim = content.match(/setPrincipalClaimName\(\s*(?:"([^"]+)"|([A-Za-z_][\w.]*))\s*\)/);
+    if (principalClaim) authorities.principalClaim = claimName(principalClaim[1], principalClaim[2]) ?? principalClaim[0];
+    if (/JwtAuthenticationConverter|Converter<Jwt/.test(content)) authorities.converter = className;
+
+    for (const javaClass of allJavaClasses(await parseJavaFile(file))) {
+      for (const method of javaClass.methods) {
+        const principal = method.parameters.find((p) =>
+          hasAnnotation(p, "AuthenticationPrincipal") && /^(Jwt|OidcUser|DecodedJWT|JwtAuthenticationToken)$/.test(simpleTypeName(p.type))
+        );
+        if (principal) principalUsages.push(`${javaClass.name}.${method.name}(@AuthenticationPrincipal ${simpleTypeName(principal.type)})`);
+      }
+    }
+
+    // Mechanism, library and signing algorithm
+    if (/oauth2ResourceServer|NimbusJwtDecoder|JwtDecoder\b|ReactiveJwtDecoder/.test(content)) mechanism = "oauth2-resource-server";
+    else if (mechanism === "unknown" && /OncePerRequestFilter|GenericFilterBean|AuthenticationFilter/.test(content)) mechanism = "custom-filter";
+    if (content.includes("io.jsonwebtoken")) library = "jjwt";
+    else if (content.includes("com.auth0.jwt")) library = library ?? "auth0";
+    else if (content.includes("com.nimbusds")) library = library ?? "nimbus";
+    if (/\.verifyWith\(|\.subject\(|Jwts\.SIG/.test(content)) jjwtModernApi = true;
+    if (/Decoders\.BASE64|Base64\.getDecoder\(\)\.decode/.test(content)) base64Secret = true;
+
+    for (const match of content.matchAll(/(?:SignatureAlgorithm|Jwts\.SIG|MacAlgorithm|JWSAlgorithm|JwsAlgorithms)\.(HS\d+|RS\d+|ES\d+|PS\d+)/g)) {
+      algorithms.add(match[1]);
+    }
+    for (const match of content.matchAll(/Algorithm\.(HMAC|RSA|ECDSA)(\d+)/g)) {
+      algorithms.add(`${match[1] === "HMAC" ? "HS" : match[1] === "RSA" ? "RS" : "ES"}${match[2]}`);
+    }
+    if (/withSecretKey\(|hmacShaKeyFor\(/.test(content) && algorithms.size === 0) algorithms.add("HS256");
+    if (/withPublicKey\(|withJwkSetUri\(|RSAPublicKey/.test(content) && algorithms.size === 0) algorithms.add("RS256");
+
+    // @Value("${jwt.secret}") and friends
+    for (const match of content.matchAll(/@Value\(\s*"((?:[^"\\]|\\.)*)"\s*\)/g)) {
+      for (const placeholder of extractPlaceholders(match[1])) {
+        if (/secret|key|jwk|issuer/i.test(placeholder.key)) keyProperties.add(placeholder.key);
+      }
+    }
+  }
+
+  const config = await resolveConfig(projectPath, "test", moduleName);
+  const configValue = (key: string) => lookupConfigKey(config, key)?.value;
+  const jwkSetUri = configValue("spring.security.oauth2.resourceserver.jwt.jwk-set-uri");
+  const issuerUri = configValue("spring.security.oauth2.resourceserver.jwt.issuer-uri");
+  const publicKeyLocation = configValue("spring.security.oauth2.resourceserver.jwt.public-key-location");
+  const configuredAlgorithms = configValue("spring.security.oauth2.resourceserver.jwt.jws-algorithms");
+  if (configuredAlgorithms) configuredAlgorithms.split(",").forEach((a) => algorithms.add(a.trim()));
+  if (jwkSetUri || issuerUri || publicKeyLocation) {
+    mechanism = "oauth2-resource-server";
+    if (algorithms.size === 0) algorithms.add("RS256");
+  }
+  // Custom secrets that are only in config, e.g. jwt.secret / app.security.token-key
+  for (const entry of config.values.values()) {
+    if (/jwt|token/i.test(entry.key) && /secret|signing-?key|key$/i.test(entry.key)) keyProperties.add(entry.key);
+  }
+
+  if (jwtFiles.length === 0 && mechanism === "unknown") {
+    return JSON.stringify({
+      found: false,
+      message: "No JWT handling found (no Jwt/Claims usage in sources, no spring.security.oauth2.resourceserver config)",
+    }, null, 2);
+  }
+
+  const keys = Array.from(keyProperties).map((key) => {
+    const entry = lookupConfigKey(config, key);
+    const resolved = entry ? resolveConfigPlaceholders(config, entry.value) : undefined;
+    return {
+      property: key,
+      testValue: resolved && resolved.unresolved.length === 0 ? resolved.value : null,
+      definedIn: entry?.file ?? null,
+      requiresEnvironment: resolved && resolved.unresolved.length > 0 ? resolved.unresolved : undefined,
+    };
+  });
+  const algorithm = Array.from(algorithms)[0] ?? (keys.length > 0 ? "HS256" : "unknown");
+  const claimList = Array.from(claims.values());
+  const roleClaim = authorities.claim ?? claimList.find((c) => /role|authorit|group/i.test(c.name))?.name;
+  // JwtGrantedAuthoritiesConverter prefixes every authority with SCOPE_ unless told otherwise
+  const prefix = authorities.prefix ?? "SCOPE_";
+
+  // Test token recipe: MockMvc post-processor for resource servers, a signed token for custom filters
+  let testToken: { approach: string; code: string; notes: string[] };
+  const claimLines = claimList.filter((c) => !["sub", "exp", "iat"].includes(c.name));
+  if (mechanism === "oauth2-resource-server") {
+    const authority = roleClaim ? `${prefix}ADMIN` : `${prefix}read`;
+    testToken = {
+      approach: "jwt() MockMvc post-processor",
+      code: [
+        `mockMvc.perform(get("/api/...").with(jwt()`,
+        `        .jwt(jwt -> jwt`,
+        `            .subject("user-1")`,
+        ...claimLines.map((c) => `            .claim("${c.name}", ${sampleClaimValue(c, "ADMIN")})`),
+        `        )`,
+        `        .authorities(new SimpleGrantedAuthority("${authority}"))))`,
+      ].join("\n"),
+      notes: [
+        "import static org.springframework.security.test.web.servlet.request.SecurityMockMvcRequestPostProcessors.jwt;",
+        "jwt() bypasses the JwtDecoder and your JwtAuthenticationConverter - pass the authorities the converter would produce",
+        ...(roleClaim ? [`Authorities come from the "${roleClaim}" claim with prefix "${prefix}"`] : []),
+      ],
+    };
+  } else if (algorithm.startsWith("HS")) {
+    const secretProperty = keys[0]?.property ?? "jwt.secret";
+    const keyBytes = base64Secret ? "Decoders.BASE64.decode(secret)" : "secret.getBytes(StandardCharsets.UTF_8)";
+    const [subject, issuedAt, expiration] = jjwtModernApi
+      ? ["subject", "issuedAt", "expiration"]
+      : ["setSubject", "setIssuedAt", "setExpiration"];
+    testToken = {
+      approach: `${algorithm} token signed with the test secret`,
+      code: [
+        `@Value("\${${secretProperty}}")`,
+        `private String secret;`,
+        ``,
+        `String token = Jwts.builder()`,
+        `        .${subject}("user-1")`,
+        ...claimLines.map((c) => `        .claim("${c.name}", ${sampleClaimValue(c, "ADMIN")})`),
+        `        .${issuedAt}(new Date())`,
+        `        .${expiration}(new Date(System.currentTimeMillis() + 3_600_000))`,
+        `        .signWith(Keys.hmacShaKeyFor(${keyBytes}))`,
+        `        .compact();`,
+        `mockMvc.perform(get("/api/...").header("Authorization", "Bearer " + token));`,
+      ].join("\n"),
+      notes: [
+        keys[0]?.testValue
+          ? `${secretProperty} is set for the test profile in ${keys[0].definedIn}`
+          : `Set ${secretProperty} in application-test properties - ${algorithm} needs at least ${parseInt(algorithm.slice(2)) / 8} bytes`,
+        library && library !== "jjwt" ? `The project uses ${library}; the jjwt builder above works for tests with io.jsonwebtoken:jjwt-api/impl/jackson (test scope)` : "",
+      ].filter(Boolean),
+    };
+  } else {
+    testToken = {
+      approach: `${algorithm} token signed with a test key pair`,
+      code: [
+        `KeyPair keyPair = KeyPairGenerator.getInstance("RSA").generateKeyPair();`,
+        `String token = Jwts.builder()`,
+        `        .${jjwtModernApi ? "subject" : "setSubject"}("user-1")`,
+        ...claimLines.map((c) => `        .claim("${c.name}", ${sampleClaimValue(c, "ADMIN")})`),
+        `        .signWith(keyPair.getPrivate())`,
+        `        .compact();`,
+      ].join("\n"),
+      notes: [
+        "Expose keyPair.getPublic() to the application under test (e.g. a @TestConfiguration bean replacing the verifying key)",
+      ],
+    };
+  }
+
+  return JSON.stringify({
+    found: true,
+    mechanism,
+    library: library ?? (mechanism === "oauth2-resource-server" ? "spring-security-oauth2-jose" : null),
+    files: jwtFiles,
+    standardClaims: Object.keys(standardClaims),
+    customClaims: claimList.map((c) => c.name),
+    claims: claimList,
+    issuedClaims: Array.from(issuedClaims),
+    authorities: Object.keys(authorities).length > 0 ? authorities : undefined,
+    authenticationPrincipal: principalUsages,
+    signing: {
+      algorithm,
+      keys,
+      jwkSetUri: jwkSetUri ?? undefined,
+      issuerUri: issuerUri ?? undefined,
+      publicKeyLocation: publicKeyLocation ?? undefined,
+    },
+    testToken,
+    recommendation: claimList.length > 0
+      ? "Include these claims in BaseIntegrationTest.generateTestToken()"
+      : "No custom claims are read - a token with a subject and expiry is enough for BaseIntegrationTest.generateTestToken()",
+  }, null, 2);
+}
+
+async function investigateResponseWrapper(projectPath: string, moduleName?: string): Promise<string> {
+  const adviceFiles = await findJavaFiles(projectPath, "*Advice*", moduleName);
+  const configFiles = await findJavaFiles(projectPath, "*Response*", moduleName);
+  const allFiles = [...adviceFiles, ...configFiles];
+
+  let hasWrapper = false;
+  let wrapperClass = "";
+  let wrapperField = "data";
+
+  for (const file of allFiles) {
+    const content = await readJavaFile(file);
+
+    if (content.includes("ResponseBodyAdvice") || content.includes("@ControllerAdvice")) {
+      hasWrapper = true;
+      wrapperClass = path.basename(file, ".java");
+
+      // Try to find the wrapper field name
+      const wrapperPattern = /class\s+\w+\s*\{[^}]*(\w+)\s*:/;
+      const match = content.match(wrapperPattern);
+      if (match) wrapperField = match[1];
+    }
+  }
+
+  return JSON.stringify({
+    hasWrapper,
+    wrapperClass: hasWrapper ? wrapperClass : "None",
+    wrapperField: hasWrapper ? wrapperField : "N/A",
+    jsonPathPrefix: hasWrapper ? `$.${wrapperField}` : "$",
+    recommendation: hasWrapper
+      ? `Use jsonPath("$.${wrapperField}.id") in controller tests`
+      : "Use jsonPath(\"$.id\") directly in controller tests",
+  }, null, 2);
+}
+
+async function investigateEntityRelationships(
+  projectPath: string,
+  entityName: string,
+  moduleName?: string
+): Promise<string> {
+  const resolution = await resolveJavaClass(projectPath, entityName, moduleName, (c) => hasAnnotation(c, "Entity"));
+  if (!resolution.match) return unresolvedClass(projectPath, "Entity", entityName, resolution);
+
+  const entity = primaryJavaClass(await parseJavaFile(resolution.match.file), resolution.match.name);
+  const relationships: Record<string, any[]> = {
+    manyToOne: [],
+    oneToMany: [],
+    oneToOne: [],
+    manyToMany: [],
+  };
+
+  for (const field of entity?.fields ?? []) {
+    const relation = getAnnotation(field, "ManyToOne", "OneToMany", "OneToOne", "ManyToMany");
+    if (!relation || field.modifiers.includes("static")) continue;
+
+    // Collections map to their element type; Map<K, V> to the value type
+    const args = typeArguments(field.type);
+    const type = simpleTypeName(args.length > 0 ? args[args.length - 1] : field.type);
+    const mappedBy = annotationValues(relation, "mappedBy")[0];
+    const key = relation.name.charAt(0).toLowerCase() + relation.name.slice(1);
+
+    if (relation.name === "ManyToOne" || relation.name === "OneToOne") {
+      const required =
+        annotationValues(relation, "optional")[0] === "false" ||
+        annotationValues(getAnnotation(field, "JoinColumn"), "nullable")[0] === "false" ||
+        hasAnnotation(field, "NotNull");
+      relationships[key].push({ type, field: field.name, required, mappedBy });
+    } else {
+      relationships[key].push({ type, field: field.name, mappedBy });
+    }
+  }
+
+  const inheritance = entity?.extends[0] ? simpleTypeName(entity.extends[0]) : null;
+  const hasDiscriminator = entity ? hasAnnotation(entity, "DiscriminatorColumn") : false;
+
+  // Owning to-one sides must exist before this entity can be inserted
+  const parents = [
+    ...relationships.manyToOne,
+    ...relationships.oneToOne.filter((r) => !r.mappedBy),
+  ];
+
+  return JSON.stringify({
+    found: true,
+    entity: resolution.match.name,
+    ...resolvedFrom(entityName, resolution),
+    module: moduleOfFile(projectPath, resolution.match.file),
+    inheritance: inheritance,
+    discriminator: hasDiscriminator,
+    relationships,
+    creationOrder: [
+      ...parents.map(r => `1. Create ${r.type} first (${r.required ? "required" : "optional"} dependency)`),
+      `2. Create ${resolution.match.name}`,
+      ...relationships.oneToMany.map(r => `3. Create ${r.type} (children)`),
+    ],
+    warning: hasDiscriminator
+      ? `⚠️ This entity uses inheritance - use specific subclass, not base ${resolution.match.name} class`
+      : null,
+  }, null, 2);
+}
+
+// Spring configuration - application.{properties,yml,yaml} plus profile variants,
+// flattened to dotted keys so they can be matched against @Value and @ConfigurationProperties
+const CONFIG_EXTENSIONS = ["properties", "yml", "yaml"];
+
+interface ConfigDocument {
+  file: string;
+  profiles: string[]; // spring.config.activate.on-profile / spring.profiles; empty applies always
+  values: Record<string, string>;
+}
+
+interface PropertyPlaceholder {
+  key: string;
+  defaultValue?: string;
+}
+
+// ${key} and ${key:default} references, including those nested inside defaults
+function extractPlaceholders(text: string): PropertyPlaceholder[] {
+  const placeholders: PropertyPlaceholder[] = [];
+  let index = text.indexOf("${");
+  while (index >= 0) {
+    let depth = 0;
+    let end = index;
+    for (; end < text.length; end++) {
+      if (text.startsWith("${", end)) {
+        depth++;
+        end++;
+      } else if (text[end] === "}" && --depth === 0) {
+        break;
+      }
+    }
+    const body = text.slice(index + 2, end);
+    const colon = body.indexOf(":");
+    if (colon >= 0) {
+      const defaultValue = body.slice(colon + 1);
+      placeholders.push({ key: body.slice(0, colon).trim(), defaultValue });
+      placeholders.push(...extractPlaceholders(defaultValue));
+    } else if (body.trim()) {
+      placeholders.push({ key: body.trim() });
+    }
+    index = text.indexOf("${", end);
+  }
+  return placeholders;
+}
+
+// Relaxed binding: my.someValue, my.some-value and my.some_value are the same key
+function canonicalPropertyKey(key: string): string {
+  return key.replace(/[-_]/g, "").toLowerCase();
+}
+
+function toKebabCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, "$1-$2").toLowerCase();
+}
+
+function unquoteConfigValue(value: string): string {
+  const trimmed = value.trim();
+  if (/^(["']).*\1$/.test(trimmed)) return trimmed.slice(1, -1);
+  return trimmed;
+}
+
+function stripYamlComment(line: string): string {
+  let quote = "";
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (ch === quote) quote = "";
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === "#" && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+// Block-style YAML to dotted keys; list items become key[0], key[1], ...
+function flattenYaml(content: string): Record<string, string>[] {
+  const documents: Record<string, string>[] = [];
+  let values: Record<string, string> = {};
+  let stack: { indent: number; path: string; item: boolean }[] = [];
+  let listCounters: Record<string, number> = {};
+  const lines = content.split(/\r?\n/);
+
+  const assignKey = (indent: number, text: string, lineIndex: number): number => {
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+    const match = text.match(/^("[^"]*"|'[^']*'|[^:]+?)\s*:(?:\s+(.*))?$/);
+    if (!match) return lineIndex;
+    const parent = stack[stack.length - 1]?.path;
+    const key = unquoteConfigValue(match[1]);
+    const fullKey = parent ? `${parent}.${key}` : key;
+    const value = (match[2] ?? "").trim();
+
+    if (!value) {
+      stack.push({ indent, path: fullKey, item: false });
+    } else if (/^[|>][-+]?$/.test(value)) {
+      const block: string[] = [];
+      while (lineIndex + 1 < lines.length) {
+        const next = lines[lineIndex + 1];
+        if (next.trim() && next.search(/\S/) <= indent) break;
+        block.push(next.trim());
+        lineIndex++;
+      }
+      values[fullKey] = block.join(value.startsWith("|") ? "\n" : " ").trim();
+    } else {
+      values[fullKey] = unquoteConfigValue(value);
+    }
+    return lineIndex;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    if (/^---/.test(lines[i])) {
+      documents.push(values);
+      values = {};
+      stack = [];
+      listCounters = {};
+      continue;
+    }
+
+    const line = stripYamlComment(lines[i]).replace(/\s+$/, "");
+    if (!line.trim()) continue;
+    const indent = line.search(/\S/);
+    const text = line.trim();
+
+    if (text === "-" || text.startsWith("- ")) {
+      // Items may sit at the same indent as their parent key
+      while (
+        stack.length > 0 &&
+        (stack[stack.length - 1].indent > indent || (stack[stack.length - 1].item && stack[stack.length - 1].indent >= indent))
+      ) {
+        stack.pop();
+      }
+      const parent = stack[stack.length - 1]?.path ?? "";
+      const position = listCounters[parent] ?? 0;
+      listCounters[parent] = position + 1;
+      const itemPath = `${parent}[${position}]`;
+      const rest = text.slice(1).trim();
+
+      if (!rest || /^("[^"]*"|'[^']*'|[^:]+?)\s*:(\s|$)/.test(rest)) {
+        stack.push({ indent, path: itemPath, item: true });
+        if (rest) i = assignKey(indent + (text.length - rest.length), rest, i);
+      } else {
+        values[itemPath] = unquoteConfigValue(rest);
+      }
+      continue;
+    }
+
+    i = assignKey(indent, text, i);
+  }
+
+  documents.push(values);
+  return documents.filter((document) => Object.keys(document).length > 0);
+}
+
+// .properties files, including "#---" multi-document separators
+function parsePropertiesFile(content: string): Record<string, string>[] {
+  const documents: Record<string, string>[] = [];
+  let values: Record<string, string> = {};
+  const lines = content.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    let line = lines[i].trim();
+    if (/^[#!]---/.test(line)) {
+      documents.push(values);
+      values = {};
+      continue;
+    }
+    if (!line || line.startsWith("#") || line.startsWith("!")) continue;
+
+    while (line.endsWith("\\") && i + 1 < lines.length) {
+      line = line.slice(0, -1) + lines[++i].trim();
+    }
+    const match = line.match(/^((?:\\.|[^=:\s])+)\s*[=:\s]\s*(.*)$/);
+    if (match) {
+      values[match[1].replace(/\\(.)/g, "$1")] = match[2];
+    } else {
+      values[line] = "";
+    }
+  }
+
+  documents.push(values);
+  return documents.filter((document) => Object.keys(document).length > 0);
+}
+
+function documentProfiles(values: Record<string, string>): string[] {
+  const expression = values["spring.config.activate.on-profile"] ?? values["spring.profiles"];
+  if (!expression) return [];
+  return expression.split(/[,|]/).map((p) => p.trim()).filter(Boolean);
+}
+
+function documentApplies(document: ConfigDocument, activeProfiles: string[]): boolean {
+  if (document.profiles.length === 0) return true;
+  return document.profiles.some((profile) =>
+    profile.startsWith("!") ? !activeProfiles.includes(profile.slice(1)) : activeProfiles.includes(profile)
+  );
+}
+
+// Config documents for one application name, lowest precedence first. A file in
+// src/test/resources shadows the same file in src/main/resources on the test classpath.
+async function loadConfigDocuments(
+  projectPath: string,
+  configName: string,
+  moduleName?: string
+): Promise<ConfigDocument[]> {
+  const modules = await selectModules(projectPath, moduleName);
+  const documents: ConfigDocument[] = [];
+
+  for (const module of modules) {
+    // .properties wins over .yml/.yaml when both exist, so load it last
+    for (const extension of [...CONFIG_EXTENSIONS].reverse()) {
+      const fileName = `${configName}.${extension}`;
+      const candidates = ["test", "main"].map((sourceSet) =>
+        path.join(module.directory, "src", sourceSet, "resources", fileName)
+      );
+
+      for (const candidate of candidates) {
+        let file: IndexedFile;
+        try {
+          file = await indexedFile(candidate);
+        } catch (error) {
+          continue; // Not in this source set
+        }
+        file.config ??= extension === "properties" ? parsePropertiesFile(file.content) : flattenYaml(file.content);
+        for (const values of file.config) {
+          documents.push({ file: path.relative(projectPath, candidate), profiles: documentProfiles(values), values });
+        }
+        break;
+      }
+    }
+  }
+
+  return documents;
+}
+
+interface ResolvedConfig {
+  activeProfiles: string[];
+  files: string[];
+  values: Map<string, { key: string; value: string; file: string }>; // by canonical key
+}
+
+async function resolveConfig(projectPath: string, profile: string, moduleName?: string): Promise<ResolvedConfig> {
+  const baseDocuments = await loadConfigDocuments(projectPath, "application", moduleName);
+
+  // spring.profiles.include / spring.profiles.group.<profile> pull in further profiles
+  const activeProfiles = [profile];
+  for (const document of baseDocuments.filter((d) => documentApplies(d, activeProfiles))) {
+    for (const [key, value] of Object.entries(document.values)) {
+      if (/^spring\.profiles\.include(\[\d+\])?$/.test(key) || key.startsWith(`spring.profiles.group.${profile}`)) {
+        value.split(",").map((p) => p.trim()).filter(Boolean).forEach((p) => {
+          if (!activeProfiles.includes(p)) activeProfiles.push(p);
+        });
+      }
+    }
+  }
+
+  const documents = [...baseDocuments];
+  for (const activeProfile of activeProfiles) {
+    for (const document of await loadConfigDocuments(projectPath, `application-${activeProfile}`, moduleName)) {
+      // Profile-specific files apply to their profile even without an on-profile marker
+      documents.push({ ...document, profiles: document.profiles.length > 0 ? document.profiles : [activeProfile] });
+    }
+  }
+
+  const values = new Map<string, { key: string; value: string; file: string }>();
+  const files = new Set<string>();
+  for (const document of documents) {
+    files.add(document.file);
+    if (!documentApplies(document, activeProfiles)) continue;
+    for (const [key, value] of Object.entries(document.values)) {
+      values.set(canonicalPropertyKey(key), { key, value, file: document.file });
+    }
+  }
+
+  return { activeProfiles, files: Array.from(files), values };
+}
+
+// A key is set directly, or as the parent of list/map entries (my.hosts[0], my.map.a)
+function lookupConfigKey(config: ResolvedConfig, key: string) {
+  const canonical = canonicalPropertyKey(key);
+  const direct = config.values.get(canonical);
+  if (direct) return direct;
+  for (const [candidate, entry] of config.values) {
+    if (candidate.startsWith(`${canonical}.`) || candidate.startsWith(`${canonical}[`)) return entry;
+  }
+  return undefined;
+}
+
+// ${key} and ${key:default} in a config value, resolved like Spring does: the environment (JWT_SECRET
+// for jwt.secret too), then the config, then the default. Keys found nowhere are returned as unresolved.
+function resolveConfigPlaceholders(config: ResolvedConfig, value: string, depth = 0): { value: string; unresolved: string[] } {
+  const unresolved: string[] = [];
+  let result = value;
+  // Innermost placeholders first, so ${a:${b:x}} resolves its default before the outer key
+  for (let i = 0; i < 10 && /\$\{[^${}]*\}/.test(result); i++) {
+    result = result.replace(/\$\{([^${}]*)\}/g, (placeholder, body: string) => {
+      const colon = body.indexOf(":");
+      const key = (colon >= 0 ? body.slice(0, colon) : body).trim();
+      const fromEnvironment = process.env[key] ?? process.env[key.replace(/[.\-]/g, "_").toUpperCase()];
+      if (fromEnvironment !== undefined) return fromEnvironment;
+      const entry = depth < 5 ? lookupConfigKey(config, key) : undefined;
+      if (entry) {
+        const nested = resolveConfigPlaceholders(config, entry.value, depth + 1);
+        unresolved.push(...nested.unresolved);
+        return nested.value;
+      }
+      if (colon >= 0) return body.slice(colon + 1);
+      unresolved.push(key);
+      return `\u0000${key}\u0001`; // Parked so the loop does not revisit it
+    });
+  }
+  return { value: result.replace(/\u0000([^\u0001]*)\u0001/g, "${$1}"), unresolved: Array.from(new Set(unresolved)) };
+}
+
+const BINDABLE_SCALARS = new Set([
+  "String", "CharSequence", "char", "Character", "boolean", "Boolean", "byte", "Byte", "short", "Short",
+  "int", "Integer", "long", "Long", "float", "Float", "double", "Double", "BigDecimal", "BigInteger",
+  "Duration", "Period", "DataSize", "Resource", "URI", "URL", "Class", "Charset", "Locale", "Pattern",
+  "InetAddress", "File", "Path", "UUID", "LocalDate", "LocalTime", "LocalDateTime", "Object",
+]);
+
+interface BoundProperty {
+  key: string;
+  source: string;
+  defaultValue?: string;
+  required?: boolean;
+}
+
+// Keys bound by a @ConfigurationProperties class, recursing into nested property classes
+function configurationPropertyKeys(
+  prefix: string,
+  javaClass: JavaClass,
+  classesByName: Map<string, JavaClass>,
+  depth = 0
+): BoundProperty[] {
+  const members: { name: string; type: string; annotations: JavaAnnotation[]; initializer?: string }[] = [
+    ...javaClass.fields.filter((f) => !f.modifiers.includes("static")),
+    ...javaClass.recordComponents,
+  ];
+  // Constructor binding: parameters of the single (or @ConstructorBinding) constructor
+  if (members.length === 0 && javaClass.constructors.length > 0) {
+    const constructor = javaClass.constructors.find((c) => hasAnnotation(c, "ConstructorBinding")) ?? javaClass.constructors[0];
+    members.push(...constructor.parameters);
+  }
+
+  const keys: BoundProperty[] = [];
+  for (const member of members) {
+    const key = `${prefix}.${toKebabCase(member.name)}`;
+    const type = simpleTypeName(member.type.replace(/\[\]$/, ""));
+    const nested = classesByName.get(type);
+
+    if (nested && nested.kind !== "enum" && !BINDABLE_SCALARS.has(type) && depth < 3) {
+      keys.push(...configurationPropertyKeys(key, nested, classesByName, depth + 1));
+      continue;
+    }
+
+    const defaultAnnotation = getAnnotation(member, "DefaultValue");
+    keys.push({
+      key,
+      source: `${javaClass.name}.${member.name}`,
+      defaultValue: member.initializer ?? (defaultAnnotation ? annotationValues(defaultAnnotation, "value").join(",") : undefined),
+      required: hasAnnotation(member, "NotNull", "NotBlank", "NotEmpty") || undefined,
+    });
+  }
+  return keys;
+}
+
+function configurationPropertiesPrefix(annotation: JavaAnnotation | undefined): string | undefined {
+  return annotation ? annotationValues(annotation, "prefix", "value")[0] : undefined;
+}
+
+async function findMissingProperties(projectPath: string, moduleName?: string): Promise<string> {
+  const srcPaths = await getSourceRoots(projectPath, "main", "java", moduleName);
+  const javaFiles = await javaSourceFiles(srcPaths);
+
+  const used = new Map<string, BoundProperty & { usedBy: string[] }>();
+  const addUsage = (property: BoundProperty) => {
+    const existing = used.get(canonicalPropertyKey(property.key));
+    if (existing) {
+      if (!existing.usedBy.includes(property.source)) existing.usedBy.push(property.source);
+      existing.defaultValue = existing.defaultValue ?? property.defaultValue;
+      return;
+    }
+    used.set(canonicalPropertyKey(property.key), { ...property, usedBy: [property.source] });
+  };
+
+  const classesByName = new Map<string, JavaClass>();
+  const bindings: { prefix: string; javaClass?: JavaClass; type: string }[] = [];
+
+  for (const file of javaFiles) {
+    const content = await readJavaFile(file);
+    const className = path.basename(file, ".java");
+    const valuePattern = /@Value\(\s*(?:value\s*=\s*)?"((?:[^"\\]|\\.)*)"\s*\)/g;
+    let match;
+
+    while ((match = valuePattern.exec(content)) !== null) {
+      for (const placeholder of extractPlaceholders(match[1])) {
+        addUsage({ key: placeholder.key, source: className, defaultValue: placeholder.defaultValue });
+      }
+    }
+
+    for (const javaClass of allJavaClasses(await parseJavaFile(file))) {
+      classesByName.set(javaClass.name, javaClass);
+      const prefix = configurationPropertiesPrefix(getAnnotation(javaClass, "ConfigurationProperties"));
+      if (prefix !== undefined) bindings.push({ prefix, javaClass, type: javaClass.name });
+
+      // @Bean @ConfigurationProperties("prefix") methods bind the returned type
+      for (const method of javaClass.methods) {
+        const beanPrefix = configurationPropertiesPrefix(getAnnotation(method, "ConfigurationProperties"));
+        if (beanPrefix !== undefined) bindings.push({ prefix: beanPrefix, type: simpleTypeName(method.returnType) });
+      }
+    }
+  }
+
+  for (const binding of bindings) {
+    const javaClass = binding.javaClass ?? classesByName.get(binding.type);
+    if (javaClass) {
+      configurationPropertyKeys(binding.prefix, javaClass, classesByName).forEach(addUsage);
+    }
+  }
+
+  const config = await resolveConfig(projectPath, "test", moduleName);
+  const testConfigExists = config.files.some((file) => /src[\\/]test[\\/]resources[\\/]application-test\./.test(file));
+
+  const properties = Array.from(used.values()).map((property) => {
+    const entry = lookupConfigKey(config, property.key);
+    if (entry) {
+      // Values such as ${DB_URL} still need the environment unless the config supplies them
+      const requiresEnvironment = extractPlaceholders(entry.value)
+        .filter((p) => p.defaultValue === undefined && !lookupConfigKey(config, p.key))
+        .map((p) => p.key);
+      return {
+        key: property.key,
+        status: "resolved",
+        definedIn: entry.file,
+        requiresEnvironment: requiresEnvironment.length > 0 ? requiresEnvironment : undefined,
+        usedBy: property.usedBy,
+      };
+    }
+    return {
+      key: property.key,
+      status: property.defaultValue !== undefined ? "defaultOnly" : "missing",
+      default: property.defaultValue,
+      required: property.required,
+      usedBy: property.usedBy,
+    };
+  });
+
+  const missingProps = properties.filter((p) => p.status === "missing").map((p) => p.key);
+  const count = (status: string) => properties.filter((p) => p.status === status).length;
+  const statusOrder = ["missing", "defaultOnly", "resolved"];
+
+  return JSON.stringify({
+    found: true,
+    activeProfiles: config.activeProfiles,
+    configFiles: config.files,
+    testPropertiesFileExists: testConfigExists,
+    totalProperties: properties.length,
+    resolved: count("resolved"),
+    defaultOnly: count("defaultOnly"),
+    missing: missingProps.length,
+    missingProperties: missingProps,
+    properties: properties.sort((a, b) => statusOrder.indexOf(a.status) - statusOrder.indexOf(b.status) || a.key.localeCompare(b.key)),
+    action: missingProps.length > 0
+      ? `Add these ${missingProps.length} properties to src/test/resources/application-test.properties (or application-test.yml)`
+      : "All properties resolve under the test profile ✓",
+  }, null, 2);
+}
+
+// Reactor flags that build one module plus the modules it depends on
+async function mavenModuleArgs(projectPath: string, moduleName?: string): Promise<string> {
+  if (!moduleName) return "";
+  const [module] = await selectModules(projectPath, moduleName);
+  return ` -pl ${module.relativePath} -am`;
+}
+
+// Gradle project path prefix for a subproject directory, e.g. "services/user" -> ":services:user:"
+async function gradleTaskPrefix(projectPath: string, moduleName?: string): Promise<string> {
+  if (!moduleName) return "";
+  await moduleDirectory(projectPath, moduleName);
+  return `:${moduleName.replace(/\/+/g, ":").replace(/^:+|:+$/g, "")}:`;
+}
+
+const DEFAULT_COMPILE_TIMEOUT_MINUTES = 3;
+const DEFAULT_TEST_TIMEOUT_MINUTES = 2;
+const DEFAULT_COVERAGE_TIMEOUT_MINUTES = 3; // Test run plus report generation
+
+function timeoutMs(timeoutMinutes: number | undefined, defaultMinutes: number): number {
+  return Math.round((timeoutMinutes && timeoutMinutes > 0 ? timeoutMinutes : defaultMinutes) * 60000);
+}
+
+async function compileCommand(projectPath: string, buildTool: BuildTool, moduleName?: string): Promise<string> {
+  if (buildTool === "gradle") {
+    const gradleCmd = await getGradleCommand(projectPath);
+    const prefix = await gradleTaskPrefix(projectPath, moduleName);
+    return `${gradleCmd} ${prefix}clean ${prefix}compileJava ${prefix}compileTestJava --console=plain`;
+  }
+  return `${getMavenCommand()} clean compile test-compile${await mavenModuleArgs(projectPath, moduleName)}`;
+}
+
+// Compiler diagnostics - javac as printed by maven-compiler-plugin ("[ERROR] /path/Foo.java:[12,8] msg")
+// and by Gradle ("/path/Foo.java:12: error: msg" + source and caret lines), plus kotlinc ("e: file:///path/Foo.kt:12:5 msg")
+interface CompileDiagnostic {
+  file: string; // Relative to the project
+  line: number;
+  column?: number;
+  severity: "error" | "warning";
+  message: string;
+  symbol?: { kind: string; name: string };
+  location?: string;
+  rootCause?: string;
+  snippet?: string[];
+}
+
+// Java EE packages that Spring Boot 3 only has under jakarta.*
+const JAKARTA_NAMESPACES = [
+  "persistence", "validation", "servlet", "annotation", "transaction", "inject",
+  "ws.rs", "xml.bind", "mail", "websocket", "json", "jms", "el", "interceptor",
+];
+
+const ROOT_CAUSE_FIXES: Record<string, string> = {
+  "javax-on-spring-boot-3": "Spring Boot 3 moved the Java EE APIs to jakarta.* - replace these javax.* imports with jakarta.*",
+  "jakarta-on-spring-boot-2": "Spring Boot 2 still uses javax.* - replace these jakarta.* imports with javax.*",
+  "missing-dependency": "Add the dependency that provides the package (test-scoped dependencies are not visible from src/main)",
+  "missing-class-or-import": "Add the missing import, or create the class",
+  "unknown-member": "Check the method/field name and parameter types against the target class",
+  "type-mismatch": "Fix the argument or return types",
+  "method-signature-mismatch": "Implement or fix the overridden method signature",
+  "unhandled-checked-exception": "Catch the checked exception or declare it with throws",
+  "access": "The member is not visible here - change its visibility or use a public accessor",
+  "other": "See the individual messages",
+};
+
+function renamedJavaxPackage(name: string): boolean {
+  return JAKARTA_NAMESPACES.some((ns) => name === `javax.${ns}` || name.startsWith(`javax.${ns}.`));
+}
+
+function parseCompilerDiagnostics(projectPath: string, output: string): CompileDiagnostic[] {
+  const diagnostics: CompileDiagnostic[] = [];
+  const seen = new Set<string>();
+  let last: CompileDiagnostic | undefined;
+
+  for (const rawLine of output.split(/\r?\n/)) {
+    const maven = rawLine.match(/^\[(ERROR|WARNING)\]\s+(\S.*?\.java):\[(\d+),(\d+)\]\s*(.*)$/);
+    const gradle = rawLine.match(/^(\S.*?\.java):(\d+): (error|warning): (.*)$/);
+    const kotlin = rawLine.match(/^([ew]): (?:file:\/\/)?(\S.*?\.kts?):(\d+):(\d+) (.*)$/);
+
+    let diagnostic: CompileDiagnostic | undefined;
+    if (maven) {
+      diagnostic = {
+        file: maven[2],
+        line: parseInt(maven[3]),
+        column: parseInt(maven[4]),
+        severity: maven[1] === "ERROR" ? "error" : "warning",
+        message: maven[5].trim(),
+      };
+    } else if (gradle) {
+      diagnostic = { file: gradle[1], line: parseInt(gradle[2]), severity: gradle[3] as "error" | "warning", message: gradle[4].trim() };
+    } else if (kotlin) {
+      diagnostic = {
+        file: kotlin[2],
+        line: parseInt(kotlin[3]),
+        column: parseInt(kotlin[4]),
+        severity: kotlin[1] === "e" ? "error" : "warning",
+        message: kotlin[5].trim(),
+      };
+    }
+
+    if (diagnostic) {
+      diagnostic.file = path.relative(projectPath, path.resolve(projectPath, diagnostic.file)).split(path.sep).join("/");
+      // Maven repeats every error in its "Failed to execute goal" summary
+      const key = `${diagnostic.file}:${diagnostic.line}:${diagnostic.message}`;
+      if (seen.has(key)) {
+        last = undefined;
+        continue;
+      }
+      seen.add(key);
+      diagnostics.push(diagnostic);
+      last = diagnostic;
+      continue;
+    }
+
+    if (!last) continue;
+    const detail = rawLine.replace(/^\[(?:ERROR|WARNING)\]/, "");
+    const symbol = detail.match(/^\s+symbol:\s+(\S+)\s+(.+)$/);
+    const location = detail.match(/^\s+location:\s+(.+)$/);
+    if (symbol) {
+      last.symbol = { kind: symbol[1], name: symbol[2].trim() };
+    } else if (location) {
+      last.location = location[1].trim();
+    } else if (last.column === undefined && /^\s*\^\s*$/.test(rawLine)) {
+      last.column = rawLine.indexOf("^") + 1; // Gradle marks the column with a caret under the echoed source line
+    } else if (/^\[(?:INFO|ERROR|WARNING)\]/.test(rawLine) && !/^\[(?:ERROR|WARNING)\]\s{2,}/.test(rawLine)) {
+      last = undefined;
+    }
+  }
+
+  return diagnostics;
+}
+
+// bootMajor: Spring Boot major version of the module, undefined when unknown or not Boot
+function diagnosticRootCause(diagnostic: CompileDiagnostic, imports: string[], bootMajor?: number): string {
+  const message = diagnostic.message;
+  // A missing javax/jakarta package is only the namespace switch on the matching side of Boot 3
+  const javaxOnBoot3 = bootMajor !== undefined && bootMajor >= 3 ? "javax-on-spring-boot-3" : "missing-dependency";
+  const jakartaOnBoot2 = bootMajor !== undefined && bootMajor < 3 ? "jakarta-on-spring-boot-2" : "missing-dependency";
+
+  const missingPackage = message.match(/^package ([\w.]+) does not exist/);
+  if (missingPackage) {
+    if (renamedJavaxPackage(missingPackage[1])) return javaxOnBoot3;
+    if (missingPackage[1].startsWith("jakarta.")) return jakartaOnBoot2;
+    return "missing-dependency";
+  }
+
+  if (/^cannot find symbol/.test(message)) {
+    if (diagnostic.symbol?.kind !== "class") return "unknown-member";
+    // A class that failed to resolve because its javax/jakarta import did
+    const name = diagnostic.symbol.name;
+    const source = imports.find((i) => i.endsWith(`.${name}`)) ??
+      imports.find((i) => i.endsWith(".*") && (renamedJavaxPackage(i.slice(0, -2)) || i.startsWith("jakarta.")));
+    if (source && renamedJavaxPackage(source.replace(/\.(\*|\w+)$/, ""))) return javaxOnBoot3;
+    if (source?.startsWith("jakarta.")) return jakartaOnBoot2;
+    return "missing-class-or-import";
+  }
+
+  if (/incompatible types|cannot be converted to|cannot be applied to/.test(message)) return "type-mismatch";
+  if (/is not abstract and does not override|method does not override|does not override or implement/.test(message)) {
+    return "method-signature-mismatch";
+  }
+  if (/unreported exception/.test(message)) return "unhandled-checked-exception";
+  if (/has (private|protected) access|is not public in/.test(message)) return "access";
+  return "other";
+}
+
+// Root causes and 3-line source snippets, reading each affected file once
+async function annotateDiagnostics(projectPath: string, diagnostics: CompileDiagnostic[], moduleName?: string): Promise<void> {
+  let bootMajor: number | undefined;
+  if (diagnostics.some((d) => d.severity === "error")) {
+    const versions = JSON.parse(await checkSpringBootVersion(projectPath, moduleName));
+    const major = parseInt(String(versions.springBootVersion ?? ""), 10);
+    bootMajor = Number.isNaN(major) ? undefined : major;
+  }
+
+  const byFile = new Map<string, CompileDiagnostic[]>();
+  for (const diagnostic of diagnostics) {
+    byFile.set(diagnostic.file, [...(byFile.get(diagnostic.file) ?? []), diagnostic]);
+  }
+
+  for (const [file, fileDiagnostics] of byFile) {
+    let lines: string[] = [];
+    let imports: string[] = [];
+    try {
+      const source = await readFile(path.join(projectPath, file), "utf-8");
+      lines = source.split(/\r?\n/);
+      if (file.endsWith(".java")) imports = parseJavaSource(source).imports;
+    } catch (error) {
+      // Generated or deleted source - no snippet
+    }
+
+    for (const diagnostic of fileDiagnostics) {
+      if (diagnostic.severity === "error") diagnostic.rootCause = diagnosticRootCause(diagnostic, imports, bootMajor);
+      if (lines.length === 0) continue;
+      diagnostic.snippet = [];
+      for (let n = Math.max(1, diagnostic.line - 1); n <= Math.min(lines.length, diagnostic.line + 1); n++) {
+        diagnostic.snippet.push(`${n}${n === diagnostic.line ? ">" : ":"} ${lines[n - 1].slice(0, 160)}`);
+      }
+    }
+  }
+}
+
+async function formatCompileResult(
+  projectPath: string,
+  buildTool: BuildTool,
+  success: boolean,
+  output: string,
+  interrupted?: "timed out" | "cancelled",
+  moduleName?: string
+): Promise<string> {
+  const diagnostics = parseCompilerDiagnostics(projectPath, output);
+  const errorCount = diagnostics.filter((d) => d.severity === "error").length;
+
+  // Dependency resolution, plugin and Gradle script failures have no file/line
+  const errors: string[] = [];
+  if (!success && errorCount === 0 && buildTool === "gradle") {
+    errors.push(...extractGradleErrors(projectPath, output));
+  } else if (!success && errorCount === 0) {
+    const errorPattern = /\[ERROR\]\s+(.+)/g;
+    let match;
+    while ((match = errorPattern.exec(output)) !== null) {
+      if (!/^(-> \[Help|To see the full stack trace|Re-run Maven|For more information|\s*$)/.test(match[1])) errors.push(match[1]);
+    }
+  }
+
+  // Errors first; warnings only matter as context when the build failed
+  const listed = diagnostics
+    .filter((d) => d.severity === "error" || !success)
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1))
+    .slice(0, 30);
+  await annotateDiagnostics(projectPath, listed, moduleName);
+
+  const files: { file: string; diagnostics: Omit<CompileDiagnostic, "file">[] }[] = [];
+  for (const { file, ...diagnostic } of listed) {
+    const group = files.find((f) => f.file === file);
+    if (group) group.diagnostics.push(diagnostic);
+    else files.push({ file, diagnostics: [diagnostic] });
+  }
+
+  const rootCauses = Object.entries(
+    listed
+      .filter((d) => d.severity === "error")
+      .reduce<Record<string, { errors: number; files: Set<string> }>>((causes, d) => {
+        const cause = (causes[d.rootCause!] = causes[d.rootCause!] ?? { errors: 0, files: new Set() });
+        cause.errors++;
+        cause.files.add(d.file);
+        return causes;
+      }, {})
+  )
+    .map(([cause, { errors, files }]) => ({ cause, errors, files: Array.from(files), fix: ROOT_CAUSE_FIXES[cause] }))
+    .sort((a, b) => b.errors - a.errors);
+
+  return JSON.stringify({
+    success,
+    message: success ? "✓ BUILD SUCCESS" : interrupted ? `✗ BUILD ${interrupted.toUpperCase()}` : "✗ BUILD FAILED",
+    errorCount,
+    warningCount: diagnostics.length - errorCount,
+    rootCauses: rootCauses.length > 0 ? rootCauses : undefined,
+    files: files.length > 0 ? files : undefined,
+    errors: errors.length > 0 ? errors.slice(0, 10) : undefined, // First 10 errors only
+    recommendation: success
+      ? "Proceed to writing tests"
+      : interrupted === "timed out"
+        ? "Raise timeoutMinutes, or run the build with start_build_job"
+        : rootCauses[0]
+          ? `Fix compilation errors before writing tests - start with ${rootCauses[0].cause} (${rootCauses[0].errors} errors)`
+          : "Fix compilation errors before writing tests",
+  }, null, 2);
+}
+
+async function validateMavenCompile(projectPath: string, moduleName?: string, timeoutMinutes?: number): Promise<string> {
+  const buildTool = await detectBuildTool(projectPath);
+  const command = await compileCommand(projectPath, buildTool, moduleName);
+
+  try {
+    const { stdout, stderr } = await execAsync(command, {
+      cwd: projectPath,
+      timeout: timeoutMs(timeoutMinutes, DEFAULT_COMPILE_TIMEOUT_MINUTES),
+    });
+    return await formatCompileResult(projectPath, buildTool, stdout.includes("BUILD SUCCESS"), stdout + stderr, undefined, moduleName);
+  } catch (error: any) {
+    const output = (error.stdout || "") + (error.stderr || "");
+    return await formatCompileResult(projectPath, buildTool, false, output, error.killed ? "timed out" : undefined, moduleName);
+  }
+}
+
+// Extract javac/kotlinc errors and the "What went wrong" summary from Gradle output
+function extractGradleErrors(projectPath: string, output: string): string[] {
+  const errors: string[] = [];
+
+  const javacPattern = /^(.+\.java):(\d+): error: (.+)$/gm;
+  let match;
+  while ((match = javacPattern.exec(output)) !== null) {
+    errors.push(`${path.relative(projectPath, match[1])}:${match[2]}: ${match[3]}`);
+  }
+
+  const kotlinPattern = /^e: (?:file:\/\/)?(.+\.kts?):(\d+):\d+ (.+)$/gm;
+  while ((match = kotlinPattern.exec(output)) !== null) {
+    errors.push(`${path.relative(projectPath, match[1])}:${match[2]}: ${match[3]}`);
+  }
+
+  if (errors.length === 0) {
+    const wentWrong = output.match(/\* What went wrong:\s*\n([^\n]+)/);
+    if (wentWrong) errors.push(wentWrong[1].trim());
+  }
+
+  return errors;
+}
+
+interface FailedTestCase {
+  class: string;
+  method: string;
+  durationSeconds: number;
+  failureType: string;
+  message: string;
+  stackTrace: string[];
+}
+
+interface TestCaseOutcome {
+  class: string;
+  method: string;
+  outcome: "passed" | "failed" | "skipped";
+}
+
+interface TestReportSummary {
+  reportFiles: number;
+  run: number;
+  failures: number;
+  errors: number;
+  skipped: number;
+  failedTests: FailedTestCase[];
+  testCases: TestCaseOutcome[];
+}
+
+const MAX_PROJECT_FRAMES = 8;
+
+// Keep "Caused by" headers and frames from the test's own base package, drop framework noise
+function trimStackTrace(trace: string, testClassName: string): string[] {
+  const projectPackage = testClassName.split(".").slice(0, 2).join(".") + ".";
+  const kept: string[] = [];
+
+  for (const rawLine of trace.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line.startsWith("Caused by:")) {
+      kept.push(line);
+    } else if (line.startsWith("at ") && line.slice(3).startsWith(projectPackage)) {
+      kept.push(line);
+    }
+    if (kept.length >= MAX_PROJECT_FRAMES) break;
+  }
+
+  return kept;
+}
+
+function parseReportNumber(value: unknown): number {
+  // Surefire formats durations with the JVM locale: "1,234.5" groups thousands, "0,5" is a decimal comma
+  const text = String(value ?? "0").trim().replace(/(?<!^-?0),(?=\d{3}(?!\d))/g, "");
+  const decimal = text.includes(",") ? text.replace(/\.(?=\d{3}(?!\d))/g, "").replace(",", ".") : text;
+  return parseFloat(decimal) || 0;
+}
+
+// Read JUnit XML reports (Surefire, Failsafe, Gradle) written since the run started
+async function readTestReports(
+  reportDirs: string[],
+  since: number
+): Promise<TestReportSummary | null> {
+  const reportFiles = (
+    await Promise.all(
+      reportDirs.map((dir) => glob(`${dir}/TEST-*.xml`, { stat: true, withFileTypes: true }))
+    )
+  ).flat();
+  const freshReports = reportFiles.filter((f) => (f.mtimeMs ?? 0) >= since);
+
+  if (freshReports.length === 0) return null;
+
+  const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: "@_" });
+  const summary: TestReportSummary = {
+    reportFiles: freshReports.length,
+    run: 0,
+    failures: 0,
+    errors: 0,
+    skipped: 0,
+    failedTests: [],
+    testCases: [],
+  };
+
+  for (const report of freshReports) {
+    const parsed = parser.parse(await readFile(report.fullpath(), "utf-8"));
+    const suites = [].concat(parsed.testsuite || parsed.testsuites?.testsuite || []);
+
+    for (const suite of suites as any[]) {
+      summary.run += parseReportNumber(suite["@_tests"]);
+      summary.failures += parseReportNumber(suite["@_failures"]);
+      summary.errors += parseReportNumber(suite["@_errors"]);
+      summary.skipped += parseReportNumber(suite["@_skipped"]);
+
+      const testCases = [].concat(suite.testcase || []);
+      for (const testCase of testCases as any[]) {
+        const failure = [].concat(testCase.failure || testCase.error || [])[0] as any;
+        const className = String(testCase["@_classname"] || suite["@_name"] || "");
+        const method = String(testCase["@_name"] || "").replace(/\(\)$/, "");
+        summary.testCases.push({
+          class: className,
+          method,
+          outcome: failure !== undefined ? "failed" : testCase.skipped !== undefined ? "skipped" : "passed",
+        });
+        if (failure === undefined) continue;
+
+        const trace = typeof failure === "object" ? String(failure["#text"] ?? "") : String(failure);
+        const firstTraceLine = trace.split(/\r?\n/)[0] || "";
+
+        summary.failedTests.push({
+          class: className,
+          method,
+          durationSeconds: parseReportNumber(testCase["@_time"]),
+          failureType: failure["@_type"] || firstTraceLine.split(":")[0] || "unknown",
+          message: String(failure["@_message"] ?? firstTraceLine.replace(/^[\w.$]+:\s*/, "")).trim(),
+          stackTrace: trimStackTrace(trace, className),
+        });
+      }
+    }
+  }
+
+  return summary;
+}
+
+function formatTestCheckpointResult(
+  summary: TestReportSummary | null,
+  output: string,
+  interrupted?: "timed out" | "cancelled"
+): string {
+  if (!summary) {
+    return JSON.stringify({
+      success: false,
+      message: interrupted
+        ? `Test run ${interrupted} before any test reports were written`
+        : "Test execution failed - no test reports were written",
+      output: output.slice(-1000), // Last 1000 chars
+      recommendation: interrupted === "timed out"
+        ? "Raise timeoutMinutes, or run the suite with start_build_job"
+        : undefined,
+    }, null, 2);
+  }
+
+  const success = !interrupted && summary.failures === 0 && summary.errors === 0;
+
+  return JSON.stringify({
+    success,
+    // Reports are written per test class, so an interrupted run keeps the classes that finished
+    partial: interrupted ? true : undefined,
+    interrupted,
+    testsRun: summary.run,
+    failures: summary.failures,
+    errors: summary.errors,
+    skipped: summary.skipped,
+    reportFiles: summary.reportFiles,
+    failedTests: summary.failedTests.slice(0, 20), // First 20 failing test cases
+    recommendation: summary.failures + summary.errors > 0
+      ? "✗ Fix failures before continuing"
+      : interrupted === "timed out"
+        ? "Raise timeoutMinutes, or run the suite with start_build_job"
+        : interrupted
+          ? "Run cancelled - results cover only the test classes that finished"
+          : "✓ Tests passed - continue to next batch",
+  }, null, 2);
+}
+
+interface TestRunCommand {
+  command: string;
+  reportDirs: string[];
+}
+
+// Test command and the JUnit XML report directories it writes to; no testClass runs the whole suite
+async function testRunCommand(
+  projectPath: string,
+  buildTool: BuildTool,
+  testClass?: string,
+  testMethod?: string,
+  moduleName?: string
+): Promise<TestRunCommand> {
+  const modules = await selectModules(projectPath, moduleName);
+
+  if (buildTool === "gradle") {
+    const gradleCmd = await getGradleCommand(projectPath);
+    const testFilter = testClass ? ` --tests ${testMethod ? `${testClass}.${testMethod}` : testClass}` : "";
+    return {
+      command: `${gradleCmd} ${await gradleTaskPrefix(projectPath, moduleName)}test${testFilter} --console=plain`,
+      reportDirs: modules.map((m) => path.join(m.directory, "build", "test-results", "test")),
+    };
+  }
+
+  const mvnCmd = getMavenCommand();
+  const moduleArgs = await mavenModuleArgs(projectPath, moduleName);
+  const reportDirs = modules.flatMap((m) => [
+    path.join(m.directory, "target", "surefire-reports"),
+    path.join(m.directory, "target", "failsafe-reports"),
+  ]);
+  if (!testClass) {
+    return { command: `${mvnCmd} test${moduleArgs}`, reportDirs };
+  }
+
+  const testSpec = testMethod ? `${testClass}#${testMethod}` : testClass;
+  const allModules = moduleName ? await discoverMavenModules(projectPath) : modules;
+  // In a reactor, modules without a matching test class must not fail the build
+  const reactorArgs = allModules.length > 1
+    ? " -Dsurefire.failIfNoSpecifiedTests=false -Dfailsafe.failIfNoSpecifiedTests=false"
+    : "";
+  // *IT classes only run under Failsafe, which needs the verify phase
+  const isIntegrationTest = /IT(?:Case)?$/.test(testClass);
+  const command = isIntegrationTest
+    ? `${mvnCmd} verify -Dit.test=${testSpec} -Dtest=none -Dsurefire.failIfNoSpecifiedTests=false${moduleArgs}${reactorArgs}`
+    : `${mvnCmd} test -Dtest=${testSpec}${moduleArgs}${reactorArgs}`;
+  return { command, reportDirs };
+}
+
+async function runTestCheckpoint(
+  projectPath: string,
+  testClass: string,
+  testMethod?: string,
+  moduleName?: string,
+  timeoutMinutes?: number
+): Promise<string> {
+  const buildTool = await detectBuildTool(projectPath);
+  const { command, reportDirs } = await testRunCommand(projectPath, buildTool, testClass, testMethod, moduleName);
+  const startedAt = Date.now();
+
+  let output = "";
+  let timedOut = false;
+  try {
+    const { stdout, stderr } = await execAsync(command, {
+      cwd: projectPath,
+      timeout: timeoutMs(timeoutMinutes, DEFAULT_TEST_TIMEOUT_MINUTES),
+    });
+    output = stdout + stderr;
+  } catch (error: any) {
+    // Failing tests make Maven and Gradle exit non-zero; the reports are still written
+    output = (error.stdout || "") + (error.stderr || "");
+    timedOut = error.killed === true;
+  }
+
+  const summary = await readTestReports(reportDirs, startedAt);
+  return formatTestCheckpointResult(summary, output, timedOut ? "timed out" : undefined);
+}
+
+// Background build jobs - long builds and full suites run detached from the tool call,
+// with progress parsed from the build log as it streams
+// MCP_BUILD_TIMEOUT_MINUTES overrides the default for jobs started without timeoutMinutes
+const DEFAULT_JOB_TIMEOUT_MINUTES = parseFloat(process.env.MCP_BUILD_TIMEOUT_MINUTES || "") || 30;
+const MAX_JOB_OUTPUT = 200000; // Characters of log kept per job
+const MAX_JOB_WAIT_SECONDS = 600;
+// Finished jobs keep their log and result for polling, but not forever
+const FINISHED_JOB_TTL_MINUTES = 60;
+const MAX_FINISHED_JOBS = 20;
+
+const BUILD_JOB_KINDS = ["compile", "test"] as const;
+type BuildJobKind = (typeof BUILD_JOB_KINDS)[number];
+type BuildJobStatus = "running" | "succeeded" | "failed" | "cancelled" | "timed out";
+
+interface BuildJob {
+  id: string;
+  kind: BuildJobKind;
+  projectPath: string;
+  moduleName?: string;
+  buildTool: BuildTool;
+  command: string;
+  reportDirs: string[];
+  status: BuildJobStatus;
+  startedAt: number;
+  finishedAt?: number;
+  timeoutMinutes: number;
+  currentModule?: string;
+  moduleIndex?: number;
+  moduleCount?: number;
+  currentTestClass?: string;
+  completedTestClasses: number;
+  testsRun: number;
+  testFailures: number; // Failures + errors reported so far
+  progress: number; // Increases with every progress event
+  output: string;
+  result?: any;
+  child: ChildProcess;
+  listeners: Set<(job: BuildJob) => void>;
+}
+
+const buildJobs = new Map<string, BuildJob>();
+let nextJobId = 1;
+
+// Kill the shell and the JVM it started
+function stopProcessTree(child: ChildProcess) {
+  if (child.pid === undefined || child.exitCode !== null) return;
+  if (platform() === "win32") {
+    exec(`taskkill /pid ${child.pid} /T /F`);
+    return;
+  }
+  try {
+    process.kill(-child.pid, "SIGTERM");
+  } catch (error) {
+    child.kill("SIGTERM"); // Not a process group leader
+  }
+}
+
+// Stop every running job - builds run in their own process group and would outlive the server
+function stopAllBuildJobs() {
+  for (const job of buildJobs.values()) {
+    if (job.finishedAt === undefined) stopProcessTree(job.child);
+  }
+}
+
+// Drop finished jobs past the TTL, and the oldest beyond MAX_FINISHED_JOBS
+function pruneBuildJobs() {
+  const expiry = Date.now() - FINISHED_JOB_TTL_MINUTES * 60000;
+  const finished = Array.from(buildJobs.values())
+    .filter((job) => job.finishedAt !== undefined)
+    .sort((a, b) => b.finishedAt! - a.finishedAt!);
+  finished.forEach((job, index) => {
+    if (index >= MAX_FINISHED_JOBS || job.finishedAt! < expiry) buildJobs.delete(job.id);
+  });
+}
+
+function describeJobProgress(job: BuildJob): string {
+  const module = job.currentModule
+    ? `${job.currentModule}${job.moduleIndex && job.moduleCount ? ` [${job.moduleIndex}/${job.moduleCount}]` : ""}`
+    : undefined;
+  const test = job.currentTestClass ? `running ${job.currentTestClass}` : undefined;
+  const counts = job.kind === "test" ? `${job.completedTestClasses} test classes done, ${job.testsRun} tests run` : undefined;
+  return [module, test, counts].filter(Boolean).join(" - ") || "starting";
+}
+
+// Track module and test class from Maven/Surefire and Gradle console lines
+function trackJobProgress(job: BuildJob, line: string) {
+  const text = line.replace(/\x1b\[[0-9;]*m/g, "").trim();
+  let changed = false;
+
+  const mavenModule = text.match(/^\[INFO\] Building ([^:]+?) \S+(?:\s+\[(\d+)\/(\d+)\])?$/);
+  const gradleTask = text.match(/^> Task (:(?:[\w.-]+:)*)(\w+)/);
+  const testStarted = text.match(/^(?:\[INFO\] )?Running ([\w.$]+)$/);
+  const testFinished = text.match(/Tests run: (\d+), Failures: (\d+), Errors: (\d+), Skipped: \d+.*? (?:- )?in ([\w.$]+)/);
+
+  if (mavenModule) {
+    job.currentModule = mavenModule[1].trim();
+    job.moduleIndex = mavenModule[2] ? parseInt(mavenModule[2]) : undefined;
+    job.moduleCount = mavenModule[3] ? parseInt(mavenModule[3]) : undefined;
+    job.currentTestClass = undefined;
+    changed = true;
+  } else if (gradleTask) {
+    // Gradle's plain console reports tasks, not test classes
+    const module = gradleTask[1].replace(/:$/, "") || ":";
+    if (module !== job.currentModule || gradleTask[2] === "test") {
+      job.currentModule = module;
+      job.currentTestClass = gradleTask[2] === "test" ? undefined : job.currentTestClass;
+      changed = true;
+    }
+  } else if (testStarted) {
+    job.currentTestClass = testStarted[1];
+    changed = true;
+  } else if (testFinished) {
+    job.completedTestClasses++;
+    job.testsRun += parseInt(testFinished[1]);
+    job.testFailures += parseInt(testFinished[2]) + parseInt(testFinished[3]);
+    job.currentTestClass = undefined;
+    changed = true;
+  }
+
+  if (changed) {
+    job.progress++;
+    job.listeners.forEach((listener) => listener(job));
+  }
+}
+
+async function finishBuildJob(job: BuildJob, exitCode: number | null) {
+  if (job.status === "running") {
+    job.status = exitCode === 0 ? "succeeded" : "failed";
+  }
+  const interrupted = job.status === "cancelled" || job.status === "timed out" ? job.status : undefined;
+
+  try {
+    if (job.kind === "compile") {
+      job.result = JSON.parse(await formatCompileResult(job.projectPath, job.buildTool, exitCode === 0, job.output, interrupted, job.moduleName));
+    } else {
+      const summary = await readTestReports(job.reportDirs, job.startedAt);
+      job.result = JSON.parse(formatTestCheckpointResult(summary, job.output, interrupted));
+    }
+  } catch (error: any) {
+    job.result = { success: false, message: `Could not read build results: ${error.message}` };
+  } finally {
+    // Waiters and progress subscribers hear about the end even when the results could not be read
+    job.finishedAt = Date.now();
+    job.currentTestClass = undefined;
+    job.progress++;
+    job.listeners.forEach((listener) => listener(job));
+  }
+}
+
+async function startBuildJob(
+  projectPath: string,
+  kind: BuildJobKind,
+  testClass?: string,
+  testMethod?: string,
+  moduleName?: string,
+  timeoutMinutes?: number
+): Promise<BuildJob> {
+  // The input schema's enum is advisory - clients can send anything
+  if (!BUILD_JOB_KINDS.includes(kind)) {
+    throw new Error(`Unknown job kind "${kind}". Use one of: ${BUILD_JOB_KINDS.join(", ")}`);
+  }
+  const buildTool = await detectBuildTool(projectPath);
+  if (buildTool === "none") {
+    throw new Error(`No pom.xml or build.gradle found in ${projectPath}`);
+  }
+
+  const { command, reportDirs } = kind === "compile"
+    ? { command: await compileCommand(projectPath, buildTool, moduleName), reportDirs: [] }
+    : await testRunCommand(projectPath, buildTool, testClass, testMethod, moduleName);
+
+  // Own process group on POSIX so cancellation reaches the JVM, not just the shell
+  const child = spawn(command, { cwd: projectPath, shell: true, detached: platform() !== "win32" });
+  const minutes = timeoutMinutes && timeoutMinutes > 0 ? timeoutMinutes : DEFAULT_JOB_TIMEOUT_MINUTES;
+
+  const job: BuildJob = {
+    id: `job-${nextJobId++}`,
+    kind,
+    projectPath,
+    moduleName,
+    buildTool,
+    command,
+    reportDirs,
+    status: "running",
+    startedAt: Date.now(),
+    timeoutMinutes: minutes,
+    completedTestClasses: 0,
+    testsRun: 0,
+    testFailures: 0,
+    progress: 0,
+    output: "",
+    child,
+    listeners: new Set(),
+  };
+  pruneBuildJobs();
+  buildJobs.set(job.id, job);
+
+  let pending = "";
+  const onData = (chunk: Buffer) => {
+    const text = chunk.toString();
+    job.output = (job.output + text).slice(-MAX_JOB_OUTPUT);
+    const lines = (pending + text).split(/\r?\n/);
+    pending = lines.pop() ?? "";
+    lines.forEach((line) => trackJobProgress(job, line));
+  };
+  child.stdout?.on("data", onData);
+  child.stderr?.on("data", onData);
+
+  const timer = setTimeout(() => {
+    job.status = "timed out";
+    stopProcessTree(child);
+  }, minutes * 60000);
+
+  child.on("error", (error) => {
+    job.output += `\n${error.message}`;
+  });
+  child.on("close", (code) => {
+    clearTimeout(timer);
+    if (pending) trackJobProgress(job, pending);
+    finishBuildJob(job, code);
+  });
+
+  return job;
+}
+
+function getBuildJob(jobId: string): BuildJob {
+  const job = buildJobs.get(jobId);
+  if (!job) {
+    const known = Array.from(buildJobs.keys());
+    throw new Error(`Job ${jobId} not found. Known jobs: ${known.length > 0 ? known.join(", ") : "none"}`);
+  }
+  return job;
+}
+
+// Resolve once the job has finished (result recorded) or waitSeconds pass, reporting progress meanwhile
+function waitForBuildJob(job: BuildJob, waitSeconds: number, onProgress?: (job: BuildJob) => void): Promise<void> {
+  if (job.finishedAt !== undefined || waitSeconds <= 0) return Promise.resolve();
+
+  return new Promise((resolve) => {
+    const listener = (current: BuildJob) => {
+      onProgress?.(current);
+      if (current.finishedAt !== undefined) done();
+    };
+    const timer = setTimeout(() => done(), Math.min(waitSeconds, MAX_JOB_WAIT_SECONDS) * 1000);
+    const done = () => {
+      clearTimeout(timer);
+      job.listeners.delete(listener);
+      resolve();
+    };
+    job.listeners.add(listener);
+  });
+}
+
+function buildJobReport(job: BuildJob): string {
+  const running = job.finishedAt === undefined;
+  const lastLines = job.output.split(/\r?\n/).filter((l) => l.trim()).slice(-5);
+
+  return JSON.stringify({
+    jobId: job.id,
+    kind: job.kind,
+    status: job.status,
+    command: job.command,
+    elapsedSeconds: Math.round(((job.finishedAt ?? Date.now()) - job.startedAt) / 1000),
+    timeoutMinutes: job.timeoutMinutes,
+    progress: describeJobProgress(job),
+    currentModule: job.currentModule,
+    currentTestClass: job.currentTestClass,
+    completedTestClasses: job.kind === "test" ? job.completedTestClasses : undefined,
+    testsRun: job.kind === "test" ? job.testsRun : undefined,
+    testFailures: job.kind === "test" ? job.testFailures : undefined,
+    lastOutput: running ? lastLines : undefined,
+    result: job.result,
+    recommendation: running
+      ? `Poll with get_job_status (jobId "${job.id}", waitSeconds to block), or stop it with cancel_job`
+      : undefined,
+  }, null, 2);
+}
+
+async function cancelBuildJob(jobId: string): Promise<string> {
+  const job = getBuildJob(jobId);
+  if (job.finishedAt === undefined) {
+    if (job.status === "running") job.status = "cancelled";
+    stopProcessTree(job.child);
+    // Give the build a moment to exit so the partial reports can be read
+    await waitForBuildJob(job, 30);
+  }
+  return buildJobReport(job);
+}
+
+async function reportBuildJob(
+  job: BuildJob,
+  waitSeconds?: number,
+  onProgress?: (job: BuildJob) => void
+): Promise<string> {
+  await waitForBuildJob(job, waitSeconds ?? 0, onProgress);
+  return buildJobReport(job);
+}
+
+function listBuildJobs(): string {
+  return JSON.stringify({
+    jobs: Array.from(buildJobs.values()).map((job) => ({
+      jobId: job.id,
+      kind: job.kind,
+      status: job.status,
+      command: job.command,
+      progress: describeJobProgress(job),
+    })),
+  }, null, 2);
+}
+
+const MAPPING_ANNOTATIONS: Record<string, string | null> = {
+  GetMapping: "GET",
+  PostMapping: "POST",
+  PutMapping: "PUT",
+  DeleteMapping: "DELETE",
+  PatchMapping: "PATCH",
+  RequestMapping: null, // Verb comes from method = ..., or matches every verb
+};
+
+interface ControllerEndpoint {
+  method: string;
+  path: string;
+  handlerMethod: string;
+  returnType: string;
+  requestBody: string | null;
+  pathVariables: string[];
+  requestParams: string[];
+  line: number;
+  basePath: string;
+  fullPath: string;
+  conditions: string[]; // params/headers/consumes/produces narrowing the mapping, e.g. "params=version=2"
+  unresolved?: boolean; // The class or method path is a constant expression that could not be resolved
+}
+
+function joinRequestPaths(basePath: string, subPath: string): string {
+  if (!subPath) return basePath || "/";
+  if (!basePath) return subPath.startsWith("/") ? subPath : `/${subPath}`;
+  return `${basePath.replace(/\/$/, "")}/${subPath.replace(/^\//, "")}`;
+}
+
+interface MappingPath {
+  path: string;
+  unresolved?: boolean;
+}
+
+// Every path of a mapping annotation, with constant expressions evaluated against `constants`;
+// one empty path when none is declared
+function mappingPaths(annotation: JavaAnnotation | undefined, constants: Map<string, string>, ...keys: string[]): MappingPath[] {
+  const key = keys.find((k) => annotation?.attributes[k] !== undefined);
+  if (!annotation || !key) return [{ path: "" }];
+  const expressions = annotation.expressions?.[key] ?? [];
+  const paths = annotationValues(annotation, key).map((value): MappingPath => {
+    if (!expressions.includes(value)) return { path: value };
+    const resolved = evaluateStringConstant(value, constants);
+    return resolved !== undefined ? { path: resolved } : { path: value, unresolved: true };
+  });
+  return paths.length > 0 ? paths : [{ path: "" }];
+}
+
+// Class-level @RequestMapping paths; a controller may declare several
+function controllerBasePaths(controller: JavaClass, constants = new Map<string, string>()): MappingPath[] {
+  return mappingPaths(getAnnotation(controller, "RequestMapping"), constants, "value", "path");
+}
+
+// `BASE + "/users"`, `ApiPaths.V1` or a literal; undefined when any operand is not a known constant
+function evaluateStringConstant(expression: string, constants: Map<string, string>): string | undefined {
+  const tokens = tokenizeJava(expression);
+  let value = "";
+  let index = 0;
+  while (index < tokens.length) {
+    const token = tokens[index];
+    if (token.kind === "string") {
+      value += token.value;
+      index++;
+    } else if (token.kind === "ident") {
+      let name = token.value;
+      index++;
+      while (tokens[index]?.value === "." && tokens[index + 1]?.kind === "ident") {
+        name += `.${tokens[index + 1].value}`;
+        index += 2;
+      }
+      const constant = constants.get(name);
+      if (constant === undefined) return undefined;
+      value += constant;
+    } else {
+      return undefined;
+    }
+    if (index === tokens.length) break;
+    if (tokens[index].value !== "+") return undefined;
+    index++;
+  }
+  return tokens.length > 0 ? value : undefined;
+}
+
+// static final String fields of a class (interface fields are implicitly so), evaluated
+// against each other so `V1 + "/users"` resolves too
+function stringConstantsOf(javaClass: JavaClass, known = new Map<string, string>()): Map<string, string> {
+  const constants = new Map<string, string>();
+  const pending = javaClass.fields.filter((f) =>
+    f.initializer !== undefined &&
+    /^(java\.lang\.)?String$/.test(f.type) &&
+    (javaClass.kind === "interface" || (f.modifiers.includes("static") && f.modifiers.includes("final")))
+  );
+  let progress = true;
+  while (pending.length > 0 && progress) {
+    progress = false;
+    for (const field of [...pending]) {
+      const value = evaluateStringConstant(field.initializer!, new Map([...known, ...constants]));
+      if (value === undefined) continue;
+      constants.set(field.name, value);
+      pending.splice(pending.indexOf(field), 1);
+      progress = true;
+    }
+  }
+  return constants;
+}
+
+// Spring's MediaType constants as used in consumes/produces
+const MEDIA_TYPE_CONSTANTS: Record<string, string> = {
+  ALL_VALUE: "*/*", APPLICATION_JSON_VALUE: "application/json", APPLICATION_XML_VALUE: "application/xml",
+  APPLICATION_PROBLEM_JSON_VALUE: "application/problem+json", APPLICATION_OCTET_STREAM_VALUE: "application/octet-stream",
+  APPLICATION_FORM_URLENCODED_VALUE: "application/x-www-form-urlencoded", MULTIPART_FORM_DATA_VALUE: "multipart/form-data",
+  TEXT_PLAIN_VALUE: "text/plain", TEXT_HTML_VALUE: "text/html", TEXT_EVENT_STREAM_VALUE: "text/event-stream",
+};
+
+// Constants a controller's mapping annotations can refer to: its own and enclosing classes'
+// fields, static imports, and Type.NAME through an import or the same package
+async function annotationConstants(projectPath: string, source: JavaSourceFile, javaClass: JavaClass): Promise<Map<string, string>> {
+  const expressions = [javaClass, ...javaClass.methods]
+    .flatMap((node) => node.annotations.filter((a) => a.name in MAPPING_ANNOTATIONS))
+    .flatMap((a) => Object.entries(a.expressions ?? {}).filter(([key]) => key !== "method").flatMap(([, values]) => values));
+  const constants = new Map(Object.entries(MEDIA_TYPE_CONSTANTS).map(([name, value]) => [`MediaType.${name}`, value]));
+  if (expressions.length === 0) return constants;
+
+  const roots = (await getSourceRoots(projectPath, "main", "java")).map((root) => path.resolve(root));
+  const files = new Set(await javaSourceFiles(roots));
+  // com.acme.Paths or com.acme.Paths.Api (nested) - project classes only
+  const constantsOfType = async (qualifiedName: string): Promise<Map<string, string>> => {
+    const segments = qualifiedName.split(".");
+    for (let length = segments.length; length > 0; length--) {
+      for (const root of roots) {
+        const file = `${path.join(root, ...segments.slice(0, length))}.java`;
+        if (!files.has(file)) continue;
+        const type = allJavaClasses(await parseJavaFile(file)).find((c) => c.name === segments[segments.length - 1]);
+        return type ? stringConstantsOf(type) : new Map();
+      }
+    }
+    return new Map();
+  };
+
+  for (const entry of source.imports.filter((i) => i.startsWith("static "))) {
+    const imported = entry.slice("static ".length);
+    const member = imported.split(".").pop()!;
+    for (const [name, value] of await constantsOfType(imported.slice(0, imported.lastIndexOf(".")))) {
+      if (member === "*" || member === name) constants.set(name, value);
+    }
+  }
+
+  const localTypes = allJavaClasses(source);
+  const qualifiers = new Set(expressions.flatMap((e) => Array.from(e.matchAll(/\b([A-Z]\w*(?:\.[A-Z]\w*)*)\.\w+/g), (m) => m[1])));
+  for (const qualifier of qualifiers) {
+    const [first, ...rest] = qualifier.split(".");
+    const local = rest.length === 0 ? localTypes.find((c) => c.name === first) : undefined;
+    const imported = source.imports.find((i) => i.endsWith(`.${first}`) && !i.startsWith("static "));
+    const outer = imported ?? (source.packageName ? `${source.packageName}.${first}` : first);
+    if (!local && /^(java|javax|jakarta|org\.springframework)\./.test(imported ?? "")) continue;
+    const typeConstants = local ? stringConstantsOf(local) : await constantsOfType([outer, ...rest].join("."));
+    for (const [name, value] of typeConstants) constants.set(`${qualifier}.${name}`, value);
+  }
+
+  // Enclosing classes, outermost first, then the class itself: inner names shadow outer and imported ones
+  const enclosing = localTypes.filter((c) =>
+    allJavaClasses({ packageName: "", imports: [], classes: [c] }).includes(javaClass)
+  );
+  for (const type of enclosing) {
+    for (const [name, value] of stringConstantsOf(type, constants)) {
+      constants.set(name, value);
+      constants.set(`${type.name}.${name}`, value);
+    }
+  }
+  return constants;
+}
+
+// Name bound by @PathVariable/@RequestParam, falling back to the parameter name
+function boundParameterNames(method: JavaMethod, annotationName: string): string[] {
+  return method.parameters
+    .filter((p) => hasAnnotation(p, annotationName))
+    .map((p) => annotationValues(getAnnotation(p, annotationName), "value", "name")[0] || p.name);
+}
+
+// Request conditions of a handler: params and headers of the class and method mapping combine,
+// consumes and produces on the method replace the class-level ones
+function mappingConditions(classMapping: JavaAnnotation | undefined, mapping: JavaAnnotation, constants: Map<string, string>): string[] {
+  const values = (annotation: JavaAnnotation | undefined, key: string) =>
+    annotation?.attributes[key] !== undefined ? mappingPaths(annotation, constants, key).map((v) => v.path).filter(Boolean) : [];
+  const conditions: string[] = [];
+  for (const key of ["params", "headers"]) {
+    for (const value of [...values(classMapping, key), ...values(mapping, key)]) conditions.push(`${key}=${value}`);
+  }
+  for (const key of ["consumes", "produces"]) {
+    const own = values(mapping, key);
+    for (const value of own.length > 0 ? own : values(classMapping, key)) conditions.push(`${key}=${value}`);
+  }
+  return Array.from(new Set(conditions)).sort();
+}
+
+// One entry per verb and path declared on each handler method, under every class-level base path
+function extractEndpoints(controller: JavaClass, constants = new Map<string, string>()): ControllerEndpoint[] {
+  const endpoints: ControllerEndpoint[] = [];
+  const basePaths = controllerBasePaths(controller, constants);
+
+  for (const method of controller.methods) {
+    const mapping = method.annotations.find((a) => a.name in MAPPING_ANNOTATIONS);
+    if (!mapping) continue;
+
+    const fixedVerb = MAPPING_ANNOTATIONS[mapping.name];
+    const verbs = fixedVerb
+      ? [fixedVerb]
+      : annotationValues(mapping, "method").map((m) => m.replace(/^.*\./, ""));
+    const paths = mappingPaths(mapping, constants, "value", "path");
+    const requestBody = method.parameters.find((p) => hasAnnotation(p, "RequestBody"));
+    const conditions = mappingConditions(getAnnotation(controller, "RequestMapping"), mapping, constants);
+
+    for (const verb of verbs.length > 0 ? verbs : ["ANY"]) {
+      for (const base of basePaths) {
+        for (const subPath of paths) {
+          endpoints.push({
+            method: verb,
+            path: subPath.path,
+            handlerMethod: method.name,
+            returnType: method.returnType,
+            requestBody: requestBody ? requestBody.type : null,
+            pathVariables: boundParameterNames(method, "PathVariable"),
+            requestParams: boundParameterNames(method, "RequestParam"),
+            line: method.line,
+            basePath: base.path,
+            fullPath: joinRequestPaths(base.path, subPath.path),
+            conditions,
+            ...(base.unresolved || subPath.unresolved ? { unresolved: true } : {}),
+          });
+        }
+      }
+    }
+  }
+
+  return endpoints;
+}
+
+async function analyzeController(
+  projectPath: string,
+  controllerName: string,
+  moduleName?: string
+): Promise<string> {
+  const resolution = await resolveJavaClass(projectPath, controllerName, moduleName, (c) => productionClassKind(c) === "controller");
+  if (!resolution.match) return unresolvedClass(projectPath, "Controller", controllerName, resolution);
+
+  const source = await parseJavaFile(resolution.match.file);
+  const controller = primaryJavaClass(source, resolution.match.name);
+  const constants = controller ? await annotationConstants(projectPath, source, controller) : new Map<string, string>();
+  const endpoints = controller ? extractEndpoints(controller, constants) : [];
+  const basePaths = controller ? controllerBasePaths(controller, constants) : [{ path: "" }];
+
+  // Check for auth requirement
+  const annotated = controller ? [controller, ...controller.methods] : [];
+  const requiresAuth = annotated.some((node) => hasAnnotation(node, "PreAuthorize")) ||
+                      !annotated.some((node) => hasAnnotation(node, "PermitAll"));
+
+  return JSON.stringify({
+    found: true,
+    controller: resolution.match.name,
+    ...resolvedFrom(controllerName, resolution),
+    module: moduleOfFile(projectPath, resolution.match.file),
+    basePath: basePaths[0].path,
+    ...(basePaths.length > 1 ? { basePaths: basePaths.map((b) => b.path) } : {}),
+    requiresAuth,
+    endpointCount: endpoints.length,
+    endpoints: endpoints.map(e => ({
+      method: e.method,
+      path: e.path,
+      handlerMethod: e.handlerMethod,
+      returnType: e.returnType,
+      requestBody: e.requestBody,
+      fullPath: e.fullPath,
+      ...(e.unresolved ? { unresolved: "path uses a constant that could not be resolved" } : {}),
+    })),
+    testRecommendation: {
+      authTests: requiresAuth ? "Write auth tests first (401 unauthorized)" : "No auth required",
+      crudTests: `Write tests for ${endpoints.length} endpoints`,
+    },
+  }, null, 2);
+}
+
+async function checkJsonNamingStrategy(
+  projectPath: string,
+  dtoPackage: string,
+  moduleName?: string
+): Promise<string> {
+  const srcPaths = await getSourceRoots(projectPath, "main", "java", moduleName);
+  const dtoDirectories = srcPaths.map((srcPath) => path.resolve(srcPath, ...dtoPackage.split(".")) + path.sep);
+  const dtoFiles = (await javaSourceFiles(srcPaths)).filter((file) => dtoDirectories.some((d) => file.startsWith(d)));
+
+  const strategies: Record<string, number> = {};
+
+  for (const file of dtoFiles) {
+    const content = await readJavaFile(file);
+
+    if (content.includes("@JsonNaming(PropertyNamingStrategies.SnakeCaseStrategy")) {
+      strategies.snake_case = (strategies.snake_case || 0) + 1;
+    } else if (content.includes("@JsonNaming")) {
+      strategies.other = (strategies.other || 0) + 1;
+    } else {
+      strategies.camelCase = (strategies.camelCase || 0) + 1;
+    }
+  }
+
+  const primary = Object.entries(strategies).sort((a, b) => b[1] - a[1])[0];
+
+  return JSON.stringify({
+    dtoPackage,
+    filesAnalyzed: dtoFiles.length,
+    strategies,
+    primaryStrategy: primary ? primary[0] : "camelCase",
+    recommendation: primary && primary[0] === "snake_case"
+      ? 'Use snake_case in JSON: {"company_id": 100}'
+      : 'Use camelCase in JSON: {"companyId": 100}',
+  }, null, 2);
+}
+
+async function findBeansNeedingExclusion(projectPath: string, moduleName?: string): Promise<string> {
+  const srcPaths = await getSourceRoots(projectPath, "main", "java", moduleName);
+  const javaFiles = await javaSourceFiles(srcPaths);
+
+  const beansToExclude: any[] = [];
+  const keywords = ["aws", "tenant", "secret", "s3", "dynamo", "sqs", "sns"];
+
+  for (const file of javaFiles) {
+    const content = await readJavaFile(file);
+    const fileName = path.basename(file, ".java");
+
+    const isBean = content.includes("@Configuration") ||
+                   content.includes("@Service") ||
+                   content.includes("@Component");
+
+    if (isBean) {
+      const hasProfile = content.includes("@Profile");
+      const needsExclusion = keywords.some(k =>
+        fileName.toLowerCase().includes(k) ||
+        content.toLowerCase().includes(k)
+      );
+
+      if (needsExclusion && !hasProfile) {
+        beansToExclude.push({
+          file: fileName,
+          path: file.replace(projectPath, ""),
+          reason: keywords.filter(k =>
+            fileName.toLowerCase().includes(k) ||
+            content.toLowerCase().includes(k)
+          ),
+        });
+      }
+    }
+  }
+
+  return JSON.stringify({
+    found: beansToExclude.length,
+    beansToExclude,
+    recommendation: beansToExclude.length > 0
+      ? `Add @Profile("!test") to these ${beansToExclude.length} classes`
+      : "No beans found that need exclusion",
+    action: 'Add: @Profile("!test") above @Configuration/@Service/@Component',
+  }, null, 2);
+}
+
+const REPOSITORY_BASE_TYPES = [
+  "Repository", "CrudRepository", "ListCrudRepository", "PagingAndSortingRepository", "ListPagingAndSortingRepository",
+  "JpaRepository", "MongoRepository", "ReactiveCrudRepository", "R2dbcRepository", "RevisionRepository",
+];
+const PAGING_PARAMETER_TYPES = ["Pageable", "Sort", "Limit", "ScrollPosition", "OffsetScrollPosition", "KeysetScrollPosition"];
+const DERIVED_QUERY_PREFIX = /^(find|read|get|query|search|stream|count|exists|delete|remove)(.*?)By(.*)$/;
+
+// Longest first so "IsNotNull" wins over "NotNull" and "Null"; value: number of arguments consumed
+const DERIVED_QUERY_OPERATORS: [string, number][] = [
+  ["IsGreaterThanEqual", 1], ["GreaterThanEqual", 1], ["IsLessThanEqual", 1], ["LessThanEqual", 1],
+  ["IsNotContaining", 1], ["NotContaining", 1], ["IsStartingWith", 1], ["IsEndingWith", 1], ["IsGreaterThan", 1],
+  ["IsContaining", 1], ["GreaterThan", 1], ["StartingWith", 1], ["MatchesRegex", 1], ["IsNotEmpty", 0], ["IsLessThan", 1],
+  ["EndingWith", 1], ["IsNotNull", 0], ["IsNotLike", 1], ["Containing", 1], ["StartsWith", 1], ["IsBetween", 2],
+  ["IsNotIn", 1], ["LessThan", 1], ["NotEmpty", 0], ["IsBefore", 1], ["IsEmpty", 0], ["Contains", 1], ["EndsWith", 1],
+  ["NotLike", 1], ["IsAfter", 1], ["NotNull", 0], ["Between", 2], ["IsFalse", 0], ["IsLike", 1], ["IsNull", 0],
+  ["Matches", 1], ["IsTrue", 0], ["Before", 1], ["Exists", 0], ["Within", 1], ["Equals", 1], ["NotIn", 1], ["After", 1],
+  ["Regex", 1], ["Empty", 0], ["False", 0], ["IsNot", 1], ["IsIn", 1], ["Like", 1], ["Near", 1], ["Null", 0], ["True", 0],
+  ["Not", 1], ["In", 1], ["Is", 1],
+];
+
+const SCALAR_TYPES = new Set([
+  "String", "Long", "long", "Integer", "int", "Short", "short", "Byte", "byte", "Double", "double", "Float", "float",
+  "Boolean", "boolean", "Character", "char", "BigDecimal", "BigInteger", "UUID", "LocalDate", "LocalDateTime",
+  "LocalTime", "Instant", "OffsetDateTime", "ZonedDateTime", "Date", "Duration", "Object", "Void", "void",
+]);
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+function closestName(name: string, candidates: string[]): string | undefined {
+  const ranked = candidates
+    .map((candidate) => ({ candidate, distance: editDistance(name.toLowerCase(), candidate.toLowerCase()) }))
+    .sort((x, y) => x.distance - y.distance);
+  return ranked[0] && ranked[0].distance <= Math.max(2, Math.floor(name.length / 3)) ? ranked[0].candidate : undefined;
+}
+
+// Resolves "CompanyId" the way Spring Data does: the whole name first, then the longest
+// camel-case head that is a property, continuing into its type. "_" forces a split.
+function resolvePropertyPath(
+  classes: Map<string, PersistenceClass>,
+  javaClass: JavaClass,
+  expression: string
+): { path?: string; problem?: string } {
+  const propertiesOf = (owner: JavaClass) => persistentFields(classes, owner).map((f) => f.field);
+
+  const resolve = (owner: JavaClass, remaining: string, resolved: string[]): { path?: string; problem?: string } => {
+    const segments = remaining.split("_").filter(Boolean);
+    const head = segments[0];
+    const tail = segments.slice(1).join("_");
+    const fields = propertiesOf(owner);
+    let nestedProblem: string | undefined;
+
+    // Candidate heads: the whole segment, then shorter camel-case prefixes
+    const boundaries = [head.length, ...Array.from(head.matchAll(/(?<=.)[A-Z]/g)).map((m) => m.index!).reverse()];
+    for (const boundary of boundaries) {
+      const candidate = lowerFirst(head.slice(0, boundary));
+      const field = fields.find((f) => f.name === candidate);
+      if (!field) continue;
+      const rest = head.slice(boundary) + (tail ? `_${tail}` : "");
+      if (!rest) return { path: [...resolved, field.name].join(".") };
+
+      const args = typeArguments(field.type);
+      const valueType = simpleTypeName(args.length > 0 ? args[args.length - 1] : field.type);
+      const nested = classes.get(valueType);
+      if (!nested) {
+        if (SCALAR_TYPES.has(valueType)) continue;
+        return { path: [...resolved, field.name, lowerFirst(rest.replace(/_/g, "."))].join(".") }; // Not a project type - unverified
+      }
+      const result = resolve(nested.javaClass, rest.replace(/^_/, ""), [...resolved, field.name]);
+      if (!result.problem) return result;
+      nestedProblem ??= result.problem;
+    }
+    if (nestedProblem) return { problem: nestedProblem };
+
+    const suggestion = closestName(lowerFirst(head), fields.map((f) => f.name));
+    return {
+      problem: `No property '${lowerFirst(head)}' on ${owner.name}${suggestion ? ` - did you mean '${suggestion}'?` : ""}`,
+    };
+  };
+
+  return resolve(javaClass, expression, []);
+}
+
+interface DerivedQuery {
+  subject: string;
+  distinct: boolean;
+  limit?: number;
+  criteria: { property: string; path?: string; operator: string; ignoreCase: boolean }[];
+  orderBy: { property: string; path?: string; direction: string }[];
+  expectedArguments: number;
+  problems: string[];
+}
+
+function parseDerivedQuery(classes: Map<string, PersistenceClass>, entity: JavaClass | undefined, methodName: string): DerivedQuery | undefined {
+  const match = DERIVED_QUERY_PREFIX.exec(methodName);
+  if (!match) return undefined;
+
+  const [, subject, modifiers, predicate] = match;
+  const limit = /(?:First|Top)(\d*)/.exec(modifiers);
+  const query: DerivedQuery = {
+    subject,
+    distinct: modifiers.includes("Distinct"),
+    limit: limit ? parseInt(limit[1] || "1", 10) : undefined,
+    criteria: [],
+    orderBy: [],
+    expectedArguments: 0,
+    problems: [],
+  };
+
+  const orderIndex = predicate.search(/OrderBy(?=[A-Z])/);
+  let criteria = orderIndex >= 0 ? predicate.slice(0, orderIndex) : predicate;
+  const ordering = orderIndex >= 0 ? predicate.slice(orderIndex + "OrderBy".length) : "";
+  const allIgnoreCase = /All(IgnoreCase|IgnoringCase)$/.test(criteria);
+  criteria = criteria.replace(/All(IgnoreCase|IgnoringCase)$/, "");
+
+  const check = (property: string) => {
+    if (!entity) return undefined;
+    const resolved = resolvePropertyPath(classes, entity, property);
+    if (resolved.problem) query.problems.push(resolved.problem);
+    return resolved.path;
+  };
+
+  for (const orPart of criteria ? criteria.split(/Or(?=[A-Z])/) : []) {
+    for (const part of orPart.split(/And(?=[A-Z])/)) {
+      const ignoreCase = allIgnoreCase || /(IgnoreCase|IgnoringCase)$/.test(part);
+      let property = part.replace(/(IgnoreCase|IgnoringCase)$/, "");
+      let operator = "Equals";
+      let arity = 1;
+      for (const [keyword, count] of DERIVED_QUERY_OPERATORS) {
+        if (property.endsWith(keyword) && property.length > keyword.length) {
+          operator = keyword.replace(/^Is(?=[A-Z])/, "");
+          arity = count;
+          property = property.slice(0, -keyword.length);
+          break;
+        }
+      }
+      query.criteria.push({ property: lowerFirst(property), path: check(property), operator, ignoreCase });
+      query.expectedArguments += arity;
+    }
+  }
+
+  for (const order of ordering.match(/.+?(?:Asc|Desc)(?=[A-Z]|$)/g) ?? (ordering ? [ordering] : [])) {
+    const direction = order.endsWith("Desc") ? "DESC" : "ASC";
+    const property = order.replace(/(Asc|Desc)$/, "");
+    query.orderBy.push({ property: lowerFirst(property), path: check(property), direction });
+  }
+
+  return query;
+}
+
+interface QueryText {
+  text: string;
+  native: boolean;
+  namedParameters: string[];
+  positionalParameters: number[];
+  entities?: string[];
+  tables?: string[];
+  problems: string[];
+}
+
+function analyzeQueryText(
+  classes: Map<string, PersistenceClass>,
+  text: string,
+  native: boolean
+): QueryText {
+  const masked = text.replace(/'[^']*'/g, "''");
+  const namedParameters = Array.from(new Set(Array.from(masked.matchAll(/(?<![:\w]):([A-Za-z_]\w*)/g), (m) => m[1])));
+  const positionalParameters = Array.from(new Set(Array.from(masked.matchAll(/\?(\d+)/g), (m) => parseInt(m[1], 10))));
+  const result: QueryText = { text, native, namedParameters, positionalParameters, problems: [] };
+
+  if (native) {
+    result.tables = Array.from(new Set(Array.from(
+      masked.matchAll(/\b(?:from|join|update|into)\s+([\w."`]+)/gi),
+      (m) => sqlIdentifier(m[1])
+    ))).filter((t) => t !== "select" && !t.startsWith("("));
+    return result;
+  }
+
+  // "FROM Order o JOIN o.items i" -> aliases o: Order, i: Order.items element
+  const entityNames = new Map<string, PersistenceClass>();
+  for (const pc of classes.values()) {
+    if (!hasAnnotation(pc.javaClass, "Entity")) continue;
+    entityNames.set(annotationValues(getAnnotation(pc.javaClass, "Entity"), "name")[0] ?? pc.javaClass.name, pc);
+  }
+  const aliases = new Map<string, JavaClass>();
+  const entities: string[] = [];
+  for (const match of masked.matchAll(/\b(?:from|join|update|delete\s+from)\s+([\w.]+)(?:\s+(?:as\s+)?(\w+))?/gi)) {
+    const [, name, alias] = match;
+    if (name.includes(".")) {
+      // Path join: alias of an association
+      const [owner, ...rest] = name.split(".");
+      const ownerClass = aliases.get(owner);
+      if (ownerClass && alias) {
+        const resolved = resolvePropertyPath(classes, ownerClass, rest.join("_"));
+        if (resolved.problem) result.problems.push(resolved.problem);
+        const field = persistentFields(classes, ownerClass).find((f) => f.field.name === rest[0])?.field;
+        const args = field ? typeArguments(field.type) : [];
+        const target = field ? classes.get(simpleTypeName(args.length > 0 ? args[args.length - 1] : field.type)) : undefined;
+        if (target) aliases.set(alias, target.javaClass);
+      }
+      continue;
+    }
+    const entity = entityNames.get(name);
+    if (!entity) {
+      if (!/^(select|fetch|left|inner|outer)$/i.test(name)) result.problems.push(`Unknown entity '${name}' in JPQL`);
+      continue;
+    }
+    entities.push(name);
+    aliases.set(alias && !/^(where|join|left|inner|order|group|set)$/i.test(alias) ? alias : name, entity.javaClass);
+  }
+  result.entities = Array.from(new Set(entities));
+
+  for (const match of masked.matchAll(/\b(\w+)\.(\w+(?:\.\w+)*)/g)) {
+    const owner = aliases.get(match[1]);
+    if (!owner) continue;
+    const resolved = resolvePropertyPath(classes, owner, match[2].split(".").map(capitalize).join("_"));
+    if (resolved.problem && !result.problems.includes(resolved.problem)) result.problems.push(resolved.problem);
+  }
+  return result;
+}
+
+async function analyzeRepository(
+  projectPath: string,
+  repositoryName: string,
+  moduleName?: string
+): Promise<string> {
+  const resolution = await resolveJavaClass(projectPath, repositoryName, moduleName, (c) => productionClassKind(c) === "repository");
+  if (!resolution.match) return unresolvedClass(projectPath, "Repository", repositoryName, resolution);
+
+  const repository = primaryJavaClass(await parseJavaFile(resolution.match.file), resolution.match.name);
+  const classes = await loadPersistenceClasses(projectPath, moduleName);
+
+  // JpaRepository<Order, Long> -> Order
+  const baseType = repository?.extends.find((t) => REPOSITORY_BASE_TYPES.includes(simpleTypeName(t)));
+  const [entityType, idType] = baseType ? typeArguments(baseType) : [];
+  const entity = entityType ? classes.get(simpleTypeName(entityType)) : undefined;
+  // @NamedQuery(name = "Order.findOverdue") on the entity backs a method without @Query
+  const namedQueries = entity
+    ? [
+      ...entity.javaClass.annotations
+        .filter((a) => a.name === "NamedQuery" || a.name === "NamedNativeQuery")
+        .flatMap((a) => annotationValues(a, "name")),
+      ...annotationValues(getAnnotation(entity.javaClass, "NamedQueries", "NamedNativeQueries"), "value")
+        .map((text) => /name\s*=\s*"([^"]+)"/.exec(text)?.[1] ?? ""),
+    ]
+    : [];
+  const repositoryTransactional = repository ? hasAnnotation(repository, "Transactional") : false;
+
+  const queryMethods: any[] = [];
+  const problems: { method: string; problem: string }[] = [];
+
+  for (const method of repository?.methods ?? []) {
+    const query = getAnnotation(method, "Query", "NativeQuery");
+    const modifying = getAnnotation(method, "Modifying");
+    const entityGraph = getAnnotation(method, "EntityGraph");
+    const lock = annotationValues(getAnnotation(method, "Lock"), "value")[0];
+
+    // Pageable/Sort/Limit and Class<T> (dynamic projection) are not query arguments
+    const paging = method.parameters.find((p) => PAGING_PARAMETER_TYPES.includes(simpleTypeName(p.type)));
+    const dynamicProjection = method.parameters.find((p) => simpleTypeName(p.type) === "Class");
+    const queryArguments = method.parameters.filter((p) => p !== paging && p !== dynamicProjection);
+    const boundNames = queryArguments.map((p) => annotationValues(getAnnotation(p, "Param"), "value")[0] ?? p.name);
+
+    // Projection: the element type returned when it is neither the entity nor a scalar
+    const wrappers = ["List", "Set", "Collection", "Iterable", "Optional", "Page", "Slice", "Stream", "Window", "Mono", "Flux", "CompletableFuture"];
+    let elementType = method.returnType;
+    while (wrappers.includes(simpleTypeName(elementType)) && typeArguments(elementType).length > 0) elementType = typeArguments(elementType)[0];
+    const elementName = simpleTypeName(elementType);
+    let projection: { type: string; kind: string } | undefined;
+    if (dynamicProjection) {
+      projection = { type: elementName, kind: "dynamic" };
+    } else if (entity && elementName !== entity.javaClass.name && !SCALAR_TYPES.has(elementName) &&
+      !["Tuple", "Object[]", "Map"].includes(elementName) && method.typeParameters === undefined) {
+      const projectionFiles = await findJavaFiles(projectPath, elementName, moduleName);
+      const projectionClass = projectionFiles.length > 0
+        ? allJavaClasses(await parseJavaFile(projectionFiles[0])).find((c) => c.name === elementName)
+        : allJavaClasses(await parseJavaFile(resolution.match.file)).find((c) => c.name === elementName);
+      projection = { type: elementName, kind: projectionClass?.kind === "interface" ? "interface" : projectionClass?.kind ?? "class" };
+    }
+
+    const entry: any = {
+      methodName: method.name,
+      returnType: method.returnType,
+      isCustomQuery: query !== undefined,
+      parameters: method.parameters.map((p) => `${p.type} ${p.name}`),
+    };
+    const methodProblems: string[] = [];
+
+    if (query) {
+      const text = annotationValues(query, "value")[0] ?? "";
+      const native = query.name === "NativeQuery" || annotationValues(query, "nativeQuery")[0] === "true";
+      const analyzed = analyzeQueryText(classes, text, native);
+      entry.kind = "query";
+      entry.query = {
+        text,
+        native,
+        countQuery: annotationValues(query, "countQuery")[0],
+        namedParameters: analyzed.namedParameters,
+        positionalParameters: analyzed.positionalParameters.length > 0 ? analyzed.positionalParameters : undefined,
+        entities: analyzed.entities,
+        tables: analyzed.tables,
+      };
+      methodProblems.push(...analyzed.problems);
+      for (const name of analyzed.namedParameters) {
+        if (!boundNames.includes(name)) methodProblems.push(`:${name} is not bound - add @Param("${name}") or compile with -parameters`);
+      }
+      for (const parameter of queryArguments) {
+        const name = annotationValues(getAnnotation(parameter, "Param"), "value")[0];
+        if (name && !analyzed.namedParameters.includes(name) && !text.includes(`#${name}`) && !text.includes(`:#{`)) {
+          methodProblems.push(`@Param("${name}") is not used in the query`);
+        }
+      }
+      for (const position of analyzed.positionalParameters) {
+        if (position > queryArguments.length) methodProblems.push(`?${position} has no matching method argument`);
+      }
+      if (paging && simpleTypeName(paging.type) === "Pageable" && native && !annotationValues(query, "countQuery")[0]) {
+        methodProblems.push("Native query with Pageable needs a countQuery");
+      }
+      if (/^\s*(update|delete|insert)\b/i.test(text) && !modifying) methodProblems.push("Update/delete query without @Modifying");
+    } else if (method.body !== undefined || method.modifiers.includes("default")) {
+      entry.kind = "default";
+    } else if (entity && namedQueries.includes(`${entity.javaClass.name}.${method.name}`)) {
+      entry.kind = "namedQuery";
+    } else {
+      const derived = parseDerivedQuery(classes, entity?.javaClass, method.name);
+      if (derived) {
+        entry.kind = "derived";
+        entry.derived = {
+          subject: derived.subject,
+          distinct: derived.distinct || undefined,
+          limit: derived.limit,
+          criteria: derived.criteria.map((c) => `${c.path ?? c.property} ${c.operator}${c.ignoreCase ? " (ignore case)" : ""}`),
+          orderBy: derived.orderBy.length > 0 ? derived.orderBy.map((o) => `${o.path ?? o.property} ${o.direction}`) : undefined,
+        };
+        methodProblems.push(...derived.problems);
+        if (derived.expectedArguments !== queryArguments.length) {
+          methodProblems.push(`Expects ${derived.expectedArguments} argument(s) from the method name but declares ${queryArguments.length}`);
+        }
+      } else if (/^(find|read|get|query|search|stream|count|exists|delete|remove|save|flush)/.test(method.name)) {
+        entry.kind = "inherited"; // findAll(), deleteAllInBatch(), ... from the base interface
+      } else {
+        entry.kind = "unknown";
+        methodProblems.push("Not a derived query name, no @Query and no named query - Spring Data fails at startup");
+      }
+    }
+
+    if (modifying) {
+      entry.modifying = {
+        clearAutomatically: annotationValues(modifying, "clearAutomatically")[0] === "true",
+        flushAutomatically: annotationValues(modifying, "flushAutomatically")[0] === "true",
+      };
+      if (!repositoryTransactional && !hasAnnotation(method, "Transactional")) {
+        methodProblems.push("@Modifying query needs a transaction - call it from a @Transactional service or test");
+      }
+    }
+    if (paging) entry.paging = simpleTypeName(paging.type);
+    if (projection) entry.projection = projection;
+    if (entityGraph) {
+      entry.entityGraph = {
+        name: annotationValues(entityGraph, "value")[0],
+        attributePaths: annotationValues(entityGraph, "attributePaths"),
+        type: annotationValues(entityGraph, "type")[0]?.replace(/^.*\./, "") ?? "FETCH",
+      };
+      for (const attributePath of entry.entityGraph.attributePaths as string[]) {
+        if (!entity) continue;
+        const resolved = resolvePropertyPath(classes, entity.javaClass, attributePath.split(".").map(capitalize).join("_"));
+        if (resolved.problem) methodProblems.push(`@EntityGraph: ${resolved.problem}`);
+      }
+    }
+    if (lock) entry.lock = lock.replace(/^.*\./, "");
+    if (methodProblems.length > 0) {
+      entry.problems = methodProblems;
+      problems.push(...methodProblems.map((problem) => ({ method: method.name, problem })));
+    }
+    queryMethods.push(entry);
+  }
+
+  // Check for soft delete
+  const annotated = repository ? [repository, ...repository.methods] : [];
+  const hasSoftDelete = annotated.some((node) =>
+    node.annotations.some((a) =>
+      ["Where", "SQLRestriction", "Query"].includes(a.name) &&
+      annotationValues(a, "clause", "value").some((v) => /deleted/i.test(v))
+    )
+  ) || (entity !== undefined && softDeleteColumns([entity.javaClass]).size > 0);
+
+  return JSON.stringify({
+    found: true,
+    repository: resolution.match.name,
+    ...resolvedFrom(repositoryName, resolution),
+    module: moduleOfFile(projectPath, resolution.match.file),
+    entity: entity?.javaClass.name ?? (entityType ? simpleTypeName(entityType) : null),
+    idType: idType ?? null,
+    queryMethodCount: queryMethods.length,
+    queryMethods,
+    problems,
+    hasSoftDelete,
+    testRecommendation: {
+      softDeleteWarning: hasSoftDelete
+        ? "⚠️ Always set .deleted(false) in test data"
+        : null,
+      customQueryTests: queryMethods.filter(m => m.isCustomQuery).length > 0
+        ? "Write tests for custom @Query methods"
+        : "Standard Spring Data methods can use template",
+      problems: problems.length > 0
+        ? "Fix the reported query problems first - Spring Data validates them when the context starts"
+        : undefined,
+    },
+  }, null, 2);
+}
+
+// Java 8 and earlier are spelled "1.8" in sourceCompatibility, JavaVersion.VERSION_1_8 and maven.compiler.source
+function normalizeJavaVersion(version: string): string {
+  return version.trim().replace(/^1\.(\d+)(?:\..*)?$/, "$1");
+}
+
+function springBootVersionReport(
+  buildTool: BuildTool,
+  springBootVersion: string,
+  rawJavaVersion: string,
+  extra: Record<string, unknown> = {}
+): string {
+  const javaVersion = normalizeJavaVersion(rawJavaVersion);
+  const isSpringBoot3 = springBootVersion.startsWith("3");
+  const javaMajor = parseInt(javaVersion);
+  const isJava17Plus = javaMajor >= 17;
+
+  return JSON.stringify({
+    buildTool,
+    ...extra,
+    springBootVersion,
+    javaVersion,
+    isSpringBoot3,
+    persistenceApi: isSpringBoot3 ? "jakarta.persistence.*" : "javax.persistence.*",
+    recommendations: {
+      imports: isSpringBoot3
+        ? "Use jakarta.persistence.* imports"
+        : "Use javax.persistence.* imports",
+      testDependencies: isJava17Plus
+        ? "Use JUnit 5.10+, Mockito 5.x+"
+        : javaMajor < 11
+          ? "Use JUnit 5.11.4, Mockito 4.11.0 (Mockito 5 needs Java 11)"
+          : "Use JUnit 5.11.4, Mockito 5.14.2 (Java 11 compatible)",
+      moduleOpens: isJava17Plus
+        ? buildTool === "gradle"
+          ? "Add --add-opens flags to the Gradle test task jvmArgs"
+          : "Add --add-opens flags to maven-surefire-plugin"
+        : "Module opens optional but recommended for Orika",
+    },
+  }, null, 2);
+}
+
+// Read the Spring Boot plugin version and Java toolchain from build.gradle(.kts)
+async function readGradleVersions(
+  projectPath: string
+): Promise<{ springBootVersion: string; javaVersion: string } | null> {
+  let buildScript = "";
+  for (const file of ["build.gradle.kts", "build.gradle"]) {
+    try {
+      buildScript = await readIndexedFile(path.join(projectPath, file));
+      break;
+    } catch (error) {
+      // Try the next build script name
+    }
+  }
+  if (!buildScript) return null;
+
+  // gradle.properties commonly holds springBootVersion=... referenced as "$springBootVersion"
+  const gradleProperties: Record<string, string> = {};
+  try {
+    const content = await readIndexedFile(path.join(projectPath, "gradle.properties"));
+    for (const line of content.split(/\r?\n/)) {
+      const match = line.match(/^\s*([\w.\-]+)\s*[=:]\s*(.*?)\s*$/);
+      if (match) gradleProperties[match[1]] = match[2];
+    }
+  } catch (error) {
+    // No gradle.properties
+  }
+
+  const resolve = (value: string | undefined): string | undefined => {
+    if (!value) return undefined;
+    const reference = value.match(/^\$\{?([\w.\-]+)\}?$/);
+    return reference ? gradleProperties[reference[1]] : value;
+  };
+
+  const springBootVersion =
+    resolve(buildScript.match(/id\s*\(?\s*["']org\.springframework\.boot["']\s*\)?\s+version\s+["']([^"']+)["']/)?.[1]) ||
+    resolve(buildScript.match(/spring-boot-gradle-plugin:([^"'\s)]+)["']/)?.[1]) ||
+    resolve(buildScript.match(/springBootVersion\s*=\s*["']([^"']+)["']/)?.[1]) ||
+    gradleProperties.springBootVersion ||
+    "Unknown";
+
+  // java { toolchain { languageVersion = JavaLanguageVersion.of(17) } } or kotlin { jvmToolchain(17) }
+  const toolchainMatch =
+    buildScript.match(/JavaLanguageVersion\.of\(\s*["']?(\d+)["']?\s*\)/) ||
+    buildScript.match(/\bjvmToolchain\(\s*["']?(\d+)["']?\s*\)/);
+  const compatibilityMatch = buildScript.match(
+    /sourceCompatibility\s*=\s*(?:JavaVersion\.VERSION_([\d_]+)|["']?([\d.]+)["']?)/
+  );
+  const javaVersion =
+    toolchainMatch?.[1] ||
+    compatibilityMatch?.[1]?.replace(/_/g, ".") ||
+    compatibilityMatch?.[2] ||
+    "Unknown";
+
+  return { springBootVersion, javaVersion };
+}
+
+async function checkSpringBootVersion(projectPath: string, moduleName?: string): Promise<string> {
+  if ((await detectBuildTool(projectPath)) === "gradle") {
+    const rootVersions = await readGradleVersions(projectPath);
+    const moduleVersions = moduleName
+      ? await readGradleVersions(await moduleDirectory(projectPath, moduleName))
+      : null;
+    if (!rootVersions && !moduleVersions) {
+      return JSON.stringify({
+        error: "Could not read build.gradle",
+        message: "Ensure build.gradle or build.gradle.kts exists in the project root",
+      }, null, 2);
+    }
+    const pick = (key: "springBootVersion" | "javaVersion") =>
+      moduleVersions && moduleVersions[key] !== "Unknown"
+        ? moduleVersions[key]
+        : rootVersions?.[key] ?? "Unknown";
+    return springBootVersionReport("gradle", pick("springBootVersion"), pick("javaVersion"));
+  }
+
+  if ((await discoverMavenModules(projectPath)).length === 0) {
+    return JSON.stringify({
+      error: "Could not parse pom.xml",
+      message: "Ensure pom.xml exists and is valid XML",
+    }, null, 2);
+  }
+
+  const modules = await selectModules(projectPath, moduleName);
+  const module = modules[0];
+
+  // Parent version is only a Boot version guess for the root; children inherit the reactor version
+  const springBootVersion =
+    module.springBootVersion ||
+    (module.relativePath === "." ? module.properties["project.parent.version"] : undefined) ||
+    "Unknown";
+
+  const javaVersion =
+    module.properties["java.version"] ||
+    module.properties["maven.compiler.release"] ||
+    module.properties["maven.compiler.source"] ||
+    "Unknown";
+
+  const reactorModules = moduleName ? [] : modules.filter((m) => m.relativePath !== ".");
+  return springBootVersionReport("maven", springBootVersion, javaVersion, {
+    module: module.relativePath,
+    ...(reactorModules.length > 0 ? { modules: reactorModules.map((m) => m.relativePath) } : {}),
+  });
+}
+
+async function investigateService(
+  projectPath: string,
+  serviceName: string,
+  moduleName?: string
+): Promise<string> {
+  const resolution = await resolveJavaClass(projectPath, serviceName, moduleName, (c) => hasAnnotation(c, "Service", "Component"));
+  if (!resolution.match) return unresolvedClass(projectPath, "Service", serviceName, resolution);
+
+  const service = primaryJavaClass(await parseJavaFile(resolution.match.file), resolution.match.name);
+
+  // Repositories injected by field (@Autowired or Lombok-generated constructor) or constructor
+  const injectedTypes = [
+    ...(service?.fields ?? []).filter((f) => !f.modifiers.includes("static")).map((f) => f.type),
+    ...(service?.constructors ?? []).flatMap((c) => c.parameters.map((p) => p.type)),
+  ].map(simpleTypeName);
+  const repositories = [...new Set(injectedTypes.filter((t) => t.endsWith("Repository")))];
+
+  // Extract public methods
+  const publicMethods = (service?.methods ?? [])
+    .filter((m) => m.modifiers.includes("public"))
+    .map((m) => m.name);
+
+  // Extract exceptions thrown, including orElseThrow suppliers and declared throws
+  const exceptions: string[] = [];
+  const throwPattern = /(?:throw\s+new\s+|->\s*new\s+)(\w+(?:Exception|Error))\b|\b(\w+(?:Exception|Error))::new/g;
+  for (const method of service?.methods ?? []) {
+    const thrown = method.throws.map(simpleTypeName);
+    let match;
+    while ((match = throwPattern.exec(method.body ?? "")) !== null) {
+      thrown.push(match[1] || match[2]);
+    }
+    for (const exception of thrown) {
+      if (!exceptions.includes(exception)) exceptions.push(exception);
+    }
+  }
+
+  // Check for @Transactional
+  const isTransactional = service
+    ? [service, ...service.methods].some((node) => hasAnnotation(node, "Transactional"))
+    : false;
+
+  return JSON.stringify({
+    found: true,
+    service: resolution.match.name,
+    ...resolvedFrom(serviceName, resolution),
+    module: moduleOfFile(projectPath, resolution.match.file),
+    isTransactional,
+    repositoryDependencies: repositories,
+    publicMethodCount: publicMethods.length,
+    publicMethods: publicMethods.slice(0, 10),
+    exceptionTypes: exceptions,
+    testRecommendation: {
+      setup: `Autowire: ${resolution.match.name} and ${repositories.join(", ")}`,
+      happyPath: `Test ${publicMethods.length} public methods`,
+      exceptions: exceptions.length > 0
+        ? `Write tests for ${exceptions.join(", ")}`
+        : "No explicit exception tests needed",
+    },
+  }, null, 2);
+}
+
+interface RoleRequirement {
+  roles: string[];
+  authorities: string[];
+}
+
+// Roles/authorities demanded by @PreAuthorize, @Secured or @RolesAllowed; null when none apply
+function requiredRoles(node: { annotations: JavaAnnotation[] }): RoleRequirement | null {
+  const requirement: RoleRequirement = { roles: [], authorities: [] };
+  let restricted = false;
+
+  for (const expression of annotationValues(getAnnotation(node, "PreAuthorize"), "value")) {
+    const rolePattern = /has(Any)?(Role|Authority)\(([^)]*)\)/g;
+    let match;
+    while ((match = rolePattern.exec(expression)) !== null) {
+      restricted = true;
+      const names = [...match[3].matchAll(/['"]([^'"]+)['"]/g)].map((m) => m[1]);
+      if (match[2] === "Role") requirement.roles.push(...names.map((n) => n.replace(/^ROLE_/, "")));
+      else requirement.authorities.push(...names);
+    }
+  }
+
+  // @Secured names without the ROLE_ prefix are plain authorities
+  for (const value of annotationValues(getAnnotation(node, "Secured"), "value")) {
+    restricted = true;
+    const name = value.replace(/^.*\./, ""); // Constants like Roles.ADMIN
+    if (name.startsWith("ROLE_")) requirement.roles.push(name.slice(5));
+    else requirement.authorities.push(name);
+  }
+
+  for (const value of annotationValues(getAnnotation(node, "RolesAllowed"), "value")) {
+    restricted = true;
+    requirement.roles.push(value.replace(/^.*\./, "").replace(/^ROLE_/, ""));
+  }
+
+  return restricted ? requirement : null;
+}
+
+function toSnakeCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toLowerCase();
+}
+
+function sampleJsonValue(type: string): string {
+  const simple = simpleTypeName(type);
+  if (["String", "CharSequence"].includes(simple)) return '"test"';
+  if (["Long", "long", "Integer", "int", "Short", "short", "BigInteger"].includes(simple)) return "1";
+  if (["Double", "double", "Float", "float", "BigDecimal"].includes(simple)) return "1.0";
+  if (["Boolean", "boolean"].includes(simple)) return "true";
+  if (simple === "UUID") return '"00000000-0000-0000-0000-000000000001"';
+  if (simple === "LocalDate") return '"2024-01-01"';
+  if (["LocalDateTime", "OffsetDateTime", "ZonedDateTime", "Instant"].includes(simple)) return '"2024-01-01T00:00:00Z"';
+  if (["List", "Set", "Collection"].includes(simple) || type.endsWith("[]")) return "[]";
+  return "null";
+}
+
+// Sample JSON for a DTO, honoring @JsonProperty and the project's naming strategy
+// Declaration of a type as written in `context`: a class nested in that file (Inner or Outer.Inner),
+// a nested class through an import, or a top-level class found by its file name
+async function findTypeDeclaration(
+  projectPath: string,
+  type: string,
+  moduleName?: string,
+  context?: JavaSourceFile
+): Promise<JavaClass | undefined> {
+  const segments = type.replace(/<.*$/s, "").replace(/\[\]|\.\.\./g, "").split(".");
+  const name = segments[segments.length - 1];
+
+  if (context) {
+    const local = allJavaClasses(context).find((c) => c.name === name);
+    if (local) return local;
+    const imported = context.imports.find((i) => !i.startsWith("static ") && i.endsWith(`.${segments[0]}`));
+    if (imported) {
+      const resolution = await resolveJavaClass(projectPath, [imported, ...segments.slice(1)].join("."), moduleName);
+      if (resolution.matchedBy === "qualified name") {
+        return allJavaClasses(await parseJavaFile(resolution.match!.file)).find((c) => c.name === name);
+      }
+    }
+  }
+
+  // Outer.Inner lives in Outer.java
+  const files = await findJavaFiles(projectPath, segments.length > 1 ? segments[segments.length - 2] : name, moduleName);
+  if (files.length === 0) return undefined;
+  const source = await parseJavaFile(files[0]);
+  return segments.length > 1 ? allJavaClasses(source).find((c) => c.name === name) : primaryJavaClass(source, name);
+}
+
+// `context` is the file the type is used in, for nested types such as ApiAdvice.ErrorBody
+async function sampleJsonBody(
+  projectPath: string,
+  type: string,
+  snakeCase: boolean,
+  moduleName?: string,
+  context?: JavaSourceFile
+): Promise<string> {
+  const isCollection = ["List", "Set", "Collection"].includes(simpleTypeName(type));
+  const dtoType = isCollection ? typeArguments(type)[0] ?? "Object" : type;
+
+  const dto = await findTypeDeclaration(projectPath, dtoType, moduleName, context);
+
+  let body = "{}";
+  if (dto) {
+    const entries = [...dto.recordComponents, ...dto.fields]
+      .filter((f) => !f.modifiers.includes("static") && !hasAnnotation(f, "JsonIgnore"))
+      .map((f) => {
+        const name = annotationValues(getAnnotation(f, "JsonProperty"), "value")[0] ||
+          (snakeCase ? toSnakeCase(f.name) : f.name);
+        return `"${name}": ${sampleJsonValue(f.type)}`;
+      });
+    body = `{${entries.join(", ")}}`;
+  }
+
+  return isCollection ? `[${body}]` : body;
+}
+
+function javaStringLiteral(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function samplePathValue(type: string): string {
+  const simple = simpleTypeName(type);
+  if (["Long", "long"].includes(simple)) return "1L";
+  if (["Integer", "int", "Short", "short"].includes(simple)) return "1";
+  if (simple === "UUID") return '"00000000-0000-0000-0000-000000000001"';
+  return '"test"';
+}
+
+async function generateControllerTest(
+  projectPath: string,
+  controllerName: string,
+  writeToProject?: boolean,
+  moduleName?: string
+): Promise<string> {
+  const resolution = await resolveJavaClass(projectPath, controllerName, moduleName, (c) => productionClassKind(c) === "controller");
+  if (!resolution.match) return unresolvedClass(projectPath, "Controller", controllerName, resolution);
+
+  const source = await parseJavaFile(resolution.match.file);
+  const controller = primaryJavaClass(source, resolution.match.name);
+  if (!controller) {
+    return JSON.stringify({
+      found: false,
+      message: `No class declaration found in ${path.basename(resolution.match.file)}`,
+    }, null, 2);
+  }
+
+  const controllerModule = moduleOfFile(projectPath, resolution.match.file);
+  const moduleForLookups = moduleName ?? (controllerModule === "." ? undefined : controllerModule);
+
+  // Reuse the existing tools so the skeleton matches what they report
+  const wrapper = JSON.parse(await investigateResponseWrapper(projectPath, moduleForLookups));
+  const versions = JSON.parse(await checkSpringBootVersion(projectPath, moduleForLookups));
+  // Access per endpoint as analyze_security_config reports it: filter chain URL rules plus method security.
+  // Without Spring Security every endpoint is public and spring-security-test is not on the classpath
+  const security = await loadSecurityModel(projectPath, moduleForLookups);
+  const springSecurity = security.hasSpringSecurity;
+  // @Transactional rolls back test data, but spring-tx only comes with a persistence starter
+  const transactional = await hasDependency(projectPath, moduleForLookups, /spring-boot-starter-(data-jpa|jdbc|data-jdbc)|spring-tx|spring-data-jpa/);
+
+  // Naming strategy of the package holding the DTOs this controller imports
+  const dtoTypes = new Set(
+    extractEndpoints(controller)
+      .flatMap((e) => [e.requestBody, e.returnType])
+      .filter((t): t is string => !!t)
+      .flatMap((t) => [t, ...typeArguments(t), ...typeArguments(t).flatMap(typeArguments)])
+      .map(simpleTypeName)
+  );
+  const dtoImport = source.imports.find((i) => dtoTypes.has(i.split(".").pop() ?? ""));
+  const dtoPackage = dtoImport ? dtoImport.slice(0, dtoImport.lastIndexOf(".")) : source.packageName;
+  const naming = JSON.parse(await checkJsonNamingStrategy(projectPath, dtoPackage, moduleForLookups));
+  const snakeCase = naming.primaryStrategy === "snake_case";
+
+  const jsonPathPrefix: string = wrapper.jsonPathPrefix ?? "$";
+  const persistencePackage = versions.isSpringBoot3 ? "jakarta.persistence" : "javax.persistence";
+  const constants = await annotationConstants(projectPath, source, controller);
+  const testClassName = `${controller.name}IntegrationTest`;
+
+  const tests: string[] = [];
+  const usedNames = new Set<string>();
+  let usesMockUser = false;
+  let usesCsrf = false;
+  const skipped: string[] = [];
+
+  for (const endpoint of extractEndpoints(controller, constants)) {
+    if (endpoint.unresolved) {
+      skipped.push(`${endpoint.method} ${endpoint.fullPath} (${endpoint.handlerMethod})`);
+      continue;
+    }
+    const handler = controller.methods.find((m) => m.name === endpoint.handlerMethod && m.line === endpoint.line)!;
+    const fullPath = endpoint.fullPath;
+    const verb = endpoint.method === "ANY" ? "get" : endpoint.method.toLowerCase();
+
+    let testName = endpoint.handlerMethod;
+    if (usedNames.has(testName)) testName += verb.charAt(0).toUpperCase() + verb.slice(1);
+    while (usedNames.has(testName)) testName += "_";
+    usedNames.add(testName);
+
+    const access = security.matrix.find((e) =>
+      e.handler === `${controller.name}.${endpoint.handlerMethod}` && e.method === endpoint.method && e.path === fullPath
+    );
+    const secured = !!access && access.access !== "public";
+    const needsRole = access?.access === "roles";
+    if (secured) usesMockUser = true;
+
+    const uriVariables = handler.parameters
+      .filter((p) => hasAnnotation(p, "PathVariable"))
+      .map((p) => samplePathValue(p.type));
+    const requestLines = [
+      `mockMvc.perform(${verb}(${javaStringLiteral(fullPath)}${uriVariables.map((v) => `, ${v}`).join("")})`,
+    ];
+    for (const param of handler.parameters.filter((p) => hasAnnotation(p, "RequestParam"))) {
+      const annotation = getAnnotation(param, "RequestParam");
+      const optional = annotationValues(annotation, "required")[0] === "false" ||
+        annotationValues(annotation, "defaultValue").length > 0;
+      if (optional) continue;
+      const name = annotationValues(annotation, "value", "name")[0] || param.name;
+      requestLines.push(`        .param(${javaStringLiteral(name)}, "test")`);
+    }
+    // Spring Security rejects state-changing requests without a CSRF token, public ones included
+    if (access?.csrfRequired) {
+      requestLines.push("        .with(csrf())");
+      usesCsrf = true;
+    }
+    if (endpoint.requestBody) {
+      const body = await sampleJsonBody(projectPath, endpoint.requestBody, snakeCase, moduleForLookups, source);
+      requestLines.push("        .contentType(MediaType.APPLICATION_JSON)");
+      requestLines.push(`        .content(${javaStringLiteral(body)})`);
+    }
+    requestLines.push("        .accept(MediaType.APPLICATION_JSON))");
+
+    const responseStatus = annotationValues(getAnnotation(handler, "ResponseStatus"), "value", "code")[0] ?? "";
+    const returnsBody = !["void", "Void"].includes(simpleTypeName(endpoint.returnType)) &&
+      !typeArguments(endpoint.returnType).includes("Void");
+    const statusMatcher = responseStatus.endsWith("CREATED")
+      ? "isCreated()"
+      : responseStatus.endsWith("NO_CONTENT")
+        ? "isNoContent()"
+        : simpleTypeName(endpoint.returnType) === "ResponseEntity"
+          ? "is2xxSuccessful()"
+          : "isOk()";
+
+    const withMockUser = access?.withMockUser ?? "@WithMockUser";
+
+    const happyPath = [
+      "    @Test",
+      ...(secured ? [`    ${withMockUser}`] : []),
+      `    @DisplayName(${javaStringLiteral(`${endpoint.method} ${fullPath} succeeds`)})`,
+      `    void ${testName}_succeeds() throws Exception {`,
+      ...requestLines.map((l) => `        ${l}`),
+      `            .andExpect(status().${statusMatcher})${returnsBody && statusMatcher !== "isNoContent()" ? "" : ";"}`,
+    ];
+    if (returnsBody && statusMatcher !== "isNoContent()") {
+      // ResponseEntity<List<X>> and List<X> are JSON arrays; a Page is an object holding one
+      const bodyType = simpleTypeName(endpoint.returnType) === "ResponseEntity"
+        ? typeArguments(endpoint.returnType)[0] ?? endpoint.returnType
+        : endpoint.returnType;
+      const isCollection = /^(List|Set|Collection)$/.test(simpleTypeName(bodyType));
+      happyPath.push(`            .andExpect(jsonPath(${javaStringLiteral(jsonPathPrefix)}).${isCollection ? "isArray()" : "exists()"});`);
+    }
+    happyPath.push("    }");
+    tests.push(happyPath.join("\n"));
+
+    if (secured) {
+      tests.push([
+        "    @Test",
+        `    @DisplayName(${javaStringLiteral(`${endpoint.method} ${fullPath} without authentication returns 401`)})`,
+        `    void ${testName}_unauthenticated_returns401() throws Exception {`,
+        ...requestLines.map((l) => `        ${l}`),
+        "            .andExpect(status().isUnauthorized());",
+        "    }",
+      ].join("\n"));
+    }
+
+    if (needsRole) {
+      tests.push([
+        "    @Test",
+        '    @WithMockUser(roles = "NO_ACCESS")',
+        `    @DisplayName(${javaStringLiteral(`${endpoint.method} ${fullPath} without required role returns 403`)})`,
+        `    void ${testName}_withoutRequiredRole_returns403() throws Exception {`,
+        ...requestLines.map((l) => `        ${l}`),
+        "            .andExpect(status().isForbidden());",
+        "    }",
+      ].join("\n"));
+    }
+  }
+
+  const imports = [
+    "import org.junit.jupiter.api.DisplayName;",
+    "import org.junit.jupiter.api.Test;",
+    "import org.springframework.beans.factory.annotation.Autowired;",
+    "import org.springframework.boot.test.autoconfigure.web.servlet.AutoConfigureMockMvc;",
+    "import org.springframework.boot.test.context.SpringBootTest;",
+    "import org.springframework.http.MediaType;",
+    ...(usesMockUser ? ["import org.springframework.security.test.context.support.WithMockUser;"] : []),
+    "import org.springframework.test.context.ActiveProfiles;",
+    "import org.springframework.test.web.servlet.MockMvc;",
+    ...(transactional ? ["import org.springframework.transaction.annotation.Transactional;"] : []),
+  ];
+
+  const content = [
+    ...(source.packageName ? [`package ${source.packageName};`, ""] : []),
+    ...imports,
+    "",
+    ...(usesCsrf
+      ? ["import static org.springframework.security.test.web.servlet.request.SecurityMockMvcRequestPostProcessors.csrf;"]
+      : []),
+    "import static org.springframework.test.web.servlet.request.MockMvcRequestBuilders.*;",
+    "import static org.springframework.test.web.servlet.result.MockMvcResultMatchers.*;",
+    "",
+    "@SpringBootTest",
+    "@AutoConfigureMockMvc",
+    '@ActiveProfiles("test")',
+    ...(transactional ? ["@Transactional"] : []),
+    `class ${testClassName} {`,
+    "",
+    "    @Autowired",
+    "    private MockMvc mockMvc;",
+    "",
+    tests.join("\n\n"),
+    "}",
+    "",
+  ].join("\n");
+
+  const relativeTestPath = path.join(
+    controllerModule,
+    "src",
+    "test",
+    "java",
+    ...source.packageName.split(".").filter(Boolean),
+    `${testClassName}.java`
+  );
+
+  let written = false;
+  if (writeToProject) {
+    const testPath = path.join(projectPath, relativeTestPath);
+    if (await fileExists(testPath)) {
+      return JSON.stringify({
+        found: true,
+        written: false,
+        path: relativeTestPath,
+        message: `${testClassName} already exists - not overwritten`,
+        content,
+      }, null, 2);
+    }
+    await mkdir(path.dirname(testPath), { recursive: true });
+    await writeFile(testPath, content, "utf-8");
+    written = true;
+  }
+
+  return JSON.stringify({
+    found: true,
+    testClass: testClassName,
+    path: relativeTestPath,
+    written,
+    testCount: tests.length,
+    ...(skipped.length > 0 ? { skippedEndpoints: { reason: "path uses a constant that could not be resolved", endpoints: skipped } } : {}),
+    conventions: {
+      jsonPathPrefix,
+      namingStrategy: naming.primaryStrategy,
+      persistenceApi: `${persistencePackage}.*`,
+      springSecurity,
+    },
+    content: written ? undefined : content,
+    recommendation: written
+      ? `Run run_test_checkpoint with testClass "${testClassName}"`
+      : "Review the content, or call again with writeFile: true to save it under src/test/java",
+  }, null, 2);
+}
+
+const SECURITY_ANNOTATIONS = ["PreAuthorize", "PostAuthorize", "Secured", "RolesAllowed", "PermitAll", "DenyAll"];
+
+interface RouteEntry {
+  method: string;
+  fullPath: string;
+  unresolved?: boolean; // fullPath still holds a constant expression
+  conditions: string[];
+  controller: string;
+  handlerMethod: string;
+  module: string;
+  pathVariables: string[];
+  requestParams: string[];
+  requestBody: string | null;
+  returnType: string;
+  security: string[];
+  securityAnnotations: JavaAnnotation[];
+  handler: JavaMethod;
+}
+
+// Two handlers for the same verb, path and request conditions
+interface RouteConflict {
+  route: string;
+  conditions?: string[];
+  handlers: string[];
+}
+
+function describeAnnotation(annotation: JavaAnnotation): string {
+  const attributes = Object.entries(annotation.attributes).map(([key, value]) => {
+    const text = Array.isArray(value) ? `{${value.map((v) => JSON.stringify(v)).join(", ")}}` : JSON.stringify(value);
+    return key === "value" ? text : `${key} = ${text}`;
+  });
+  return `@${annotation.name}${attributes.length > 0 ? `(${attributes.join(", ")})` : ""}`;
+}
+
+// Every handler method of every @Controller/@RestController, deduplicated by verb + path
+async function collectRoutes(
+  projectPath: string,
+  moduleName?: string
+): Promise<{ routes: RouteEntry[]; conflicts: RouteConflict[]; controllerCount: number }> {
+  const srcPaths = await getSourceRoots(projectPath, "main", "java", moduleName);
+  const javaFiles = await javaSourceFiles(srcPaths);
+
+  const routes: RouteEntry[] = [];
+  const conflicts: RouteConflict[] = [];
+  const seen = new Map<string, RouteEntry>();
+  let controllerCount = 0;
+
+  for (const file of javaFiles.sort()) {
+    const content = await readJavaFile(file);
+    if (!content.includes("Controller")) continue;
+
+    const source = await parseJavaFile(file);
+    for (const javaClass of allJavaClasses(source)) {
+      if (!hasAnnotation(javaClass, "RestController", "Controller")) continue;
+      controllerCount++;
+
+      const constants = await annotationConstants(projectPath, source, javaClass);
+      const classSecurity = javaClass.annotations.filter((a) => SECURITY_ANNOTATIONS.includes(a.name));
+
+      for (const endpoint of extractEndpoints(javaClass, constants)) {
+        const handler = javaClass.methods.find((m) => m.name === endpoint.handlerMethod && m.line === endpoint.line)!;
+        const methodSecurity = handler.annotations.filter((a) => SECURITY_ANNOTATIONS.includes(a.name));
+        // Method-level annotations override class-level ones
+        const securityAnnotations = methodSecurity.length > 0 ? methodSecurity : classSecurity;
+        const route: RouteEntry = {
+          method: endpoint.method,
+          fullPath: endpoint.fullPath,
+          ...(endpoint.unresolved ? { unresolved: true } : {}),
+          conditions: endpoint.conditions,
+          controller: javaClass.name,
+          handlerMethod: endpoint.handlerMethod,
+          module: moduleOfFile(projectPath, file),
+          pathVariables: endpoint.pathVariables,
+          requestParams: endpoint.requestParams,
+          requestBody: endpoint.requestBody,
+          returnType: endpoint.returnType,
+          security: securityAnnotations.map(describeAnnotation),
+          securityAnnotations,
+          handler,
+        };
+
+        // Spring refuses to start with two handlers for the same mapping and request conditions
+        const key = `${route.method} ${route.fullPath.replace(/\{[^}]+\}/g, "{}")} ${route.conditions.join(" ")}`;
+        const existing = seen.get(key);
+        if (existing) {
+          conflicts.push({
+            route: `${route.method} ${route.fullPath}`,
+            ...(route.conditions.length > 0 ? { conditions: route.conditions } : {}),
+            handlers: [
+              `${existing.controller}.${existing.handlerMethod}`,
+              `${route.controller}.${route.handlerMethod}`,
+            ],
+          });
+          continue;
+        }
+        seen.set(key, route);
+        routes.push(route);
+      }
+    }
+  }
+
+  routes.sort((a, b) => a.fullPath.localeCompare(b.fullPath) || a.method.localeCompare(b.method));
+  return { routes, conflicts, controllerCount };
+}
+
+const OPENAPI_SCALARS: Record<string, any> = {
+  String: { type: "string" },
+  CharSequence: { type: "string" },
+  char: { type: "string" },
+  Character: { type: "string" },
+  UUID: { type: "string", format: "uuid" },
+  LocalDate: { type: "string", format: "date" },
+  LocalDateTime: { type: "string", format: "date-time" },
+  OffsetDateTime: { type: "string", format: "date-time" },
+  ZonedDateTime: { type: "string", format: "date-time" },
+  Instant: { type: "string", format: "date-time" },
+  Date: { type: "string", format: "date-time" },
+  int: { type: "integer", format: "int32" },
+  Integer: { type: "integer", format: "int32" },
+  short: { type: "integer", format: "int32" },
+  Short: { type: "integer", format: "int32" },
+  long: { type: "integer", format: "int64" },
+  Long: { type: "integer", format: "int64" },
+  BigInteger: { type: "integer" },
+  float: { type: "number", format: "float" },
+  Float: { type: "number", format: "float" },
+  double: { type: "number", format: "double" },
+  Double: { type: "number", format: "double" },
+  BigDecimal: { type: "number" },
+  boolean: { type: "boolean" },
+  Boolean: { type: "boolean" },
+  MultipartFile: { type: "string", format: "binary" },
+};
+
+// Wrappers that do not change the JSON shape of the payload
+const RESPONSE_WRAPPERS = ["ResponseEntity", "Optional", "Mono", "CompletableFuture", "Callable", "DeferredResult", "HttpEntity"];
+
+// Builds OpenAPI schemas, registering project DTOs under components.schemas
+async function openApiSchema(
+  projectPath: string,
+  type: string,
+  schemas: Record<string, any>,
+  moduleName?: string
+): Promise<any> {
+  const simple = simpleTypeName(type);
+  const args = typeArguments(type);
+
+  if (type.endsWith("[]") || type.endsWith("...")) {
+    return { type: "array", items: await openApiSchema(projectPath, type.replace(/(\[\]|\.\.\.)$/, ""), schemas, moduleName) };
+  }
+  if (RESPONSE_WRAPPERS.includes(simple)) {
+    return args[0] ? openApiSchema(projectPath, args[0], schemas, moduleName) : {};
+  }
+  if (["List", "Set", "Collection", "Iterable", "Flux", "Stream"].includes(simple)) {
+    return { type: "array", items: args[0] ? await openApiSchema(projectPath, args[0], schemas, moduleName) : {} };
+  }
+  if (simple === "Map") {
+    return { type: "object", additionalProperties: args[1] ? await openApiSchema(projectPath, args[1], schemas, moduleName) : {} };
+  }
+  if (OPENAPI_SCALARS[simple]) return { ...OPENAPI_SCALARS[simple] };
+  // Object, Jackson trees and type variables (T, ?) carry no usable shape
+  if (["Object", "JsonNode", "?"].includes(simple) || simple.length <= 1) return { type: "object" };
+
+  const ref = { $ref: `#/components/schemas/${simple}` };
+  if (schemas[simple]) return ref;
+
+  const files = await findJavaFiles(projectPath, simple, moduleName);
+  const dto = files.length > 0 ? primaryJavaClass(await parseJavaFile(files[0]), simple) : undefined;
+  if (!dto) return { type: "object", description: simple };
+
+  schemas[simple] = { type: "object" }; // Placeholder breaks cycles between DTOs
+  if (dto.kind === "enum") {
+    schemas[simple] = { type: "string", enum: dto.enumConstants };
+    return ref;
+  }
+
+  const properties: Record<string, any> = {};
+  const required: string[] = [];
+  for (const field of dto.fields) {
+    if (field.modifiers.includes("static") || hasAnnotation(field, "JsonIgnore")) continue;
+    const name = annotationValues(getAnnotation(field, "JsonProperty"), "value")[0] || field.name;
+    properties[name] = await openApiSchema(projectPath, field.type, schemas, moduleName);
+    if (hasAnnotation(field, "NotNull", "NotBlank", "NotEmpty")) required.push(name);
+  }
+  schemas[simple] = { type: "object", properties, ...(required.length > 0 ? { required } : {}) };
+  return ref;
+}
+
+// Statuses a handler answers with: @ResponseStatus, or the ResponseEntity builders and
+// constructors in its body; a plain handler answers 200
+function responseStatuses(handler: JavaMethod): number[] {
+  const annotated = httpStatusCode(annotationValues(getAnnotation(handler, "ResponseStatus"), "value", "code")[0]);
+  if (annotated) return [annotated];
+
+  const body = maskJavaStrings(handler.body ?? "");
+  const builders: Record<string, number> = {
+    ok: 200, created: 201, accepted: 202, noContent: 204, badRequest: 400, notFound: 404,
+    unprocessableEntity: 422, internalServerError: 500,
+  };
+  const statuses = new Set<number>();
+  for (const match of body.matchAll(/ResponseEntity\s*\.\s*(?:<[^>]*>\s*)?(\w+)\s*\(([^)]*)\)?/g)) {
+    // ResponseEntity.of(optional) answers 404 for an empty Optional
+    if (match[1] === "of") [200, 404].forEach((code) => statuses.add(code));
+    const code = match[1] === "status" ? httpStatusCode(match[2]) : builders[match[1]];
+    if (code) statuses.add(code);
+  }
+  // new ResponseEntity<>(body, HttpStatus.CREATED)
+  for (const match of body.matchAll(/new\s+ResponseEntity\s*(?:<[^>]*>)?\s*\(([^;]*)/g)) {
+    const status = /HttpStatus(?:Code)?\.(?:valueOf\(\s*\d{3}\s*\)|[A-Z][A-Z_]+)/.exec(match[1]);
+    statuses.add(httpStatusCode(status?.[0]) ?? 200);
+  }
+  return statuses.size > 0 ? Array.from(statuses).sort((a, b) => a - b) : [200];
+}
+
+async function buildOpenApiDocument(
+  projectPath: string,
+  routes: RouteEntry[],
+  moduleName?: string
+): Promise<any> {
+  const schemas: Record<string, any> = {};
+  const paths: Record<string, any> = {};
+
+  for (const route of routes) {
+    // Spring allows regex constraints in path variables ({id:\d+}); OpenAPI does not
+    const openApiPath = route.fullPath.replace(/\{(\w+):[^}]*\}/g, "{$1}");
+    const parameters: any[] = [];
+
+    for (const param of route.handler.parameters) {
+      const pathVariable = getAnnotation(param, "PathVariable");
+      const requestParam = getAnnotation(param, "RequestParam");
+      const header = getAnnotation(param, "RequestHeader");
+      const annotation = pathVariable ?? requestParam ?? header;
+      if (!annotation) continue;
+
+      const optional = annotationValues(annotation, "required")[0] === "false" ||
+        annotationValues(annotation, "defaultValue").length > 0;
+      parameters.push({
+        name: annotationValues(annotation, "value", "name")[0] || param.name,
+        in: pathVariable ? "path" : requestParam ? "query" : "header",
+        required: pathVariable ? true : !optional,
+        schema: await openApiSchema(projectPath, param.type, schemas, moduleName),
+      });
+    }
+
+    const returnsBody = !["void", "Void"].includes(simpleTypeName(route.returnType)) &&
+      !typeArguments(route.returnType).includes("Void");
+    const responses: Record<string, any> = {};
+    for (const status of responseStatuses(route.handler)) {
+      const success = status < 300;
+      responses[String(status)] = {
+        description: success ? "Success" : "Error",
+        ...(success && status !== 204 && returnsBody
+          ? { content: { "application/json": { schema: await openApiSchema(projectPath, route.returnType, schemas, moduleName) } } }
+          : {}),
+      };
+    }
+
+    const operation: any = {
+      operationId: `${route.controller}.${route.handlerMethod}`,
+      tags: [route.controller],
+      parameters,
+      responses,
+    };
+    if (route.requestBody) {
+      operation.requestBody = {
+        required: true,
+        content: { "application/json": { schema: await openApiSchema(projectPath, route.requestBody, schemas, moduleName) } },
+      };
+    }
+    if (route.security.length > 0) operation["x-security-annotations"] = route.security;
+
+    const verbs = route.method === "ANY" ? ["get", "post", "put", "delete", "patch"] : [route.method.toLowerCase()];
+    paths[openApiPath] = paths[openApiPath] ?? {};
+    for (const verb of verbs) {
+      paths[openApiPath][verb] = paths[openApiPath][verb] ?? operation;
+    }
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: path.basename(path.resolve(projectPath)),
+      version: "generated",
+      description: "Generated from controller source by spring-integration-test-mcp",
+    },
+    paths,
+    components: { schemas },
+  };
+}
+
+async function listEndpoints(
+  projectPath: string,
+  format?: string,
+  moduleName?: string
+): Promise<string> {
+  const { routes, conflicts, controllerCount } = await collectRoutes(projectPath, moduleName);
+
+  if (format === "openapi") {
+    // A path still holding a constant expression is not a usable OpenAPI path
+    const unresolved = routes.filter((r) => r.unresolved);
+    const document = await buildOpenApiDocument(projectPath, routes.filter((r) => !r.unresolved), moduleName);
+    if (unresolved.length > 0) {
+      document["x-unresolved-routes"] = unresolved.map((r) => `${r.method} ${r.fullPath} (${r.controller}.${r.handlerMethod})`);
+    }
+    return JSON.stringify(document, null, 2);
+  }
+
+  return JSON.stringify({
+    controllerCount,
+    endpointCount: routes.length,
+    endpoints: routes.map((r) => ({
+      method: r.method,
+      path: r.fullPath,
+      ...(r.unresolved ? { unresolved: "path uses a constant that could not be resolved" } : {}),
+      ...(r.conditions.length > 0 ? { conditions: r.conditions } : {}),
+      controller: r.controller,
+      handlerMethod: r.handlerMethod,
+      module: r.module,
+      pathVariables: r.pathVariables,
+      requestParams: r.requestParams,
+      requestBody: r.requestBody,
+      returnType: r.returnType,
+      security: r.security,
+    })),
+    conflicts,
+    recommendation: conflicts.length > 0
+      ? `⚠️ ${conflicts.length} ambiguous mappings - Spring will fail to start`
+      : "Use format: \"openapi\" to compare against the springdoc /v3/api-docs output",
+  }, null, 2);
+}
+
+const TEST_CLASS_SUFFIXES = ["Test", "Tests", "IT", "ITCase", "IntegrationTest", "IntegrationTests"];
+const INJECTED_TEST_ANNOTATIONS = ["Autowired", "Inject", "InjectMocks", "SpyBean", "MockitoSpyBean"];
+const MOCKED_TEST_ANNOTATIONS = ["MockBean", "MockitoBean", "Mock"];
+
+interface TestFileInfo {
+  className: string;
+  relativePath: string;
+  content: string;
+  injectedTypes: Set<string>;
+  mockedTypes: Set<string>;
+  requests: { method?: string; path: string }[];
+}
+
+// Test classes with their injected/mocked collaborators and the request paths they hit
+async function collectTestFiles(projectPath: string, moduleName?: string): Promise<TestFileInfo[]> {
+  const testFiles = await findTestFiles(projectPath, "*", moduleName);
+  const tests: TestFileInfo[] = [];
+
+  for (const file of testFiles.sort()) {
+    const content = await readJavaFile(file);
+    const classes = allJavaClasses(await parseJavaFile(file));
+    const fields = classes.flatMap((c) => c.fields);
+
+    const typesWith = (annotations: string[]) => new Set(
+      fields.filter((f) => hasAnnotation(f, ...annotations)).map((f) => simpleTypeName(f.type))
+    );
+    // @MockBean(UserService.class) on the class also replaces the bean
+    const classMocks = classes
+      .flatMap((c) => annotationValues(getAnnotation(c, "MockBean", "MockitoBean"), "value", "types", "classes"))
+      .map((v) => v.replace(/\.class$/, ""));
+
+    // mockMvc get("/x"), WebTestClient uri("/x"), TestRestTemplate getForEntity("/x") and bare path literals
+    const requests: { method?: string; path: string }[] = [];
+    const verbLiteralEnds = new Set<number>();
+    const verbPattern = /\b(get|post|put|delete|patch|head|options)\s*\(\s*"(\/[^"]*)"/g;
+    let match;
+    while ((match = verbPattern.exec(content)) !== null) {
+      requests.push({ method: match[1].toUpperCase(), path: match[2] });
+      verbLiteralEnds.add(match.index + match[0].length);
+    }
+    const literalPattern = /"(\/[^"\s]*)"/g;
+    while ((match = literalPattern.exec(content)) !== null) {
+      if (verbLiteralEnds.has(match.index + match[0].length)) continue;
+      requests.push({ path: match[1] });
+    }
+
+    tests.push({
+      className: classes[0]?.name ?? path.basename(file, ".java"),
+      relativePath: path.relative(projectPath, file),
+      content,
+      injectedTypes: typesWith(INJECTED_TEST_ANNOTATIONS),
+      mockedTypes: new Set([...typesWith(MOCKED_TEST_ANNOTATIONS), ...classMocks]),
+      requests,
+    });
+  }
+
+  return tests;
+}
+
+// "/api/users/{id}" matches "/api/users/42", "/api/users/{id}" and "/api/users/" + id
+function routeMatchesRequest(route: RouteEntry, request: { method?: string; path: string }): boolean {
+  if (request.method && route.method !== "ANY" && request.method !== route.method) return false;
+  const routePattern = new RegExp(
+    "^" + route.fullPath.split(/\{[^}]+\}/).map((part) => part.replace(/[.*+?^$()|[\]\\]/g, "\\$&")).join("[^/]+") + "/?$"
+  );
+  let requestPath = request.path.split("?")[0].replace(/\{[^}]+\}/g, "1");
+  if (requestPath.endsWith("/") && requestPath.length > 1) requestPath += "1";
+  return routePattern.test(requestPath) || routePattern.test(request.path.split("?")[0]);
+}
+
+function productionClassKind(javaClass: JavaClass): "controller" | "service" | "repository" | null {
+  if (hasAnnotation(javaClass, "RestController", "Controller")) return "controller";
+  if (hasAnnotation(javaClass, "Service")) return "service";
+  if (
+    hasAnnotation(javaClass, "Repository") ||
+    (javaClass.kind === "interface" && javaClass.extends.some((e) => /Repository\b/.test(simpleTypeName(e))))
+  ) {
+    return "repository";
+  }
+  return null;
+}
+
+async function findUntestedCode(projectPath: string, moduleName?: string): Promise<string> {
+  const tests = await collectTestFiles(projectPath, moduleName);
+  const { routes } = await collectRoutes(projectPath, moduleName);
+
+  const srcPaths = await getSourceRoots(projectPath, "main", "java", moduleName);
+  const javaFiles = await javaSourceFiles(srcPaths);
+
+  const untestedClasses: any[] = [];
+  const untestedServiceMethods: any[] = [];
+  let classCount = 0;
+  let serviceMethodCount = 0;
+
+  for (const file of javaFiles.sort()) {
+    for (const javaClass of allJavaClasses(await parseJavaFile(file))) {
+      const kind = productionClassKind(javaClass);
+      if (!kind) continue;
+      classCount++;
+
+      const name = javaClass.name;
+      const namedTests = tests.filter((t) => TEST_CLASS_SUFFIXES.some((suffix) => t.className === name + suffix));
+      const injectingTests = tests.filter((t) => t.injectedTypes.has(name));
+      const testedBy = [...new Set([...namedTests, ...injectingTests].map((t) => t.className))];
+      const mockedIn = tests.filter((t) => t.mockedTypes.has(name)).map((t) => t.className);
+
+      // Controllers are covered through their routes below
+      if (testedBy.length === 0 && kind !== "controller") {
+        untestedClasses.push({
+          class: name,
+          kind,
+          module: moduleOfFile(projectPath, file),
+          mockedIn, // A @MockBean replaces the real bean, so it does not count as coverage
+        });
+      }
+
+      if (kind !== "service") continue;
+
+      const exercisingTests = tests.filter((t) => testedBy.includes(t.className));
+      for (const method of javaClass.methods.filter((m) => m.modifiers.includes("public"))) {
+        serviceMethodCount++;
+        const callPattern = new RegExp(`\\.${method.name}\\s*\\(`);
+        if (exercisingTests.some((t) => callPattern.test(t.content))) continue;
+        untestedServiceMethods.push({
+          service: name,
+          method: method.name,
+          lines: method.endLine - method.line + 1,
+        });
+      }
+    }
+  }
+
+  const untestedEndpoints = routes
+    .filter((route) => !tests.some((t) => t.requests.some((request) => routeMatchesRequest(route, request))))
+    .map((route) => ({
+      method: route.method,
+      path: route.fullPath,
+      controller: route.controller,
+      handlerMethod: route.handlerMethod,
+      lines: route.handler.endLine - route.handler.line + 1,
+    }));
+
+  // Largest first - bigger handlers and methods hide more untested behavior
+  untestedEndpoints.sort((a, b) => b.lines - a.lines);
+  untestedServiceMethods.sort((a, b) => b.lines - a.lines);
+
+  return JSON.stringify({
+    testFileCount: tests.length,
+    summary: {
+      endpoints: { total: routes.length, untested: untestedEndpoints.length },
+      serviceMethods: { total: serviceMethodCount, untested: untestedServiceMethods.length },
+      classes: { total: classCount, untested: untestedClasses.length },
+    },
+    untestedEndpoints: untestedEndpoints.slice(0, 50),
+    untestedServiceMethods: untestedServiceMethods.slice(0, 50),
+    untestedClasses,
+    recommendation: untestedEndpoints.length > 0
+      ? `Start with ${untestedEndpoints[0].method} ${untestedEndpoints[0].path} (${untestedEndpoints[0].controller}) - use generate_controller_test`
+      : "Every endpoint is referenced by at least one test ✓",
+  }, null, 2);
+}
+
+const JACOCO_VERSION = "0.8.12";
+
+interface CoverageCounter {
+  missed: number;
+  covered: number;
+}
+
+function coveragePercent(counter: CoverageCounter | undefined): number | null {
+  if (!counter || counter.missed + counter.covered === 0) return null;
+  return Math.round((counter.covered / (counter.missed + counter.covered)) * 1000) / 10;
+}
+
+function readCounters(node: any): Record<string, CoverageCounter> {
+  const counters: Record<string, CoverageCounter> = {};
+  for (const counter of asArray<any>(node?.counter)) {
+    counters[counter["@_type"]] = {
+      missed: parseInt(counter["@_missed"] || "0"),
+      covered: parseInt(counter["@_covered"] || "0"),
+    };
+  }
+  return counters;
+}
+
+function addCounter(target: Record<string, CoverageCounter>, type: string, counter?: CoverageCounter) {
+  if (!counter) return;
+  target[type] = target[type] ?? { missed: 0, covered: 0 };
+  target[type].missed += counter.missed;
+  target[type].covered += counter.covered;
+}
+
+// [3, 4, 5, 9] -> "3-5, 9"
+function formatLineRanges(lines: number[]): string {
+  const ranges: string[] = [];
+  let start = -1;
+  let previous = -1;
+  for (const line of [...lines].sort((a, b) => a - b)) {
+    if (line !== previous + 1) {
+      if (start >= 0) ranges.push(start === previous ? `${start}` : `${start}-${previous}`);
+      start = line;
+    }
+    previous = line;
+  }
+  if (start >= 0) ranges.push(start === previous ? `${start}` : `${start}-${previous}`);
+  return ranges.join(", ");
+}
+
+async function jacocoReportPaths(projectPath: string, buildTool: BuildTool, moduleName?: string): Promise<string[]> {
+  const modules = await selectModules(projectPath, moduleName);
+  const candidates = modules.flatMap((m) => buildTool === "gradle"
+    ? [path.join(m.directory, "build", "reports", "jacoco", "test", "jacocoTestReport.xml")]
+    : [path.join(m.directory, "target", "site", "jacoco", "jacoco.xml")]
+  );
+  const existing: string[] = [];
+  for (const candidate of candidates) {
+    if (await fileExists(candidate)) existing.push(candidate);
+  }
+  return existing;
+}
+
+interface JacocoRun {
+  startedAt: number;
+  timedOut: boolean;
+  output?: string; // Tail of the output when the run failed
+}
+
+// Run tests under the JaCoCo agent; Maven needs no pom changes, Gradle needs the jacoco plugin
+async function runWithJacoco(
+  projectPath: string,
+  buildTool: BuildTool,
+  testClass?: string,
+  moduleName?: string,
+  timeoutMinutes?: number
+): Promise<JacocoRun> {
+  const startedAt = Date.now();
+  const timeout = timeoutMs(timeoutMinutes, DEFAULT_COVERAGE_TIMEOUT_MINUTES);
+  let command: string;
+  if (buildTool === "gradle") {
+    const gradleCmd = await getGradleCommand(projectPath);
+    const prefix = await gradleTaskPrefix(projectPath, moduleName);
+    const filter = testClass ? ` --tests ${testClass}` : "";
+    command = `${gradleCmd} ${prefix}test${filter} ${prefix}jacocoTestReport --console=plain`;
+  } else {
+    const plugin = `org.jacoco:jacoco-maven-plugin:${JACOCO_VERSION}`;
+    const filter = testClass ? ` -Dtest=${testClass} -Dsurefire.failIfNoSpecifiedTests=false` : "";
+    command = `${getMavenCommand()} ${plugin}:prepare-agent test ${plugin}:report -Dmaven.test.failure.ignore=true${filter}${await mavenModuleArgs(projectPath, moduleName)}`;
+  }
+  try {
+    await execAsync(command, { cwd: projectPath, timeout });
+    return { startedAt, timedOut: false };
+  } catch (error: any) {
+    const output = (error.stdout || "") + (error.stderr || "");
+    return { startedAt, timedOut: error.killed === true, output: output.slice(-1000) };
+  }
+}
+
+async function getCoverageSummary(
+  projectPath: string,
+  className?: string,
+  runTests?: boolean,
+  testClass?: string,
+  moduleName?: string,
+  timeoutMinutes?: number
+): Promise<string> {
+  const buildTool = await detectBuildTool(projectPath);
+
+  const run = runTests ? await runWithJacoco(projectPath, buildTool, testClass, moduleName, timeoutMinutes) : undefined;
+  const runOutput = run?.output ?? null;
+
+  // A report older than the run was left over from an earlier build - this run did not produce it
+  const existingReports = await jacocoReportPaths(projectPath, buildTool, moduleName);
+  const reportPaths: string[] = [];
+  const staleReports: string[] = [];
+  for (const reportPath of existingReports) {
+    const { mtimeMs } = await stat(reportPath);
+    // One second of slack for filesystems with coarse timestamps
+    if (run && mtimeMs < run.startedAt - 1000) staleReports.push(path.relative(projectPath, reportPath));
+    else reportPaths.push(reportPath);
+  }
+
+  if (reportPaths.length === 0) {
+    return JSON.stringify({
+      found: false,
+      message: staleReports.length > 0
+        ? `The test run ${run?.timedOut ? "timed out" : "failed"} before writing a new JaCoCo report; the existing report is from an earlier build`
+        : run?.timedOut ? "The test run timed out before writing a JaCoCo report" : "No JaCoCo XML report found",
+      staleReports: staleReports.length > 0 ? staleReports : undefined,
+      output: runOutput ?? undefined,
+      recommendation: run?.timedOut
+        ? "Raise timeoutMinutes, or narrow the run with testClass"
+        : buildTool === "gradle"
+          ? "Apply the 'jacoco' plugin with jacocoTestReport { reports { xml.required = true } }, then call again with run: true"
+          : "Call again with run: true to run the tests under the JaCoCo agent",
+    }, null, 2);
+  }
+
+  const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: "@_" });
+  const totals: Record<string, CoverageCounter> = {};
+  const classes: any[] = [];
+  const filter = className?.replace(/\.java$/, "");
+
+  for (const reportPath of reportPaths) {
+    const report = parser.parse(await readFile(reportPath, "utf-8")).report;
+    for (const [type, counter] of Object.entries(readCounters(report))) addCounter(totals, type, counter);
+
+    for (const pkg of asArray<any>(report?.package)) {
+      const packageName = String(pkg["@_name"] || "").replace(/\//g, ".");
+
+      // Group by source file so inner and anonymous classes roll up into their top-level class
+      for (const sourceFile of asArray<any>(pkg.sourcefile)) {
+        const fileName = String(sourceFile["@_name"]);
+        const simpleName = fileName.replace(/\.java$/, "");
+        const qualifiedName = packageName ? `${packageName}.${simpleName}` : simpleName;
+        if (filter && filter !== simpleName && filter !== qualifiedName) continue;
+
+        const fileClasses = asArray<any>(pkg.class).filter((c) => c["@_sourcefilename"] === fileName);
+        const methods = fileClasses.flatMap((c) => {
+          const owner = String(c["@_name"]).split("/").pop() ?? "";
+          const ownerPrefix = owner === simpleName ? "" : `${owner.replace(`${simpleName}$`, "")}.`;
+          return asArray<any>(c.method).map((m) => {
+            const counters = readCounters(m);
+            return {
+              name: `${ownerPrefix}${m["@_name"]}`,
+              line: parseInt(m["@_line"] || "0"),
+              lineCoverage: coveragePercent(counters.LINE),
+              branchCoverage: coveragePercent(counters.BRANCH),
+              missedLines: counters.LINE?.missed ?? 0,
+            };
+          });
+        });
+
+        const counters = readCounters(sourceFile);
+        const uncovered: number[] = [];
+        const partial: number[] = [];
+        for (const line of asArray<any>(sourceFile.line)) {
+          const number = parseInt(line["@_nr"]);
+          const coveredInstructions = parseInt(line["@_ci"] || "0");
+          const missedBranches = parseInt(line["@_mb"] || "0");
+          const coveredBranches = parseInt(line["@_cb"] || "0");
+          if (coveredInstructions === 0 && parseInt(line["@_mi"] || "0") > 0) uncovered.push(number);
+          else if (missedBranches > 0 && coveredBranches + coveredInstructions > 0) partial.push(number);
+        }
+
+        classes.push({
+          class: qualifiedName,
+          lineCoverage: coveragePercent(counters.LINE),
+          branchCoverage: coveragePercent(counters.BRANCH),
+          missedLines: counters.LINE?.missed ?? 0,
+          uncoveredLines: formatLineRanges(uncovered),
+          partiallyCoveredBranches: formatLineRanges(partial),
+          methods: filter
+            ? methods.sort((a, b) => a.line - b.line)
+            : undefined, // Per-method detail only when narrowed to one class
+        });
+      }
+    }
+  }
+
+  if (filter && classes.length === 0) {
+    return JSON.stringify({
+      found: false,
+      message: `${className} is not in the JaCoCo report - it may have no tests, or the report is stale`,
+      reports: reportPaths.map((p) => path.relative(projectPath, p)),
+    }, null, 2);
+  }
+
+  // Least covered first, weighted by how many lines are missed
+  classes.sort((a, b) => b.missedLines - a.missedLines);
+
+  return JSON.stringify({
+    found: true,
+    reports: reportPaths.map((p) => path.relative(projectPath, p)),
+    staleReports: staleReports.length > 0 ? staleReports : undefined, // Not rewritten by this run, left out
+    testRunFailed: runOutput !== null ? true : undefined,
+    testRunTimedOut: run?.timedOut || undefined,
+    output: runOutput ?? undefined,
+    total: {
+      lineCoverage: coveragePercent(totals.LINE),
+      branchCoverage: coveragePercent(totals.BRANCH),
+      methodCoverage: coveragePercent(totals.METHOD),
+    },
+    classCount: classes.length,
+    classes: classes.slice(0, 50),
+    recommendation: classes[0]?.missedLines > 0
+      ? `Target the uncovered lines of ${classes[0].class} first (${classes[0].missedLines} missed lines)`
+      : "All reported lines are covered ✓",
+  }, null, 2);
+}
+
+// Test datasource - what database the tests run against and whether the container runtime can provide it
+interface DatabaseProduct {
+  container: string; // Testcontainers class
+  module: string; // org.testcontainers artifact
+  image: string;
+  drivers: string[]; // groupId:artifactId
+}
+
+const DATABASE_PRODUCTS: Record<string, DatabaseProduct> = {
+  postgresql: { container: "PostgreSQLContainer", module: "postgresql", image: "postgres:16-alpine", drivers: ["org.postgresql:postgresql"] },
+  mysql: { container: "MySQLContainer", module: "mysql", image: "mysql:8.0", drivers: ["com.mysql:mysql-connector-j", "mysql:mysql-connector-java"] },
+  mariadb: { container: "MariaDBContainer", module: "mariadb", image: "mariadb:11", drivers: ["org.mariadb.jdbc:mariadb-java-client"] },
+  oracle: { container: "OracleContainer", module: "oracle-free", image: "gvenzl/oracle-free:slim-faststart", drivers: ["com.oracle.database.jdbc:ojdbc11", "com.oracle.database.jdbc:ojdbc8"] },
+  sqlserver: { container: "MSSQLServerContainer", module: "mssqlserver", image: "mcr.microsoft.com/mssql/server:2022-latest", drivers: ["com.microsoft.sqlserver:mssql-jdbc"] },
+};
+
+const EMBEDDED_DATABASES: Record<string, string> = {
+  "com.h2database:h2": "h2",
+  "org.hsqldb:hsqldb": "hsqldb",
+  "org.apache.derby:derby": "derby",
+};
+
+const RYUK_IMAGE = "testcontainers/ryuk:0.7.0";
+
+// Database product from a JDBC URL, driver class or Hibernate dialect
+function databaseFromText(text: string | undefined): string | undefined {
+  if (!text) return undefined;
+  const value = text.toLowerCase();
+  if (/jdbc:(tc:)?h2|org\.h2\.|h2dialect/.test(value)) return "h2";
+  if (/jdbc:(tc:)?hsqldb|hsql/.test(value)) return "hsqldb";
+  if (/jdbc:(tc:)?derby|derby/.test(value)) return "derby";
+  if (/postgres/.test(value)) return "postgresql";
+  if (/mariadb/.test(value)) return "mariadb";
+  if (/mysql/.test(value)) return "mysql";
+  if (/oracle/.test(value)) return "oracle";
+  if (/sqlserver|mssql/.test(value)) return "sqlserver";
+  return undefined;
+}
+
+// Dependencies declared in build.gradle(.kts); test* configurations map to Maven's test scope
+async function readGradleDependencies(directory: string): Promise<MavenDependency[]> {
+  const dependencies: MavenDependency[] = [];
+  for (const file of ["build.gradle.kts", "build.gradle"]) {
+    let buildScript: string;
+    try {
+      buildScript = await readIndexedFile(path.join(directory, file));
+    } catch (error) {
+      continue; // Try the next build script name
+    }
+    const pattern = /(\w+)\s*\(?\s*["']([\w.\-]+):([\w.\-]+)(?::([^"']+))?["']/g;
+    let match;
+    while ((match = pattern.exec(buildScript)) !== null) {
+      if (!/(implementation|api|compileOnly|runtimeOnly|testImplementation|testRuntimeOnly|developmentOnly)$/i.test(match[1])) continue;
+      dependencies.push({
+        groupId: match[2],
+        artifactId: match[3],
+        version: match[4],
+        scope: match[1].startsWith("test") ? "test" : undefined,
+      });
+    }
+    break;
+  }
+  return dependencies;
+}
+
+// Declared dependencies of the selected modules, from pom.xml or build.gradle(.kts)
+async function projectDependencies(projectPath: string, moduleName?: string): Promise<MavenDependency[]> {
+  const buildTool = await detectBuildTool(projectPath);
+  const modules = await selectModules(projectPath, moduleName);
+  return buildTool === "gradle"
+    ? (await Promise.all(modules.map((m) => readGradleDependencies(m.directory)))).flat()
+    : modules.flatMap((m) => m.dependencies);
+}
+
+// A declared dependency whose artifactId matches; modules inherit the root pom's and build script's dependencies
+async function hasDependency(projectPath: string, moduleName: string | undefined, artifactId: RegExp): Promise<boolean> {
+  const dependencies = [
+    ...(await projectDependencies(projectPath, moduleName)),
+    ...(moduleName ? await projectDependencies(projectPath, ".") : []),
+  ];
+  return dependencies.some((d) => artifactId.test(d.artifactId));
+}
+
+// Spring Security on the classpath, or a security configuration in the sources
+async function usesSpringSecurity(projectPath: string, moduleName?: string): Promise<boolean> {
+  if (await hasDependency(projectPath, moduleName, /spring-boot-starter-security|spring-security-(web|config|test)/)) return true;
+
+  for (const file of await findJavaFiles(projectPath, "*", moduleName)) {
+    const classes = allJavaClasses(await parseJavaFile(file));
+    if (classes.some((c) =>
+      c.extends.some((e) => simpleTypeName(e) === "WebSecurityConfigurerAdapter") ||
+      c.methods.some((m) => simpleTypeName(m.returnType) === "SecurityFilterChain")
+    )) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Image names come from string literals in the analyzed sources, so only plain references are passed on
+const CONTAINER_IMAGE_NAME = /^[A-Za-z0-9][\w./:@-]*$/;
+
+interface ContainerRuntimeStatus {
+  runtime: string;
+  daemonReachable: boolean;
+  dockerHost: string | null;
+  ryukDisabled: boolean;
+  podman?: boolean;
+  podmanSocket?: string | null;
+  podmanSocketExists?: boolean;
+  rootless?: boolean;
+  serverVersion?: string;
+  images?: { image: string; availableLocally: boolean; skipped?: string }[];
+}
+
+// Runtime, daemon and socket state as Testcontainers will see it
+async function inspectContainerRuntime(images: string[]): Promise<ContainerRuntimeStatus & { hints: string[] }> {
+  const runtime = await detectContainerRuntime();
+  // No shell in between: arguments reach the CLI exactly as given
+  const probe = async (file: string, args: string[]): Promise<string | null> => {
+    try {
+      const { stdout } = await execFileAsync(file, args, { timeout: 15000 });
+      return stdout.trim();
+    } catch (error) {
+      return null;
+    }
+  };
+
+  // ~/.testcontainers.properties overrides the environment for docker.host and ryuk.disabled
+  const testcontainersProperties: Record<string, string> = {};
+  try {
+    const content = await readFile(path.join(homedir(), ".testcontainers.properties"), "utf-8");
+    Object.assign(testcontainersProperties, ...parsePropertiesFile(content));
+  } catch (error) {
+    // No user-level Testcontainers config
+  }
+
+  const dockerHost = process.env.DOCKER_HOST || testcontainersProperties["docker.host"];
+  const ryukDisabled =
+    process.env.TESTCONTAINERS_RYUK_DISABLED === "true" || testcontainersProperties["ryuk.disabled"] === "true";
+  const status: ContainerRuntimeStatus = {
+    runtime,
+    daemonReachable: false,
+    dockerHost: dockerHost ?? null,
+    ryukDisabled,
+  };
+  const hints: string[] = [];
+
+  if (runtime === "none") {
+    hints.push("No Docker or Podman CLI found - Testcontainers cannot start databases here");
+    return { ...status, hints };
+  }
+
+  // podman-docker installs a "docker" shim that is really Podman
+  const isPodman = runtime === "podman" || /podman/i.test((await probe("docker", ["--version"])) ?? "");
+  status.podman = isPodman || undefined;
+
+  if (isPodman) {
+    const socketPath = await probe("podman", ["info", "--format", "{{.Host.RemoteSocket.Path}}"]);
+    const rootless = (await probe("podman", ["info", "--format", "{{.Host.Security.Rootless}}"])) === "true";
+    status.daemonReachable = socketPath !== null;
+    status.podmanSocket = socketPath ? socketPath.replace(/^unix:\/\//, "") : null;
+    status.podmanSocketExists = status.podmanSocket ? await fileExists(status.podmanSocket) : false;
+    status.rootless = rootless;
+
+    if (!status.podmanSocketExists) {
+      hints.push(rootless
+        ? "Start the Podman API socket: systemctl --user enable --now podman.socket"
+        : "Start the Podman API socket: sudo systemctl enable --now podman.socket");
+    }
+    if (!dockerHost && status.podmanSocket) {
+      hints.push(`Point Testcontainers at Podman: export DOCKER_HOST=unix://${status.podmanSocket}`);
+    }
+    if (rootless && !ryukDisabled) {
+      hints.push("Ryuk needs a privileged container, which rootless Podman cannot run: export TESTCONTAINERS_RYUK_DISABLED=true");
+    }
+  } else {
+    const serverVersion = await probe("docker", ["info", "--format", "{{.ServerVersion}}"]);
+    status.daemonReachable = serverVersion !== null;
+    status.serverVersion = serverVersion || undefined;
+    if (!status.daemonReachable) {
+      hints.push("Docker CLI found but the daemon is not reachable - start Docker, or mount /var/run/docker.sock into this container");
+    }
+  }
+
+  if (status.daemonReachable) {
+    const needed = ryukDisabled ? images : [...images, RYUK_IMAGE];
+    const inspected: NonNullable<ContainerRuntimeStatus["images"]> = [];
+    for (const image of needed) {
+      if (!CONTAINER_IMAGE_NAME.test(image)) {
+        inspected.push({ image, availableLocally: false, skipped: "not a valid image reference" });
+        continue;
+      }
+      const present = (await probe(runtime, ["image", "inspect", image, "--format", "{{.Id}}"])) !== null;
+      inspected.push({ image, availableLocally: present });
+    }
+    status.images = inspected;
+    if (inspected.some((i) => i.skipped)) {
+      hints.push("Some image names are not plain image references and were not inspected - check the Testcontainers image literals");
+    }
+    if (inspected.some((i) => !i.availableLocally && !i.skipped)) {
+      hints.push("Some images are not cached locally - the first test run pulls them, which needs registry access");
+    }
+  }
+
+  return { ...status, hints };
+}
+
+function datasourceTestSetup(database: string, springBootVersion: string, hasBootTestcontainers: boolean) {
+  const product = DATABASE_PRODUCTS[database];
+  const [major, minor] = springBootVersion.split(".").map((n) => parseInt(n));
+  // @ServiceConnection arrived in Spring Boot 3.1
+  const serviceConnection = major > 3 || (major === 3 && minor >= 1);
+  const field = database === "sqlserver" ? "sqlServer" : database;
+  const containerType = `${product.container}<?>`;
+  const lines = [
+    "@Testcontainers",
+    "@SpringBootTest",
+    "class AbstractIntegrationTest {",
+    "",
+  ];
+
+  if (serviceConnection) {
+    lines.push(
+      "    @Container",
+      "    @ServiceConnection",
+      `    static ${containerType} ${field} = new ${product.container}<>("${product.image}");`,
+      "}"
+    );
+  } else {
+    lines.push(
+      "    @Container",
+      `    static ${containerType} ${field} = new ${product.container}<>("${product.image}");`,
+      "",
+      "    @DynamicPropertySource",
+      "    static void datasourceProperties(DynamicPropertyRegistry registry) {",
+      `        registry.add("spring.datasource.url", ${field}::getJdbcUrl);`,
+      `        registry.add("spring.datasource.username", ${field}::getUsername);`,
+      `        registry.add("spring.datasource.password", ${field}::getPassword);`,
+      "    }",
+      "}"
+    );
+  }
+
+  const dependencies = [`org.testcontainers:${product.module}`, "org.testcontainers:junit-jupiter"];
+  if (serviceConnection && !hasBootTestcontainers) dependencies.unshift("org.springframework.boot:spring-boot-testcontainers");
+
+  return {
+    approach: serviceConnection ? "@ServiceConnection" : "@DynamicPropertySource",
+    dependencies: dependencies.map((d) => `${d} (test scope)`),
+    code: lines.join("\n"),
+  };
+}
+
+async function analyzeTestDatasource(projectPath: string, moduleName?: string): Promise<string> {
+  const dependencies = await projectDependencies(projectPath, moduleName);
+  const coordinates = (d: MavenDependency) => `${d.groupId}:${d.artifactId}`;
+
+  // Datasource as resolved under the test profile
+  const config = await resolveConfig(projectPath, "test", moduleName);
+  const configValue = (key: string) => {
+    const entry = lookupConfigKey(config, key);
+    if (!entry) return undefined;
+    // Placeholders resolve to their default, e.g. ${DB_URL:jdbc:h2:mem:test}
+    return entry.value.replace(/\$\{[^:}]+:([^}]*)\}/g, "$1");
+  };
+  const url = configValue("spring.datasource.url");
+  const driverClassName = configValue("spring.datasource.driver-class-name");
+  const dialect = configValue("spring.jpa.database-platform") ?? configValue("spring.jpa.properties.hibernate.dialect");
+
+  // Testcontainers usage in test sources
+  const testRoots = await getSourceRoots(projectPath, "test", "java", moduleName);
+  const testFiles = await javaSourceFiles(testRoots);
+  const containers: { class: string; image: string | null; file: string }[] = [];
+  const serviceConnectionFiles: string[] = [];
+  const dynamicPropertySourceFiles: string[] = [];
+  const embeddedReplacementFiles: string[] = [];
+
+  for (const file of testFiles) {
+    const content = await readJavaFile(file);
+    const relative = path.relative(projectPath, file);
+    const containerPattern = /new\s+(\w+Container)\s*(?:<[^>]*>)?\s*\(\s*(?:DockerImageName\.parse\(\s*)?(?:"([^"]+)")?/g;
+    let match;
+    while ((match = containerPattern.exec(content)) !== null) {
+      containers.push({ class: match[1], image: match[2] ?? null, file: relative });
+    }
+    if (content.includes("@ServiceConnection")) serviceConnectionFiles.push(relative);
+    if (content.includes("@DynamicPropertySource")) dynamicPropertySourceFiles.push(relative);
+    // @DataJpaTest/@JdbcTest swap in an embedded database unless told not to
+    if (/@(DataJpaTest|JdbcTest|DataJdbcTest)\b/.test(content) && !/replace\s*=\s*(AutoConfigureTestDatabase\.)?Replace\.NONE/.test(content)) {
+      embeddedReplacementFiles.push(relative);
+    }
+  }
+
+  const testcontainersDependencies = dependencies.filter((d) => d.groupId === "org.testcontainers").map(coordinates);
+  const embeddedDependencies = dependencies.map(coordinates).filter((c) => EMBEDDED_DATABASES[c]);
+  const driverDependencies = dependencies.filter((d) =>
+    Object.values(DATABASE_PRODUCTS).some((p) => p.drivers.includes(coordinates(d)))
+  );
+  const hasBootTestcontainers = dependencies.some((d) => d.artifactId === "spring-boot-testcontainers");
+
+  // The production database is whichever real driver is on the main classpath
+  const productionDriver = driverDependencies.find((d) => d.scope !== "test");
+  const productionDatabase = productionDriver
+    ? Object.keys(DATABASE_PRODUCTS).find((name) => DATABASE_PRODUCTS[name].drivers.includes(coordinates(productionDriver)))
+    : undefined;
+
+  const containerDatabase = containers
+    .map((c) => Object.keys(DATABASE_PRODUCTS).find((name) => DATABASE_PRODUCTS[name].container === c.class))
+    .find(Boolean);
+
+  let mode: "testcontainers" | "embedded" | "external" | "none";
+  let database: string | undefined;
+  if (url?.startsWith("jdbc:tc:") || containers.length > 0) {
+    mode = "testcontainers";
+    // A plain URL next to @Container fields is usually overridden by the container
+    database = url?.startsWith("jdbc:tc:") ? databaseFromText(url) : containerDatabase ?? databaseFromText(url);
+  } else if (url) {
+    database = databaseFromText(url) ?? databaseFromText(driverClassName);
+    mode = database && Object.values(EMBEDDED_DATABASES).includes(database) ? "embedded" : "external";
+  } else if (embeddedDependencies.length > 0) {
+    // No URL - Spring Boot auto-configures the embedded database on the classpath
+    mode = "embedded";
+    database = EMBEDDED_DATABASES[embeddedDependencies[0]];
+  } else {
+    mode = "none";
+    database = productionDatabase;
+  }
+
+  const warnings: string[] = [];
+  const dialectDatabase = databaseFromText(dialect);
+  if (dialectDatabase && database && dialectDatabase !== database) {
+    warnings.push(`Hibernate dialect ${dialect} targets ${dialectDatabase} but the test datasource is ${database}`);
+  }
+  if (mode === "embedded" && productionDatabase) {
+    warnings.push(`Tests run on ${database} but production uses ${productionDatabase} - native queries, sequences and JSON columns may behave differently`);
+  }
+  if (mode === "external") {
+    warnings.push(`Tests need a running ${database ?? "database"} at ${url} - they fail wherever it is unreachable`);
+  }
+  if (mode === "none") {
+    warnings.push("No test datasource found - the context fails to start if JPA/JDBC auto-configuration is active");
+  }
+  if (mode === "testcontainers" && testcontainersDependencies.length === 0) {
+    warnings.push("Testcontainers is used but no org.testcontainers dependency is declared");
+  }
+  if (embeddedReplacementFiles.length > 0 && embeddedDependencies.length === 0) {
+    warnings.push(
+      `${embeddedReplacementFiles.length} slice test(s) replace the datasource with an embedded database, but none is on the classpath - ` +
+      "add @AutoConfigureTestDatabase(replace = Replace.NONE)"
+    );
+  }
+
+  const images = Array.from(new Set([
+    ...containers.map((c) => c.image).filter((i): i is string => i !== null),
+    ...(url?.startsWith("jdbc:tc:") && database && DATABASE_PRODUCTS[database] ? [DATABASE_PRODUCTS[database].image] : []),
+  ]));
+  const needsContainers = mode === "testcontainers" || (mode !== "external" && productionDatabase !== undefined);
+  const containerRuntime = needsContainers ? await inspectContainerRuntime(images) : undefined;
+
+  // Suggest a container setup matching production when tests are not already on Testcontainers
+  const targetDatabase = mode === "testcontainers" ? undefined : productionDatabase;
+  let suggestion;
+  if (targetDatabase) {
+    const bootVersion = JSON.parse(await checkSpringBootVersion(projectPath, moduleName)).springBootVersion ?? "";
+    suggestion = datasourceTestSetup(targetDatabase, String(bootVersion), hasBootTestcontainers);
+  }
+
+  return JSON.stringify({
+    mode,
+    database: database ?? null,
+    productionDatabase: productionDatabase ?? null,
+    datasource: {
+      url: url ?? null,
+      driverClassName: driverClassName ?? null,
+      dialect: dialect ?? null,
+      definedIn: lookupConfigKey(config, "spring.datasource.url")?.file ?? null,
+    },
+    dependencies: {
+      drivers: driverDependencies.map((d) => `${coordinates(d)}${d.scope ? ` (${d.scope})` : ""}`),
+      embedded: embeddedDependencies,
+      testcontainers: testcontainersDependencies,
+      springBootTestcontainers: hasBootTestcontainers,
+    },
+    tests: {
+      containers,
+      serviceConnection: serviceConnectionFiles,
+      dynamicPropertySource: dynamicPropertySourceFiles,
+      embeddedDatabaseReplacement: embeddedReplacementFiles,
+    },
+    containerRuntime,
+    warnings,
+    suggestion,
+  }, null, 2);
+}
+
+// Security configuration - SecurityFilterChain / WebSecurityConfigurerAdapter DSL, read from method bodies
+interface JavaCall {
+  name: string;
+  args: string;
+  start: number; // Index of "("
+  end: number; // Index of the matching ")"
+}
+
+// Blank out string and char literal contents so parentheses inside them are not counted
+function maskJavaStrings(text: string): string {
+  return text.replace(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'/g, (literal) =>
+    literal[0] + " ".repeat(literal.length - 2) + literal[0]
+  );
+}
+
+// Every call in a code fragment in source order, outer calls before the calls in their arguments
+function findJavaCalls(text: string): JavaCall[] {
+  const masked = maskJavaStrings(text);
+  const calls: JavaCall[] = [];
+  const pattern = /\b([A-Za-z_]\w*)\s*\(/g;
+  let match;
+
+  while ((match = pattern.exec(masked)) !== null) {
+    if (["if", "for", "while", "switch", "catch", "return", "synchronized"].includes(match[1])) continue;
+    const start = match.index + match[0].length - 1;
+    let depth = 0;
+    let end = start;
+    for (; end < masked.length; end++) {
+      if (masked[end] === "(") depth++;
+      else if (masked[end] === ")" && --depth === 0) break;
+    }
+    calls.push({ name: match[1], args: text.slice(start + 1, end), start, end });
+  }
+  return calls;
+}
+
+// Top-level arguments as values: string literals unquoted, constants reduced to their last segment
+function callArgumentValues(args: string): string[] {
+  const masked = maskJavaStrings(args);
+  const values: string[] = [];
+  let depth = 0;
+  let from = 0;
+  for (let i = 0; i <= masked.length; i++) {
+    const ch = masked[i];
+    if (ch === "(" || ch === "{" || ch === "[") depth++;
+    else if (ch === ")" || ch === "}" || ch === "]") depth--;
+    if ((ch === "," && depth === 0) || i === masked.length) {
+      const arg = args.slice(from, i).trim();
+      from = i + 1;
+      if (!arg) continue;
+      const literal = arg.match(/^"((?:[^"\\]|\\.)*)"$/);
+      values.push(literal ? unescapeJavaString(literal[1]) : arg.replace(/^[\w.]*\.(?=\w+$)/, ""));
+    }
+  }
+  return values;
+}
+
+interface RequestMatcherSpec {
+  method?: string;
+  pattern: string; // Ant-style path, or a description for matchers such as PathRequest.toH2Console()
+  regex?: boolean;
+}
+
+interface AuthorizationRule {
+  matchers: RequestMatcherSpec[] | "anyRequest";
+  access: "permitAll" | "authenticated" | "denyAll" | "anonymous" | "roles" | "ignored" | "custom";
+  roles: string[];
+  authorities: string[];
+  expression: string;
+}
+
+interface SecurityChain {
+  source: string; // Class.method
+  order: number;
+  securityMatchers: RequestMatcherSpec[]; // Empty matches every request
+  rules: AuthorizationRule[];
+  csrf: { enabled: boolean; ignoring: string[] };
+  cors: "enabled" | "disabled" | "not configured";
+  sessionPolicy?: string;
+  authentication: string[];
+}
+
+const MATCHER_CALLS = ["requestMatchers", "antMatchers", "mvcMatchers", "regexMatchers", "pathMatchers", "anyRequest", "anyExchange"];
+const ACCESS_CALLS = [
+  "permitAll", "authenticated", "fullyAuthenticated", "rememberMe", "denyAll", "anonymous",
+  "hasRole", "hasAnyRole", "hasAuthority", "hasAnyAuthority", "access", "hasIpAddress",
+];
+// Configurers whose arguments hold their own matchers, not authorization rules
+const NESTED_CONFIGURERS = [
+  "securityMatchers", "csrf", "cors", "headers", "sessionManagement", "oauth2ResourceServer", "oauth2Login",
+  "formLogin", "httpBasic", "logout", "exceptionHandling", "requiresChannel",
+];
+
+function requestMatchersFromArgs(name: string, args: string): RequestMatcherSpec[] {
+  const values = callArgumentValues(args);
+  const method = values.find((v) => /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)$/.test(v));
+  const patterns = values.filter((v) => v !== method);
+  if (patterns.length === 0) return [{ method, pattern: "/**" }];
+  return patterns.map((pattern) => ({
+    method,
+    pattern: pattern.replace(/^(new )?AntPathRequestMatcher\(\s*"?([^",)]*)"?.*$/, "$2"),
+    regex: name === "regexMatchers" || undefined,
+  }));
+}
+
+function ruleAccess(call: JavaCall): Omit<AuthorizationRule, "matchers"> {
+  const values = callArgumentValues(call.args);
+  const rule: Omit<AuthorizationRule, "matchers"> = {
+    access: "custom",
+    roles: [],
+    authorities: [],
+    expression: `${call.name}(${call.args.replace(/\s+/g, " ").trim()})`,
+  };
+
+  switch (call.name) {
+    case "permitAll":
+    case "denyAll":
+    case "anonymous":
+    case "authenticated":
+      rule.access = call.name;
+      break;
+    case "fullyAuthenticated":
+    case "rememberMe":
+      rule.access = "authenticated";
+      break;
+    case "hasRole":
+    case "hasAnyRole":
+      rule.access = "roles";
+      rule.roles = values.map((v) => v.replace(/^ROLE_/, ""));
+      break;
+    case "hasAuthority":
+    case "hasAnyAuthority":
+      rule.access = "roles";
+      rule.authorities = values;
+      break;
+    case "access": {
+      // SpEL strings reuse the @PreAuthorize role extraction
+      const requirement = requiredRoles({
+        annotations: [{ name: "PreAuthorize", qualifiedName: "PreAuthorize", attributes: { value: values[0] ?? "" }, line: 0 }],
+      });
+      if (requirement) Object.assign(rule, { access: "roles", ...requirement });
+      else if (/permitAll/.test(values[0] ?? "")) rule.access = "permitAll";
+      else if (/isAuthenticated|isFullyAuthenticated/.test(values[0] ?? "")) rule.access = "authenticated";
+      break;
+    }
+  }
+  return rule;
+}
+
+function parseSecurityChain(source: string, body: string, order: number): SecurityChain {
+  const chain: SecurityChain = {
+    source,
+    order,
+    securityMatchers: [],
+    rules: [],
+    csrf: { enabled: true, ignoring: [] },
+    cors: "not configured",
+    authentication: [],
+  };
+  const calls = findJavaCalls(body);
+  let pending: RequestMatcherSpec[] | "anyRequest" | null = null;
+  let ignoring = false;
+  let skipUntil = -1;
+
+  calls.forEach((call, index) => {
+    const next = calls[index + 1];
+    const disabled = /disable/.test(call.args) || (call.args.trim() === "" && next?.name === "disable");
+
+    // Settings of nested configurers are read here; their inner calls are skipped below
+    if (call.name === "csrf") chain.csrf.enabled = !disabled;
+    if (call.name === "cors") chain.cors = disabled ? "disabled" : "enabled";
+    if (/^ignoring(Request|Ant)Matchers$/.test(call.name)) chain.csrf.ignoring.push(...callArgumentValues(call.args));
+    if (call.name === "sessionCreationPolicy") chain.sessionPolicy = callArgumentValues(call.args)[0];
+    if (call.name === "jwt" && body.includes("oauth2ResourceServer")) chain.authentication.push("jwt");
+    if (call.name === "opaqueToken") chain.authentication.push("opaqueToken");
+    if (["httpBasic", "formLogin", "oauth2Login", "x509"].includes(call.name) && !disabled) chain.authentication.push(call.name);
+    if (["securityMatcher", "antMatcher", "mvcMatcher", "regexMatcher"].includes(call.name)) {
+      chain.securityMatchers.push(...requestMatchersFromArgs(call.name, call.args));
+    }
+    if (call.name === "securityMatchers") {
+      for (const inner of findJavaCalls(call.args).filter((c) => MATCHER_CALLS.includes(c.name))) {
+        chain.securityMatchers.push(...requestMatchersFromArgs(inner.name, inner.args));
+      }
+    }
+
+    if (call.start < skipUntil) return;
+    if (NESTED_CONFIGURERS.includes(call.name)) {
+      skipUntil = call.end;
+      return;
+    }
+    if (call.name === "ignoring") {
+      ignoring = true;
+      return;
+    }
+
+    if (MATCHER_CALLS.includes(call.name)) {
+      pending = call.name === "anyRequest" || call.name === "anyExchange"
+        ? "anyRequest"
+        : requestMatchersFromArgs(call.name, call.args);
+      if (ignoring) {
+        chain.rules.push({ matchers: pending, access: "ignored", roles: [], authorities: [], expression: "web.ignoring()" });
+        pending = null;
+      }
+    } else if (ACCESS_CALLS.includes(call.name) && pending) {
+      chain.rules.push({ matchers: pending, ...ruleAccess(call) });
+      pending = null;
+    }
+  });
+
+  chain.authentication = Array.from(new Set(chain.authentication));
+  return chain;
+}
+
+function antPatternToRegExp(pattern: string): RegExp {
+  let regex = "";
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern.startsWith("/**", i)) {
+      regex += "(?:/.*)?";
+      i += 2;
+    } else if (pattern.startsWith("**", i)) {
+      regex += ".*";
+      i += 1;
+    } else if (pattern[i] === "*") {
+      regex += "[^/]*";
+    } else if (pattern[i] === "?") {
+      regex += "[^/]";
+    } else if (pattern[i] === "{") {
+      regex += "[^/]+";
+      i = Math.max(i, pattern.indexOf("}", i));
+    } else {
+      regex += pattern[i].replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${regex}/?$`);
+}
+
+function requestMatches(matcher: RequestMatcherSpec, method: string, routePath: string): boolean {
+  if (matcher.method && method !== "ANY" && matcher.method !== method) return false;
+  if (!matcher.pattern.startsWith("/")) return false; // PathRequest/EndpointRequest matchers never match controllers
+  // {id} in the route stands for any single segment
+  const concretePath = routePath.replace(/\{[^}]+\}/g, "x");
+  try {
+    return matcher.regex ? new RegExp(matcher.pattern).test(concretePath) : antPatternToRegExp(matcher.pattern).test(concretePath);
+  } catch (error) {
+    return false; // Unparseable regex matcher
+  }
+}
+
+function describeMatchers(matchers: RequestMatcherSpec[] | "anyRequest"): string {
+  if (matchers === "anyRequest") return "anyRequest()";
+  return matchers.map((m) => `${m.method ? `${m.method} ` : ""}${m.pattern}`).join(", ");
+}
+
+interface MethodSecuritySettings {
+  annotation: string | null;
+  enabled: string[]; // Method security annotations that are enforced
+}
+
+function methodSecuritySettings(configClasses: JavaClass[]): MethodSecuritySettings {
+  for (const javaClass of configClasses) {
+    const modern = getAnnotation(javaClass, "EnableMethodSecurity");
+    const legacy = getAnnotation(javaClass, "EnableGlobalMethodSecurity", "EnableReactiveMethodSecurity");
+    const annotation = modern ?? legacy;
+    if (!annotation) continue;
+
+    // @EnableMethodSecurity turns on pre/post by default; the legacy annotation enables nothing by default
+    const flag = (key: string, fallback: boolean) => {
+      const value = annotationValues(annotation, key)[0];
+      return value === undefined ? fallback : value === "true";
+    };
+    const enabled: string[] = [];
+    if (flag("prePostEnabled", modern !== undefined || annotation.name === "EnableReactiveMethodSecurity")) {
+      enabled.push("PreAuthorize", "PostAuthorize");
+    }
+    if (flag("securedEnabled", false)) enabled.push("Secured");
+    if (flag("jsr250Enabled", false)) enabled.push("RolesAllowed", "PermitAll", "DenyAll");
+    return { annotation: describeAnnotation(annotation), enabled };
+  }
+  return { annotation: null, enabled: [] };
+}
+
+function parseOrderValue(value: string | undefined): number {
+  if (value === undefined) return Number.MAX_SAFE_INTEGER; // Unordered beans come last
+  if (/HIGHEST_PRECEDENCE/.test(value)) return Number.MIN_SAFE_INTEGER + 1;
+  if (/LOWEST_PRECEDENCE/.test(value)) return Number.MAX_SAFE_INTEGER - 1;
+  const number = parseInt(value);
+  return isNaN(number) ? Number.MAX_SAFE_INTEGER : number;
+}
+
+// Effective access of one endpoint: public, authenticated, roles, denied or unmatched
+interface EndpointAccess {
+  method: string;
+  path: string;
+  handler: string; // Controller.method
+  chain: string | null;
+  urlRule: string | null;
+  methodSecurity: string[];
+  access: "public" | "authenticated" | "roles" | "denied" | "unmatched";
+  roles: string[];
+  authorities: string[];
+  csrfRequired: boolean;
+  withMockUser: string | null;
+}
+
+// URL rules of every filter chain and enforced method security, applied to each endpoint
+async function loadSecurityModel(projectPath: string, moduleName?: string) {
+  const srcPaths = await getSourceRoots(projectPath, "main", "java", moduleName);
+  const javaFiles = await javaSourceFiles(srcPaths);
+
+  const chains: SecurityChain[] = [];
+  const ignoredRules: AuthorizationRule[] = [];
+  const configClasses: JavaClass[] = [];
+  const corsMappings: string[] = [];
+
+  for (const file of javaFiles.sort()) {
+    const content = await readJavaFile(file);
+    if (!/Security|CrossOrigin|Cors/.test(content)) continue;
+
+    for (const javaClass of allJavaClasses(await parseJavaFile(file))) {
+      if (javaClass.annotations.some((a) => /^Enable\w*Security$/.test(a.name))) configClasses.push(javaClass);
+      const classOrder = annotationValues(getAnnotation(javaClass, "Order"), "value")[0];
+
+      for (const method of javaClass.methods) {
+        if (!method.body) continue;
+        const parameterTypes = method.parameters.map((p) => simpleTypeName(p.type));
+        const source = `${javaClass.name}.${method.name}`;
+        const order = parseOrderValue(annotationValues(getAnnotation(method, "Order"), "value")[0] ?? classOrder);
+
+        if (parameterTypes.includes("HttpSecurity") || parameterTypes.includes("ServerHttpSecurity")) {
+          chains.push(parseSecurityChain(source, method.body, order));
+        } else if (parameterTypes.includes("WebSecurity") || simpleTypeName(method.returnType) === "WebSecurityCustomizer") {
+          // web.ignoring() bypasses the filter chains entirely
+          ignoredRules.push(...parseSecurityChain(source, method.body, order).rules.filter((r) => r.access === "ignored"));
+        }
+
+        // CorsConfigurationSource beans and WebMvcConfigurer.addCorsMappings
+        for (const call of findJavaCalls(method.body)) {
+          if (/^(setAllowedOrigins|setAllowedOriginPatterns|allowedOrigins|allowedOriginPatterns|addAllowedOrigin)$/.test(call.name)) {
+            corsMappings.push(...callArgumentValues(call.args));
+          }
+        }
+      }
+    }
+  }
+
+  // List.of("a", "b") arguments are one level down
+  for (let i = 0; i < corsMappings.length; i++) {
+    const nested = corsMappings[i].match(/^(?:List\.of|Arrays\.asList)\((.*)\)$/);
+    if (nested) corsMappings.splice(i, 1, ...callArgumentValues(nested[1]));
+  }
+
+  // The first chain whose securityMatcher fits handles the request
+  const filterChains = chains.sort((a, b) => a.order - b.order);
+  const methodSecurity = methodSecuritySettings(configClasses);
+
+  // Without any chain, Spring Boot's default secures every request (when Spring Security is present)
+  const hasSpringSecurity = await usesSpringSecurity(projectPath, moduleName);
+
+  const { routes } = await collectRoutes(projectPath, moduleName);
+  const unenforced = new Set<string>();
+
+  const matrix: EndpointAccess[] = routes.map((route) => {
+    const ignoredBy = ignoredRules.find((r) => r.matchers !== "anyRequest" && r.matchers.some((m) => requestMatches(m, route.method, route.fullPath)));
+    const chain = ignoredBy
+      ? undefined
+      : filterChains.find((c) => c.securityMatchers.length === 0 || c.securityMatchers.some((m) => requestMatches(m, route.method, route.fullPath)));
+    const rule = ignoredBy ?? chain?.rules.find((r) =>
+      r.access !== "ignored" && (r.matchers === "anyRequest" || r.matchers.some((m) => requestMatches(m, route.method, route.fullPath)))
+    );
+
+    // Method security only counts when its annotation type is switched on
+    const declared = route.securityAnnotations;
+    for (const annotation of declared) {
+      if (!methodSecurity.enabled.includes(annotation.name)) unenforced.add(annotation.name);
+    }
+    const enforced = declared.filter((a) => methodSecurity.enabled.includes(a.name));
+    const methodRequirement = requiredRoles({ annotations: enforced });
+
+    const urlAccess = rule?.access ?? (chain ? "unmatched" : hasSpringSecurity && filterChains.length === 0 ? "authenticated" : "permitAll");
+    const roles = Array.from(new Set([...(rule?.roles ?? []), ...(methodRequirement?.roles ?? [])]));
+    const authorities = Array.from(new Set([...(rule?.authorities ?? []), ...(methodRequirement?.authorities ?? [])]));
+
+    let access: EndpointAccess["access"];
+    if (urlAccess === "denyAll" || enforced.some((a) => a.name === "DenyAll")) access = "denied";
+    else if (roles.length > 0 || authorities.length > 0) access = "roles";
+    else if (["permitAll", "ignored", "anonymous"].includes(urlAccess) && !methodRequirement && !enforced.some((a) => a.name === "PreAuthorize")) access = "public";
+    else if (urlAccess === "unmatched") access = "unmatched";
+    else access = "authenticated";
+
+    const mutating = !["GET", "HEAD", "OPTIONS"].includes(route.method);
+    const csrfEnabled = chain ? chain.csrf.enabled : hasSpringSecurity && filterChains.length === 0 && !ignoredBy;
+    const csrfIgnored = chain?.csrf.ignoring.some((pattern) => requestMatches({ pattern }, route.method, route.fullPath));
+
+    let withMockUser: string | null = null;
+    if (access === "authenticated") withMockUser = "@WithMockUser";
+    if (access === "roles") {
+      // Any-of rules: one role/authority from each requirement is enough
+      const mockRoles = Array.from(new Set([rule?.roles[0], methodRequirement?.roles[0]].filter(Boolean)));
+      const mockAuthorities = Array.from(new Set([rule?.authorities[0], methodRequirement?.authorities[0]].filter(Boolean)));
+      const parts = [
+        mockRoles.length > 0 ? `roles = {${mockRoles.map((r) => `"${r}"`).join(", ")}}` : "",
+        mockAuthorities.length > 0 ? `authorities = {${mockAuthorities.map((a) => `"${a}"`).join(", ")}}` : "",
+      ].filter(Boolean);
+      withMockUser = `@WithMockUser(${parts.join(", ")})`;
+    }
+
+    return {
+      method: route.method,
+      path: route.fullPath,
+      handler: `${route.controller}.${route.handlerMethod}`,
+      chain: chain?.source ?? (ignoredBy ? "web.ignoring()" : null),
+      urlRule: rule ? `${describeMatchers(rule.matchers)} -> ${rule.expression}` : null,
+      methodSecurity: declared.map(describeAnnotation),
+      access,
+      roles,
+      authorities,
+      csrfRequired: mutating && csrfEnabled && !csrfIgnored,
+      withMockUser,
+    };
+  });
+
+  return { chains, filterChains, ignoredRules, configClasses, corsMappings, methodSecurity, hasSpringSecurity, matrix, unenforced };
+}
+
+async function analyzeSecurityConfig(projectPath: string, moduleName?: string): Promise<string> {
+  const { chains, filterChains, ignoredRules, configClasses, corsMappings, methodSecurity, hasSpringSecurity, matrix, unenforced } =
+    await loadSecurityModel(projectPath, moduleName);
+  const warnings: string[] = [];
+
+  if (hasSpringSecurity && filterChains.length === 0) {
+    warnings.push("Spring Security is on the classpath without a SecurityFilterChain - the Boot default requires authentication (form login + HTTP basic) for every request");
+  }
+  for (const name of unenforced) {
+    const hint = name === "Secured" ? "securedEnabled = true" : ["RolesAllowed", "PermitAll", "DenyAll"].includes(name) ? "jsr250Enabled = true" : "@EnableMethodSecurity";
+    warnings.push(`@${name} is used but not enforced - enable it with ${hint}`);
+  }
+  const unmatched = matrix.filter((m) => m.access === "unmatched");
+  if (unmatched.length > 0) {
+    warnings.push(`${unmatched.length} endpoint(s) match no authorization rule - Spring Security 6 denies them, older versions permit them`);
+  }
+
+  return JSON.stringify({
+    found: chains.length > 0 || ignoredRules.length > 0 || configClasses.length > 0,
+    springSecurity: hasSpringSecurity,
+    filterChains: filterChains.map((c) => ({
+      source: c.source,
+      order: c.order === Number.MAX_SAFE_INTEGER ? undefined : c.order,
+      securityMatchers: c.securityMatchers.length > 0 ? c.securityMatchers.map((m) => describeMatchers([m])) : undefined,
+      rules: c.rules.map((r) => `${describeMatchers(r.matchers)} -> ${r.expression}`),
+      csrf: c.csrf.enabled ? (c.csrf.ignoring.length > 0 ? { enabled: true, ignoring: c.csrf.ignoring } : "enabled") : "disabled",
+      cors: c.cors,
+      sessionPolicy: c.sessionPolicy,
+      authentication: c.authentication,
+    })),
+    ignoredPaths: ignoredRules.map((r) => describeMatchers(r.matchers)),
+    corsAllowedOrigins: Array.from(new Set(corsMappings)),
+    methodSecurity,
+    endpointCount: matrix.length,
+    endpoints: matrix,
+    warnings,
+    testingTip: filterChains.some((c) => c.authentication.includes("jwt"))
+      ? "JWT resource server: use .with(jwt().authorities(new SimpleGrantedAuthority(\"ROLE_X\"))) on MockMvc requests, or @WithMockUser"
+      : "Use the withMockUser value per endpoint; add .with(csrf()) where csrfRequired is true",
+  }, null, 2);
+}
+
+// Entity graph - every @Entity with its relationships, embedded types and a safe insertion order
+const RELATIONSHIP_ANNOTATIONS = ["ManyToOne", "OneToOne", "OneToMany", "ManyToMany"];
+
+interface EntityRelationship {
+  field: string;
+  kind: string; // ManyToOne, OneToOne, OneToMany, ManyToMany
+  target: string;
+  owning: boolean;
+  mappedBy?: string;
+  cascade: string[];
+  fetch: string;
+  optional: boolean;
+  nullable: boolean;
+  required: boolean;
+  orphanRemoval?: boolean;
+  joinColumn?: string;
+  inheritedFrom?: string; // @MappedSuperclass or @Embeddable declaring the field
+}
+
+interface EntityNode {
+  name: string;
+  table: string;
+  module: string;
+  extends?: string;
+  inheritance?: string;
+  mappedSuperclasses: string[];
+  embedded: { field: string; type: string; fields: string[] }[];
+  relationships: EntityRelationship[];
+}
+
+function relationshipOf(field: JavaField, relation: JavaAnnotation, inheritedFrom?: string): EntityRelationship {
+  // Collections map to their element type; Map<K, V> to the value type
+  const args = typeArguments(field.type);
+  const target = simpleTypeName(args.length > 0 ? args[args.length - 1] : field.type);
+  const mappedBy = annotationValues(relation, "mappedBy")[0];
+  const joinColumn = getAnnotation(field, "JoinColumn");
+  const toOne = relation.name === "ManyToOne" || relation.name === "OneToOne";
+  const optional = annotationValues(relation, "optional")[0] !== "false";
+  const nullable = annotationValues(joinColumn, "nullable")[0] !== "false";
+
+  return {
+    field: field.name,
+    kind: relation.name,
+    target,
+    // A to-many without mappedBy owns a join table (or a @JoinColumn on the other table)
+    owning: !mappedBy,
+    mappedBy,
+    cascade: annotationValues(relation, "cascade").map((c) => c.replace(/^.*\./, "")),
+    fetch: annotationValues(relation, "fetch")[0]?.replace(/^.*\./, "") ?? (toOne ? "EAGER" : "LAZY"),
+    optional,
+    nullable,
+    required: toOne && !mappedBy && (!optional || !nullable || hasAnnotation(field, "NotNull", "MapsId", "Id")),
+    orphanRemoval: annotationValues(relation, "orphanRemoval")[0] === "true" || undefined,
+    joinColumn: annotationValues(joinColumn, "name")[0],
+    inheritedFrom,
+  };
+}
+
+interface PersistenceClass {
+  javaClass: JavaClass;
+  file: string;
+  source: JavaSourceFile;
+}
+
+// @Entity, @MappedSuperclass and @Embeddable classes by simple name
+async function loadPersistenceClasses(projectPath: string, moduleName?: string): Promise<Map<string, PersistenceClass>> {
+  const srcPaths = await getSourceRoots(projectPath, "main", "java", moduleName);
+  const javaFiles = await javaSourceFiles(srcPaths);
+
+  const classes = new Map<string, PersistenceClass>();
+  for (const file of javaFiles) {
+    const content = await readJavaFile(file);
+    if (!/@(Entity|MappedSuperclass|Embeddable)\b/.test(content)) continue;
+    const source = await parseJavaFile(file);
+    for (const javaClass of allJavaClasses(source)) {
+      if (hasAnnotation(javaClass, "Entity", "MappedSuperclass", "Embeddable")) classes.set(javaClass.name, { javaClass, file, source });
+    }
+  }
+  return classes;
+}
+
+async function collectEntityNodes(projectPath: string, moduleName?: string): Promise<EntityNode[]> {
+  const classes = await loadPersistenceClasses(projectPath, moduleName);
+
+  const nodes: EntityNode[] = [];
+  for (const { javaClass, file } of classes.values()) {
+    if (!hasAnnotation(javaClass, "Entity")) continue;
+    const node: EntityNode = {
+      name: javaClass.name,
+      table: annotationValues(getAnnotation(javaClass, "Table"), "name")[0] ?? toSnakeCase(javaClass.name),
+      module: moduleOfFile(projectPath, file),
+      mappedSuperclasses: [],
+      embedded: [],
+      relationships: [],
+    };
+
+    const inheritance = getAnnotation(javaClass, "Inheritance");
+    if (inheritance) node.inheritance = annotationValues(inheritance, "strategy")[0]?.replace(/^.*\./, "") ?? "SINGLE_TABLE";
+
+    // Own fields plus those of @MappedSuperclass ancestors; an @Entity parent keeps its own fields
+    const declaring: { owner: JavaClass; inheritedFrom?: string }[] = [{ owner: javaClass }];
+    let parentName = javaClass.extends[0] ? simpleTypeName(javaClass.extends[0]) : undefined;
+    while (parentName && classes.has(parentName)) {
+      const parent = classes.get(parentName)!.javaClass;
+      if (hasAnnotation(parent, "Entity")) {
+        node.extends = parent.name;
+        break;
+      }
+      if (hasAnnotation(parent, "MappedSuperclass")) {
+        node.mappedSuperclasses.push(parent.name);
+        declaring.push({ owner: parent, inheritedFrom: parent.name });
+      }
+      parentName = parent.extends[0] ? simpleTypeName(parent.extends[0]) : undefined;
+    }
+
+    for (const { owner, inheritedFrom } of declaring) {
+      for (const field of owner.fields) {
+        if (field.modifiers.includes("static") || hasAnnotation(field, "Transient")) continue;
+
+        const relation = getAnnotation(field, ...RELATIONSHIP_ANNOTATIONS);
+        if (relation) {
+          node.relationships.push(relationshipOf(field, relation, inheritedFrom));
+          continue;
+        }
+
+        const embeddable = classes.get(simpleTypeName(field.type));
+        if (hasAnnotation(field, "Embedded", "EmbeddedId") || (embeddable && hasAnnotation(embeddable.javaClass, "Embeddable"))) {
+          const type = simpleTypeName(field.type);
+          const embeddedFields = embeddable?.javaClass.fields.filter((f) => !f.modifiers.includes("static")) ?? [];
+          node.embedded.push({ field: field.name, type, fields: embeddedFields.map((f) => f.name) });
+          // Relationships declared inside the embeddable belong to this entity's table
+          for (const inner of embeddedFields) {
+            const innerRelation = getAnnotation(inner, ...RELATIONSHIP_ANNOTATIONS);
+            if (innerRelation) {
+              node.relationships.push({ ...relationshipOf(inner, innerRelation, type), field: `${field.name}.${inner.name}` });
+            }
+          }
+        }
+      }
+    }
+
+    nodes.push(node);
+  }
+
+  return nodes.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Tarjan's strongly connected components over "must exist before" edges
+function findDependencyCycles(names: string[], dependsOn: Map<string, string[]>): string[][] {
+  let index = 0;
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const visit = (name: string) => {
+    indices.set(name, index);
+    lowLinks.set(name, index);
+    index++;
+    stack.push(name);
+    onStack.add(name);
+
+    for (const next of dependsOn.get(name) ?? []) {
+      if (!indices.has(next)) {
+        visit(next);
+        lowLinks.set(name, Math.min(lowLinks.get(name)!, lowLinks.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLinks.set(name, Math.min(lowLinks.get(name)!, indices.get(next)!));
+      }
+    }
+
+    if (lowLinks.get(name) === indices.get(name)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== name);
+      const selfLoop = (dependsOn.get(name) ?? []).includes(name);
+      if (component.length > 1 || selfLoop) components.push(component.reverse());
+    }
+  };
+
+  names.forEach((name) => {
+    if (!indices.has(name)) visit(name);
+  });
+  return components;
+}
+
+function renderEntityDiagram(nodes: EntityNode[], format: "mermaid" | "dot"): string {
+  const names = new Set(nodes.map((n) => n.name));
+  // Inverse sides (mappedBy) repeat an owning edge, so only owning sides are drawn
+  const edges = nodes.flatMap((node) =>
+    node.relationships.filter((r) => r.owning).map((r) => ({ from: node.name, relationship: r }))
+  );
+
+  if (format === "dot") {
+    const lines = ["digraph entities {", "  rankdir=LR;", "  node [shape=box];"];
+    nodes.forEach((n) => lines.push(`  "${n.name}";`));
+    for (const { from, relationship: r } of edges) {
+      const style = r.required ? "" : ", style=dashed";
+      lines.push(`  "${from}" -> "${r.target}" [label="${r.field} (${r.kind})"${style}${names.has(r.target) ? "" : ", color=gray"}];`);
+    }
+    nodes.filter((n) => n.extends).forEach((n) => lines.push(`  "${n.name}" -> "${n.extends}" [arrowhead=empty, label="extends"];`));
+    lines.push("}");
+    return lines.join("\n");
+  }
+
+  const cardinality: Record<string, (r: EntityRelationship) => string> = {
+    ManyToOne: (r) => `}o--${r.required ? "||" : "o|"}`,
+    OneToOne: (r) => `|o--${r.required ? "||" : "o|"}`,
+    OneToMany: () => "||--o{",
+    ManyToMany: () => "}o--o{",
+  };
+  const lines = ["erDiagram"];
+  for (const { from, relationship: r } of edges) {
+    lines.push(`  ${from} ${cardinality[r.kind](r)} ${r.target} : "${r.field}"`);
+  }
+  nodes.filter((n) => n.relationships.length === 0 && !edges.some((e) => e.relationship.target === n.name))
+    .forEach((n) => lines.push(`  ${n.name} {`, `  }`));
+  return lines.join("\n");
+}
+
+async function entityGraph(projectPath: string, format?: string, moduleName?: string): Promise<string> {
+  const nodes = await collectEntityNodes(projectPath, moduleName);
+  if (nodes.length === 0) {
+    return JSON.stringify({
+      found: false,
+      message: "No @Entity classes found",
+    }, null, 2);
+  }
+
+  const names = nodes.map((n) => n.name);
+  const known = new Set(names);
+
+  // A depends on B when A holds the foreign key to B (owning to-one side)
+  const dependencies = new Map<string, { target: string; field: string; required: boolean }[]>();
+  for (const node of nodes) {
+    dependencies.set(node.name, node.relationships
+      .filter((r) => (r.kind === "ManyToOne" || r.kind === "OneToOne") && r.owning && known.has(r.target))
+      .map((r) => ({ target: r.target, field: r.field, required: r.required })));
+    // JOINED/SINGLE_TABLE children are inserted together with their parent row
+    if (node.extends && known.has(node.extends)) {
+      dependencies.set(node.name, [
+        ...dependencies.get(node.name)!,
+        ...(dependencies.get(node.extends) ?? []).filter((d) => d.target !== node.name),
+      ]);
+    }
+  }
+  const dependsOn = new Map(names.map((n) => [n, Array.from(new Set(dependencies.get(n)!.map((d) => d.target)))]));
+
+  const cycles = findDependencyCycles(names, dependsOn).map((component) => {
+    const members = new Set(component);
+    const edges = component.flatMap((name) =>
+      dependencies.get(name)!.filter((d) => members.has(d.target)).map((d) => ({ from: name, ...d }))
+    );
+    // Break on an edge between two entities; an optional self-reference alone never blocks
+    const breakable = edges.find((e) => !e.required && e.from !== e.target) ?? edges.find((e) => !e.required);
+    const deferred = breakable
+      ? edges.filter((e) => e.from === breakable.from && !e.required && (e.target !== e.from || breakable.target === e.from))
+      : [];
+    return {
+      entities: component,
+      edges: edges.map((e) => `${e.from}.${e.field} -> ${e.target}${e.required ? " (required)" : " (optional)"}`),
+      explanation: breakable
+        ? `Insert ${breakable.from} with ${deferred.map((e) => e.field).join(", ")} = null, create ${breakable.target}, then set ${deferred.map((e) => `${breakable.from}.${e.field}`).join(", ")}`
+        : "Every foreign key in this cycle is NOT NULL - rows cannot be inserted one at a time; make one side nullable or use deferred constraints",
+    };
+  });
+
+  // Kahn's algorithm; on a cycle, emit the entity whose unmet dependencies are all optional
+  const insertionOrder: { step: number; entity: string; dependsOn: string[]; setLater?: string[] }[] = [];
+  const placed = new Set<string>();
+  let step = 1;
+  while (placed.size < names.length) {
+    const remaining = names.filter((n) => !placed.has(n));
+    // An optional self-reference (e.g. Category.parent) only means roots go first
+    const ready = remaining.filter((n) =>
+      dependencies.get(n)!.every((d) => placed.has(d.target) || (d.target === n && !d.required))
+    );
+    const batch = ready.length > 0
+      ? ready
+      : [remaining.find((n) => dependencies.get(n)!.every((d) => placed.has(d.target) || !d.required)) ?? remaining[0]];
+
+    for (const entity of batch) {
+      const unmet = dependencies.get(entity)!.filter((d) => !placed.has(d.target));
+      insertionOrder.push({
+        step,
+        entity,
+        dependsOn: dependsOn.get(entity)!.filter((d) => d !== entity),
+        setLater: unmet.length > 0 ? unmet.map((d) => `${d.field} -> ${d.target}`) : undefined,
+      });
+    }
+    batch.forEach((entity) => placed.add(entity));
+    step++;
+  }
+
+  return JSON.stringify({
+    found: true,
+    entityCount: nodes.length,
+    entities: nodes,
+    insertionOrder,
+    cycles,
+    diagram: renderEntityDiagram(nodes, format === "dot" ? "dot" : "mermaid"),
+  }, null, 2);
+}
+
+// Fields the persistence provider or auditing fills in
+const GENERATED_FIELD_ANNOTATIONS = [
+  "GeneratedValue", "Version", "CreatedDate", "LastModifiedDate", "CreatedBy", "LastModifiedBy",
+  "CreationTimestamp", "UpdateTimestamp", "Formula",
+];
+const SOFT_DELETE_FIELD = /^(is)?(deleted|removed|archived)$/i;
+
+interface FixtureAssignment {
+  field: string;
+  expression: string;
+  declaredIn: JavaClass;
+  javaField: JavaField;
+}
+
+interface FixtureContext {
+  projectPath: string;
+  moduleName?: string;
+  classes: Map<string, PersistenceClass>;
+  fixturePackage: string;
+  imports: Set<string>;
+  helpers: Set<"next" | "unique">;
+  warnings: string[];
+}
+
+function capitalize(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function lowerFirst(name: string): string {
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+// Lombok drops the "is" prefix from setters of primitive boolean fields
+function setterName(field: JavaField): string {
+  const property = field.type === "boolean" && /^is[A-Z]/.test(field.name) ? field.name.slice(2) : field.name;
+  return `set${capitalize(property)}`;
+}
+
+function hasSetter(owner: JavaClass, field: JavaField): boolean {
+  return hasAnnotation(owner, "Data", "Setter") || hasAnnotation(field, "Setter") ||
+    owner.methods.some((m) => m.name === setterName(field) && m.parameters.length === 1);
+}
+
+// Own fields first, then those of @Entity and @MappedSuperclass ancestors
+function persistentFields(classes: Map<string, PersistenceClass>, javaClass: JavaClass): { field: JavaField; owner: PersistenceClass }[] {
+  const fields: { field: JavaField; owner: PersistenceClass }[] = [];
+  let current: PersistenceClass | undefined = classes.get(javaClass.name);
+  const seen = new Set<string>();
+  while (current && !seen.has(current.javaClass.name)) {
+    seen.add(current.javaClass.name);
+    for (const field of current.javaClass.fields) {
+      if (field.modifiers.includes("static") || field.modifiers.includes("transient") || hasAnnotation(field, "Transient")) continue;
+      fields.push({ field, owner: current });
+    }
+    const parent: string | undefined = current.javaClass.extends[0];
+    current = parent ? classes.get(simpleTypeName(parent)) : undefined;
+  }
+  return fields;
+}
+
+function columnName(field: JavaField): string {
+  return annotationValues(getAnnotation(field, "Column"), "name")[0] ?? field.name;
+}
+
+// Columns named in @Table(uniqueConstraints = @UniqueConstraint(columnNames = ...))
+function uniqueConstraintColumns(javaClass: JavaClass): Set<string> {
+  const columns = new Set<string>();
+  for (const constraint of annotationValues(getAnnotation(javaClass, "Table"), "uniqueConstraints")) {
+    const names = /columnNames\s*=\s*\{?([^})]*)/.exec(constraint)?.[1] ?? "";
+    for (const match of names.matchAll(/"([^"]+)"/g)) columns.add(match[1].toLowerCase());
+  }
+  return columns;
+}
+
+// Column -> value a live row holds, from @Where/@SQLRestriction or the UPDATE in @SQLDelete
+function softDeleteColumns(hierarchy: JavaClass[]): Map<string, { value: string | null; source: string }> {
+  const columns = new Map<string, { value: string | null; source: string }>();
+  for (const javaClass of hierarchy) {
+    for (const annotation of javaClass.annotations) {
+      if (annotation.name === "SQLDelete") {
+        const sql = annotationValues(annotation, "sql", "value")[0] ?? "";
+        const match = /\bset\s+(\w+)\s*=\s*([^,\s]+(?:\(\))?)/i.exec(sql);
+        if (!match || columns.has(match[1].toLowerCase())) continue;
+        const deletedValue = match[2].toLowerCase();
+        const live = deletedValue === "true" ? "false"
+          : deletedValue === "1" ? "0"
+            : /^'[yt]/i.test(deletedValue) ? "'N'"
+              : null; // timestamps: a live row has none
+        columns.set(match[1].toLowerCase(), { value: live, source: `@SQLDelete` });
+      }
+      if (annotation.name === "Where" || annotation.name === "SQLRestriction") {
+        const clause = annotationValues(annotation, "clause", "value")[0] ?? "";
+        for (const match of clause.matchAll(/(\w+)\s*=\s*(true|false|\d+|'[^']*')/gi)) {
+          columns.set(match[1].toLowerCase(), { value: match[2], source: `@${annotation.name}` });
+        }
+        for (const match of clause.matchAll(/(\w+)\s+is\s+null/gi)) {
+          columns.set(match[1].toLowerCase(), { value: null, source: `@${annotation.name}` });
+        }
+      }
+    }
+  }
+  return columns;
+}
+
+// SQL literal from a soft-delete clause as a Java expression of the field's type
+function sqlLiteralAsJava(value: string, type: string): string {
+  const simple = simpleTypeName(type);
+  const unquoted = value.replace(/^'|'$/g, "");
+  if (["Boolean", "boolean"].includes(simple)) return /^(true|1|y|t)/i.test(unquoted) ? "true" : "false";
+  if (["Long", "long"].includes(simple)) return `${unquoted}L`;
+  if (["Integer", "int", "Short", "short", "Byte", "byte"].includes(simple)) return unquoted;
+  if (simple === "String") return javaStringLiteral(unquoted);
+  if (simple === "Character" || simple === "char") return `'${unquoted.charAt(0)}'`;
+  return `${simple}.valueOf(${javaStringLiteral(unquoted)})`;
+}
+
+// "Status" -> ["Order", "Status"] when declared inside another class of the file
+function nestedTypePath(source: JavaSourceFile, name: string): string[] | undefined {
+  const visit = (javaClass: JavaClass, path: string[]): string[] | undefined => {
+    for (const inner of javaClass.innerClasses) {
+      if (inner.name === name) return [...path, javaClass.name, inner.name];
+      const found = visit(inner, [...path, javaClass.name]);
+      if (found) return found;
+    }
+    return undefined;
+  };
+  for (const javaClass of source.classes) {
+    const found = visit(javaClass, []);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+// How the fixture refers to a type used by a field of `owner`; adds the import it needs
+function fixtureTypeReference(ctx: FixtureContext, owner: PersistenceClass, type: string): string {
+  const simple = simpleTypeName(type);
+  const nested = nestedTypePath(owner.source, simple);
+  const outer = nested ? nested[0] : simple;
+  const imported = owner.source.imports.find((i) => i.endsWith(`.${outer}`));
+  if (imported) ctx.imports.add(imported);
+  else if (owner.source.packageName !== ctx.fixturePackage && (nested || ctx.classes.has(simple))) {
+    ctx.imports.add(`${owner.source.packageName}.${outer}`);
+  }
+  return nested ? nested.join(".") : simple;
+}
+
+async function enumConstants(ctx: FixtureContext, owner: PersistenceClass, type: string): Promise<string[] | undefined> {
+  const simple = simpleTypeName(type);
+  const local = allJavaClasses(owner.source).find((c) => c.name === simple && c.kind === "enum");
+  if (local) return local.enumConstants;
+  for (const file of await findJavaFiles(ctx.projectPath, simple, ctx.moduleName)) {
+    const found = allJavaClasses(await parseJavaFile(file)).find((c) => c.name === simple && c.kind === "enum");
+    if (found) return found.enumConstants;
+  }
+  return undefined;
+}
+
+function annotationNumber(node: { annotations: JavaAnnotation[] }, annotationName: string, ...keys: string[]): number | undefined {
+  const value = annotationValues(getAnnotation(node, annotationName), ...(keys.length > 0 ? keys : ["value"]))[0];
+  if (value === undefined) return undefined;
+  const parsed = parseFloat(value.replace(/^"|"$/g, "").replace(/[lL]$/, ""));
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+// A value for one column that satisfies its length, range, temporal and uniqueness constraints
+async function fixtureValue(
+  ctx: FixtureContext,
+  owner: PersistenceClass,
+  field: JavaField,
+  unique: boolean
+): Promise<string | undefined> {
+  const simple = simpleTypeName(field.type);
+  const column = getAnnotation(field, "Column");
+
+  if (field.type.endsWith("[]")) return simple === "byte" || simple === "Byte" ? "new byte[] {1}" : undefined;
+
+  if (simple === "String" || simple === "CharSequence") {
+    const maxLength = Math.min(
+      annotationNumber(field, "Column", "length") ?? 255,
+      annotationNumber(field, "Size", "max") ?? Infinity,
+      annotationNumber(field, "Length", "max") ?? Infinity
+    );
+    const minLength = Math.max(
+      annotationNumber(field, "Size", "min") ?? 0,
+      annotationNumber(field, "Length", "min") ?? 0,
+      hasAnnotation(field, "NotBlank", "NotEmpty") ? 1 : 0
+    );
+    if (hasAnnotation(field, "Pattern")) {
+      ctx.warnings.push(`${owner.javaClass.name}.${field.name} must match @Pattern(${annotationValues(getAnnotation(field, "Pattern"), "regexp")[0] ?? ""}) - check the generated value`);
+    }
+    if (hasAnnotation(field, "Email") || /email/i.test(field.name)) {
+      if (!unique) return javaStringLiteral("user@example.com");
+      ctx.helpers.add("next");
+      return `"user" + next() + "@example.com"`;
+    }
+    if (unique) {
+      ctx.helpers.add("unique");
+      return `unique(${javaStringLiteral(field.name.slice(0, Math.max(1, maxLength - 6)))}, ${maxLength})`;
+    }
+    return javaStringLiteral(field.name.slice(0, maxLength).padEnd(minLength, "x"));
+  }
+
+  const lower = Math.max(
+    annotationNumber(field, "Min") ?? -Infinity,
+    annotationNumber(field, "DecimalMin") ?? -Infinity,
+    hasAnnotation(field, "Positive") ? 1 : -Infinity
+  );
+  const upper = Math.min(annotationNumber(field, "Max") ?? Infinity, annotationNumber(field, "DecimalMax") ?? Infinity);
+  const sample = lower > -Infinity ? Math.max(lower, 1) : upper < 1 ? upper : 1;
+
+  if (["Long", "long", "Integer", "int", "Short", "short", "Byte", "byte"].includes(simple)) {
+    const cast = ["Long", "long"].includes(simple) ? "" : `(${simple === "Integer" ? "int" : simple.toLowerCase()}) `;
+    if (unique) {
+      ctx.helpers.add("next");
+      return `${cast}next()`;
+    }
+    if (["Long", "long"].includes(simple)) return `${Math.ceil(sample)}L`;
+    // Method arguments get no implicit narrowing from an int literal
+    return ["Integer", "int"].includes(simple) ? `${Math.ceil(sample)}` : `${cast}${Math.ceil(sample)}`;
+  }
+  if (["Double", "double"].includes(simple)) return `${sample.toFixed(1)}`;
+  if (["Float", "float"].includes(simple)) return `${sample.toFixed(1)}f`;
+  if (simple === "BigDecimal") {
+    ctx.imports.add("java.math.BigDecimal");
+    const scale = annotationNumber(field, "Column", "scale") ?? annotationNumber(field, "Digits", "fraction");
+    return scale ? `new BigDecimal("${sample.toFixed(scale)}")` : sample === 1 ? "BigDecimal.ONE" : `new BigDecimal("${sample}")`;
+  }
+  if (simple === "BigInteger") {
+    ctx.imports.add("java.math.BigInteger");
+    return sample === 1 ? "BigInteger.ONE" : `BigInteger.valueOf(${Math.ceil(sample)})`;
+  }
+  if (["Boolean", "boolean"].includes(simple)) return hasAnnotation(field, "AssertTrue") ? "true" : "false";
+  if (["Character", "char"].includes(simple)) return "'a'";
+  if (simple === "UUID") {
+    ctx.imports.add("java.util.UUID");
+    return "UUID.randomUUID()";
+  }
+
+  const past = hasAnnotation(field, "Past", "PastOrPresent");
+  const future = hasAnnotation(field, "Future", "FutureOrPresent");
+  const temporal: Record<string, { fixed: string; now: string; minus: string; plus: string }> = {
+    LocalDate: { fixed: "LocalDate.of(2024, 1, 1)", now: "LocalDate.now()", minus: ".minusDays(1)", plus: ".plusDays(1)" },
+    LocalDateTime: { fixed: "LocalDateTime.of(2024, 1, 1, 0, 0)", now: "LocalDateTime.now()", minus: ".minusDays(1)", plus: ".plusDays(1)" },
+    LocalTime: { fixed: "LocalTime.NOON", now: "LocalTime.NOON", minus: "", plus: "" },
+    Instant: { fixed: 'Instant.parse("2024-01-01T00:00:00Z")', now: "Instant.now()", minus: ".minusSeconds(86400)", plus: ".plusSeconds(86400)" },
+    OffsetDateTime: { fixed: "OffsetDateTime.of(2024, 1, 1, 0, 0, 0, 0, ZoneOffset.UTC)", now: "OffsetDateTime.now()", minus: ".minusDays(1)", plus: ".plusDays(1)" },
+    ZonedDateTime: { fixed: "ZonedDateTime.of(2024, 1, 1, 0, 0, 0, 0, ZoneOffset.UTC)", now: "ZonedDateTime.now()", minus: ".minusDays(1)", plus: ".plusDays(1)" },
+  };
+  if (temporal[simple]) {
+    ctx.imports.add(`java.time.${simple}`);
+    if (!past && !future && /^(Offset|Zoned)/.test(simple)) ctx.imports.add("java.time.ZoneOffset");
+    const t = temporal[simple];
+    return past ? `${t.now}${t.minus}` : future ? `${t.now}${t.plus}` : t.fixed;
+  }
+  if (simple === "Date") {
+    ctx.imports.add(field.type.includes("sql") ? field.type : "java.util.Date");
+    return past ? "new Date(System.currentTimeMillis() - 86400000L)" : future ? "new Date(System.currentTimeMillis() + 86400000L)" : "new Date()";
+  }
+
+  const constants = await enumConstants(ctx, owner, field.type);
+  if (constants !== undefined || hasAnnotation(field, "Enumerated")) {
+    const reference = fixtureTypeReference(ctx, owner, field.type);
+    return constants && constants.length > 0 ? `${reference}.${constants[0]}` : `${reference}.values()[0]`;
+  }
+
+  return undefined;
+}
+
+function isRequiredColumn(field: JavaField): boolean {
+  return annotationValues(getAnnotation(field, "Column"), "nullable")[0] === "false" ||
+    annotationValues(getAnnotation(field, "Basic"), "optional")[0] === "false" ||
+    hasAnnotation(field, "NotNull", "NotBlank", "NotEmpty", "NonNull") ||
+    (hasAnnotation(field, "Id") && !hasAnnotation(field, "GeneratedValue"));
+}
+
+// "order.setName(...);" statements (or a builder chain) for a fresh instance of javaClass
+function renderConstruction(
+  ctx: FixtureContext,
+  javaClass: JavaClass,
+  variable: string,
+  reference: string,
+  assignments: FixtureAssignment[]
+): string[] {
+  const everyFieldOwn = assignments.every((a) => a.declaredIn === javaClass);
+  const useBuilder = hasAnnotation(javaClass, "SuperBuilder") ||
+    (hasAnnotation(javaClass, "Builder") && everyFieldOwn && !assignments.every((a) => hasSetter(a.declaredIn, a.javaField)));
+
+  if (useBuilder) {
+    return [
+      `${reference} ${variable} = ${reference}.builder()`,
+      ...assignments.map((a) => `        .${a.field}(${a.expression})`),
+      "        .build();",
+    ];
+  }
+
+  const hasNoArgs = javaClass.constructors.length === 0 ||
+    javaClass.constructors.some((c) => c.parameters.length === 0) ||
+    hasAnnotation(javaClass, "NoArgsConstructor");
+  if (!hasNoArgs) ctx.warnings.push(`${javaClass.name} has no no-argument constructor - adjust the generated new ${javaClass.name}()`);
+
+  const lines = [`${reference} ${variable} = new ${reference}();`];
+  for (const assignment of assignments) {
+    if (hasSetter(assignment.declaredIn, assignment.javaField)) {
+      lines.push(`${variable}.${setterName(assignment.javaField)}(${assignment.expression});`);
+    } else {
+      ctx.imports.add("org.springframework.test.util.ReflectionTestUtils");
+      lines.push(`ReflectionTestUtils.setField(${variable}, ${javaStringLiteral(assignment.field)}, ${assignment.expression});`);
+    }
+  }
+  return lines;
+}
+
+async function generateEntityFixture(
+  projectPath: string,
+  entityName: string,
+  writeToProject?: boolean,
+  moduleName?: string
+): Promise<string> {
+  const resolution = await resolveJavaClass(projectPath, entityName, moduleName, (c) => hasAnnotation(c, "Entity"));
+  if (!resolution.match) return unresolvedClass(projectPath, "Entity", entityName, resolution);
+
+  const classes = await loadPersistenceClasses(projectPath, moduleName);
+  const root = classes.get(resolution.match.name);
+  if (!root || !hasAnnotation(root.javaClass, "Entity")) {
+    return JSON.stringify({
+      found: false,
+      message: `${resolution.match.qualifiedName} is not an @Entity`,
+    }, null, 2);
+  }
+
+  const entityModule = moduleOfFile(projectPath, root.file);
+  const versions = JSON.parse(await checkSpringBootVersion(projectPath, moduleName ?? (entityModule === "." ? undefined : entityModule)));
+  const persistencePackage = versions.isSpringBoot3 ? "jakarta.persistence" : "javax.persistence";
+  const fixtureClassName = `${root.javaClass.name}Fixtures`;
+
+  const ctx: FixtureContext = {
+    projectPath,
+    moduleName,
+    classes,
+    fixturePackage: root.source.packageName,
+    imports: new Set([`${persistencePackage}.EntityManager`, "java.util.concurrent.atomic.AtomicLong"]),
+    helpers: new Set(),
+    warnings: [],
+  };
+
+  const creationOrder: string[] = [];
+  const populated: Record<string, string[]> = {};
+  const softDelete: { entity: string; field: string; value: string; source: string }[] = [];
+  const methods: string[] = [];
+  const building: string[] = [];
+
+  // Depth-first so every required parent gets its factory methods before the child uses them
+  const generate = async (entity: PersistenceClass): Promise<void> => {
+    const name = entity.javaClass.name;
+    if (creationOrder.includes(name) || building.includes(name)) return;
+    building.push(name);
+
+    const hierarchy: JavaClass[] = [];
+    for (let current: PersistenceClass | undefined = entity; current && !hierarchy.includes(current.javaClass);) {
+      hierarchy.push(current.javaClass);
+      const parent: string | undefined = current.javaClass.extends[0];
+      current = parent ? classes.get(simpleTypeName(parent)) : undefined;
+    }
+    const uniqueColumns = new Set(hierarchy.flatMap((c) => Array.from(uniqueConstraintColumns(c))));
+    const liveValues = softDeleteColumns(hierarchy);
+    const reference = fixtureTypeReference(ctx, entity, name);
+    const variable = lowerFirst(name);
+
+    const embeddedStatements: string[] = [];
+
+    // Fills the required columns of an entity or embeddable instance
+    const assignmentsFor = async (fields: { field: JavaField; owner: PersistenceClass }[], prefix: string): Promise<FixtureAssignment[]> => {
+      const assignments: FixtureAssignment[] = [];
+      for (const { field, owner } of fields) {
+        const add = (expression: string) => {
+          assignments.push({ field: field.name, expression, declaredIn: owner.javaClass, javaField: field });
+          (populated[name] ??= []).push(`${prefix}${field.name}`);
+        };
+        if (hasAnnotation(field, ...GENERATED_FIELD_ANNOTATIONS)) continue;
+
+        const relation = getAnnotation(field, ...RELATIONSHIP_ANNOTATIONS);
+        if (relation) {
+          const relationship = relationshipOf(field, relation);
+          const target = classes.get(relationship.target);
+          if (!relationship.required) continue;
+          if (!target || !hasAnnotation(target.javaClass, "Entity")) {
+            ctx.warnings.push(`${name}.${field.name} requires ${relationship.target}, which is not an @Entity in this project`);
+            continue;
+          }
+          if (building.includes(target.javaClass.name)) {
+            ctx.warnings.push(`${name}.${field.name} and ${target.javaClass.name} require each other - set ${name}.${field.name} by hand once both rows exist`);
+            continue;
+          }
+          await generate(target);
+          add(`persisted${target.javaClass.name}()`);
+          continue;
+        }
+
+        const column = columnName(field).toLowerCase();
+        const live = liveValues.get(column) ?? liveValues.get(toSnakeCase(field.name));
+        if (live) {
+          if (live.value !== null) {
+            const value = sqlLiteralAsJava(live.value, field.type);
+            add(value);
+            softDelete.push({ entity: name, field: `${prefix}${field.name}`, value, source: live.source });
+          } else {
+            softDelete.push({ entity: name, field: `${prefix}${field.name}`, value: "null", source: live.source });
+          }
+          continue;
+        }
+        if (SOFT_DELETE_FIELD.test(field.name) && ["Boolean", "boolean"].includes(simpleTypeName(field.type))) {
+          add("false");
+          softDelete.push({ entity: name, field: `${prefix}${field.name}`, value: "false", source: "field name" });
+          continue;
+        }
+
+        const embeddable = classes.get(simpleTypeName(field.type));
+        if (embeddable && hasAnnotation(embeddable.javaClass, "Embeddable")) {
+          const inner = await assignmentsFor(persistentFields(classes, embeddable.javaClass), `${prefix}${field.name}.`);
+          if (inner.length === 0 && !isRequiredColumn(field) && !hasAnnotation(field, "EmbeddedId")) continue;
+          const embeddedReference = fixtureTypeReference(ctx, owner, field.type);
+          const lines = renderConstruction(ctx, embeddable.javaClass, field.name, embeddedReference, inner);
+          // Built as a local ahead of the owning entity
+          add(field.name);
+          embeddedStatements.push(...lines);
+          continue;
+        }
+
+        const primitiveWithRange = /^(int|long|short|byte|double|float)$/.test(field.type) &&
+          hasAnnotation(field, "Min", "Positive", "DecimalMin");
+        const inBuilder = hasAnnotation(owner.javaClass, "Builder", "SuperBuilder") && !hasAnnotation(field, "Default");
+        if (field.initializer !== undefined && !inBuilder) continue;
+        if (!isRequiredColumn(field) && !primitiveWithRange) continue;
+
+        const unique = annotationValues(getAnnotation(field, "Column"), "unique")[0] === "true" ||
+          hasAnnotation(field, "NaturalId") || hasAnnotation(field, "Id") ||
+          uniqueColumns.has(column) || uniqueColumns.has(toSnakeCase(field.name));
+        const value = await fixtureValue(ctx, owner, field, unique);
+        if (value === undefined) {
+          ctx.warnings.push(`${name}.${prefix}${field.name} (${field.type}) is required but has no sample value - set it by hand`);
+          continue;
+        }
+        add(value);
+      }
+      return assignments;
+    };
+
+    const assignments = await assignmentsFor(persistentFields(classes, entity.javaClass), "");
+    const body = [
+      ...embeddedStatements,
+      ...renderConstruction(ctx, entity.javaClass, variable, reference, assignments),
+      `return ${variable};`,
+    ];
+
+    methods.push([
+      `    /** A valid, unsaved ${name}; required parents are persisted first. */`,
+      `    public ${reference} new${name}() {`,
+      ...body.map((line) => `        ${line}`),
+      "    }",
+      "",
+      `    public ${reference} persisted${name}() {`,
+      `        ${reference} ${variable} = new${name}();`,
+      `        entityManager.persist(${variable});`,
+      `        return ${variable};`,
+      "    }",
+    ].join("\n"));
+
+    building.pop();
+    creationOrder.push(name);
+  };
+
+  await generate(root);
+
+  const helpers: string[] = [];
+  if (ctx.helpers.has("next") || ctx.helpers.has("unique")) {
+    helpers.push([
+      "    private static long next() {",
+      "        return SEQUENCE.incrementAndGet();",
+      "    }",
+    ].join("\n"));
+  }
+  if (ctx.helpers.has("unique")) {
+    helpers.push([
+      "    /** prefix-N, trimmed from the left to fit the column. */",
+      "    private static String unique(String prefix, int maxLength) {",
+      '        String value = prefix + "-" + next();',
+      "        return value.length() <= maxLength ? value : value.substring(value.length() - maxLength);",
+      "    }",
+    ].join("\n"));
+  }
+
+  // The root entity's methods read best first; parents follow in creation order
+  const orderedMethods = [methods[methods.length - 1], ...methods.slice(0, -1)];
+  const imports = Array.from(ctx.imports)
+    .filter((i) => i.slice(0, i.lastIndexOf(".")) !== ctx.fixturePackage)
+    .sort();
+
+  const content = [
+    ...(ctx.fixturePackage ? [`package ${ctx.fixturePackage};`, ""] : []),
+    ...imports.map((i) => `import ${i};`),
+    "",
+    "/**",
+    ` * Test data for {@link ${root.javaClass.name}}: every non-nullable column gets a valid value`,
+    " * and required parents are persisted before the entities that reference them.",
+    " */",
+    `public class ${fixtureClassName} {`,
+    "",
+    "    private static final AtomicLong SEQUENCE = new AtomicLong();",
+    "",
+    "    private final EntityManager entityManager;",
+    "",
+    `    public ${fixtureClassName}(EntityManager entityManager) {`,
+    "        this.entityManager = entityManager;",
+    "    }",
+    "",
+    [...orderedMethods, ...helpers].join("\n\n"),
+    "}",
+    "",
+  ].join("\n");
+
+  const relativePath = path.join(
+    entityModule,
+    "src",
+    "test",
+    "java",
+    ...ctx.fixturePackage.split(".").filter(Boolean),
+    `${fixtureClassName}.java`
+  );
+
+  let written = false;
+  if (writeToProject) {
+    const fixturePath = path.join(projectPath, relativePath);
+    if (await fileExists(fixturePath)) {
+      return JSON.stringify({
+        found: true,
+        written: false,
+        path: relativePath,
+        message: `${fixtureClassName} already exists - not overwritten`,
+        content,
+      }, null, 2);
+    }
+    await mkdir(path.dirname(fixturePath), { recursive: true });
+    await writeFile(fixturePath, content, "utf-8");
+    written = true;
+  }
+
+  return JSON.stringify({
+    found: true,
+    entity: root.javaClass.name,
+    ...resolvedFrom(entityName, resolution),
+    fixtureClass: fixtureClassName,
+    path: relativePath,
+    written,
+    creationOrder,
+    populated,
+    softDelete,
+    warnings: ctx.warnings,
+    content: written ? undefined : content,
+    recommendation: written
+      ? `Use new ${fixtureClassName}(entityManager).persisted${root.javaClass.name}() in @Transactional tests`
+      : "Review the content, or call again with writeFile: true to save it under src/test/java",
+  }, null, 2);
+}
+
+interface SchemaColumn {
+  name: string;
+  type: string;
+  nullable: boolean;
+  hasDefault: boolean;
+  primaryKey: boolean;
+  source: string;
+}
+
+interface SchemaTable {
+  name: string;
+  columns: Map<string, SchemaColumn>;
+  source: string;
+}
+
+type SchemaModel = Map<string, SchemaTable>;
+
+// "public"."Orders" -> orders; schema prefixes are ignored
+function sqlIdentifier(text: string): string {
+  const last = text.trim().split(".").pop() ?? "";
+  return last.replace(/^["`\[]|["`\]]$/g, "").toLowerCase();
+}
+
+function stripSqlComments(sql: string): string {
+  let result = "";
+  for (let i = 0; i < sql.length; i++) {
+    const ch = sql[i];
+    if (ch === "'" || ch === '"' || ch === "`") {
+      const end = sql.indexOf(ch, i + 1);
+      const stop = end < 0 ? sql.length - 1 : end;
+      result += sql.slice(i, stop + 1);
+      i = stop;
+    } else if (ch === "-" && sql[i + 1] === "-") {
+      while (i < sql.length && sql[i] !== "\n") i++;
+      result += "\n";
+    } else if (ch === "/" && sql[i + 1] === "*") {
+      const end = sql.indexOf("*/", i + 2);
+      i = end < 0 ? sql.length : end + 1;
+      result += " ";
+    } else {
+      result += ch;
+    }
+  }
+  return result;
+}
+
+// Splits on a separator outside quotes, parentheses and $$ bodies
+function splitSqlTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "'" || ch === '"' || ch === "`") {
+      const end = text.indexOf(ch, i + 1);
+      const stop = end < 0 ? text.length - 1 : end;
+      current += text.slice(i, stop + 1);
+      i = stop;
+      continue;
+    }
+    if (ch === "$" && text[i + 1] === "$") {
+      const end = text.indexOf("$$", i + 2);
+      const stop = end < 0 ? text.length - 1 : end + 1;
+      current += text.slice(i, stop + 1);
+      i = stop;
+      continue;
+    }
+    if (ch === "(") depth++;
+    if (ch === ")") depth--;
+    if (ch === separator && depth === 0) {
+      parts.push(current.trim());
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts.filter(Boolean);
+}
+
+const SQL_CONSTRAINT_KEYWORDS = new Set([
+  "not", "null", "default", "primary", "unique", "references", "check", "constraint", "generated",
+  "auto_increment", "autoincrement", "identity", "collate", "comment", "on", "as", "first", "after",
+]);
+
+// "email VARCHAR(255) NOT NULL UNIQUE" -> column model
+function parseSqlColumn(definition: string, source: string): SchemaColumn | undefined {
+  const match = /^("[^"]+"|`[^`]+`|\[[^\]]+\]|[\w$]+)\s*(.*)$/s.exec(definition.trim());
+  if (!match) return undefined;
+
+  const words = match[2].match(/\([^)]*\)|"[^"]*"|'[^']*'|[^\s(]+/g) ?? [];
+  const typeWords: string[] = [];
+  let index = 0;
+  while (index < words.length && !SQL_CONSTRAINT_KEYWORDS.has(words[index].toLowerCase())) typeWords.push(words[index++]);
+  const type = typeWords.join(" ").replace(/\s+\(/g, "(");
+  const constraints = words.slice(index).join(" ").toLowerCase();
+
+  return {
+    name: sqlIdentifier(match[1]),
+    type,
+    nullable: !/\bnot\s+null\b/.test(constraints) && !/\bprimary\s+key\b/.test(constraints),
+    hasDefault: /\b(default|generated|auto_increment|autoincrement|identity)\b/.test(constraints) || /serial/i.test(type),
+    primaryKey: /\bprimary\s+key\b/.test(constraints),
+    source,
+  };
+}
+
+function schemaTable(model: SchemaModel, name: string, source: string): SchemaTable {
+  const key = sqlIdentifier(name);
+  // ALTER on a table created outside the migrations (e.g. a baseline) still records its columns
+  if (!model.has(key)) model.set(key, { name: key, columns: new Map(), source });
+  return model.get(key)!;
+}
+
+function markPrimaryKey(table: SchemaTable, columns: string) {
+  for (const name of columns.split(",").map(sqlIdentifier)) {
+    const column = table.columns.get(name);
+    if (column) {
+      column.primaryKey = true;
+      column.nullable = false;
+    }
+  }
+}
+
+function applyAlterAction(model: SchemaModel, table: SchemaTable, action: string, source: string) {
+  const lower = action.toLowerCase();
+
+  let match = /^add\s+(?:column\s+)?(?:if\s+not\s+exists\s+)?(.*)$/is.exec(action);
+  if (match) {
+    const rest = match[1].trim();
+    const primaryKey = /^(?:constraint\s+\S+\s+)?primary\s+key\s*\(([^)]*)\)/i.exec(rest);
+    if (primaryKey) return markPrimaryKey(table, primaryKey[1]);
+    if (/^(constraint|unique|foreign|check|index|key|fulltext|spatial)\b/i.test(rest)) return;
+    // MySQL: ADD COLUMN (a INT, b INT)
+    const definitions = rest.startsWith("(") ? splitSqlTopLevel(rest.slice(1, rest.lastIndexOf(")")), ",") : [rest];
+    for (const definition of definitions) {
+      const column = parseSqlColumn(definition, source);
+      if (column) table.columns.set(column.name, column);
+    }
+    return;
+  }
+
+  match = /^drop\s+(?:column\s+)?(?:if\s+exists\s+)?(\S+)/i.exec(action);
+  if (match && !/^drop\s+(constraint|index|key|primary|foreign|default|check|unique)\b/.test(lower)) {
+    table.columns.delete(sqlIdentifier(match[1]));
+    return;
+  }
+
+  match = /^rename\s+column\s+(\S+)\s+to\s+(\S+)/i.exec(action);
+  if (match) {
+    const column = table.columns.get(sqlIdentifier(match[1]));
+    if (column) {
+      table.columns.delete(column.name);
+      column.name = sqlIdentifier(match[2]);
+      table.columns.set(column.name, column);
+    }
+    return;
+  }
+
+  match = /^rename\s+(?:to\s+)?(\S+)$/i.exec(action);
+  if (match) {
+    model.delete(table.name);
+    table.name = sqlIdentifier(match[1]);
+    model.set(table.name, table);
+    return;
+  }
+
+  // MySQL: CHANGE old new <definition>
+  match = /^change\s+(?:column\s+)?(\S+)\s+(.*)$/is.exec(action);
+  if (match) {
+    const column = parseSqlColumn(match[2], source);
+    if (column) {
+      table.columns.delete(sqlIdentifier(match[1]));
+      table.columns.set(column.name, column);
+    }
+    return;
+  }
+
+  match = /^(?:alter|modify)\s+(?:column\s+)?(\S+)\s+(.*)$/is.exec(action);
+  if (match) {
+    const name = sqlIdentifier(match[1]);
+    const rest = match[2].trim();
+    const column = table.columns.get(name) ?? { name, type: "", nullable: true, hasDefault: false, primaryKey: false, source };
+    table.columns.set(name, column);
+
+    const type = /^(?:set\s+data\s+)?type\s+(.+?)(?:\s+using\s+.*)?$/is.exec(rest);
+    if (/^set\s+not\s+null/i.test(rest)) column.nullable = false;
+    else if (/^drop\s+not\s+null/i.test(rest)) column.nullable = true;
+    else if (/^set\s+default/i.test(rest)) column.hasDefault = true;
+    else if (/^drop\s+default/i.test(rest)) column.hasDefault = false;
+    else if (type) column.type = type[1].trim();
+    else {
+      // MySQL MODIFY / Oracle MODIFY: a full or partial column definition
+      const parsed = parseSqlColumn(`${name} ${rest}`, source);
+      if (parsed?.type) table.columns.set(name, { ...parsed, primaryKey: column.primaryKey });
+      else if (/^not\s+null/i.test(rest)) column.nullable = false;
+      else if (/^null/i.test(rest)) column.nullable = true;
+    }
+  }
+}
+
+function applySqlStatement(model: SchemaModel, statement: string, source: string) {
+  const text = statement.trim();
+
+  let match = /^create\s+(?:(?:global\s+|local\s+)?(?:temporary|temp)\s+)?table\s+(?:if\s+not\s+exists\s+)?([^\s(]+)\s*\((.*)\)[^)]*$/is.exec(text);
+  if (match) {
+    const table: SchemaTable = { name: sqlIdentifier(match[1]), columns: new Map(), source };
+    model.set(table.name, table);
+    for (const definition of splitSqlTopLevel(match[2], ",")) {
+      const primaryKey = /^(?:constraint\s+\S+\s+)?primary\s+key\s*\(([^)]*)\)/i.exec(definition);
+      if (primaryKey) {
+        markPrimaryKey(table, primaryKey[1]);
+        continue;
+      }
+      if (/^(constraint|unique|foreign|check|key|index|fulltext|spatial|exclude|period)\b/i.test(definition)) continue;
+      const column = parseSqlColumn(definition, source);
+      if (column) table.columns.set(column.name, column);
+    }
+    return;
+  }
+
+  match = /^alter\s+table\s+(?:if\s+exists\s+)?(?:only\s+)?(\S+)\s+(.*)$/is.exec(text);
+  if (match) {
+    const table = schemaTable(model, match[1], source);
+    for (const action of splitSqlTopLevel(match[2], ",")) applyAlterAction(model, table, action, source);
+    return;
+  }
+
+  match = /^drop\s+table\s+(?:if\s+exists\s+)?(.+?)(?:\s+(?:cascade|restrict).*)?$/is.exec(text);
+  if (match) {
+    for (const name of match[1].split(",")) model.delete(sqlIdentifier(name));
+    return;
+  }
+
+  match = /^rename\s+table\s+(\S+)\s+to\s+(\S+)/i.exec(text);
+  if (match) {
+    const table = model.get(sqlIdentifier(match[1]));
+    if (table) {
+      model.delete(table.name);
+      table.name = sqlIdentifier(match[2]);
+      model.set(table.name, table);
+    }
+  }
+}
+
+function applySqlScript(model: SchemaModel, sql: string, source: string) {
+  for (const statement of splitSqlTopLevel(stripSqlComments(sql), ";")) applySqlStatement(model, statement, source);
+}
+
+// V1_2__add_orders.sql -> [1, 2]
+function flywayVersion(file: string): number[] {
+  const match = /^[VB]([^_]+(?:_[^_]+)*?)__/.exec(path.basename(file));
+  return match ? match[1].split(/[._]/).map((part) => parseInt(part, 10) || 0) : [];
+}
+
+function compareVersions(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const difference = (a[i] ?? 0) - (b[i] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+// classpath:db/migration and filesystem:... locations -> directories
+async function resourceLocations(projectPath: string, locations: string[], moduleName?: string): Promise<string[]> {
+  const resourceRoots = [
+    ...(await getSourceRoots(projectPath, "test", "resources", moduleName)),
+    ...(await getSourceRoots(projectPath, "main", "resources", moduleName)),
+  ];
+  const directories: string[] = [];
+  for (const location of locations) {
+    const trimmed = location.trim().replace(/\{vendor\}/g, "*");
+    if (trimmed.startsWith("filesystem:")) {
+      directories.push(path.resolve(projectPath, trimmed.slice("filesystem:".length)));
+    } else {
+      const relative = trimmed.replace(/^classpath\*?:/, "").replace(/^\/+/, "");
+      directories.push(...resourceRoots.map((root) => path.join(root, relative)));
+    }
+  }
+  return directories;
+}
+
+async function loadFlywaySchema(
+  projectPath: string,
+  config: ResolvedConfig,
+  model: SchemaModel,
+  moduleName?: string
+): Promise<string[]> {
+  const locations = (lookupConfigKey(config, "spring.flyway.locations")?.value ?? "classpath:db/migration").split(",");
+  const directories = await resourceLocations(projectPath, locations, moduleName);
+  const files: string[] = [];
+  for (const directory of directories) {
+    files.push(...(await indexedSourceRoot(directory)).files.filter((f) => f.endsWith(".sql")));
+  }
+
+  // Same script in main and test resources: the test copy shadows it on the test classpath
+  const byName = new Map<string, string>();
+  for (const file of files.sort()) {
+    if (!/^[VBR]/.test(path.basename(file))) continue;
+    if (!byName.has(path.basename(file)) || file.includes(`${path.sep}test${path.sep}`)) byName.set(path.basename(file), file);
+  }
+  const versioned = Array.from(byName.values())
+    .filter((f) => !path.basename(f).startsWith("R"))
+    .sort((a, b) => compareVersions(flywayVersion(a), flywayVersion(b)));
+  const repeatable = Array.from(byName.values()).filter((f) => path.basename(f).startsWith("R")).sort();
+
+  const applied: string[] = [];
+  for (const file of [...versioned, ...repeatable]) {
+    const relative = path.relative(projectPath, file);
+    applySqlScript(model, await readIndexedFile(file), relative);
+    applied.push(relative);
+  }
+  return applied;
+}
+
+interface LiquibaseChange {
+  type: string;
+  attributes: Record<string, string>;
+  columns: { attributes: Record<string, string>; constraints: Record<string, string> }[];
+  text?: string;
+}
+
+// Inline YAML maps such as "{ nullable: false, primaryKey: true }"
+function flowMapping(value: string | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  const inner = /^\{(.*)\}$/s.exec((value ?? "").trim())?.[1];
+  if (!inner) return result;
+  for (const entry of inner.split(",")) {
+    const [key, ...rest] = entry.split(":");
+    if (key.trim()) result[key.trim()] = unquoteConfigValue(rest.join(":").trim());
+  }
+  return result;
+}
+
+function applyLiquibaseChange(model: SchemaModel, change: LiquibaseChange, source: string) {
+  const a = change.attributes;
+  const columnOf = (column: LiquibaseChange["columns"][number]): SchemaColumn => ({
+    name: sqlIdentifier(column.attributes.name ?? ""),
+    type: column.attributes.type ?? "",
+    nullable: column.constraints.nullable !== "false" && column.constraints.primaryKey !== "true",
+    hasDefault: column.attributes.autoIncrement === "true" ||
+      Object.keys(column.attributes).some((key) => key.startsWith("defaultValue")),
+    primaryKey: column.constraints.primaryKey === "true",
+    source,
+  });
+
+  switch (change.type) {
+    case "createTable": {
+      const table: SchemaTable = { name: sqlIdentifier(a.tableName ?? ""), columns: new Map(), source };
+      model.set(table.name, table);
+      for (const column of change.columns.map(columnOf)) table.columns.set(column.name, column);
+      break;
+    }
+    case "addColumn": {
+      const table = schemaTable(model, a.tableName ?? "", source);
+      for (const column of change.columns.map(columnOf)) table.columns.set(column.name, column);
+      break;
+    }
+    case "dropColumn": {
+      const table = schemaTable(model, a.tableName ?? "", source);
+      const names = a.columnName ? [a.columnName] : change.columns.map((c) => c.attributes.name ?? "");
+      for (const name of names) table.columns.delete(sqlIdentifier(name));
+      break;
+    }
+    case "renameColumn":
+      applyAlterAction(model, schemaTable(model, a.tableName ?? "", source), `rename column ${a.oldColumnName} to ${a.newColumnName}`, source);
+      break;
+    case "renameTable":
+      applySqlStatement(model, `rename table ${a.oldTableName} to ${a.newTableName}`, source);
+      break;
+    case "dropTable":
+      model.delete(sqlIdentifier(a.tableName ?? ""));
+      break;
+    case "addNotNullConstraint":
+    case "dropNotNullConstraint":
+    case "addDefaultValue":
+    case "dropDefaultValue": {
+      const table = schemaTable(model, a.tableName ?? "", source);
+      const name = sqlIdentifier(a.columnName ?? "");
+      const column = table.columns.get(name) ?? { name, type: a.columnDataType ?? "", nullable: true, hasDefault: false, primaryKey: false, source };
+      if (change.type === "addNotNullConstraint") column.nullable = false;
+      if (change.type === "dropNotNullConstraint") column.nullable = true;
+      if (change.type === "addDefaultValue") column.hasDefault = true;
+      if (change.type === "dropDefaultValue") column.hasDefault = false;
+      table.columns.set(name, column);
+      break;
+    }
+    case "modifyDataType":
+      applyAlterAction(model, schemaTable(model, a.tableName ?? "", source), `alter column ${a.columnName} type ${a.newDataType}`, source);
+      break;
+    case "addPrimaryKey":
+      markPrimaryKey(schemaTable(model, a.tableName ?? "", source), a.columnNames ?? "");
+      break;
+    case "sql":
+      applySqlScript(model, change.text ?? a.sql ?? "", source);
+      break;
+  }
+}
 
-  const content = await readJavaFile(entityFiles[0]);
-  const relationships: Record<string, any[]> = {
-    manyToOne: [],
-    oneToMany: [],
-    oneToOne: [],
-    manyToMany: [],
+// fast-xml-parser preserveOrder nodes: { tag: children, ":@": { "@_attr": value } }
+function xmlNodeName(node: any): string {
+  return Object.keys(node).find((key) => key !== ":@") ?? "";
+}
+
+function xmlNodeAttributes(node: any): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [key, value] of Object.entries(node[":@"] ?? {})) attributes[key.replace(/^@_/, "")] = String(value);
+  return attributes;
+}
+
+function xmlNodeText(node: any): string {
+  const children = node[xmlNodeName(node)];
+  if (!Array.isArray(children)) return "";
+  return children.map((child: any) => child["#text"] ?? xmlNodeText(child)).join("");
+}
+
+async function loadLiquibaseChangelog(
+  projectPath: string,
+  file: string,
+  model: SchemaModel,
+  applied: string[],
+  resourceRoots: string[],
+  depth = 0
+) {
+  if (depth > 10 || applied.includes(path.relative(projectPath, file))) return;
+  let content: string;
+  try {
+    content = await readIndexedFile(file);
+  } catch (error) {
+    return; // Referenced changelog outside the project
+  }
+  const relative = path.relative(projectPath, file);
+  applied.push(relative);
+
+  // include/includeAll paths are classpath-relative unless relativeToChangelogFile is set
+  const resolveInclude = async (target: string, relativeToFile: boolean): Promise<string | undefined> => {
+    const cleaned = target.replace(/^classpath\*?:/, "").replace(/^\/+/, "");
+    const candidates = relativeToFile
+      ? [path.resolve(path.dirname(file), target)]
+      : [...resourceRoots.map((root) => path.join(root, cleaned)), path.resolve(path.dirname(file), cleaned)];
+    for (const candidate of candidates) {
+      if (await fileExists(candidate)) return candidate;
+    }
+    return undefined;
+  };
+  const include = async (target: string, relativeToFile: boolean, all: boolean) => {
+    const resolved = await resolveInclude(target, relativeToFile);
+    if (!resolved) return;
+    const files = all ? (await indexedSourceRoot(resolved)).files.filter((f) => /\.(xml|ya?ml|sql)$/.test(f)) : [resolved];
+    for (const included of files) await loadLiquibaseChangelog(projectPath, included, model, applied, resourceRoots, depth + 1);
   };
 
-  // Extract @ManyToOne relationships
-  const manyToOnePattern = /@ManyToOne[\s\S]*?private\s+(\w+)\s+(\w+);/g;
-  let match;
-  while ((match = manyToOnePattern.exec(content)) !== null) {
-    relationships.manyToOne.push({
-      type: match[1],
-      field: match[2],
-      required: !content.includes(`@JoinColumn.*${match[2]}.*nullable.*true`),
+  if (file.endsWith(".sql")) {
+    applySqlScript(model, content, relative);
+    return;
+  }
+
+  if (file.endsWith(".xml")) {
+    const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: "@_", preserveOrder: true, parseAttributeValue: false });
+    const root = (parser.parse(content) as any[]).find((node) => xmlNodeName(node) === "databaseChangeLog");
+    for (const entry of root?.databaseChangeLog ?? []) {
+      const entryName = xmlNodeName(entry);
+      const attributes = xmlNodeAttributes(entry);
+      if (entryName === "include" || entryName === "includeAll") {
+        await include(attributes.file ?? attributes.path ?? "", attributes.relativeToChangelogFile === "true", entryName === "includeAll");
+        continue;
+      }
+      if (entryName !== "changeSet") continue;
+      for (const changeNode of entry.changeSet ?? []) {
+        const type = xmlNodeName(changeNode);
+        if (!type || ["#text", "comment", "preConditions", "rollback", "validCheckSum"].includes(type)) continue;
+        const columns = (changeNode[type] ?? [])
+          .filter((child: any) => xmlNodeName(child) === "column")
+          .map((child: any) => ({
+            attributes: xmlNodeAttributes(child),
+            constraints: xmlNodeAttributes((child.column ?? []).find((c: any) => xmlNodeName(c) === "constraints") ?? {}),
+          }));
+        const change: LiquibaseChange = { type, attributes: xmlNodeAttributes(changeNode), columns, text: xmlNodeText(changeNode) };
+        if (type === "sqlFile") {
+          await include(change.attributes.path ?? "", change.attributes.relativeToChangelogFile === "true", false);
+          continue;
+        }
+        applyLiquibaseChange(model, change, relative);
+      }
+    }
+    return;
+  }
+
+  // YAML: regroup the flattened keys into changes
+  const values = flattenYaml(content)[0] ?? {};
+  const entries = new Map<number, Record<string, string>>();
+  for (const [key, value] of Object.entries(values)) {
+    const match = /^databaseChangeLog\[(\d+)\]\.(.*)$/.exec(key);
+    if (!match) continue;
+    const index = parseInt(match[1], 10);
+    if (!entries.has(index)) entries.set(index, {});
+    entries.get(index)![match[2]] = value;
+  }
+
+  for (const index of Array.from(entries.keys()).sort((x, y) => x - y)) {
+    const entry = entries.get(index)!;
+    if (entry["include.file"] !== undefined || entry["includeAll.path"] !== undefined) {
+      const all = entry["includeAll.path"] !== undefined;
+      const prefix = all ? "includeAll" : "include";
+      await include(entry[`${prefix}.${all ? "path" : "file"}`], entry[`${prefix}.relativeToChangelogFile`] === "true", all);
+      continue;
+    }
+
+    const changes = new Map<number, LiquibaseChange>();
+    for (const [key, value] of Object.entries(entry)) {
+      const match = /^changeSet\.changes\[(\d+)\]\.(\w+)(?:\.(.*))?$/.exec(key);
+      if (!match) continue;
+      const position = parseInt(match[1], 10);
+      if (!changes.has(position)) changes.set(position, { type: match[2], attributes: {}, columns: [] });
+      const change = changes.get(position)!;
+      const rest = match[3];
+      if (rest === undefined) {
+        change.text = value; // - sql: "ALTER TABLE ..."
+        continue;
+      }
+      const column = /^columns\[(\d+)\]\.column\.(?:constraints\.(\w+)|(\w+))$/.exec(rest);
+      if (column) {
+        const columnIndex = parseInt(column[1], 10);
+        change.columns[columnIndex] ??= { attributes: {}, constraints: {} };
+        if (column[2]) change.columns[columnIndex].constraints[column[2]] = value;
+        else if (column[3] === "constraints") Object.assign(change.columns[columnIndex].constraints, flowMapping(value));
+        else change.columns[columnIndex].attributes[column[3]] = value;
+      } else if (!rest.includes(".") && !rest.includes("[")) {
+        change.attributes[rest] = value;
+      }
+    }
+
+    for (const position of Array.from(changes.keys()).sort((x, y) => x - y)) {
+      const change = changes.get(position)!;
+      change.columns = change.columns.filter(Boolean);
+      if (change.type === "sqlFile") {
+        await include(change.attributes.path ?? "", change.attributes.relativeToChangelogFile === "true", false);
+        continue;
+      }
+      applyLiquibaseChange(model, change, relative);
+    }
+  }
+}
+
+async function loadLiquibaseSchema(
+  projectPath: string,
+  config: ResolvedConfig,
+  model: SchemaModel,
+  moduleName?: string
+): Promise<string[]> {
+  const resourceRoots = [
+    ...(await getSourceRoots(projectPath, "test", "resources", moduleName)),
+    ...(await getSourceRoots(projectPath, "main", "resources", moduleName)),
+  ];
+  const configured = lookupConfigKey(config, "spring.liquibase.change-log")?.value;
+  const candidates = configured
+    ? await resourceLocations(projectPath, [configured], moduleName)
+    : resourceRoots.flatMap((root) =>
+      ["yaml", "yml", "xml", "sql"].map((extension) => path.join(root, "db", "changelog", `db.changelog-master.${extension}`))
+    );
+
+  const applied: string[] = [];
+  for (const candidate of candidates) {
+    if (!(await fileExists(candidate))) continue;
+    await loadLiquibaseChangelog(projectPath, candidate, model, applied, resourceRoots);
+    break;
+  }
+  return applied;
+}
+
+// SQL type -> comparable family; undefined for custom types and ${placeholders}
+function sqlTypeFamily(type: string): string | undefined {
+  const t = type.toLowerCase().replace(/^java\.sql\.types\./, "").trim();
+  if (!t || t.includes("${")) return undefined;
+  if (/^(n?varchar2?|n?char|character|text|n?clob|longtext|mediumtext|tinytext|string|citext)\b/.test(t)) return "string";
+  if (/^(bigint|int8|bigserial|serial8)\b/.test(t)) return "bigint";
+  if (/^(int|integer|int2|int4|smallint|tinyint|mediumint|serial|serial4|smallserial)\b/.test(t)) return "integer";
+  if (/^(numeric|decimal|number|money|dec)\b/.test(t)) return "decimal";
+  if (/^(double|float|real|binary_double|binary_float)\b/.test(t)) return "float";
+  if (/^(bool|boolean|bit)\b/.test(t)) return "boolean";
+  if (/^(timestamp|datetime|datetime2|timestamptz|smalldatetime|datetimeoffset)\b/.test(t)) return "timestamp";
+  if (/^date\b/.test(t)) return "date";
+  if (/^(time|timetz)\b/.test(t)) return "time";
+  if (/^(uuid|uniqueidentifier)\b/.test(t)) return "uuid";
+  if (/^(bytea|blob|longblob|mediumblob|tinyblob|binary|varbinary|raw|image)\b/.test(t)) return "binary";
+  if (/^jsonb?\b/.test(t)) return "json";
+  if (/^interval\b/.test(t)) return "interval";
+  return undefined;
+}
+
+// Column families a Java attribute can be validated against; undefined skips the check
+function javaColumnFamilies(field: JavaField, javaType = field.type): string[] | undefined {
+  if (hasAnnotation(field, "Convert", "Type", "JdbcTypeCode", "JdbcType") ||
+    annotationValues(getAnnotation(field, "Column"), "columnDefinition").length > 0) return undefined;
+  const simple = simpleTypeName(javaType);
+  if (javaType.endsWith("[]")) return /^(byte|Byte)/.test(simple) ? ["binary"] : undefined;
+
+  const families: Record<string, string[]> = {
+    String: ["string"],
+    Long: ["bigint", "decimal"], long: ["bigint", "decimal"],
+    Integer: ["integer", "decimal"], int: ["integer", "decimal"],
+    Short: ["integer", "decimal"], short: ["integer", "decimal"],
+    Byte: ["integer", "decimal"], byte: ["integer", "decimal"],
+    BigDecimal: ["decimal"], BigInteger: ["decimal", "bigint"],
+    Double: ["float", "decimal"], double: ["float", "decimal"],
+    Float: ["float", "decimal"], float: ["float", "decimal"],
+    Boolean: ["boolean", "integer", "decimal"], boolean: ["boolean", "integer", "decimal"],
+    Character: ["string"], char: ["string"],
+    LocalDate: ["date"], LocalTime: ["time"],
+    LocalDateTime: ["timestamp"], Instant: ["timestamp"], OffsetDateTime: ["timestamp"], ZonedDateTime: ["timestamp"],
+    Date: ["date", "time", "timestamp"], Timestamp: ["timestamp"], Calendar: ["date", "timestamp"],
+    UUID: ["uuid", "binary", "string"],
+    Duration: ["bigint", "decimal", "interval"],
+  };
+  if (families[simple]) return families[simple];
+  const enumerated = getAnnotation(field, "Enumerated");
+  if (enumerated) return annotationValues(enumerated, "value")[0]?.endsWith("STRING") ? ["string"] : ["integer", "decimal"];
+  return undefined;
+}
+
+interface MappedColumn {
+  entity: string;
+  field: string;
+  table: string;
+  column: string;
+  javaType: string;
+  families?: string[];
+  required: boolean; // mapping declares NOT NULL (nullable = false, optional = false, @Id)
+  mayBeNull: boolean; // JPA can insert null for it
+}
+
+async function checkSchemaDrift(projectPath: string, moduleName?: string): Promise<string> {
+  const config = await resolveConfig(projectPath, "test", moduleName);
+  const schema: SchemaModel = new Map();
+  const flywayScripts = await loadFlywaySchema(projectPath, config, schema, moduleName);
+  const liquibaseChangelogs = flywayScripts.length === 0 ? await loadLiquibaseSchema(projectPath, config, schema, moduleName) : [];
+
+  if (flywayScripts.length === 0 && liquibaseChangelogs.length === 0) {
+    return JSON.stringify({
+      found: false,
+      message: "No Flyway migrations (db/migration/V*.sql) or Liquibase changelog found",
+    }, null, 2);
+  }
+
+  const classes = await loadPersistenceClasses(projectPath, moduleName);
+  const strategy = lookupConfigKey(config, "spring.jpa.hibernate.naming.physical-strategy")?.value ?? "";
+  const standardNaming = /PhysicalNamingStrategyStandardImpl/.test(strategy);
+  const physicalName = (name: string) => (standardNaming ? name : toSnakeCase(name)).replace(/["`\[\]]/g, "").toLowerCase();
+
+  const entityParent = (javaClass: JavaClass): PersistenceClass | undefined => {
+    let parent = javaClass.extends[0] ? classes.get(simpleTypeName(javaClass.extends[0])) : undefined;
+    while (parent && !hasAnnotation(parent.javaClass, "Entity")) {
+      parent = parent.javaClass.extends[0] ? classes.get(simpleTypeName(parent.javaClass.extends[0])) : undefined;
+    }
+    return parent;
+  };
+  const tableOf = (javaClass: JavaClass): string => physicalName(
+    annotationValues(getAnnotation(javaClass, "Table"), "name")[0] ??
+    annotationValues(getAnnotation(javaClass, "Entity"), "name")[0] ??
+    javaClass.name
+  );
+  // Own fields plus @MappedSuperclass ancestors, up to the next @Entity
+  const ownFields = (javaClass: JavaClass): JavaField[] => {
+    const fields = [...javaClass.fields];
+    let parent = javaClass.extends[0] ? classes.get(simpleTypeName(javaClass.extends[0])) : undefined;
+    while (parent && hasAnnotation(parent.javaClass, "MappedSuperclass")) {
+      fields.push(...parent.javaClass.fields);
+      parent = parent.javaClass.extends[0] ? classes.get(simpleTypeName(parent.javaClass.extends[0])) : undefined;
+    }
+    return fields.filter((f) => !f.modifiers.includes("static") && !f.modifiers.includes("transient") && !hasAnnotation(f, "Transient", "Formula"));
+  };
+  const idField = (javaClass: JavaClass): JavaField | undefined => {
+    for (let current: JavaClass | undefined = javaClass; current;) {
+      const id = ownFields(current).find((f) => hasAnnotation(f, "Id", "EmbeddedId"));
+      if (id) return id;
+      current = entityParent(current)?.javaClass;
+    }
+    return undefined;
+  };
+  const columnNameOf = (field: JavaField, override?: string) =>
+    physicalName(override ?? annotationValues(getAnnotation(field, "Column"), "name")[0] ?? field.name);
+
+  const mappedTables: { entity: string; table: string; kind: string }[] = [];
+  const mappedColumns: MappedColumn[] = [];
+
+  const addField = (
+    entity: string,
+    table: string,
+    field: JavaField,
+    path: string,
+    overrides: Map<string, string>,
+    sharedTable: boolean,
+    partOfId = false
+  ) => {
+    const relation = getAnnotation(field, ...RELATIONSHIP_ANNOTATIONS);
+    if (relation) {
+      const relationship = relationshipOf(field, relation);
+      const target = classes.get(relationship.target)?.javaClass;
+      const targetId = target ? idField(target) : undefined;
+      const targetIdColumn = targetId ? columnNameOf(targetId) : "id";
+      const joinColumns = [
+        ...annotationValues(getAnnotation(field, "JoinColumns"), "value"),
+        ...(getAnnotation(field, "JoinColumn") ? [annotationValues(getAnnotation(field, "JoinColumn"), "name")[0] ?? ""] : []),
+      ].map((text) => /name\s*=\s*"([^"]+)"/.exec(text)?.[1] ?? (text.startsWith("@") ? "" : text)).filter(Boolean);
+
+      if ((relationship.kind === "ManyToOne" || relationship.kind === "OneToOne") && relationship.owning) {
+        if (hasAnnotation(field, "MapsId")) return; // Shares the primary key column
+        const names = joinColumns.length > 0 ? joinColumns : [`${physicalName(field.name)}_${targetIdColumn}`];
+        for (const name of names) {
+          mappedColumns.push({
+            entity, field: `${path}${field.name}`, table, column: physicalName(name),
+            javaType: targetId?.type ?? "Long",
+            families: targetId ? javaColumnFamilies(targetId) : undefined,
+            required: !relationship.optional || !relationship.nullable,
+            mayBeNull: sharedTable || !relationship.required,
+          });
+        }
+      } else if (relationship.kind === "OneToMany" && relationship.owning && joinColumns.length > 0 && target) {
+        // Unidirectional @OneToMany @JoinColumn: the foreign key lives on the child table
+        const ownerId = idField(classes.get(entity)!.javaClass);
+        for (const name of joinColumns) {
+          mappedColumns.push({
+            entity, field: `${path}${field.name}`, table: tableOf(target), column: physicalName(name),
+            javaType: ownerId?.type ?? "Long",
+            families: ownerId ? javaColumnFamilies(ownerId) : undefined,
+            required: false,
+            mayBeNull: true,
+          });
+        }
+      } else if (relationship.owning && relationship.kind !== "ManyToOne" && relationship.kind !== "OneToOne" && target) {
+        const joinTable = annotationValues(getAnnotation(field, "JoinTable"), "name")[0];
+        mappedTables.push({ entity, table: physicalName(joinTable ?? `${tableOf(classes.get(entity)!.javaClass)}_${tableOf(target)}`), kind: "join table" });
+      }
+      return;
+    }
+
+    if (hasAnnotation(field, "ElementCollection")) {
+      const collectionTable = annotationValues(getAnnotation(field, "CollectionTable"), "name")[0];
+      mappedTables.push({ entity, table: physicalName(collectionTable ?? `${entity}_${field.name}`), kind: "collection table" });
+      return;
+    }
+
+    const embeddable = classes.get(simpleTypeName(field.type));
+    if (embeddable && hasAnnotation(embeddable.javaClass, "Embeddable")) {
+      const innerOverrides = new Map<string, string>();
+      const overrideTexts = [
+        ...annotationValues(getAnnotation(field, "AttributeOverrides"), "value"),
+        ...(getAnnotation(field, "AttributeOverride")
+          ? [`name = "${annotationValues(getAnnotation(field, "AttributeOverride"), "name")[0]}" ${annotationValues(getAnnotation(field, "AttributeOverride"), "column")[0] ?? ""}`]
+          : []),
+      ];
+      for (const text of overrideTexts) {
+        const match = /name\s*=\s*"([^"]+)"[\s\S]*?@Column\s*\([^)]*?name\s*=\s*"([^"]+)"/.exec(text);
+        if (match) innerOverrides.set(match[1], match[2]);
+      }
+      for (const inner of ownFields(embeddable.javaClass)) {
+        addField(entity, table, inner, `${path}${field.name}.`, innerOverrides, sharedTable, partOfId || hasAnnotation(field, "EmbeddedId"));
+      }
+      return;
+    }
+
+    if (field.type.startsWith("List<") || field.type.startsWith("Set<") || field.type.startsWith("Map<")) return;
+
+    const primitive = /^(int|long|short|byte|double|float|boolean|char)$/.test(field.type);
+    const required = annotationValues(getAnnotation(field, "Column"), "nullable")[0] === "false" ||
+      annotationValues(getAnnotation(field, "Basic"), "optional")[0] === "false" ||
+      hasAnnotation(field, "Id") || partOfId;
+    const autoFilled = hasAnnotation(field, ...GENERATED_FIELD_ANNOTATIONS) || field.initializer !== undefined;
+    const lob = hasAnnotation(field, "Lob");
+    mappedColumns.push({
+      entity, field: `${path}${field.name}`, table, column: columnNameOf(field, overrides.get(field.name)),
+      javaType: field.type,
+      families: lob && simpleTypeName(field.type) === "String" ? ["string"] : javaColumnFamilies(field),
+      required,
+      mayBeNull: sharedTable || (!required && !primitive && !autoFilled && !hasAnnotation(field, "NotNull", "NotBlank", "NotEmpty")),
+    });
+  };
+
+  const entities = Array.from(classes.values()).filter((c) => hasAnnotation(c.javaClass, "Entity"));
+  for (const { javaClass } of entities) {
+    const parent = entityParent(javaClass);
+    let root = javaClass;
+    for (let p = parent; p; p = entityParent(p.javaClass)) root = p.javaClass;
+    const strategy = annotationValues(getAnnotation(root, "Inheritance"), "strategy")[0]?.replace(/^.*\./, "") ?? "SINGLE_TABLE";
+
+    // SINGLE_TABLE subclasses write into the root table, where their columns must allow null for siblings
+    const sharedTable = parent !== undefined && strategy === "SINGLE_TABLE";
+    const table = sharedTable ? tableOf(root) : tableOf(javaClass);
+    if (!sharedTable) mappedTables.push({ entity: javaClass.name, table, kind: "entity" });
+
+    const fields = ownFields(javaClass);
+    if (parent && strategy === "TABLE_PER_CLASS") {
+      for (let p: PersistenceClass | undefined = parent; p; p = entityParent(p.javaClass)) fields.push(...ownFields(p.javaClass));
+    }
+    if (parent && strategy === "JOINED") {
+      const rootId = idField(root);
+      const joinColumn = annotationValues(getAnnotation(javaClass, "PrimaryKeyJoinColumn"), "name")[0];
+      mappedColumns.push({
+        entity: javaClass.name, field: rootId?.name ?? "id", table, column: physicalName(joinColumn ?? (rootId ? columnNameOf(rootId) : "id")),
+        javaType: rootId?.type ?? "Long", families: rootId ? javaColumnFamilies(rootId) : undefined, required: true, mayBeNull: false,
+      });
+    }
+    for (const field of fields) {
+      addField(javaClass.name, table, field, "", new Map(), sharedTable);
+    }
+
+    const hasSubclasses = entities.some((other) => entityParent(other.javaClass)?.javaClass === javaClass);
+    const discriminator = getAnnotation(javaClass, "DiscriminatorColumn");
+    if (!parent && (discriminator || (hasSubclasses && strategy === "SINGLE_TABLE"))) {
+      const integer = annotationValues(discriminator, "discriminatorType")[0]?.endsWith("INTEGER");
+      mappedColumns.push({
+        entity: javaClass.name, field: "(discriminator)", table, column: physicalName(annotationValues(discriminator, "name")[0] ?? "dtype"),
+        javaType: integer ? "Integer" : "String", families: integer ? ["integer", "decimal"] : ["string"], required: true, mayBeNull: false,
+      });
+    }
+  }
+
+  const missingTables: { entity: string; table: string; kind: string }[] = [];
+  for (const mapped of mappedTables) {
+    if (!schema.has(mapped.table) && !missingTables.some((m) => m.table === mapped.table)) missingTables.push(mapped);
+  }
+
+  const missingColumns: { entity: string; field: string; column: string }[] = [];
+  const nullabilityMismatches: { entity: string; field?: string; column: string; problem: string; severity: string }[] = [];
+  const typeMismatches: { entity: string; field: string; column: string; javaType: string; columnType: string; expected: string }[] = [];
+  for (const mapped of mappedColumns) {
+    const table = schema.get(mapped.table);
+    if (!table) continue; // Reported as a missing table
+    const column = table.columns.get(mapped.column);
+    const qualified = `${mapped.table}.${mapped.column}`;
+    if (!column) {
+      if (!missingColumns.some((m) => m.column === qualified)) missingColumns.push({ entity: mapped.entity, field: mapped.field, column: qualified });
+      continue;
+    }
+    if (!column.nullable && !column.hasDefault && mapped.mayBeNull) {
+      nullabilityMismatches.push({
+        entity: mapped.entity, field: mapped.field, column: qualified, severity: "error",
+        problem: `Column is NOT NULL without a default but ${mapped.entity}.${mapped.field} may be null - inserts fail unless tests always set it`,
+      });
+    } else if (column.nullable && mapped.required) {
+      nullabilityMismatches.push({
+        entity: mapped.entity, field: mapped.field, column: qualified, severity: "warning",
+        problem: `Mapped as NOT NULL but the column accepts null`,
+      });
+    }
+    const family = sqlTypeFamily(column.type);
+    if (family && mapped.families && !mapped.families.includes(family)) {
+      typeMismatches.push({
+        entity: mapped.entity, field: mapped.field, column: qualified, javaType: mapped.javaType,
+        columnType: column.type, expected: mapped.families.join(" | "),
+      });
+    }
+  }
+
+  // NOT NULL columns no mapping writes: every insert through JPA fails
+  for (const table of new Set(mappedTables.filter((m) => m.kind === "entity").map((m) => m.table))) {
+    const schemaTableModel = schema.get(table);
+    if (!schemaTableModel) continue;
+    const written = new Set(mappedColumns.filter((m) => m.table === table).map((m) => m.column));
+    const owners = Array.from(new Set(mappedTables.filter((m) => m.table === table).map((m) => m.entity)));
+    for (const column of schemaTableModel.columns.values()) {
+      if (written.has(column.name) || column.nullable || column.hasDefault) continue;
+      nullabilityMismatches.push({
+        entity: owners.join(", "), column: `${table}.${column.name}`, severity: "error",
+        problem: `NOT NULL column without a default is not mapped by ${owners.join(", ")} - JPA inserts fail`,
+      });
+    }
+  }
+
+  const ddlAuto = lookupConfigKey(config, "spring.jpa.hibernate.ddl-auto")?.value;
+  const issues = missingTables.length + missingColumns.length + typeMismatches.length +
+    nullabilityMismatches.filter((m) => m.severity === "error").length;
+
+  return JSON.stringify({
+    found: true,
+    source: flywayScripts.length > 0 ? "flyway" : "liquibase",
+    migrations: flywayScripts.length > 0 ? flywayScripts : liquibaseChangelogs,
+    namingStrategy: standardNaming ? "as written" : "snake_case",
+    ddlAuto: ddlAuto ?? null,
+    tableCount: schema.size,
+    entityCount: entities.length,
+    inSync: issues === 0,
+    missingTables,
+    missingColumns,
+    nullabilityMismatches,
+    typeMismatches,
+    recommendation: issues === 0
+      ? "Entity mappings match the migrations"
+      : ddlAuto && !["validate", "none"].includes(ddlAuto)
+        ? `Tests use ddl-auto=${ddlAuto}, so Hibernate builds the schema itself - fix the migrations before switching to validate`
+        : "Add a migration for the missing tables/columns before running integration tests; with ddl-auto=validate Hibernate fails at startup on missing tables, columns and type mismatches",
+  }, null, 2);
+}
+
+const HTTP_STATUS_CODES: Record<string, number> = {
+  OK: 200, CREATED: 201, ACCEPTED: 202, NO_CONTENT: 204,
+  BAD_REQUEST: 400, UNAUTHORIZED: 401, PAYMENT_REQUIRED: 402, FORBIDDEN: 403, NOT_FOUND: 404, METHOD_NOT_ALLOWED: 405,
+  NOT_ACCEPTABLE: 406, REQUEST_TIMEOUT: 408, CONFLICT: 409, GONE: 410, PRECONDITION_FAILED: 412, PAYLOAD_TOO_LARGE: 413,
+  UNSUPPORTED_MEDIA_TYPE: 415, EXPECTATION_FAILED: 417, I_AM_A_TEAPOT: 418, UNPROCESSABLE_ENTITY: 422, UNPROCESSABLE_CONTENT: 422,
+  LOCKED: 423, FAILED_DEPENDENCY: 424, PRECONDITION_REQUIRED: 428, TOO_MANY_REQUESTS: 429,
+  INTERNAL_SERVER_ERROR: 500, NOT_IMPLEMENTED: 501, BAD_GATEWAY: 502, SERVICE_UNAVAILABLE: 503, GATEWAY_TIMEOUT: 504,
+};
+
+// Statuses DefaultHandlerExceptionResolver (and ResponseEntityExceptionHandler) use for Spring MVC exceptions
+const FRAMEWORK_EXCEPTION_STATUS: Record<string, number> = {
+  MethodArgumentNotValidException: 400, HandlerMethodValidationException: 400, HttpMessageNotReadableException: 400,
+  MissingServletRequestParameterException: 400, MissingRequestHeaderException: 400, MissingServletRequestPartException: 400,
+  ServletRequestBindingException: 400, MethodArgumentTypeMismatchException: 400, TypeMismatchException: 400, BindException: 400,
+  MissingPathVariableException: 500, HttpRequestMethodNotSupportedException: 405, HttpMediaTypeNotAcceptableException: 406,
+  HttpMediaTypeNotSupportedException: 415, NoHandlerFoundException: 404, NoResourceFoundException: 404,
+  AsyncRequestTimeoutException: 503, MaxUploadSizeExceededException: 413, HttpMessageNotWritableException: 500,
+};
+
+// Superclasses of library exceptions, enough to match handlers declared for a parent type
+const LIBRARY_EXCEPTION_PARENTS: Record<string, string> = {
+  MethodArgumentNotValidException: "BindException", BindException: "Exception",
+  HandlerMethodValidationException: "ResponseStatusException", ResponseStatusException: "ErrorResponseException",
+  ErrorResponseException: "NestedRuntimeException", NestedRuntimeException: "RuntimeException",
+  HttpMessageNotReadableException: "HttpMessageConversionException", HttpMessageNotWritableException: "HttpMessageConversionException",
+  HttpMessageConversionException: "NestedRuntimeException",
+  MissingServletRequestParameterException: "ServletRequestBindingException", MissingRequestHeaderException: "ServletRequestBindingException",
+  MissingPathVariableException: "ServletRequestBindingException", ServletRequestBindingException: "ServletException",
+  MethodArgumentTypeMismatchException: "TypeMismatchException", TypeMismatchException: "NestedRuntimeException",
+  HttpRequestMethodNotSupportedException: "ServletException", HttpMediaTypeNotSupportedException: "ServletException",
+  HttpMediaTypeNotAcceptableException: "ServletException", NoHandlerFoundException: "ServletException",
+  NoResourceFoundException: "ServletException", ServletException: "Exception",
+  ConstraintViolationException: "ValidationException", ValidationException: "RuntimeException",
+  EntityNotFoundException: "PersistenceException", PersistenceException: "RuntimeException",
+  DataIntegrityViolationException: "DataAccessException", EmptyResultDataAccessException: "DataAccessException",
+  OptimisticLockingFailureException: "DataAccessException", DataAccessException: "NestedRuntimeException",
+  AccessDeniedException: "RuntimeException", AuthenticationException: "RuntimeException",
+  IOException: "Exception", RuntimeException: "Exception", Exception: "Throwable", Error: "Throwable",
+};
+
+interface ProjectType {
+  javaClass: JavaClass;
+  file: string;
+  source: JavaSourceFile;
+}
+
+// Every class, interface, enum and record in the main source set by simple name
+async function loadProjectTypes(projectPath: string, moduleName?: string): Promise<Map<string, ProjectType>> {
+  const srcPaths = await getSourceRoots(projectPath, "main", "java", moduleName);
+  const javaFiles = await javaSourceFiles(srcPaths);
+  const types = new Map<string, ProjectType>();
+  for (const file of javaFiles) {
+    const source = await parseJavaFile(file);
+    for (const javaClass of allJavaClasses(source)) {
+      if (!types.has(javaClass.name)) types.set(javaClass.name, { javaClass, file, source });
+    }
+  }
+  return types;
+}
+
+// NotFoundException -> [NotFoundException, RuntimeException, Exception, Throwable]
+function exceptionChain(types: Map<string, ProjectType>, name: string): string[] {
+  const chain: string[] = [];
+  let current: string | undefined = name;
+  while (current && !chain.includes(current)) {
+    chain.push(current);
+    const projectType = types.get(current);
+    current = projectType
+      ? (projectType.javaClass.extends[0] ? simpleTypeName(projectType.javaClass.extends[0]) : undefined)
+      : LIBRARY_EXCEPTION_PARENTS[current] ?? (current === "Throwable" ? undefined : /Error$/.test(current) ? "Error" : "RuntimeException");
+  }
+  return chain;
+}
+
+// HttpStatus.NOT_FOUND, HttpStatus.valueOf(404), 404 -> 404
+function httpStatusCode(expression: string | undefined): number | undefined {
+  if (!expression) return undefined;
+  const named = /\b(?:HttpStatus\.)?([A-Z][A-Z_]+)\b/.exec(expression)?.[1];
+  if (named && HTTP_STATUS_CODES[named]) return HTTP_STATUS_CODES[named];
+  const numeric = /\b([1-5]\d\d)\b/.exec(expression)?.[1];
+  return numeric ? parseInt(numeric, 10) : undefined;
+}
+
+interface ThrownException {
+  exception: string;
+  thrownBy: string;
+  status?: number; // ResponseStatusException(HttpStatus.X, ...)
+}
+
+const THROW_PATTERNS = [
+  /(?:throw\s+new\s+|->\s*new\s+)(\w+(?:Exception|Error))\s*\(([^;]*)/g,
+  /\b(\w+(?:Exception|Error))::new/g,
+  /throw\s+(\w+(?:Exception|Error))\.\w+\(/g,
+];
+
+function thrownInBody(body: string, thrownBy: string): ThrownException[] {
+  const thrown: ThrownException[] = [];
+  const masked = maskJavaStrings(body);
+  for (const pattern of THROW_PATTERNS) {
+    for (const match of masked.matchAll(pattern)) {
+      const exception = match[1];
+      const status = ["ResponseStatusException", "ErrorResponseException"].includes(exception) ? httpStatusCode(match[2]) : undefined;
+      thrown.push({ exception, thrownBy, status });
+    }
+  }
+  // Optional.orElseThrow() without a supplier
+  if (/\.orElseThrow\(\s*\)/.test(masked)) thrown.push({ exception: "NoSuchElementException", thrownBy });
+  return thrown;
+}
+
+// Injected collaborators by name: constructor parameters and fields (@Autowired or assigned by a Lombok constructor)
+function injectedCollaborators(owner: JavaClass): Map<string, string> {
+  const collaborators = new Map<string, string>();
+  for (const constructor of owner.constructors) {
+    for (const parameter of constructor.parameters) collaborators.set(parameter.name, parameter.type);
+  }
+  for (const field of owner.fields) {
+    if (!field.modifiers.includes("static")) collaborators.set(field.name, field.type);
+  }
+  return collaborators;
+}
+
+// An interface resolves to itself plus the project classes implementing it
+function implementationsOf(types: Map<string, ProjectType>, typeName: string): JavaClass[] {
+  const target = types.get(typeName);
+  if (!target) return [];
+  if (target.javaClass.kind !== "interface") return [target.javaClass];
+  return [
+    target.javaClass,
+    ...Array.from(types.values()).map((t) => t.javaClass).filter((c) => c.implements.some((i) => simpleTypeName(i) === typeName)),
+  ];
+}
+
+// Exceptions a method throws itself or through the beans it calls, up to a few hops deep
+function collectThrownExceptions(
+  types: Map<string, ProjectType>,
+  owner: JavaClass,
+  method: JavaMethod,
+  visited = new Set<string>(),
+  depth = 0
+): ThrownException[] {
+  const key = `${owner.name}.${method.name}:${method.line}`;
+  if (visited.has(key) || depth > 4) return [];
+  visited.add(key);
+
+  const thrownBy = `${owner.name}.${method.name}`;
+  const thrown = [
+    ...method.throws.map((t) => ({ exception: simpleTypeName(t), thrownBy })),
+    ...thrownInBody(method.body ?? "", thrownBy),
+  ];
+  const body = maskJavaStrings(method.body ?? "");
+
+  const collaborators = injectedCollaborators(owner);
+  for (const match of body.matchAll(/\b(?:this\.)?(\w+)\s*\.\s*(\w+)\s*\(/g)) {
+    const type = collaborators.get(match[1]);
+    if (!type) continue;
+    for (const implementation of implementationsOf(types, simpleTypeName(type))) {
+      for (const callee of implementation.methods.filter((m) => m.name === match[2])) {
+        thrown.push(...collectThrownExceptions(types, implementation, callee, visited, depth + 1));
+      }
+    }
+  }
+
+  // Calls to other methods of the same class
+  for (const match of body.matchAll(/(?<![.\w])(\w+)\s*\(/g)) {
+    for (const callee of owner.methods.filter((m) => m.name === match[1] && m !== method)) {
+      thrown.push(...collectThrownExceptions(types, owner, callee, visited, depth + 1));
+    }
+  }
+
+  return thrown;
+}
+
+interface ExceptionHandlerMethod {
+  declaredIn: string;
+  method: string;
+  exceptions: string[];
+  status: number | string;
+  body: any;
+}
+
+interface ExceptionAdvice {
+  name: string;
+  order: number;
+  scope: { basePackages: string[]; assignableTypes: string[]; annotations: string[] };
+  extendsResponseEntityExceptionHandler: boolean;
+  handlers: ExceptionHandlerMethod[];
+}
+
+const DEFAULT_ERROR_BODY = {
+  type: "Spring Boot error attributes",
+  fields: ["timestamp", "status", "error", "path"],
+  mockMvc: "MockMvc does not forward to /error - expect an empty body and assert only the status",
+};
+
+const PROBLEM_DETAIL_BODY = {
+  type: "ProblemDetail",
+  contentType: "application/problem+json",
+  fields: ["type", "title", "status", "detail", "instance"],
+};
+
+async function errorBodyShape(
+  projectPath: string,
+  method: JavaMethod,
+  source: JavaSourceFile,
+  snakeCase: boolean,
+  moduleName?: string
+): Promise<any> {
+  let type = method.returnType;
+  while (["ResponseEntity", "HttpEntity", "Mono", "CompletableFuture"].includes(simpleTypeName(type)) && typeArguments(type).length > 0) {
+    type = typeArguments(type)[0];
+  }
+  const simple = simpleTypeName(type);
+  const body = maskJavaStrings(method.body ?? "");
+
+  if (["void", "Void"].includes(simple)) return null;
+  if (["ProblemDetail", "ErrorResponse"].includes(simple) || /ProblemDetail\.forStatus/.test(body)) return PROBLEM_DETAIL_BODY;
+  if (["String", "CharSequence"].includes(simple)) return { type: "String" };
+  if (["Map", "HashMap", "LinkedHashMap"].includes(simple) || ["?", "Object"].includes(simple)) {
+    const raw = method.body ?? "";
+    // map.put("key", ...), Map.of("k1", v1, "k2", v2) and Map.entry("key", ...)
+    const keys = findJavaCalls(raw).flatMap((call) => {
+      const args = callArgumentValues(call.args);
+      if (call.name === "put" || call.name === "entry") return args.slice(0, 1);
+      if (call.name === "of" && /Map\s*\.\s*of\s*\($/.test(raw.slice(0, call.start + 1))) return args.filter((_, i) => i % 2 === 0);
+      return [];
+    }).filter((key) => /^[\w.-]+$/.test(key));
+    if (keys.length > 0) return { type: "Map", fields: Array.from(new Set(keys)) };
+    const constructed = /new\s+([\w.]+)\s*\(/.exec(raw.replace(/new\s+ResponseEntity\s*<[^>]*>\s*\(/g, ""))?.[1];
+    if (constructed && !/Exception$|^(HashMap|LinkedHashMap|ResponseEntity)$/.test(simpleTypeName(constructed))) {
+      return {
+        type: simpleTypeName(constructed),
+        example: JSON.parse(await sampleJsonBody(projectPath, constructed, snakeCase, moduleName, source)),
+      };
+    }
+    return { type: simple === "?" ? "Object" : simple };
+  }
+  return { type: simple, example: JSON.parse(await sampleJsonBody(projectPath, type, snakeCase, moduleName, source)) };
+}
+
+function handlerStatus(method: JavaMethod): number | string {
+  const annotated = httpStatusCode(annotationValues(getAnnotation(method, "ResponseStatus"), "value", "code")[0]);
+  if (annotated) return annotated;
+
+  const body = maskJavaStrings(method.body ?? "");
+  const shortcuts: Record<string, number> = {
+    badRequest: 400, notFound: 404, unprocessableEntity: 422, internalServerError: 500, noContent: 204, accepted: 202, ok: 200,
+  };
+  const statuses = new Set<number>();
+  for (const match of body.matchAll(/ResponseEntity\s*\.\s*(\w+)\s*\(/g)) {
+    if (shortcuts[match[1]]) statuses.add(shortcuts[match[1]]);
+  }
+  for (const match of body.matchAll(/\bHttpStatus(?:Code)?\.(?:valueOf\(\s*(\d{3})\s*\)|([A-Z][A-Z_]+))/g)) {
+    const code = match[1] ? parseInt(match[1], 10) : HTTP_STATUS_CODES[match[2]];
+    if (code) statuses.add(code);
+  }
+  for (const match of body.matchAll(/\.status\(\s*(\d{3})\s*\)/g)) statuses.add(parseInt(match[1], 10));
+
+  if (statuses.size === 1) return Array.from(statuses)[0];
+  if (statuses.size > 1) return Array.from(statuses).sort().join(" or ");
+  if (/\.get(Status|StatusCode)\(\)/.test(body)) return "from the exception";
+  // Without @ResponseStatus a handler returning a plain body answers 200
+  return simpleTypeName(method.returnType) === "ResponseEntity" ? "unknown" : 200;
+}
+
+async function exceptionHandlersOf(
+  projectPath: string,
+  javaClass: JavaClass,
+  source: JavaSourceFile,
+  snakeCase: boolean,
+  moduleName?: string
+): Promise<ExceptionHandlerMethod[]> {
+  const handlers: ExceptionHandlerMethod[] = [];
+  for (const method of javaClass.methods) {
+    const annotation = getAnnotation(method, "ExceptionHandler");
+    if (!annotation) continue;
+    // @ExceptionHandler without a value handles the exception types of its parameters
+    const declared = annotationValues(annotation, "value", "exception").map((v) => simpleTypeName(v.replace(/\.class$/, "")));
+    const exceptions = declared.length > 0
+      ? declared
+      : method.parameters.map((p) => simpleTypeName(p.type)).filter((t) => /(Exception|Error|Throwable)$/.test(t));
+    handlers.push({
+      declaredIn: javaClass.name,
+      method: method.name,
+      exceptions,
+      status: handlerStatus(method),
+      body: await errorBodyShape(projectPath, method, source, snakeCase, moduleName),
     });
   }
+  return handlers;
+}
+
+interface ExceptionOutcome {
+  status: number | string;
+  handledBy: string;
+  body: any;
+}
+
+function adviceApplies(advice: ExceptionAdvice, controller: JavaClass, controllerPackage: string): boolean {
+  const { basePackages, assignableTypes, annotations } = advice.scope;
+  if (basePackages.length === 0 && assignableTypes.length === 0 && annotations.length === 0) return true;
+  return basePackages.some((p) => controllerPackage === p || controllerPackage.startsWith(`${p}.`)) ||
+    assignableTypes.includes(controller.name) ||
+    annotations.some((a) => hasAnnotation(controller, a));
+}
+
+// The controller's own @ExceptionHandler methods win, then advices in @Order; within one
+// class the handler for the closest superclass is chosen
+function resolveExceptionOutcome(
+  types: Map<string, ProjectType>,
+  thrown: ThrownException,
+  localHandlers: ExceptionHandlerMethod[],
+  advices: ExceptionAdvice[]
+): ExceptionOutcome {
+  const chain = exceptionChain(types, thrown.exception);
+
+  for (const handlers of [localHandlers, ...advices.map((a) => a.handlers)]) {
+    let best: { handler: ExceptionHandlerMethod; depth: number } | undefined;
+    for (const handler of handlers) {
+      for (const exception of handler.exceptions) {
+        const depth = chain.indexOf(exception);
+        if (depth >= 0 && (!best || depth < best.depth)) best = { handler, depth };
+      }
+    }
+    if (best) {
+      const status = best.handler.status === "from the exception" && thrown.status ? thrown.status : best.handler.status;
+      return { status, handledBy: `${best.handler.declaredIn}.${best.handler.method}`, body: best.handler.body };
+    }
+
+    // ResponseEntityExceptionHandler covers the Spring MVC exceptions with ProblemDetail bodies
+    const advice = advices.find((a) => a.handlers === handlers);
+    const frameworkStatus = chain.map((c) => FRAMEWORK_EXCEPTION_STATUS[c]).find((s) => s !== undefined);
+    if (advice?.extendsResponseEntityExceptionHandler && (frameworkStatus || chain.includes("ErrorResponseException"))) {
+      return { status: frameworkStatus ?? thrown.status ?? "from the exception", handledBy: `${advice.name} (ResponseEntityExceptionHandler)`, body: PROBLEM_DETAIL_BODY };
+    }
+  }
+
+  for (const name of chain) {
+    const projectType = types.get(name);
+    const responseStatus = projectType ? getAnnotation(projectType.javaClass, "ResponseStatus") : undefined;
+    if (responseStatus) {
+      return {
+        status: httpStatusCode(annotationValues(responseStatus, "value", "code")[0]) ?? 500,
+        handledBy: `@ResponseStatus on ${name}`,
+        body: DEFAULT_ERROR_BODY,
+      };
+    }
+  }
+  if (chain.includes("ErrorResponseException")) {
+    return { status: thrown.status ?? "from the exception", handledBy: thrown.exception, body: PROBLEM_DETAIL_BODY };
+  }
+  const frameworkStatus = chain.map((c) => FRAMEWORK_EXCEPTION_STATUS[c]).find((s) => s !== undefined);
+  if (frameworkStatus) return { status: frameworkStatus, handledBy: "Spring MVC default", body: DEFAULT_ERROR_BODY };
+  return { status: 500, handledBy: "unhandled", body: DEFAULT_ERROR_BODY };
+}
 
-  // Extract @OneToMany relationships
-  const oneToManyPattern = /@OneToMany[\s\S]*?private\s+(?:List|Set)<(\w+)>\s+(\w+);/g;
-  while ((match = oneToManyPattern.exec(content)) !== null) {
-    relationships.oneToMany.push({
-      type: match[1],
-      field: match[2],
+async function mapExceptionHandling(projectPath: string, controllerName?: string, moduleName?: string): Promise<string> {
+  const types = await loadProjectTypes(projectPath, moduleName);
+  const config = await resolveConfig(projectPath, "test", moduleName);
+  const snakeCase = /snake/i.test(lookupConfigKey(config, "spring.jackson.property-naming-strategy")?.value ?? "");
+
+  const advices: ExceptionAdvice[] = [];
+  for (const { javaClass, source } of types.values()) {
+    const annotation = getAnnotation(javaClass, "ControllerAdvice", "RestControllerAdvice");
+    if (!annotation) continue;
+    advices.push({
+      name: javaClass.name,
+      order: parseOrderValue(annotationValues(getAnnotation(javaClass, "Order"), "value")[0]),
+      scope: {
+        basePackages: annotationValues(annotation, "basePackages", "value").map((p) => p.replace(/^"|"$/g, "")),
+        assignableTypes: annotationValues(annotation, "assignableTypes").map((t) => simpleTypeName(t.replace(/\.class$/, ""))),
+        annotations: annotationValues(annotation, "annotations").map((t) => simpleTypeName(t.replace(/\.class$/, ""))),
+      },
+      extendsResponseEntityExceptionHandler: javaClass.extends.some((e) => simpleTypeName(e) === "ResponseEntityExceptionHandler"),
+      handlers: await exceptionHandlersOf(projectPath, javaClass, source, snakeCase, moduleName),
     });
   }
+  advices.sort((a, b) => a.order - b.order);
+
+  const exceptionClasses = Array.from(types.values())
+    .filter(({ javaClass }) => javaClass.kind === "class" && /(Exception|Error|Throwable)$/.test(simpleTypeName(javaClass.extends[0] ?? "")))
+    .map(({ javaClass }) => ({
+      name: javaClass.name,
+      extends: javaClass.extends[0] ? simpleTypeName(javaClass.extends[0]) : undefined,
+      responseStatus: httpStatusCode(annotationValues(getAnnotation(javaClass, "ResponseStatus"), "value", "code")[0]),
+    }));
+
+  const resolution = controllerName
+    ? await resolveJavaClass(projectPath, controllerName, moduleName, (c) => productionClassKind(c) === "controller")
+    : undefined;
+  if (resolution && !resolution.match) return unresolvedClass(projectPath, "Controller", controllerName!, resolution);
+
+  const { routes } = await collectRoutes(projectPath, moduleName);
+  const selected = resolution?.match ? routes.filter((r) => r.controller === resolution.match!.name) : routes;
+
+  const localHandlersByController = new Map<string, ExceptionHandlerMethod[]>();
+  const endpoints: any[] = [];
+  for (const route of selected) {
+    const controller = types.get(route.controller);
+    if (!controller) continue;
+    if (!localHandlersByController.has(route.controller)) {
+      localHandlersByController.set(route.controller, await exceptionHandlersOf(projectPath, controller.javaClass, controller.source, snakeCase, moduleName));
+    }
+    const applicable = advices.filter((a) => adviceApplies(a, controller.javaClass, controller.source.packageName));
+    const handler = route.handler;
+
+    // Request binding and validation failures raised before the handler runs
+    const thrown: ThrownException[] = [];
+    const framework = (exception: string) => thrown.push({ exception, thrownBy: "request binding" });
+    const body = handler.parameters.find((p) => hasAnnotation(p, "RequestBody"));
+    if (body) {
+      framework("HttpMessageNotReadableException");
+      if (hasAnnotation(body, "Valid", "Validated")) framework("MethodArgumentNotValidException");
+    }
+    if (handler.parameters.some((p) => hasAnnotation(p, "PathVariable", "RequestParam") && !["String", "CharSequence"].includes(simpleTypeName(p.type)))) {
+      framework("MethodArgumentTypeMismatchException");
+    }
+    if (handler.parameters.some((p) => hasAnnotation(p, "RequestParam") &&
+      annotationValues(getAnnotation(p, "RequestParam"), "required")[0] !== "false" &&
+      annotationValues(getAnnotation(p, "RequestParam"), "defaultValue").length === 0 &&
+      simpleTypeName(p.type) !== "Optional")) {
+      framework("MissingServletRequestParameterException");
+    }
+    if (hasAnnotation(controller.javaClass, "Validated") &&
+      handler.parameters.some((p) => p.annotations.some((a) => /^(NotNull|NotBlank|NotEmpty|Min|Max|Size|Pattern|Positive|Email)$/.test(a.name)))) {
+      framework("ConstraintViolationException");
+    }
+    thrown.push(...collectThrownExceptions(types, controller.javaClass, handler));
+
+    // One entry per exception type; keep every place that throws it
+    const byException = new Map<string, { thrown: ThrownException; thrownBy: string[] }>();
+    for (const t of thrown) {
+      const key = `${t.exception}${t.status ? `:${t.status}` : ""}`;
+      const entry = byException.get(key) ?? { thrown: t, thrownBy: [] };
+      if (!entry.thrownBy.includes(t.thrownBy)) entry.thrownBy.push(t.thrownBy);
+      byException.set(key, entry);
+    }
 
-  // Check for inheritance
-  const inheritancePattern = /extends\s+(\w+)/;
-  const inheritanceMatch = content.match(inheritancePattern);
-  const inheritance = inheritanceMatch ? inheritanceMatch[1] : null;
+    endpoints.push({
+      route: `${route.method} ${route.fullPath}`,
+      handler: `${route.controller}.${route.handlerMethod}`,
+      exceptions: Array.from(byException.values()).map(({ thrown: t, thrownBy }) => ({
+        exception: t.exception,
+        thrownBy,
+        ...resolveExceptionOutcome(types, t, localHandlersByController.get(route.controller)!, applicable),
+      })),
+    });
+  }
 
-  // Check for discriminator
-  const hasDiscriminator = content.includes("@DiscriminatorColumn");
+  const unhandled = endpoints.flatMap((e) => e.exceptions.filter((x: any) => x.handledBy === "unhandled").map((x: any) => `${e.route}: ${x.exception}`));
 
   return JSON.stringify({
     found: true,
-    entity: entityName,
-    inheritance: inheritance,
-    discriminator: hasDiscriminator,
-    relationships,
-    creationOrder: [
-      ...relationships.manyToOne.map(r => `1. Create ${r.type} first (required dependency)`),
-      `2. Create ${entityName}`,
-      ...relationships.oneToMany.map(r => `3. Create ${r.type} (children)`),
-    ],
-    warning: hasDiscriminator
-      ? `⚠️ This entity uses inheritance - use specific subclass, not base ${entityName} class`
-      : null,
+    advices: advices.map((a) => ({
+      name: a.name,
+      order: a.order === Number.MAX_SAFE_INTEGER ? undefined : a.order,
+      scope: a.scope.basePackages.length + a.scope.assignableTypes.length + a.scope.annotations.length > 0 ? a.scope : "all controllers",
+      extendsResponseEntityExceptionHandler: a.extendsResponseEntityExceptionHandler || undefined,
+      handlers: a.handlers.map((h) => ({ method: h.method, exceptions: h.exceptions, status: h.status, body: h.body })),
+    })),
+    exceptionClasses,
+    endpointCount: endpoints.length,
+    endpoints,
+    unhandled,
+    testRecommendation: unhandled.length > 0
+      ? `${unhandled.length} exception path(s) end in a 500 with no handler - add an @ExceptionHandler or expect status().isInternalServerError()`
+      : "Assert the mapped status and body fields for each exception path",
   }, null, 2);
 }
 
-async function findMissingProperties(projectPath: string): Promise<string> {
-  const srcPath = path.join(projectPath, "src", "main", "java");
-  const javaFiles = await glob(`${srcPath}/**/*.java`);
+interface OutboundClient {
+  kind: "http" | "messaging" | "mail" | "storage";
+  stub: string;
+}
 
-  const properties = new Set<string>();
+// Beans that leave the JVM; WebClient.Builder and RestTemplateBuilder count as the client they build
+const OUTBOUND_CLIENT_TYPES: Record<string, OutboundClient> = {
+  RestTemplate: { kind: "http", stub: "MockRestServiceServer.bindTo(restTemplate) or WireMock" },
+  RestClient: { kind: "http", stub: "MockRestServiceServer.bindTo(restClientBuilder) or WireMock" },
+  WebClient: { kind: "http", stub: "WireMock or MockWebServer with the base URL set from @DynamicPropertySource" },
+  KafkaTemplate: { kind: "messaging", stub: "@MockBean, or @EmbeddedKafka / a Kafka Testcontainer" },
+  RabbitTemplate: { kind: "messaging", stub: "@MockBean or a RabbitMQ Testcontainer" },
+  AmqpTemplate: { kind: "messaging", stub: "@MockBean or a RabbitMQ Testcontainer" },
+  JmsTemplate: { kind: "messaging", stub: "@MockBean or an embedded Artemis broker" },
+  StreamBridge: { kind: "messaging", stub: "@MockBean or the spring-cloud-stream test binder" },
+  SqsTemplate: { kind: "messaging", stub: "@MockBean or a LocalStack Testcontainer" },
+  JavaMailSender: { kind: "mail", stub: "@MockBean or GreenMail" },
+  S3Client: { kind: "storage", stub: "@MockBean or a LocalStack Testcontainer" },
+  AmazonS3: { kind: "storage", stub: "@MockBean or a LocalStack Testcontainer" },
+};
+
+const DATA_ACCESS_TYPES = [
+  "EntityManager", "JdbcTemplate", "NamedParameterJdbcTemplate", "JdbcClient",
+  "MongoTemplate", "ReactiveMongoTemplate", "R2dbcEntityTemplate", "DatabaseClient",
+];
 
-  for (const file of javaFiles) {
-    const content = await readJavaFile(file);
-    const valuePattern = /@Value\(["'](\$\{[^}]+\})["']\)/g;
-    let match;
+const HTTP_INTERFACE_ANNOTATIONS = /^(Get|Post|Put|Delete|Patch|Http)Exchange$/;
 
-    while ((match = valuePattern.exec(content)) !== null) {
-      const propName = match[1].replace(/\$\{([^:}]+).*\}/, "$1");
-      properties.add(propName);
+function outboundClientName(type: string): string | undefined {
+  const name = type.replace(/<.*$/s, "").replace(/\.?Builder$/, "").split(".").pop()!;
+  return name in OUTBOUND_CLIENT_TYPES ? name : undefined;
+}
+
+// @FeignClient interfaces and Spring 6 HTTP interfaces (@HttpExchange, @GetExchange, ...)
+function isHttpInterface(javaClass: JavaClass): boolean {
+  return hasAnnotation(javaClass, "FeignClient", "HttpExchange") ||
+    (javaClass.kind === "interface" && javaClass.methods.some((m) => m.annotations.some((a) => HTTP_INTERFACE_ANNOTATIONS.test(a.name))));
+}
+
+// Spring Data interfaces, directly or through a project base interface, and @Repository classes
+function isRepositoryType(types: Map<string, ProjectType>, javaClass: JavaClass, seen = new Set<string>()): boolean {
+  if (hasAnnotation(javaClass, "Repository")) return true;
+  seen.add(javaClass.name);
+  return javaClass.extends.some((parent) => {
+    const name = simpleTypeName(parent);
+    if (REPOSITORY_BASE_TYPES.includes(name)) return true;
+    const projectParent = types.get(name);
+    return projectParent !== undefined && !seen.has(name) && isRepositoryType(types, projectParent.javaClass, seen);
+  });
+}
+
+// "payment-service POST /payments/{id}" for a Feign client or HTTP interface method
+function remoteEndpoint(client: JavaClass, method: JavaMethod): string | undefined {
+  const feign = getAnnotation(client, "FeignClient");
+  const host = feign ? annotationValues(feign, "url")[0] || annotationValues(feign, "name", "value")[0] : undefined;
+  const basePath = feign
+    ? annotationValues(feign, "path")[0] ?? controllerBasePaths(client)[0].path
+    : annotationValues(getAnnotation(client, "HttpExchange"), "url", "value")[0] ?? "";
+  const mapping = method.annotations.find((a) => a.name in MAPPING_ANNOTATIONS || HTTP_INTERFACE_ANNOTATIONS.test(a.name));
+  if (!mapping) return host;
+  const verb = MAPPING_ANNOTATIONS[mapping.name] ??
+    (/^(Get|Post|Put|Delete|Patch)Exchange$/.test(mapping.name)
+      ? mapping.name.replace(/Exchange$/, "").toUpperCase()
+      : annotationValues(mapping, "method")[0]?.replace(/^.*\./, "") ?? "ANY");
+  const path = joinRequestPaths(basePath, annotationValues(mapping, "value", "path", "url")[0] ?? "");
+  return `${host ? `${host} ` : ""}${verb} ${path}`;
+}
+
+interface TransactionAttributes {
+  propagation: string;
+  readOnly: boolean;
+}
+
+// @Transactional on the method wins over the class; the interface declaration counts too
+function transactionAttributes(implementation: JavaClass, method: JavaMethod, declaredIn?: JavaClass): TransactionAttributes | undefined {
+  const declaredMethod = declaredIn?.methods.find((m) => m.name === method.name);
+  const annotation = getAnnotation(method, "Transactional") ??
+    getAnnotation(implementation, "Transactional") ??
+    (declaredMethod ? getAnnotation(declaredMethod, "Transactional") : undefined) ??
+    (declaredIn ? getAnnotation(declaredIn, "Transactional") : undefined);
+  if (!annotation) return undefined;
+  // jakarta.transaction.Transactional carries TxType in value; Spring's value names the transaction manager
+  const propagation = annotationValues(annotation, "propagation")[0] ?? annotationValues(annotation, "value").find((v) => /TxType\./.test(v));
+  return {
+    propagation: propagation?.replace(/^.*\./, "") ?? "REQUIRED",
+    readOnly: annotationValues(annotation, "readOnly")[0] === "true",
+  };
+}
+
+interface TransactionBoundary {
+  id: number;
+  startsAt: string;
+  propagation: string;
+  readOnly: boolean;
+  suspends?: number; // REQUIRES_NEW pauses the caller's transaction
+  savepointIn?: number; // NESTED inside an existing transaction
+  participants: string[];
+}
+
+interface TraceNode {
+  call: string;
+  kind: string;
+  via?: string;
+  target?: string;
+  transaction?: number;
+  note?: string;
+  calls?: TraceNode[];
+}
+
+interface EndpointTrace {
+  types: Map<string, ProjectType>;
+  transactions: TransactionBoundary[];
+  stubs: Map<string, { collaborator: string; kind: string; calls: string[]; targets: string[]; suggestion: string }>;
+  dataAccess: Set<string>;
+  writesOutsideTransaction: string[];
+  warnings: string[];
+}
+
+// Transaction a proxied call runs in, opening a boundary when the propagation demands one
+function enterTransaction(
+  trace: EndpointTrace,
+  attributes: TransactionAttributes | undefined,
+  current: number | undefined,
+  at: string
+): number | undefined {
+  if (!attributes) return current;
+  const begin = (outer: Partial<TransactionBoundary> = {}) => {
+    const id = trace.transactions.length + 1;
+    trace.transactions.push({ id, startsAt: at, propagation: attributes.propagation, readOnly: attributes.readOnly, ...outer, participants: [] });
+    return id;
+  };
+  switch (attributes.propagation) {
+    case "REQUIRES_NEW":
+      return begin({ suspends: current });
+    case "NESTED":
+      return begin({ savepointIn: current });
+    case "SUPPORTS":
+      return current;
+    case "NOT_SUPPORTED":
+      return undefined;
+    case "MANDATORY":
+      if (current === undefined) trace.warnings.push(`${at} is MANDATORY but runs outside a transaction - IllegalTransactionStateException`);
+      return current;
+    case "NEVER":
+      if (current !== undefined) trace.warnings.push(`${at} is NEVER but runs inside transaction ${current} - IllegalTransactionStateException`);
+      return current;
+    default:
+      return current ?? begin();
+  }
+}
+
+function participate(trace: EndpointTrace, node: TraceNode, transaction: number | undefined): TraceNode {
+  if (transaction === undefined) return node;
+  node.transaction = transaction;
+  trace.transactions[transaction - 1].participants.push(node.call);
+  if (node.kind === "http") {
+    trace.warnings.push(`${node.call} runs inside transaction ${transaction} - the connection stays open during the remote call and a rollback does not undo it`);
+  }
+  return node;
+}
+
+function needsStub(trace: EndpointTrace, collaborator: string, kind: string, call: string, target: string | undefined, suggestion: string) {
+  const stub = trace.stubs.get(collaborator) ?? { collaborator, kind, calls: [], targets: [], suggestion };
+  if (!stub.calls.includes(call)) stub.calls.push(call);
+  if (target && !stub.targets.includes(target)) stub.targets.push(target);
+  trace.stubs.set(collaborator, stub);
+}
+
+function traceCollaboratorCall(
+  trace: EndpointTrace,
+  receiver: string,
+  type: string,
+  methodName: string,
+  statement: string,
+  transaction: number | undefined,
+  visiting: Set<string>,
+  depth: number
+): TraceNode[] {
+  const typeName = simpleTypeName(type);
+
+  const client = outboundClientName(type);
+  if (client) {
+    const { kind, stub } = OUTBOUND_CLIENT_TYPES[client];
+    // restTemplate.getForObject("/x", ...), webClient.get().uri("/x"), kafkaTemplate.send("topic", ...)
+    const target = /"((?:[^"\\]|\\.)*)"/.exec(statement)?.[1];
+    // webClientBuilder.build().post() reports the verb rather than the builder call
+    const verb = client === "RestTemplate" ? undefined : /\.\s*(get|post|put|patch|delete|head|options|method)\s*\(/.exec(statement)?.[1];
+    needsStub(trace, client, kind, verb ?? methodName, target, stub);
+    return [participate(trace, { call: `${client}.${verb ?? methodName}`, kind, via: receiver, target }, transaction)];
+  }
+  if (DATA_ACCESS_TYPES.includes(typeName)) {
+    trace.dataAccess.add(typeName);
+    return [participate(trace, { call: `${typeName}.${methodName}`, kind: "database", via: receiver }, transaction)];
+  }
+
+  const declared = trace.types.get(typeName)?.javaClass;
+  if (!declared) return [];
+  const call = `${typeName}.${methodName}`;
+  const declaredMethod = declared.methods.find((m) => m.name === methodName);
+
+  if (isHttpInterface(declared)) {
+    const target = declaredMethod ? remoteEndpoint(declared, declaredMethod) : undefined;
+    const feign = hasAnnotation(declared, "FeignClient");
+    needsStub(trace, typeName, "http", methodName, target, feign
+      ? "@MockBean, or WireMock at the @FeignClient url"
+      : "@MockBean, or WireMock behind the client's base URL");
+    return [participate(trace, { call, kind: "http", via: receiver, target }, transaction)];
+  }
+
+  if (isRepositoryType(trace.types, declared)) {
+    trace.dataAccess.add(typeName);
+    const node = participate(trace, { call, kind: "repository", via: receiver }, transaction);
+    const writes = /^(save|delete|remove|insert|update)/.test(methodName) || (declaredMethod !== undefined && hasAnnotation(declaredMethod, "Modifying"));
+    if (writes && transaction === undefined) {
+      trace.writesOutsideTransaction.push(call);
+      if (declared.kind === "interface") node.note = "own transaction (Spring Data default)";
+    }
+    if (writes && transaction !== undefined && trace.transactions[transaction - 1].readOnly) {
+      trace.warnings.push(`${call} writes inside read-only transaction ${transaction} - the change may never be flushed`);
+    }
+    return [node];
+  }
+
+  // Services and other components: follow the call into the implementation
+  const implementations = implementationsOf(trace.types, typeName).filter((c) => c.kind !== "interface");
+  if (implementations.length === 0) {
+    return [participate(trace, { call, kind: "component", via: receiver, note: "no implementation in the project" }, transaction)];
+  }
+  const primary = implementations.filter((c) => hasAnnotation(c, "Primary"));
+  const candidates = primary.length > 0 ? primary : implementations;
+
+  return candidates.map((implementation) => {
+    const node: TraceNode = {
+      call: `${implementation.name}.${methodName}`,
+      kind: productionClassKind(implementation) ?? "component",
+      via: implementation.name === typeName ? receiver : `${receiver} (${typeName})`,
+    };
+    if (candidates.length > 1) node.note = `one of ${candidates.length} implementations - @Qualifier or the bean name decides`;
+    const callee = implementation.methods.find((m) => m.name === methodName);
+    if (!callee) return participate(trace, node, transaction);
+
+    const key = `${implementation.name}.${callee.name}:${callee.line}`;
+    if (visiting.has(key) || depth >= 8) {
+      node.note = visiting.has(key) ? "recursive call" : "not followed further";
+      return participate(trace, node, transaction);
+    }
+    const inner = enterTransaction(
+      trace,
+      transactionAttributes(implementation, callee, declared !== implementation ? declared : undefined),
+      transaction,
+      node.call
+    );
+    if (inner === transaction) participate(trace, node, transaction);
+    else if (inner !== undefined) node.transaction = inner;
+
+    visiting.add(key);
+    const calls = traceCalls(trace, implementation, callee, inner, visiting, depth + 1);
+    visiting.delete(key);
+    if (calls.length > 0) node.calls = calls;
+    return node;
+  });
+}
+
+// Collaborator calls in a method body in source order; calls to the class's own methods are inlined
+function traceCalls(
+  trace: EndpointTrace,
+  owner: JavaClass,
+  method: JavaMethod,
+  transaction: number | undefined,
+  visiting: Set<string>,
+  depth: number
+): TraceNode[] {
+  const raw = method.body ?? "";
+  const body = maskJavaStrings(raw).replace(/\bthis\s*\.\s*/g, (prefix) => " ".repeat(prefix.length));
+  const collaborators = injectedCollaborators(owner);
+  const nodes: TraceNode[] = [];
+  const seen = new Set<string>();
+
+  for (const match of body.matchAll(/(?<![\w.])(\w+)\s*(?:\.\s*(\w+)\s*)?\(/g)) {
+    const [, first, second] = match;
+
+    if (!second) {
+      const callee = owner.methods.find((m) => m.name === first);
+      if (!callee) continue;
+      const key = `${owner.name}.${callee.name}:${callee.line}`;
+      if (visiting.has(key) || depth >= 8) continue;
+      // Self-invocation skips the proxy, so the callee's own @Transactional never applies
+      const attributes = getAnnotation(callee, "Transactional") ? transactionAttributes(owner, callee) : undefined;
+      if (attributes && (transaction === undefined || attributes.propagation !== "REQUIRED")) {
+        trace.warnings.push(`${owner.name}.${method.name} calls ${callee.name}() on itself - its @Transactional is bypassed by the proxy`);
+      }
+      visiting.add(key);
+      nodes.push(...traceCalls(trace, owner, callee, transaction, visiting, depth + 1));
+      visiting.delete(key);
+      continue;
     }
+
+    const type = collaborators.get(first);
+    if (!type || seen.has(`${first}.${second}`)) continue;
+    seen.add(`${first}.${second}`);
+    const end = body.indexOf(";", match.index);
+    const statement = raw.slice(match.index, end < 0 ? undefined : end);
+    nodes.push(...traceCollaboratorCall(trace, first, type, second, statement, transaction, visiting, depth));
   }
 
-  // Check which are in application-test.properties
-  const testPropsPath = path.join(
-    projectPath,
-    "src",
-    "test",
-    "resources",
-    "application-test.properties"
-  );
+  return nodes;
+}
 
-  let testProps = "";
-  try {
-    testProps = await readFile(testPropsPath, "utf-8");
-  } catch (error) {
+async function traceEndpoint(projectPath: string, method: string, path: string, moduleName?: string): Promise<string> {
+  const { routes } = await collectRoutes(projectPath, moduleName);
+  const request = { method: method.toUpperCase(), path };
+  const route = routes.find((r) => routeMatchesRequest(r, request));
+  if (!route) {
+    const samePath = routes.filter((r) => routeMatchesRequest(r, { path }));
     return JSON.stringify({
-      found: true,
-      totalProperties: properties.size,
-      missingProperties: Array.from(properties),
-      testPropertiesFileExists: false,
-      action: "Create src/test/resources/application-test.properties with these properties",
+      found: false,
+      message: `No endpoint matches ${request.method} ${path}`,
+      endpoints: (samePath.length > 0 ? samePath : routes).map((r) => `${r.method} ${r.fullPath}`),
     }, null, 2);
   }
 
-  const missingProps = Array.from(properties).filter(
-    (prop) => !testProps.includes(prop)
-  );
+  const types = await loadProjectTypes(projectPath, moduleName);
+  const controller = types.get(route.controller)!.javaClass;
+  const trace: EndpointTrace = {
+    types,
+    transactions: [],
+    stubs: new Map(),
+    dataAccess: new Set(),
+    writesOutsideTransaction: [],
+    warnings: [],
+  };
+
+  const handler = `${route.controller}.${route.handlerMethod}`;
+  const transaction = enterTransaction(trace, transactionAttributes(controller, route.handler), undefined, handler);
+  const root: TraceNode = { call: handler, kind: "controller", transaction };
+  const calls = traceCalls(trace, controller, route.handler, transaction, new Set([`${controller.name}.${route.handler.name}:${route.handler.line}`]), 0);
+  if (calls.length > 0) root.calls = calls;
+
+  if (trace.writesOutsideTransaction.length > 1) {
+    trace.warnings.push(`${trace.writesOutsideTransaction.join(", ")} commit separately - a failure between them leaves partial data`);
+  }
+
+  const stubs = Array.from(trace.stubs.values()).map((stub) => ({ ...stub, targets: stub.targets.length > 0 ? stub.targets : undefined }));
+  const dataAccess = Array.from(trace.dataAccess);
 
   return JSON.stringify({
     found: true,
-    totalProperties: properties.size,
-    missingProperties: missingProps,
-    testPropertiesFileExists: true,
-    action: missingProps.length > 0
-      ? `Add these ${missingProps.length} properties to application-test.properties`
-      : "All properties are defined in test config ✓",
+    endpoint: `${route.method} ${route.fullPath}`,
+    handler,
+    module: route.module,
+    callChain: root,
+    transactions: trace.transactions,
+    mockOrStub: stubs,
+    realBeans: dataAccess,
+    warnings: Array.from(new Set(trace.warnings)),
+    testRecommendation: stubs.length > 0
+      ? `Stub ${stubs.map((s) => s.collaborator).join(", ")} (@MockitoBean on Spring Boot 3.4+)${dataAccess.length > 0 ? ` and run ${dataAccess.join(", ")} against a real database` : ""}`
+      : `No outbound calls - a @SpringBootTest against a real database covers ${route.method} ${route.fullPath} end to end`,
   }, null, 2);
 }
 
-async function validateMavenCompile(projectPath: string): Promise<string> {
-  const mvnCmd = getMavenCommand();
+async function getIndexStatus(projectPath: string, refresh = false, moduleName?: string): Promise<string> {
+  const modules = await selectModules(projectPath, moduleName);
+  const sourceRoots = modules.flatMap((m) => ["main", "test"].map((sourceSet) => path.resolve(m.directory, "src", sourceSet, "java")));
 
-  try {
-    const { stdout, stderr } = await execAsync(`${mvnCmd} clean compile test-compile`, {
-      cwd: projectPath,
-      timeout: 180000, // 3 minutes
-    });
+  let refreshMs: number | undefined;
+  if (refresh) {
+    const started = Date.now();
+    for (const file of await javaSourceFiles(sourceRoots)) await parseJavaFile(file);
+    await resolveConfig(projectPath, "test", moduleName);
+    refreshMs = Date.now() - started;
+  }
 
-    const success = stdout.includes("BUILD SUCCESS");
+  // Compare every indexed file of the project with the disk, whatever the watcher reported
+  const projectRoot = path.resolve(projectPath) + path.sep;
+  const entries = Array.from(projectIndex.files.entries()).filter(([file]) => file.startsWith(projectRoot));
+  const changedOnDisk: string[] = [];
+  const deletedOnDisk: string[] = [];
+  for (const [file, entry] of entries) {
+    const stats = await stat(file).catch(() => undefined);
+    if (!stats) deletedOnDisk.push(path.relative(projectPath, file));
+    else if (stats.mtimeMs !== entry.mtimeMs || stats.size !== entry.size) changedOnDisk.push(path.relative(projectPath, file));
+  }
 
-    // Extract error summary if failed
-    const errors: string[] = [];
-    if (!success) {
-      const errorPattern = /\[ERROR\]\s+(.+)/g;
-      let match;
-      while ((match = errorPattern.exec(stderr)) !== null) {
-        errors.push(match[1]);
-      }
-    }
+  return JSON.stringify({
+    watchMode: INDEX_WATCH ? "fs.watch, mtime checks where watching fails" : "mtime checks (MCP_INDEX_WATCH=false)",
+    sourceRoots: sourceRoots.map((root) => {
+      const indexed = projectIndex.roots.get(root);
+      return {
+        root: path.relative(projectPath, root),
+        indexed: indexed !== undefined,
+        javaFiles: indexed?.files.filter((f) => f.endsWith(".java")).length,
+        watching: indexed ? indexed.watcher !== undefined : undefined,
+        listingStale: indexed?.stale,
+        listedAt: indexed ? new Date(indexed.listedAt).toISOString() : undefined,
+        listingMs: indexed?.listingMs,
+      };
+    }),
+    files: {
+      indexed: entries.length,
+      java: entries.filter(([file]) => file.endsWith(".java")).length,
+      parsedJava: entries.filter(([, entry]) => entry.java).length,
+      config: entries.filter(([, entry]) => entry.config).length,
+      flaggedByWatcher: entries.filter(([, entry]) => entry.stale).length,
+      changedOnDisk: changedOnDisk.slice(0, 20),
+      deletedOnDisk: deletedOnDisk.slice(0, 20),
+    },
+    // Counters and timings cover every project since the server started
+    counters: projectIndex.counters,
+    timing: { readMs: projectIndex.timing.readMs, parseMs: projectIndex.timing.parseMs, refreshMs },
+  }, null, 2);
+}
 
-    return JSON.stringify({
-      success,
-      message: success ? "✓ BUILD SUCCESS" : "✗ BUILD FAILED",
-      errors: errors.slice(0, 10), // First 10 errors only
-      recommendation: success
-        ? "Proceed to writing tests"
-        : "Fix compilation errors before writing tests",
-    }, null, 2);
-  } catch (error: any) {
-    const stderr = error.stderr || "";
-    const errors: string[] = [];
-    const errorPattern = /\[ERROR\]\s+(.+)/g;
-    let match;
-    while ((match = errorPattern.exec(stderr)) !== null) {
-      errors.push(match[1]);
-    }
+const MAX_FLAKY_RUNS = 20;
+const RANDOM_METHOD_ORDERER = "org.junit.jupiter.api.MethodOrderer$Random";
 
-    return JSON.stringify({
-      success: false,
-      message: "✗ BUILD FAILED",
-      errors: errors.slice(0, 10),
-      recommendation: "Fix compilation errors before writing tests",
-    }, null, 2);
+type FlakyContextMode = "reuse" | "fork" | "both";
+
+// One rerun: randomized JUnit 5 method order with a known seed, and optionally one JVM per test class
+// so no Spring context or static state survives from one class to the next
+async function flakyRunCommand(
+  buildTool: BuildTool,
+  base: TestRunCommand,
+  fork: boolean,
+  seed: number | undefined,
+  scriptPath: string
+): Promise<string> {
+  if (buildTool === "gradle") {
+    // Gradle passes -D only to its own JVM and skips an up-to-date test task, so configure it with an init script
+    await writeFile(scriptPath, [
+      "allprojects {",
+      "  tasks.withType(Test).configureEach {",
+      "    outputs.upToDateWhen { false }",
+      ...(fork ? ["    forkEvery = 1"] : []),
+      ...(seed !== undefined
+        ? [
+          `    systemProperty 'junit.jupiter.testmethod.order.default', '${RANDOM_METHOD_ORDERER}'`,
+          `    systemProperty 'junit.jupiter.execution.order.random.seed', '${seed}'`,
+        ]
+        : []),
+      "  }",
+      "}",
+      "",
+    ].join("\n"), "utf-8");
+    return `${base.command} --init-script "${scriptPath}"`;
   }
+
+  const properties = [
+    ...(fork ? ["forkCount=1", "reuseForks=false"] : []),
+    ...(seed !== undefined
+      ? [`junit.jupiter.testmethod.order.default=${RANDOM_METHOD_ORDERER}`, `junit.jupiter.execution.order.random.seed=${seed}`]
+      : []),
+  ];
+  // Single quotes keep the shell from expanding $Random; cmd.exe takes double quotes literally
+  const quote = (argument: string) => (platform() === "win32" ? `"${argument}"` : `'${argument}'`);
+  return base.command + properties.map((property) => ` ${quote(`-D${property}`)}`).join("");
 }
 
-async function runTestCheckpoint(
-  projectPath: string,
-  testClass: string,
-  testMethod?: string
-): Promise<string> {
-  const mvnCmd = getMavenCommand();
-  const testSpec = testMethod ? `${testClass}#${testMethod}` : testClass;
+// "expected: <3> but was: <4>" and "expected: <5> but was: <7>" land in the same cluster
+function failureSignature(message: string): string {
+  return (message.split(/\r?\n/)[0] ?? "")
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, "<uuid>")
+    .replace(/\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?Z?/g, "<time>")
+    .replace(/@[0-9a-f]{4,}\b/g, "@<hash>")
+    .replace(/\b\d+(\.\d+)?\b/g, "<n>")
+    .slice(0, 200);
+}
 
-  try {
-    const { stdout, stderr } = await execAsync(
-      `${mvnCmd} test -Dtest=${testSpec}`,
-      {
-        cwd: projectPath,
-        timeout: 120000, // 2 minutes
-      }
-    );
+interface FlakinessFinding {
+  cause: string;
+  location: string;
+  detail: string;
+  fix: string;
+}
 
-    const output = stdout + stderr;
+const SPRING_TEST_ANNOTATIONS = /^(SpringBootTest|WebMvcTest|WebFluxTest|GraphQlTest|Data\w+Test|JdbcTest|JooqTest|JsonTest|RestClientTest|WebServiceClientTest|ContextConfiguration|SpringJUnitConfig|SpringJUnitWebConfig)$/;
+const MUTABLE_INITIALIZER = /new\s+(ArrayList|LinkedList|HashMap|LinkedHashMap|TreeMap|HashSet|LinkedHashSet|ConcurrentHashMap|CopyOnWriteArrayList|AtomicInteger|AtomicLong|AtomicBoolean|AtomicReference|StringBuilder)\b/;
+const SHARED_BY_DESIGN = /(Container|Server|Extension|Logger|Log)$/;
+
+// Causes of flakiness visible in the test source: shared state, fixed delays, clocks and ordering
+async function staticFlakinessFindings(projectPath: string, testClass: string, moduleName?: string): Promise<{ findings: FlakinessFinding[]; junit4: boolean }> {
+  const findings: FlakinessFinding[] = [];
+  let junit4 = false;
+  const files = new Set<string>();
+  for (const pattern of testClass.split(",").map((p) => p.trim()).filter(Boolean)) {
+    for (const file of await findTestFiles(projectPath, pattern.split(".").pop()!, moduleName)) files.add(file);
+  }
 
-    // Parse test results
-    const testsRunPattern = /Tests run: (\d+), Failures: (\d+), Errors: (\d+), Skipped: (\d+)/;
-    const match = output.match(testsRunPattern);
+  for (const file of Array.from(files).sort().slice(0, 20)) {
+    const source = await parseJavaFile(file);
+    const content = await readJavaFile(file);
+    const primary = source.classes[0];
+    if (!primary) continue;
+    if (source.imports.some((i) => /^org\.junit\.(Test|runner\.)/.test(i))) junit4 = true;
+
+    // Base test classes contribute annotations, fields and cleanup code
+    const hierarchy = [{ javaClass: primary, content }];
+    for (let current = primary; current.extends[0] && hierarchy.length < 4;) {
+      const [baseFile] = await findTestFiles(projectPath, simpleTypeName(current.extends[0]), moduleName);
+      const base = baseFile ? primaryJavaClass(await parseJavaFile(baseFile), simpleTypeName(current.extends[0])) : undefined;
+      if (!base) break;
+      hierarchy.push({ javaClass: base, content: await readJavaFile(baseFile) });
+      current = base;
+    }
+    const classes = hierarchy.map((h) => h.javaClass);
+    const annotated = (...names: string[]) => classes.some((c) => hasAnnotation(c, ...names));
+    const springTest = classes.some((c) => c.annotations.some((a) => SPRING_TEST_ANNOTATIONS.test(a.name)));
+
+    const methods = allJavaClasses(source)
+      .flatMap((c) => c.methods.map((method) => ({ owner: c.name, method })))
+      .sort((a, b) => a.method.line - b.method.line);
+    const locate = (line: number) => {
+      const enclosing = methods.filter((m) => m.method.line <= line).pop();
+      return `${enclosing ? `${enclosing.owner}.${enclosing.method.name}` : primary.name}:${line}`;
+    };
+    const add = (cause: string, line: number | undefined, detail: string, fix: string) => {
+      findings.push({ cause, location: line !== undefined ? locate(line) : primary.name, detail: detail.trim().slice(0, 160), fix });
+    };
 
-    if (!match) {
-      return JSON.stringify({
-        success: false,
-        message: "Could not parse test results",
-        output: output.slice(-500), // Last 500 chars
-      }, null, 2);
+    for (const { javaClass } of hierarchy) {
+      for (const field of javaClass.fields) {
+        if (!field.modifiers.includes("static") || SHARED_BY_DESIGN.test(simpleTypeName(field.type))) continue;
+        if (hasAnnotation(field, "Container", "RegisterExtension", "ServiceConnection")) continue;
+        const mutable = !field.modifiers.includes("final") || MUTABLE_INITIALIZER.test(field.initializer ?? "");
+        if (mutable) {
+          add("static mutable state", undefined, `${javaClass.name}.${field.name} (${field.type})`,
+            "Make it an instance field or reset it in @BeforeEach - static state outlives the test method and the class");
+        }
+      }
     }
 
-    const [, run, failures, errors, skipped] = match;
-    const success = failures === "0" && errors === "0";
+    const autowired = new Map(classes.flatMap((c) => c.fields)
+      .filter((f) => hasAnnotation(f, "Autowired"))
+      .map((f) => [f.name, simpleTypeName(f.type)] as [string, string]));
+    const dirtiesContext = annotated("DirtiesContext") || methods.some((m) => hasAnnotation(m.method, "DirtiesContext"));
+    const lines = content.split(/\r?\n/);
+    lines.forEach((text, index) => {
+      const line = index + 1;
+      const code = text.replace(/\/\/.*$/, "");
+      if (/\bThread\.sleep\s*\(|\bTimeUnit\.\w+\.sleep\s*\(/.test(code)) {
+        add("Thread.sleep", line, code, "Wait for the condition with Awaitility (await().atMost(...).untilAsserted(...)) instead of a fixed delay");
+      }
+      if (/\b(LocalDate|LocalDateTime|LocalTime|Instant|ZonedDateTime|OffsetDateTime|YearMonth)\.now\(\s*\)|System\.currentTimeMillis\(\)|new Date\(\s*\)/.test(code) &&
+        /assert|expect|isEqualTo|isBefore|isAfter|jsonPath|\.value\(/i.test(code)) {
+        add("time-dependent assertion", line, code, "Inject a Clock and use Clock.fixed in tests, or compare with a tolerance (isCloseTo, within)");
+      }
+      if (/\bnew Random\(\s*\)|\bMath\.random\(\)/.test(code)) {
+        add("unseeded randomness", line, code, "Use a fixed seed so a failing value can be reproduced");
+      }
+      if (/findAll\(\s*\)/.test(code) && /\.get\(\d+\)|containsExactly\(/.test(code + (lines[index + 1] ?? ""))) {
+        add("unordered query result", line, code, "Sort the query (findAll(Sort.by(...))) or assert with containsExactlyInAnyOrder");
+      }
+      if (springTest && !dirtiesContext) {
+        if (/\bSystem\.setProperty\s*\(/.test(code)) {
+          add("JVM-wide state", line, code, "Restore it in @AfterEach, or set it with @DynamicPropertySource / @TestPropertySource");
+        }
+        const reflected = /ReflectionTestUtils\.setField\(\s*(\w+)/.exec(code)?.[1];
+        const setter = /\b(\w+)\.set[A-Z]\w*\(/.exec(code)?.[1];
+        const bean = [reflected, setter].find((name) => name && autowired.has(name) && !/(Repository|MockMvc|WebTestClient|TestRestTemplate)$/.test(autowired.get(name)!));
+        if (bean) {
+          add("missing @DirtiesContext", line, code,
+            `${bean} is a singleton in the cached Spring context - restore it in @AfterEach or add @DirtiesContext`);
+        }
+      }
+    });
 
-    // Extract failure messages
-    const failureMessages: string[] = [];
-    if (!success) {
-      const failurePattern = /<<< FAILURE![^>]*\n([\s\S]*?)(?=\n\n|\nTests run:)/g;
-      let failMatch;
-      while ((failMatch = failurePattern.exec(output)) !== null) {
-        failureMessages.push(failMatch[1].trim().slice(0, 200)); // First 200 chars
+    const allContent = hierarchy.map((h) => h.content).join("\n");
+    const webEnvironment = annotationValues(classes.map((c) => getAnnotation(c, "SpringBootTest")).find(Boolean), "webEnvironment")[0] ?? "";
+    const writesData = /\.(save|saveAll|saveAndFlush|persist)\s*\(|perform\(\s*(post|put|patch|delete)\(|\.(postForEntity|postForObject|exchange)\(|\.(post|put|patch|delete)\(\)\s*\.uri/.test(content);
+    const cleansUp = /deleteAll|deleteAllInBatch|@Sql\b|truncate|JdbcTestUtils|cleanDatabase|cleanup|clearDatabase/i.test(allContent);
+    if (annotated("SpringBootTest") && writesData && !cleansUp) {
+      if (/RANDOM_PORT|DEFINED_PORT/.test(webEnvironment)) {
+        add("shared database state", undefined,
+          `${webEnvironment.replace(/^.*\./, "")} requests commit in the server thread${annotated("Transactional") ? " - @Transactional on the test does not roll them back" : ""}`,
+          "Delete the data in @AfterEach (repository.deleteAll()) or reset it with @Sql");
+      } else if (!annotated("Transactional")) {
+        add("shared database state", undefined, "writes data without @Transactional rollback or cleanup",
+          "Annotate the class @Transactional, or delete the data in @AfterEach / with @Sql");
       }
     }
 
-    return JSON.stringify({
-      success,
-      testsRun: parseInt(run),
-      failures: parseInt(failures),
-      errors: parseInt(errors),
-      skipped: parseInt(skipped),
-      failureMessages: failureMessages.slice(0, 5), // First 5 failures
-      recommendation: success
-        ? "✓ Tests passed - continue to next batch"
-        : "✗ Fix failures before continuing",
-    }, null, 2);
-  } catch (error: any) {
-    const output = error.stdout + error.stderr;
-    return JSON.stringify({
-      success: false,
-      message: "Test execution failed",
-      output: output.slice(-1000), // Last 1000 chars
-    }, null, 2);
+    const methodOrder = annotationValues(classes.map((c) => getAnnotation(c, "TestMethodOrder")).find(Boolean), "value")[0];
+    if ((methodOrder && !/Random/.test(methodOrder)) || annotated("FixMethodOrder")) {
+      add("order-dependent tests", undefined, `@TestMethodOrder(${methodOrder ?? "FixMethodOrder"})`,
+        "Let each test create the data it needs - ordered tests fail when run alone or after a new test is added");
+    }
   }
+
+  return { findings, junit4 };
 }
 
-async function analyzeController(
+// One repetition; interrupted runs carry no counts
+interface FlakyRunResult {
+  run: number;
+  context: "fork" | "reuse";
+  seed?: number;
+  durationSeconds?: number;
+  testsRun?: number;
+  failed?: number;
+  interrupted?: string;
+}
+
+async function detectFlakyTests(
   projectPath: string,
-  controllerName: string
+  testClass: string,
+  testMethod?: string,
+  runs?: number,
+  randomOrder?: boolean,
+  contextMode?: FlakyContextMode,
+  moduleName?: string,
+  timeoutMinutes?: number
 ): Promise<string> {
-  const controllerFiles = await findJavaFiles(projectPath, controllerName);
+  const runCount = Math.min(Math.max(Math.round(runs ?? 5), 2), MAX_FLAKY_RUNS);
+  const mode: FlakyContextMode = contextMode ?? "reuse";
+  const buildTool = await detectBuildTool(projectPath);
+  const base = await testRunCommand(projectPath, buildTool, testClass, testMethod, moduleName);
+  const scriptPath = path.join(tmpdir(), `mcp-flaky-${process.pid}.gradle`);
 
-  if (controllerFiles.length === 0) {
-    return JSON.stringify({
-      found: false,
-      message: `Controller ${controllerName} not found`,
-    }, null, 2);
-  }
+  const tests = new Map<string, { passed: number; failed: number; skipped: number; failedRuns: number[] }>();
+  const clusters = new Map<string, { failureType: string; message: string; occurrences: number; tests: Set<string>; runs: Set<number> }>();
+  const runResults: FlakyRunResult[] = [];
 
-  const content = await readJavaFile(controllerFiles[0]);
+  try {
+    for (let run = 1; run <= runCount; run++) {
+      const fork = mode === "fork" || (mode === "both" && run % 2 === 0);
+      const seed = randomOrder ? Math.floor(Math.random() * 2147483647) : undefined;
+      const command = await flakyRunCommand(buildTool, base, fork, seed, scriptPath);
+      const startedAt = Date.now();
+
+      let output = "";
+      let timedOut = false;
+      try {
+        const { stdout, stderr } = await execAsync(command, {
+          cwd: projectPath,
+          timeout: timeoutMs(timeoutMinutes, DEFAULT_TEST_TIMEOUT_MINUTES),
+          maxBuffer: 64 * 1024 * 1024,
+        });
+        output = stdout + stderr;
+      } catch (error: any) {
+        output = (error.stdout || "") + (error.stderr || "");
+        timedOut = error.killed === true;
+      }
 
-  // Extract endpoints
-  const endpoints: any[] = [];
-  const mappingPattern = /@(Get|Post|Put|Delete|Patch)Mapping\([^)]*["']([^"']+)["'][^)]*\)\s+public\s+[\w<>]+\s+(\w+)/g;
-  let match;
+      const summary = await readTestReports(base.reportDirs, startedAt);
+      if (!summary) {
+        // A build that writes no reports will not start writing them on the next run
+        if (run === 1) return formatTestCheckpointResult(null, output, timedOut ? "timed out" : undefined);
+        runResults.push({ run, context: fork ? "fork" : "reuse", seed, interrupted: timedOut ? "timed out" : "no test reports" });
+        continue;
+      }
 
-  while ((match = mappingPattern.exec(content)) !== null) {
-    endpoints.push({
-      method: match[1].toUpperCase(),
-      path: match[2],
-      handlerMethod: match[3],
-    });
+      for (const testCase of summary.testCases) {
+        const key = `${testCase.class}.${testCase.method}`;
+        const entry = tests.get(key) ?? { passed: 0, failed: 0, skipped: 0, failedRuns: [] };
+        entry[testCase.outcome]++;
+        if (testCase.outcome === "failed") entry.failedRuns.push(run);
+        tests.set(key, entry);
+      }
+      for (const failure of summary.failedTests) {
+        const signature = `${failure.failureType}: ${failureSignature(failure.message)}`;
+        const cluster = clusters.get(signature) ??
+          { failureType: failure.failureType, message: failure.message.slice(0, 300), occurrences: 0, tests: new Set<string>(), runs: new Set<number>() };
+        cluster.occurrences++;
+        cluster.tests.add(`${failure.class}.${failure.method}`);
+        cluster.runs.add(run);
+        clusters.set(signature, cluster);
+      }
+      runResults.push({
+        run,
+        context: fork ? "fork" : "reuse",
+        seed,
+        durationSeconds: Math.round((Date.now() - startedAt) / 100) / 10,
+        testsRun: summary.run,
+        failed: summary.failures + summary.errors,
+        interrupted: timedOut ? "timed out" : undefined,
+      });
+    }
+  } finally {
+    if (buildTool === "gradle") await rm(scriptPath, { force: true });
   }
 
-  // Check for auth requirement
-  const requiresAuth = content.includes("@PreAuthorize") ||
-                      !content.includes("@PermitAll");
+  const completedRuns = runResults.filter((r) => r.testsRun !== undefined).length;
+  const testResults = Array.from(tests.entries())
+    .map(([test, entry]) => ({
+      test,
+      passRate: `${entry.passed}/${entry.passed + entry.failed}`,
+      ...entry,
+      flaky: entry.passed > 0 && entry.failed > 0,
+      failedRuns: entry.failedRuns.length > 0 ? entry.failedRuns : undefined,
+    }))
+    .sort((a, b) => Number(b.flaky) - Number(a.flaky) || b.failed - a.failed || a.test.localeCompare(b.test));
+  const flaky = testResults.filter((t) => t.flaky);
+  const alwaysFailing = testResults.filter((t) => t.failed > 0 && t.passed === 0);
+
+  // With alternating modes, failures confined to one of them point at state shared between test classes
+  let contextComparison: { reuseRunsFailed: string; forkRunsFailed: string; conclusion: string } | undefined;
+  if (mode === "both") {
+    const failedIn = (context: string) => runResults.filter((r) => r.context === context && (r.failed ?? 0) > 0).length;
+    const ofMode = (context: string) => runResults.filter((r) => r.context === context).length;
+    contextComparison = {
+      reuseRunsFailed: `${failedIn("reuse")}/${ofMode("reuse")}`,
+      forkRunsFailed: `${failedIn("fork")}/${ofMode("fork")}`,
+      conclusion: failedIn("reuse") > 0 && failedIn("fork") === 0
+        ? "Fails only when test classes share a JVM - state leaks through the cached Spring context, static fields or the database"
+        : failedIn("fork") > 0 && failedIn("reuse") === 0
+          ? "Fails only in a fresh JVM - a test depends on state another class leaves behind"
+          : "No difference between shared and forked JVMs",
+    };
+  }
 
-  // Check base path
-  const basePathPattern = /@RequestMapping\(["']([^"']+)["']\)/;
-  const basePathMatch = content.match(basePathPattern);
-  const basePath = basePathMatch ? basePathMatch[1] : "";
+  const { findings, junit4 } = await staticFlakinessFindings(projectPath, testClass, moduleName);
+  const failureClusters = Array.from(clusters.values())
+    .sort((a, b) => b.occurrences - a.occurrences)
+    .map((c) => ({ failureType: c.failureType, message: c.message, occurrences: c.occurrences, tests: Array.from(c.tests), runs: Array.from(c.runs) }));
+  const reproduce = randomOrder
+    ? runResults.filter((r) => (r.failed ?? 0) > 0).map((r) => r.seed).slice(0, 3)
+    : [];
 
   return JSON.stringify({
-    found: true,
-    controller: controllerName,
-    basePath,
-    requiresAuth,
-    endpointCount: endpoints.length,
-    endpoints: endpoints.map(e => ({
-      ...e,
-      fullPath: basePath + e.path,
-    })),
-    testRecommendation: {
-      authTests: requiresAuth ? "Write auth tests first (401 unauthorized)" : "No auth required",
-      crudTests: `Write tests for ${endpoints.length} endpoints`,
-    },
+    testClass,
+    testMethod,
+    runs: runCount,
+    completedRuns,
+    randomOrder: randomOrder ?? false,
+    contextMode: mode,
+    verdict: flaky.length > 0 ? "flaky" : alwaysFailing.length > 0 ? "failing" : completedRuns > 0 ? "stable" : "no results",
+    flakyTests: flaky.length,
+    tests: testResults.slice(0, 50),
+    failureClusters: failureClusters.slice(0, 10),
+    runResults,
+    contextComparison,
+    failingSeeds: reproduce.length > 0 ? reproduce : undefined,
+    staticFindings: findings,
+    notes: randomOrder && junit4 ? ["JUnit 4 tests ignore junit.jupiter.* settings - method order was not randomized for them"] : undefined,
+    recommendation: flaky.length > 0
+      ? `${flaky.length} test(s) passed and failed across ${completedRuns} runs - start with "${failureClusters[0]?.failureType}" (${failureClusters[0]?.occurrences}x)` +
+        (reproduce.length > 0 ? `; reproduce the order with -Djunit.jupiter.execution.order.random.seed=${reproduce[0]}` : "")
+      : alwaysFailing.length > 0
+        ? `${alwaysFailing.length} test(s) failed in every run - a real failure, not flakiness`
+        : findings.length > 0
+          ? `Stable over ${completedRuns} runs, but ${findings.length} static risk(s) can still fail in CI`
+          : `Stable over ${completedRuns} runs`,
   }, null, 2);
 }
 
-async function checkJsonNamingStrategy(
-  projectPath: string,
-  dtoPackage: string
-): Promise<string> {
-  const dtoPath = path.join(projectPath, "src", "main", "java", ...dtoPackage.split("."));
-  const dtoFiles = await glob(`${dtoPath}/**/*.java`);
-
-  const strategies: Record<string, number> = {};
+const TEST_METHOD_ANNOTATIONS = ["Test", "ParameterizedTest", "RepeatedTest", "TestFactory", "TestTemplate"];
+// Class-level annotations that Spring Boot turns into context customizers, so they are part of the cache key
+const CONTEXT_CUSTOMIZER_ANNOTATIONS = /^(AutoConfigure\w+|ImportAutoConfiguration|OverrideAutoConfiguration|EmbeddedKafka|EnableWireMock|WebAppConfiguration|ContextHierarchy|BootstrapWith)$/;
+const MOCK_BEAN_ANNOTATIONS = ["MockBean", "SpyBean", "MockitoBean", "MockitoSpyBean"];
+// What value= stands for on test slices that do not alias it to properties
+const SLICE_VALUE_ALIASES: Record<string, string> = {
+  WebMvcTest: "controllers",
+  WebFluxTest: "controllers",
+  GraphQlTest: "controllers",
+  RestClientTest: "components",
+  WebServiceClientTest: "components",
+};
+const CONTEXT_CACHE_MAX_SIZE = 32;
+
+// The parts of Spring's MergedContextConfiguration a test class controls; equal keys share one cached context
+interface TestContextKey {
+  bootstrap: string;
+  contextClasses: string[];
+  imports: string[];
+  activeProfiles: string;
+  properties: string[];
+  mockBeans: string[];
+  dynamicProperties: string[];
+  serviceConnections: string[];
+  autoConfiguration: string[];
+}
 
-  for (const file of dtoFiles) {
-    const content = await readJavaFile(file);
+const CONTEXT_KEY_LABELS: Record<keyof TestContextKey, string> = {
+  bootstrap: "test annotation",
+  contextClasses: "context classes",
+  imports: "@Import",
+  activeProfiles: "@ActiveProfiles",
+  properties: "properties",
+  mockBeans: "mock beans",
+  dynamicProperties: "@DynamicPropertySource",
+  serviceConnections: "@ServiceConnection",
+  autoConfiguration: "auto-configuration",
+};
+
+interface TestContextClass {
+  className: string;
+  file: string;
+  hierarchy: string[]; // The class first, then its superclasses
+  key: TestContextKey;
+  dirtiesContext?: string;
+  extraStarts: number;
+}
 
-    if (content.includes("@JsonNaming(PropertyNamingStrategies.SnakeCaseStrategy")) {
-      strategies.snake_case = (strategies.snake_case || 0) + 1;
-    } else if (content.includes("@JsonNaming")) {
-      strategies.other = (strategies.other || 0) + 1;
-    } else {
-      strategies.camelCase = (strategies.camelCase || 0) + 1;
-    }
-  }
+function annotationAttributeText(value: JavaAnnotationValue): string {
+  const text = (v: string) => v.replace(/\.class$/, "").replace(/^.*\.(?=[A-Z_]+$)/, "");
+  return Array.isArray(value) ? `{${value.map(text).join(", ")}}` : text(value);
+}
 
-  const primary = Object.entries(strategies).sort((a, b) => b[1] - a[1])[0];
+// @WebMvcTest(controllers = UserController.class) -> "@WebMvcTest(controllers=UserController)"
+function annotationSignature(annotation: JavaAnnotation, omit: string[] = []): string {
+  const attributes = Object.entries(annotation.attributes)
+    .filter(([key]) => !omit.includes(key))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${annotationAttributeText(value)}`);
+  return `@${annotation.name}${attributes.length > 0 ? `(${attributes.join(", ")})` : ""}`;
+}
 
-  return JSON.stringify({
-    dtoPackage,
-    filesAnalyzed: dtoFiles.length,
-    strategies,
-    primaryStrategy: primary ? primary[0] : "camelCase",
-    recommendation: primary && primary[0] === "snake_case"
-      ? 'Use snake_case in JSON: {"company_id": 100}'
-      : 'Use camelCase in JSON: {"companyId": 100}',
-  }, null, 2);
+function classReferences(annotation: JavaAnnotation | undefined, ...keys: string[]): string[] {
+  return annotationValues(annotation, ...keys).map((v) => simpleTypeName(v.replace(/\.class$/, "")));
 }
 
-async function findBeansNeedingExclusion(projectPath: string): Promise<string> {
-  const srcPath = path.join(projectPath, "src", "main", "java");
-  const javaFiles = await glob(`${srcPath}/**/*.java`);
+// Spring takes the nearest @SpringBootTest/@WebMvcTest/... but merges profiles, properties and mock beans down the hierarchy
+function testContextKey(chain: JavaClass[]): TestContextKey {
+  const baseFirst = [...chain].reverse();
+  const unique = (items: string[]) => Array.from(new Set(items));
+
+  const found = chain.flatMap((c) => c.annotations).find((a) => SPRING_TEST_ANNOTATIONS.test(a.name));
+  // @WebMvcTest(UserController.class) and @WebMvcTest(controllers = UserController.class) are the same key
+  const bootstrapAnnotation = found && {
+    ...found,
+    attributes: Object.fromEntries(Object.entries(found.attributes)
+      .filter(([key, value]) => key !== "webEnvironment" || !/MOCK$/.test(String(value)))
+      .map(([key, value]) => [key === "value" ? SLICE_VALUE_ALIASES[found.name] ?? (/Config(uration)?$/.test(found.name) ? "classes" : "properties") : key, value])),
+  };
+  // Classes and properties are listed under their own components
+  const bootstrap = bootstrapAnnotation ? annotationSignature(bootstrapAnnotation, ["properties", "classes", "locations", "initializers"]) : "";
+
+  const contextClasses = unique([
+    ...(bootstrapAnnotation?.name === "SpringBootTest" ? classReferences(bootstrapAnnotation, "classes").map((c) => `@SpringBootTest(classes) ${c}`) : []),
+    ...baseFirst.flatMap((c) =>
+      ["ContextConfiguration", "SpringJUnitConfig", "SpringJUnitWebConfig"].flatMap((name) => {
+        const annotation = getAnnotation(c, name);
+        return [
+          ...classReferences(annotation, "classes", "value").map((type) => `@${name} ${type}`),
+          ...annotationValues(annotation, "locations").map((location) => `@${name}(locations) ${location}`),
+          ...classReferences(annotation, "initializers").map((type) => `@${name}(initializers) ${type}`),
+        ];
+      })
+    ),
+    // Nested @TestConfiguration classes are picked up by the test class that declares them
+    ...chain.flatMap((c) => c.innerClasses
+      .filter((inner) => inner.modifiers.includes("static") && hasAnnotation(inner, "TestConfiguration", "Configuration"))
+      .map((inner) => `nested @${getAnnotation(inner, "TestConfiguration", "Configuration")!.name} ${c.name}.${inner.name}`)),
+  ]);
+
+  const profiles = unique(baseFirst.flatMap((c) => annotationValues(getAnnotation(c, "ActiveProfiles"), "value", "profiles")));
+
+  const properties = unique([
+    ...annotationValues(bootstrapAnnotation, "properties").map((p) => `@${bootstrapAnnotation!.name}(properties) ${p}`),
+    ...baseFirst.flatMap((c) => {
+      const annotation = getAnnotation(c, "TestPropertySource");
+      return [
+        ...annotationValues(annotation, "locations", "value").map((location) => `@TestPropertySource(locations) ${location}`),
+        ...annotationValues(annotation, "properties").map((p) => `@TestPropertySource ${p}`),
+      ];
+    }),
+  ]);
+
+  const mockBeans = unique(baseFirst.flatMap((c) => [
+    ...c.annotations
+      .filter((a) => MOCK_BEAN_ANNOTATIONS.includes(a.name))
+      .flatMap((a) => classReferences(a, "value", "types", "classes").map((type) => `@${a.name} ${type}`)),
+    ...c.fields.flatMap((f) => {
+      const annotation = getAnnotation(f, ...MOCK_BEAN_ANNOTATIONS);
+      return annotation ? [`@${annotation.name} ${simpleTypeName(f.type)}`] : [];
+    }),
+  ])).sort();
 
-  const beansToExclude: any[] = [];
-  const keywords = ["aws", "tenant", "secret", "s3", "dynamo", "sqs", "sns"];
+  return {
+    bootstrap,
+    contextClasses: contextClasses.sort(),
+    imports: unique(baseFirst.flatMap((c) => classReferences(getAnnotation(c, "Import"), "value"))).sort(),
+    activeProfiles: profiles.length > 0 ? `@ActiveProfiles(${profiles.join(", ")})` : "",
+    properties: properties.sort(),
+    mockBeans,
+    // Both customizers are keyed by the declaring class, so a copy in every test class splits the cache
+    dynamicProperties: unique(chain.flatMap((c) => c.methods
+      .filter((m) => hasAnnotation(m, "DynamicPropertySource"))
+      .map((m) => `${c.name}.${m.name}`))).sort(),
+    serviceConnections: unique(chain.flatMap((c) => c.fields
+      .filter((f) => hasAnnotation(f, "ServiceConnection"))
+      .map((f) => `${c.name}.${f.name}`))).sort(),
+    autoConfiguration: unique(baseFirst.flatMap((c) => c.annotations
+      .filter((a) => CONTEXT_CUSTOMIZER_ANNOTATIONS.test(a.name))
+      .map((a) => annotationSignature(a)))).sort(),
+  };
+}
 
-  for (const file of javaFiles) {
-    const content = await readJavaFile(file);
-    const fileName = path.basename(file, ".java");
+// What a context key adds, drops or replaces compared with another one
+function contextKeyDifferences(key: TestContextKey, from: TestContextKey): string[] {
+  const differences: string[] = [];
+  for (const component of Object.keys(CONTEXT_KEY_LABELS) as (keyof TestContextKey)[]) {
+    const value = key[component];
+    const other = from[component];
+    if (typeof value === "string" || typeof other === "string") {
+      if (value === other) continue;
+      differences.push(!other ? `adds ${value}` : !value ? `drops ${other}` : `${value} instead of ${other}`);
+      continue;
+    }
+    const label = component === "dynamicProperties" || component === "serviceConnections" ? `${CONTEXT_KEY_LABELS[component]} ` : "";
+    differences.push(...value.filter((item) => !other.includes(item)).map((item) => `adds ${label}${item}`));
+    differences.push(...other.filter((item) => !value.includes(item)).map((item) => `drops ${label}${item}`));
+  }
+  return differences;
+}
 
-    const isBean = content.includes("@Configuration") ||
-                   content.includes("@Service") ||
-                   content.includes("@Component");
+function contextKeySummary(key: TestContextKey): Record<string, string | string[]> {
+  return Object.fromEntries(Object.entries(key).filter(([, value]) => value.length > 0));
+}
 
-    if (isBean) {
-      const hasProfile = content.includes("@Profile");
-      const needsExclusion = keywords.some(k =>
-        fileName.toLowerCase().includes(k) ||
-        content.toLowerCase().includes(k)
-      );
+async function analyzeTestContexts(projectPath: string, moduleName?: string): Promise<string> {
+  const testFiles = await findTestFiles(projectPath, "*", moduleName);
+  const declared = new Map<string, { javaClass: JavaClass; file: string }>();
+  for (const file of testFiles) {
+    for (const javaClass of allJavaClasses(await parseJavaFile(file))) {
+      if (!declared.has(javaClass.name)) declared.set(javaClass.name, { javaClass, file });
+    }
+  }
 
-      if (needsExclusion && !hasProfile) {
-        beansToExclude.push({
-          file: fileName,
-          path: file.replace(projectPath, ""),
-          reason: keywords.filter(k =>
-            fileName.toLowerCase().includes(k) ||
-            content.toLowerCase().includes(k)
-          ),
-        });
-      }
+  const hierarchyOf = (javaClass: JavaClass): JavaClass[] => {
+    const chain = [javaClass];
+    for (let current = javaClass; current.extends[0] && chain.length < 8;) {
+      const parent = declared.get(simpleTypeName(current.extends[0]))?.javaClass;
+      if (!parent || chain.includes(parent)) break;
+      chain.push(parent);
+      current = parent;
+    }
+    return chain;
+  };
+  const isSpringTest = (chain: JavaClass[]) => chain.some((c) => c.annotations.some((a) => SPRING_TEST_ANNOTATIONS.test(a.name)));
+
+  const testClasses: TestContextClass[] = [];
+  for (const file of testFiles) {
+    const source = await parseJavaFile(file);
+    // @Nested classes run in their enclosing class's context
+    for (const javaClass of source.classes) {
+      if (javaClass.kind !== "class" || javaClass.modifiers.includes("abstract")) continue;
+      const chain = hierarchyOf(javaClass);
+      if (!isSpringTest(chain)) continue;
+      const testMethods = chain.flatMap((c) => c.methods).filter((m) => hasAnnotation(m, ...TEST_METHOD_ANNOTATIONS));
+      if (testMethods.length === 0) continue;
+
+      // A dirtied context is closed and the next class with the same key starts it again
+      const classDirties = chain.map((c) => getAnnotation(c, "DirtiesContext")).find(Boolean);
+      const classMode = annotationValues(classDirties, "classMode")[0]?.replace(/^.*\./, "") ?? "AFTER_CLASS";
+      const dirtyMethods = testMethods.filter((m) => hasAnnotation(m, "DirtiesContext")).length;
+      const extraStarts = classDirties
+        ? /EACH_TEST_METHOD/.test(classMode) ? testMethods.length : 1
+        : dirtyMethods;
+
+      testClasses.push({
+        className: javaClass.name,
+        file: path.relative(projectPath, file),
+        hierarchy: chain.map((c) => c.name),
+        key: testContextKey(chain),
+        dirtiesContext: classDirties
+          ? `@DirtiesContext(classMode=${classMode})`
+          : dirtyMethods > 0 ? `@DirtiesContext on ${dirtyMethods} method(s)` : undefined,
+        extraStarts,
+      });
     }
   }
 
+  if (testClasses.length === 0) {
+    return JSON.stringify({
+      springTestClasses: 0,
+      distinctContexts: 0,
+      message: "No test classes with @SpringBootTest, a test slice (@WebMvcTest, @DataJpaTest, ...) or @ContextConfiguration under src/test/java",
+    }, null, 2);
+  }
+
+  const groups = new Map<string, { id: number; key: TestContextKey; classes: TestContextClass[] }>();
+  for (const testClass of testClasses) {
+    const signature = JSON.stringify(testClass.key);
+    const group = groups.get(signature) ?? { id: 0, key: testClass.key, classes: [] };
+    group.classes.push(testClass);
+    groups.set(signature, group);
+  }
+  // Most shared first, then the simplest configuration - the baseline the others are compared with
+  const keySize = (key: TestContextKey) => Object.values(key).reduce((sum, value) => sum + (Array.isArray(value) ? value.length : value ? 1 : 0), 0);
+  const contexts = Array.from(groups.values()).sort((a, b) =>
+    b.classes.length - a.classes.length || keySize(a.key) - keySize(b.key) || a.classes[0].className.localeCompare(b.classes[0].className)
+  );
+  contexts.forEach((context, index) => (context.id = index + 1));
+  const extraStarts = testClasses.reduce((sum, t) => sum + t.extraStarts, 0);
+
+  // Abstract or Base*/Abstract* test classes that carry their own Spring test configuration
+  const baseClasses = Array.from(declared.values())
+    .filter(({ javaClass }) => javaClass.kind === "class" && (javaClass.modifiers.includes("abstract") || /^(Base|Abstract)\w*(Test|Tests|IT)$/.test(javaClass.name)))
+    .filter(({ javaClass }) => isSpringTest(hierarchyOf(javaClass)) && !testClasses.some((t) => t.className === javaClass.name))
+    .sort((a, b) => Number(b.javaClass.name === "BaseIntegrationTest") - Number(a.javaClass.name === "BaseIntegrationTest") || a.javaClass.name.localeCompare(b.javaClass.name));
+  const baseKeys = new Set(baseClasses.map(({ javaClass }) => JSON.stringify(testContextKey(hierarchyOf(javaClass)))));
+
+  // Contexts started by the same test annotation, and what separates each from the most shared one
+  const families = new Map<string, typeof contexts>();
+  for (const context of contexts) {
+    const family = context.key.bootstrap.replace(/\(.*$/, "");
+    families.set(family, [...(families.get(family) ?? []), context]);
+  }
+  const splits = Array.from(families.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([family, members]) => [family, members.find((m) => baseKeys.has(JSON.stringify(m.key))) ?? members[0], members] as const)
+    .map(([family, baseline, members]) => [family, baseline, members.filter((m) => m !== baseline)] as const)
+    .map(([family, baseline, variants]) => ({
+      testAnnotation: family,
+      contexts: variants.length + 1,
+      baseline: { context: baseline.id, testClasses: baseline.classes.length },
+      variants: variants.map((variant) => ({
+        context: variant.id,
+        testClasses: variant.classes.map((c) => c.className),
+        differences: contextKeyDifferences(variant.key, baseline.key),
+      })),
+    }))
+    .sort((a, b) => b.contexts - a.contexts);
+
+  const consolidation = baseClasses.slice(0, 3).map(({ javaClass, file }) => {
+    const baseKey = testContextKey(hierarchyOf(javaClass));
+    const family = baseKey.bootstrap.replace(/\(.*$/, "");
+    // A class that copies the base's containers or property sources gets them from the base once it extends it
+    const inherited = (members: string[], declaredBy: string[], baseMembers: string[]) => members.map((member) => {
+      const [owner, name] = member.split(".");
+      const baseMember = `${javaClass.name}.${name}`;
+      return declaredBy.includes(owner) && baseMembers.includes(baseMember) ? baseMember : member;
+    }).filter((member, index, all) => all.indexOf(member) === index).sort();
+    const candidates = (families.get(family) ?? []).map((context) => {
+      const declaredBy = context.classes.filter((c) => !c.hierarchy.includes(javaClass.name)).map((c) => c.className);
+      const differences = contextKeyDifferences({
+        ...context.key,
+        dynamicProperties: inherited(context.key.dynamicProperties, declaredBy, baseKey.dynamicProperties),
+        serviceConnections: inherited(context.key.serviceConnections, declaredBy, baseKey.serviceConnections),
+      }, baseKey);
+      return {
+        context,
+        differences,
+        copies: declaredBy.length > 0 && JSON.stringify(context.key) !== JSON.stringify(baseKey),
+        // Extra mocks move into the base class; anything else changes the base for every subclass
+        hoistable: differences.every((d) => /^adds @(MockBean|SpyBean|MockitoBean|MockitoSpyBean) /.test(d)),
+      };
+    }).filter((c) => c.differences.length > 0 || c.copies);
+    const shared = (families.get(family) ?? []).find((context) => JSON.stringify(context.key) === JSON.stringify(baseKey));
+    const hoistable = candidates.filter((c) => c.hoistable);
+    const mocksToMove = Array.from(new Set(hoistable.flatMap((c) => c.differences.map((d) => d.replace(/^adds /, ""))))).sort();
+    const extenders = Array.from(new Set(hoistable.flatMap((c) => c.context.classes.filter((t) => !t.hierarchy.includes(javaClass.name)).map((t) => t.className))));
+    const mergeable = hoistable.length + (shared ? 1 : 0);
+
+    return {
+      baseClass: javaClass.name,
+      file: path.relative(projectPath, file),
+      context: contextKeySummary(baseKey),
+      subclasses: testClasses.filter((t) => t.hierarchy.includes(javaClass.name)).length,
+      sharingBaseContext: shared?.classes.map((c) => c.className) ?? [],
+      mergeable: hoistable.map(({ context, differences }) => {
+        const notExtendingBase = context.classes.filter((c) => !c.hierarchy.includes(javaClass.name)).map((c) => c.className);
+        return {
+          context: context.id,
+          testClasses: context.classes.map((c) => c.className),
+          notExtendingBase,
+          differences,
+          action: [
+            ...(notExtendingBase.length > 0 ? [`extend ${javaClass.name} and delete the configuration it repeats`] : []),
+            ...(differences.length > 0 ? [`move ${differences.map((d) => d.replace(/^adds /, "")).join(", ")} into ${javaClass.name}`] : []),
+          ].join("; "),
+        };
+      }),
+      moveToBase: mocksToMove.length > 0 ? mocksToMove : undefined,
+      shouldExtendBase: extenders.length > 0 ? extenders : undefined,
+      contextsAfterMerge: hoistable.length > 0 ? contexts.length - mergeable + 1 : undefined,
+      // Other differences in the same family need a change to the test itself, not just a new superclass
+      notMergeable: candidates
+        .filter((c) => !c.hoistable && c.differences.length > 0)
+        .map(({ context, differences }) => ({
+          context: context.id,
+          testClasses: context.classes.map((c) => c.className),
+          differences,
+        }))
+        .slice(0, 20),
+    };
+  });
+
+  // Slices split by controller or repository on purpose; full contexts are the expensive ones
+  const largestSplit = splits.find((split) => split.testAnnotation === "@SpringBootTest") ?? splits[0];
+  const bestMerge = consolidation.filter((c) => c.contextsAfterMerge !== undefined)
+    .sort((a, b) => a.contextsAfterMerge! - b.contextsAfterMerge!)[0];
+  const warnings: string[] = [];
+  if (contexts.length > CONTEXT_CACHE_MAX_SIZE) {
+    warnings.push(`${contexts.length} contexts exceed the context cache (spring.test.context.cache.maxSize=${CONTEXT_CACHE_MAX_SIZE}) - evicted contexts are started again when a later class needs them`);
+  }
+  const perClassSources = contexts.filter((c) => c.key.dynamicProperties.some((m) => c.classes.some((t) => m.startsWith(`${t.className}.`))));
+  if (perClassSources.length > 1) {
+    warnings.push(`${perClassSources.length} contexts declare their own @DynamicPropertySource - each declaring class gets its own context; move it to a shared base class`);
+  }
+
   return JSON.stringify({
-    found: beansToExclude.length,
-    beansToExclude,
-    recommendation: beansToExclude.length > 0
-      ? `Add @Profile("!test") to these ${beansToExclude.length} classes`
-      : "No beans found that need exclusion",
-    action: 'Add: @Profile("!test") above @Configuration/@Service/@Component',
+    springTestClasses: testClasses.length,
+    distinctContexts: contexts.length,
+    estimatedContextStarts: contexts.length + extraStarts,
+    contexts: contexts.slice(0, 50).map((context) => ({
+      context: context.id,
+      key: contextKeySummary(context.key),
+      testClasses: context.classes.map((c) => c.className),
+    })),
+    splits,
+    dirtiesContext: testClasses
+      .filter((t) => t.dirtiesContext)
+      .map((t) => ({ testClass: t.className, annotation: t.dirtiesContext, extraStarts: t.extraStarts })),
+    consolidation: consolidation.length > 0 ? consolidation : undefined,
+    warnings: warnings.length > 0 ? warnings : undefined,
+    recommendation: bestMerge
+      ? [
+        ...(bestMerge.shouldExtendBase ? [`Extend ${bestMerge.baseClass} in ${bestMerge.shouldExtendBase.join(", ")}`] : []),
+        ...(bestMerge.moveToBase ? [`move ${bestMerge.moveToBase.join(", ")} into ${bestMerge.baseClass} (a mock replaces the real bean for every subclass)`] : []),
+      ].join(" and ").replace(/^m/, "M") + ` - ${contexts.length} contexts become ${bestMerge.contextsAfterMerge}`
+      : largestSplit
+        ? baseClasses.length > 0
+          ? `${largestSplit.testAnnotation} starts ${largestSplit.contexts} contexts - align the differences listed under splits with ${baseClasses[0].javaClass.name}`
+          : `${largestSplit.testAnnotation} starts ${largestSplit.contexts} contexts - put the shared configuration (mock beans, profiles, properties) in a BaseIntegrationTest and extend it`
+        : extraStarts > 0
+          ? `@DirtiesContext adds ${extraStarts} context start(s) - reset the changed state in @AfterEach instead`
+          : `${testClasses.length} test classes share ${contexts.length} context(s) ✓`,
   }, null, 2);
 }
 
-async function analyzeRepository(
-  projectPath: string,
-  repositoryName: string
-): Promise<string> {
-  const repoFiles = await findJavaFiles(projectPath, repositoryName);
+// One artifact in a resolved dependency tree; omitted nodes are the losers of Maven's nearest-wins mediation
+interface DependencyNode {
+  groupId: string;
+  artifactId: string;
+  version: string;
+  requestedVersion?: string; // Gradle "1.0 -> 2.0" and Maven "version managed from 1.0"
+  mediation?: "managed" | "resolved"; // How requestedVersion became version
+  scope?: string;
+  omitted?: string; // "conflict with 5.7.0", "duplicate", "cycle"
+  children: DependencyNode[];
+  parent?: DependencyNode;
+}
 
-  if (repoFiles.length === 0) {
-    return JSON.stringify({
-      found: false,
-      message: `Repository ${repositoryName} not found`,
-    }, null, 2);
-  }
+interface DependencyIssue {
+  type: "version conflict" | "misaligned versions" | "junit engines" | "javax/jakarta mix" | "incompatible test library";
+  severity: "error" | "warning" | "info";
+  modules?: string[];
+  artifacts: string[];
+  detail: string;
+  paths?: string[];
+  fix: string;
+}
 
-  const content = await readJavaFile(repoFiles[0]);
+const DEPENDENCY_TREE_CACHE = "dependency-tree.txt";
+
+// Artifacts released together; two versions on one classpath is the usual source of NoSuchMethodError
+const DEPENDENCY_FAMILIES: { name: string; matches: (groupId: string, artifactId: string) => boolean; version?: (version: string) => string }[] = [
+  { name: "JUnit 5", matches: (g) => g === "org.junit.jupiter" || g === "org.junit.vintage" },
+  // junit-platform 1.10.x ships with jupiter 5.10.x
+  { name: "JUnit Platform", matches: (g) => g === "org.junit.platform", version: (v) => v.replace(/^1\./, "5.") },
+  { name: "Mockito", matches: (g, a) => g === "org.mockito" && a !== "mockito-kotlin" },
+  { name: "Jackson", matches: (g, a) => /^com\.fasterxml\.jackson\./.test(g) && a !== "jackson-annotations", version: (v) => v.split(".").slice(0, 2).join(".") },
+  { name: "Spring Framework", matches: (g) => g === "org.springframework" },
+  { name: "Spring Boot", matches: (g) => g === "org.springframework.boot" },
+  { name: "Testcontainers", matches: (g) => g === "org.testcontainers" },
+  { name: "Hibernate", matches: (g, a) => (g === "org.hibernate" || g === "org.hibernate.orm") && /^hibernate-(core|envers|jcache|spatial)$/.test(a) },
+];
 
-  // Extract query methods
-  const queryMethods: any[] = [];
-  const methodPattern = /(?:@Query[^)]*\))?\s*([\w<>]+)\s+(\w+)\s*\([^)]*\)/g;
-  let match;
+// Jakarta EE APIs moved from javax.* to jakarta.* packages at these artifact versions
+const JAKARTA_NAMESPACE_SINCE: Record<string, number> = {
+  "jakarta.persistence-api": 3,
+  "jakarta.servlet-api": 5,
+  "jakarta.validation-api": 3,
+  "jakarta.annotation-api": 2,
+  "jakarta.transaction-api": 2,
+  "jakarta.xml.bind-api": 3,
+  "jakarta.ws.rs-api": 3,
+  "jakarta.mail-api": 2,
+  "jakarta.mail": 2,
+  "jakarta.activation-api": 2,
+  "jakarta.el-api": 4,
+  "jakarta.websocket-api": 2,
+  "jakarta.json-api": 2,
+};
+const JAVAX_NAMESPACE_GROUPS = /^javax\.(persistence|servlet|validation|annotation|transaction|xml\.bind|ws\.rs|mail|el|websocket|json)$/;
+
+// Byte Buddy (under Mockito) reads class files only up to the Java version it knows
+const BYTE_BUDDY_FOR_JAVA: [number, string][] = [[23, "1.15.0"], [22, "1.14.12"], [21, "1.14.8"], [17, "1.10.20"]];
+
+function versionNumbers(version: string): number[] {
+  return version.split(/[.\-]/).map((part) => parseInt(part, 10)).filter((n) => !isNaN(n));
+}
 
-  while ((match = methodPattern.exec(content)) !== null) {
-    if (!match[2].startsWith("find") && !match[2].startsWith("count") &&
-        !match[2].startsWith("exists") && !match[2].startsWith("delete")) {
-      continue;
-    }
+function dependencyCoordinate(node: DependencyNode): string {
+  return `${node.groupId}:${node.artifactId}`;
+}
 
-    queryMethods.push({
-      returnType: match[1],
-      methodName: match[2],
-      isCustomQuery: content.includes(`@Query`) &&
-                     content.indexOf(`@Query`) < content.indexOf(match[2]),
-    });
-  }
+function dependencyLabel(node: DependencyNode): string {
+  return node.groupId === "project" ? `project ${node.artifactId}` : `${dependencyCoordinate(node)}:${node.version}`;
+}
 
-  // Check for soft delete
-  const hasSoftDelete = content.includes("@Where") && content.includes("deleted");
+function dependencyPath(node: DependencyNode): string {
+  const chain: string[] = [];
+  for (let current: DependencyNode | undefined = node; current; current = current.parent) {
+    chain.unshift(current.version ? `${current.artifactId}:${current.version}` : current.artifactId);
+  }
+  return chain.join(" > ");
+}
 
-  return JSON.stringify({
-    found: true,
-    repository: repositoryName,
-    queryMethodCount: queryMethods.length,
-    queryMethods: queryMethods.slice(0, 10), // First 10 methods
-    hasSoftDelete,
-    testRecommendation: {
-      softDeleteWarning: hasSoftDelete
-        ? "⚠️ Always set .deleted(false) in test data"
-        : null,
-      customQueryTests: queryMethods.filter(m => m.isCustomQuery).length > 0
-        ? "Write tests for custom @Query methods"
-        : "Standard Spring Data methods can use template",
-    },
-  }, null, 2);
+function walkDependencies(roots: DependencyNode[]): DependencyNode[] {
+  const nodes: DependencyNode[] = [];
+  const visit = (node: DependencyNode) => {
+    nodes.push(node);
+    node.children.forEach(visit);
+  };
+  roots.forEach(visit);
+  return nodes;
 }
 
-async function checkSpringBootVersion(projectPath: string): Promise<string> {
-  const pomPath = path.join(projectPath, "pom.xml");
+// Indentation depth of a tree line: Maven draws "+- " / "|  " (3 wide), Gradle "+--- " / "|    " (5 wide)
+function treeLineDepth(prefix: string, width: number): number {
+  return Math.round(prefix.length / width);
+}
 
-  try {
-    const pomContent = await readFile(pomPath, "utf-8");
-    const parser = new XMLParser();
-    const pom = parser.parse(pomContent);
+function attachDependency(stack: DependencyNode[], roots: DependencyNode[], node: DependencyNode, depth: number) {
+  stack.length = depth;
+  const parent = depth > 0 ? stack[depth - 1] : undefined;
+  if (parent) {
+    node.parent = parent;
+    parent.children.push(node);
+  } else {
+    roots.push(node);
+  }
+  stack[depth] = node;
+}
 
-    const springBootVersion =
-      pom.project?.parent?.version ||
-      pom.project?.properties?.["spring-boot.version"] ||
-      "Unknown";
+// mvn dependency:tree text output (-Dverbose adds the omitted nodes), with or without "[INFO] " log prefixes
+function parseMavenDependencyTree(text: string): DependencyNode[] {
+  const roots: DependencyNode[] = [];
+  const stack: DependencyNode[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/^\[INFO\]\s?/, "");
+    const match = /^([|\\+\- ]*)(\(?)([\w.\-]+:[\w.\-]+:[^\s()]+)(.*)$/.exec(line);
+    if (!match) continue;
+    const [, prefix, open, coordinates, rest] = match;
+    const depth = treeLineDepth(prefix, 3);
+    const parts = coordinates.split(":");
+    // groupId:artifactId:packaging:version for the project, then :[classifier:]version:scope below it
+    if (depth === 0 && (parts.length !== 4 || prefix.trim())) continue;
+    if (depth > 0 && parts.length < 5) continue;
+
+    const note = rest.replace(/^\s*-\s*|^\s*\(|\)\s*$/g, "").trim();
+    const node: DependencyNode = {
+      groupId: parts[0],
+      artifactId: parts[1],
+      version: depth === 0 ? parts[3] : parts[parts.length - 2],
+      scope: depth === 0 ? undefined : parts[parts.length - 1],
+      children: [],
+    };
+    const managedFrom = /version managed from ([^\s;)]+)/.exec(note)?.[1];
+    if (managedFrom) {
+      node.requestedVersion = managedFrom;
+      node.mediation = "managed";
+    }
+    if (open) node.omitted = /omitted for ([^;)]+)/.exec(note)?.[1]?.trim() ?? "duplicate";
+    attachDependency(stack, roots, node, depth);
+  }
+  return roots;
+}
 
-    const javaVersion =
-      pom.project?.properties?.["java.version"] ||
-      pom.project?.properties?.["maven.compiler.source"] ||
-      "Unknown";
+// gradle dependencies output; keeps one configuration (testRuntimeClasspath when present)
+function parseGradleDependencyTree(text: string): DependencyNode[] {
+  const sections = new Map<string, DependencyNode[]>();
+  let roots: DependencyNode[] = [];
+  const stack: DependencyNode[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    // Gradle prints no project line; the configuration stands in as the root
+    const section = /^(\w+) - /.exec(line);
+    if (section) {
+      roots = [{ groupId: "project", artifactId: section[1], version: "", children: [] }];
+      sections.set(section[1], roots);
+      stack.length = 0;
+      stack.push(roots[0]);
+      continue;
+    }
+    const match = /^([|\\+\- ]*?)[+\\]--- (.+)$/.exec(line);
+    if (!match) continue;
+    if (roots.length === 0) continue;
+    const depth = treeLineDepth(match[1], 5) + 1;
+    const text = match[2];
+    // Constraints and unresolved declarations are not on the classpath
+    if (/\((c|n)\)\s*$/.test(text)) continue;
+
+    const project = /^project (\S+)/.exec(text);
+    const coordinates = /^([\w.\-]+):([\w.\-]+)(?::([^\s]+))?(?:\s*->\s*([^\s]+))?/.exec(text);
+    if (!project && !coordinates) continue;
+    const requested = coordinates?.[3]?.replace(/^\{(strictly|require|prefer)\s+|\}$/g, "");
+    const node: DependencyNode = project
+      ? { groupId: "project", artifactId: project[1], version: "", children: [] }
+      : {
+        groupId: coordinates![1],
+        artifactId: coordinates![2],
+        version: coordinates![4] ?? requested ?? "",
+        requestedVersion: coordinates![4] && requested && requested !== coordinates![4] ? requested : undefined,
+        mediation: coordinates![4] && requested && requested !== coordinates![4] ? "resolved" : undefined,
+        children: [],
+      };
+    if (/\(\*\)\s*$/.test(text)) node.omitted = "duplicate";
+    if (/FAILED\s*$/.test(text)) node.omitted = "unresolved";
+    attachDependency(stack, roots, node, depth);
+  }
 
-    const isSpringBoot3 = springBootVersion.startsWith("3");
-    const isJava17Plus = parseInt(javaVersion) >= 17;
+  return sections.get("testRuntimeClasspath") ?? Array.from(sections.values()).find((s) => s[0].children.length > 0) ?? [];
+}
 
-    return JSON.stringify({
-      springBootVersion,
-      javaVersion,
-      isSpringBoot3,
-      persistenceApi: isSpringBoot3 ? "jakarta.persistence.*" : "javax.persistence.*",
-      recommendations: {
-        imports: isSpringBoot3
-          ? "Use jakarta.persistence.* imports"
-          : "Use javax.persistence.* imports",
-        testDependencies: isJava17Plus
-          ? "Use JUnit 5.10+, Mockito 5.x+"
-          : "Use JUnit 5.11.4, Mockito 5.14.2 (Java 11 compatible)",
-        moduleOpens: isJava17Plus
-          ? "Add --add-opens flags to maven-surefire-plugin"
-          : "Module opens optional but recommended for Orika",
-      },
-    }, null, 2);
+// Reuse a saved tree unless a build file changed after it was written
+async function cachedDependencyTree(cacheFile: string, buildFiles: string[]): Promise<{ text: string; ageMinutes: number } | null> {
+  try {
+    const cache = await stat(cacheFile);
+    for (const buildFile of buildFiles) {
+      const changed = await stat(buildFile).then((s) => s.mtimeMs > cache.mtimeMs, () => false);
+      if (changed) return null;
+    }
+    return { text: await readFile(cacheFile, "utf-8"), ageMinutes: Math.round((Date.now() - cache.mtimeMs) / 60000) };
   } catch (error) {
-    return JSON.stringify({
-      error: "Could not parse pom.xml",
-      message: "Ensure pom.xml exists and is valid XML",
-    }, null, 2);
+    return null;
   }
 }
 
-async function investigateService(
+async function loadDependencyTrees(
   projectPath: string,
-  serviceName: string
-): Promise<string> {
-  const serviceFiles = await findJavaFiles(projectPath, serviceName);
+  buildTool: BuildTool,
+  refresh: boolean,
+  moduleName?: string,
+  timeoutMinutes?: number
+): Promise<{ trees: { module: string; roots: DependencyNode[] }[]; source: string; error?: string; output?: string }> {
+  if (buildTool === "gradle") {
+    const directory = moduleName ? await moduleDirectory(projectPath, moduleName) : projectPath;
+    const cacheFile = path.join(directory, "build", DEPENDENCY_TREE_CACHE);
+    const buildFiles = ["build.gradle", "build.gradle.kts", "settings.gradle", "settings.gradle.kts", "gradle.properties"]
+      .flatMap((file) => [path.join(projectPath, file), path.join(directory, file)]);
+    const cached = refresh ? null : await cachedDependencyTree(cacheFile, buildFiles);
+    if (cached) {
+      return { trees: [{ module: moduleName ?? ".", roots: parseGradleDependencyTree(cached.text) }], source: `cached ${path.relative(projectPath, cacheFile)} (${cached.ageMinutes} min old)` };
+    }
 
-  if (serviceFiles.length === 0) {
-    return JSON.stringify({
-      found: false,
-      message: `Service ${serviceName} not found`,
-    }, null, 2);
+    const command = `${await getGradleCommand(projectPath)} ${await gradleTaskPrefix(projectPath, moduleName)}dependencies --configuration testRuntimeClasspath --console=plain`;
+    try {
+      const { stdout } = await execAsync(command, { cwd: projectPath, timeout: timeoutMs(timeoutMinutes, DEFAULT_COMPILE_TIMEOUT_MINUTES), maxBuffer: 64 * 1024 * 1024 });
+      await mkdir(path.dirname(cacheFile), { recursive: true });
+      await writeFile(cacheFile, stdout, "utf-8");
+      return { trees: [{ module: moduleName ?? ".", roots: parseGradleDependencyTree(stdout) }], source: command };
+    } catch (error: any) {
+      return { trees: [], source: command, error: error.killed ? "timed out" : "gradle dependencies failed", output: (error.stdout || "") + (error.stderr || "") };
+    }
   }
 
-  const content = await readJavaFile(serviceFiles[0]);
+  const modules = (await selectModules(projectPath, moduleName)).filter((m) => m.packaging !== "pom" || m.dependencies.length > 0);
+  const rootPom = path.join(projectPath, "pom.xml");
+  const fromCache = async () => {
+    const trees: { module: string; roots: DependencyNode[] }[] = [];
+    let oldest = 0;
+    for (const module of modules) {
+      const cached = await cachedDependencyTree(path.join(module.directory, "target", DEPENDENCY_TREE_CACHE), [rootPom, path.join(module.directory, "pom.xml")]);
+      if (!cached) return null;
+      oldest = Math.max(oldest, cached.ageMinutes);
+      trees.push({ module: module.relativePath, roots: parseMavenDependencyTree(cached.text) });
+    }
+    return { trees, ageMinutes: oldest };
+  };
 
-  // Extract autowired repositories
-  const repositories: string[] = [];
-  const autowiredPattern = /@Autowired\s+(?:private\s+)?(\w+Repository)\s+\w+/g;
-  let match;
+  const cached = refresh ? null : await fromCache();
+  if (cached) {
+    return { trees: cached.trees, source: `cached target/${DEPENDENCY_TREE_CACHE} (${cached.ageMinutes} min old)` };
+  }
 
-  while ((match = autowiredPattern.exec(content)) !== null) {
-    repositories.push(match[1]);
+  // The plugin resolves outputFile against each module's basedir
+  const command = `${getMavenCommand()} dependency:tree -Dverbose -DoutputFile=target/${DEPENDENCY_TREE_CACHE} -DappendOutput=false${await mavenModuleArgs(projectPath, moduleName)}`;
+  let output = "";
+  try {
+    const { stdout, stderr } = await execAsync(command, { cwd: projectPath, timeout: timeoutMs(timeoutMinutes, DEFAULT_COMPILE_TIMEOUT_MINUTES), maxBuffer: 64 * 1024 * 1024 });
+    output = stdout + stderr;
+  } catch (error: any) {
+    output = (error.stdout || "") + (error.stderr || "");
+    if (error.killed) return { trees: [], source: command, error: "timed out", output };
   }
+  const written = await fromCache();
+  if (!written || written.trees.every((t) => t.roots.length === 0)) {
+    return { trees: [], source: command, error: "mvn dependency:tree failed", output };
+  }
+  return { trees: written.trees, source: command };
+}
 
-  // Extract public methods
-  const publicMethods: string[] = [];
-  const methodPattern = /public\s+[\w<>]+\s+(\w+)\s*\(/g;
-  while ((match = methodPattern.exec(content)) !== null) {
-    publicMethods.push(match[1]);
+function dependencyIssues(nodes: DependencyNode[], springBootVersion: string, javaVersion: string): DependencyIssue[] {
+  const issues: DependencyIssue[] = [];
+  const resolved = nodes.filter((n) => !n.omitted && n.parent && n.groupId !== "project");
+  const find = (groupId: string, artifactId: string) => resolved.filter((n) => n.groupId === groupId && n.artifactId === artifactId);
+  const first = (groupId: string, artifactId: string) => find(groupId, artifactId)[0];
+  const atLeast = (version: string, minimum: string) => compareVersions(versionNumbers(version), versionNumbers(minimum)) >= 0;
+  const bootMajor = versionNumbers(springBootVersion)[0];
+  const java = versionNumbers(javaVersion.replace(/^1\./, ""))[0];
+
+  // Maven picked the nearest declaration; a major or minor gap means code compiled against one API runs on another
+  const conflicts = new Map<string, { resolved: string; requested: Set<string>; paths: string[]; managed: boolean; resolvedBy: string }>();
+  for (const node of nodes) {
+    const conflictWith = /^conflict with (\S+)/.exec(node.omitted ?? "")?.[1];
+    const requested = conflictWith ? node.version : node.requestedVersion;
+    const winner = conflictWith ?? (node.requestedVersion ? node.version : undefined);
+    if (!requested || !winner || node.omitted === "duplicate") continue;
+    // Maven marks every BOM-managed transitive; those are intended unless the major version moves
+    const entry = conflicts.get(dependencyCoordinate(node)) ?? {
+      resolved: winner,
+      requested: new Set<string>(),
+      paths: [],
+      managed: node.mediation === "managed",
+      resolvedBy: conflictWith ? "Maven picks" : node.mediation === "managed" ? "dependencyManagement sets" : "Gradle resolves",
+    };
+    entry.managed = entry.managed && node.mediation === "managed";
+    entry.requested.add(requested);
+    entry.paths.push(dependencyPath(node));
+    conflicts.set(dependencyCoordinate(node), entry);
+  }
+  for (const [artifact, conflict] of conflicts) {
+    const gaps = Array.from(conflict.requested).map((version) => {
+      const [a, b] = [versionNumbers(version), versionNumbers(conflict.resolved)];
+      return a[0] !== b[0] ? 2 : a[1] !== b[1] ? 1 : 0;
+    });
+    const gap = Math.max(...gaps);
+    if (gap === 0 || (conflict.managed && gap < 2)) continue;
+    const downgraded = Array.from(conflict.requested).some((v) => compareVersions(versionNumbers(v), versionNumbers(conflict.resolved)) > 0);
+    issues.push({
+      type: "version conflict",
+      // A managed upgrade is what the BOM is for; a downgrade or an unmanaged major jump breaks callers
+      severity: gap === 2 && (downgraded || !conflict.managed) ? "error" : downgraded ? "warning" : "info",
+      artifacts: [artifact],
+      detail: `${conflict.resolvedBy} ${conflict.resolved} over ${Array.from(conflict.requested).join(", ")}${downgraded ? " - a library expects a newer version than the one on the classpath" : ""}`,
+      paths: conflict.paths.slice(0, 3),
+      fix: conflict.managed && !downgraded
+        ? `Expected with the Spring Boot BOM; if a NoSuchMethodError names ${artifact}, upgrade the library that still requests ${Array.from(conflict.requested)[0]}`
+        : `Pin ${artifact} in <dependencyManagement> (or a Gradle constraint) to the version its users need, or exclude it where it comes in`,
+    });
   }
 
-  // Extract exceptions thrown
-  const exceptions: string[] = [];
-  const throwPattern = /throw\s+new\s+(\w+Exception)/g;
-  while ((match = throwPattern.exec(content)) !== null) {
-    if (!exceptions.includes(match[1])) {
-      exceptions.push(match[1]);
+  for (const family of DEPENDENCY_FAMILIES) {
+    const members = resolved.filter((n) => family.matches(n.groupId, n.artifactId) && n.version);
+    const versions = new Map<string, DependencyNode[]>();
+    for (const member of members) {
+      const key = family.version ? family.version(member.version) : member.version;
+      versions.set(key, [...(versions.get(key) ?? []), member]);
     }
+    if (versions.size < 2) continue;
+    const [majority] = Array.from(versions.entries()).sort((a, b) => b[1].length - a[1].length);
+    const outliers = Array.from(versions.entries()).filter(([key]) => key !== majority[0]).flatMap(([, list]) => list);
+    issues.push({
+      type: "misaligned versions",
+      severity: "error",
+      artifacts: Array.from(new Set(outliers.map((n) => `${dependencyCoordinate(n)}:${n.version}`))),
+      detail: `${family.name} artifacts must share one version; most are ${majority[1][0].version}`,
+      paths: outliers.slice(0, 3).map(dependencyPath),
+      fix: `Import the ${family.name} BOM or drop the explicit versions so the Spring Boot dependency management aligns them`,
+    });
   }
 
-  // Check for @Transactional
-  const isTransactional = content.includes("@Transactional");
+  // The JUnit Platform runs every engine it finds; JUnit 4 classes need the vintage engine to run at all
+  const jupiter = first("org.junit.jupiter", "junit-jupiter-engine");
+  const vintage = first("org.junit.vintage", "junit-vintage-engine");
+  const junit4 = first("junit", "junit");
+  const testng = first("org.testng", "testng");
+  if (junit4 && jupiter && !vintage) {
+    issues.push({
+      type: "junit engines",
+      severity: "warning",
+      artifacts: [`junit:junit:${junit4.version}`],
+      detail: "JUnit 4 is on the test classpath without junit-vintage-engine - @org.junit.Test classes are silently skipped",
+      paths: [dependencyPath(junit4)],
+      fix: "Migrate the JUnit 4 tests to JUnit 5, or add org.junit.vintage:junit-vintage-engine; exclude junit:junit if nothing uses it",
+    });
+  } else if (vintage && jupiter) {
+    issues.push({
+      type: "junit engines",
+      severity: "info",
+      artifacts: [`junit-jupiter-engine:${jupiter.version}`, `junit-vintage-engine:${vintage.version}`],
+      detail: "Both the Jupiter and the vintage engine run - JUnit 4 and 5 annotations can be mixed up in one class without an error",
+      paths: [dependencyPath(vintage)],
+      fix: "Remove the vintage engine once the JUnit 4 tests are migrated",
+    });
+  }
+  if (testng && jupiter) {
+    issues.push({
+      type: "junit engines",
+      severity: "warning",
+      artifacts: [`org.testng:testng:${testng.version}`],
+      detail: "TestNG and JUnit 5 are both on the test classpath - Surefire picks one provider and the other tests do not run",
+      paths: [dependencyPath(testng)],
+      fix: "Use one test framework, or configure both Surefire providers explicitly",
+    });
+  }
+  const hamcrestCore = first("org.hamcrest", "hamcrest-core");
+  const hamcrest = first("org.hamcrest", "hamcrest");
+  if (hamcrestCore && hamcrest && !hamcrestCore.version.startsWith("2")) {
+    issues.push({
+      type: "misaligned versions",
+      severity: "warning",
+      artifacts: [`org.hamcrest:hamcrest-core:${hamcrestCore.version}`, `org.hamcrest:hamcrest:${hamcrest.version}`],
+      detail: "Two copies of the org.hamcrest classes - whichever comes first on the classpath wins",
+      paths: [dependencyPath(hamcrestCore)],
+      fix: "Exclude org.hamcrest:hamcrest-core from junit:junit",
+    });
+  }
+
+  const javax = resolved.filter((n) => JAVAX_NAMESPACE_GROUPS.test(n.groupId) || (n.groupId === "org.hibernate" && n.artifactId === "hibernate-core"));
+  const jakarta = resolved.filter((n) =>
+    (JAKARTA_NAMESPACE_SINCE[n.artifactId] !== undefined && (versionNumbers(n.version)[0] ?? 0) >= JAKARTA_NAMESPACE_SINCE[n.artifactId]) ||
+    (n.groupId === "org.hibernate.orm" && n.artifactId === "hibernate-core")
+  );
+  if (javax.length > 0 && (jakarta.length > 0 || bootMajor >= 3)) {
+    const wrong = bootMajor >= 3 ? javax : bootMajor === 2 ? jakarta : javax;
+    issues.push({
+      type: "javax/jakarta mix",
+      severity: "error",
+      artifacts: Array.from(new Set(wrong.map((n) => `${dependencyCoordinate(n)}:${n.version}`))),
+      detail: jakarta.length > 0
+        ? `${javax.length} javax.* and ${jakarta.length} jakarta.* API artifact(s) on one classpath${bootMajor ? ` - Spring Boot ${bootMajor} uses ${bootMajor >= 3 ? "jakarta" : "javax"}` : ""}`
+        : `javax.* APIs on a Spring Boot ${bootMajor} classpath - Spring Boot 3 uses jakarta`,
+      paths: wrong.slice(0, 3).map(dependencyPath),
+      fix: bootMajor >= 3
+        ? "Replace the javax artifacts with their jakarta equivalents (or newer versions of the libraries that bring them)"
+        : "Remove the jakarta 3.x+ artifacts - Spring Boot 2 code imports javax.*",
+    });
+  } else if (jakarta.length > 0 && bootMajor === 2) {
+    issues.push({
+      type: "javax/jakarta mix",
+      severity: "error",
+      artifacts: Array.from(new Set(jakarta.map((n) => `${dependencyCoordinate(n)}:${n.version}`))),
+      detail: "jakarta.* namespace APIs on a Spring Boot 2 classpath",
+      paths: jakarta.slice(0, 3).map(dependencyPath),
+      fix: "Use the javax-namespace versions of these libraries on Spring Boot 2",
+    });
+  }
+
+  const incompatible = (node: DependencyNode | undefined, severity: DependencyIssue["severity"], detail: string, fix: string) => {
+    if (!node) return;
+    issues.push({ type: "incompatible test library", severity, artifacts: [`${dependencyCoordinate(node)}:${node.version}`], detail, paths: [dependencyPath(node)], fix });
+  };
+  const springCore = first("org.springframework", "spring-core");
+  const expectedSpring = bootMajor ? bootMajor + 3 : undefined;
+  if (springCore && expectedSpring && versionNumbers(springCore.version)[0] !== expectedSpring) {
+    incompatible(springCore, "error", `Spring Boot ${springBootVersion} needs Spring Framework ${expectedSpring}.x`,
+      "Remove the explicit Spring Framework version so the Boot BOM manages it");
+  }
+  const mockito = first("org.mockito", "mockito-core");
+  if (mockito && java && java < 11 && atLeast(mockito.version, "5.0.0")) {
+    incompatible(mockito, "error", `Mockito 5 needs Java 11; the project targets Java ${java}`, "Use Mockito 4.11.x on Java 8");
+  }
+  const byteBuddy = first("net.bytebuddy", "byte-buddy");
+  const byteBuddyNeeded = BYTE_BUDDY_FOR_JAVA.find(([version]) => java >= version);
+  if (byteBuddy && byteBuddyNeeded && !atLeast(byteBuddy.version, byteBuddyNeeded[1])) {
+    incompatible(byteBuddy, "error", `Byte Buddy ${byteBuddy.version} cannot read Java ${java} class files - Mockito fails with "Could not modify all classes"`,
+      `Upgrade to byte-buddy ${byteBuddyNeeded[1]}+ (and mockito-core with it), or let the Spring Boot BOM manage both`);
+  }
+  const jupiterApi = first("org.junit.jupiter", "junit-jupiter-api");
+  if (jupiterApi && versionNumbers(jupiterApi.version)[0] >= 6 && ((java && java < 17) || (bootMajor && bootMajor < 4))) {
+    incompatible(jupiterApi, "error", `JUnit 6 needs Java 17 and Spring Boot 4${bootMajor ? `; the project is on Spring Boot ${springBootVersion}` : ""}`,
+      "Stay on the JUnit 5 version managed by Spring Boot");
+  }
+  if (bootMajor >= 3) {
+    incompatible(first("com.github.tomakehurst", "wiremock-jre8") ?? first("com.github.tomakehurst", "wiremock"), "error",
+      "WireMock 2.x brings Jetty 9 and javax.servlet, which clash with Spring Boot 3",
+      "Use org.wiremock:wiremock-standalone 3.x");
+    incompatible(first("org.mockito", "mockito-inline"), "info", "mockito-inline is empty since Mockito 5 - the inline mock maker is the default",
+      "Remove org.mockito:mockito-inline");
+  }
+  const bootTestcontainers = first("org.springframework.boot", "spring-boot-testcontainers");
+  const testcontainers = first("org.testcontainers", "testcontainers");
+  if (bootTestcontainers && testcontainers && !atLeast(testcontainers.version, "1.18.0")) {
+    incompatible(testcontainers, "error", "spring-boot-testcontainers (@ServiceConnection) needs Testcontainers 1.18+",
+      "Drop the explicit testcontainers.version so Spring Boot manages it");
+  }
+
+  const order = { error: 0, warning: 1, info: 2 };
+  return issues.sort((a, b) => order[a.severity] - order[b.severity]);
+}
+
+async function analyzeDependencies(
+  projectPath: string,
+  refresh?: boolean,
+  artifact?: string,
+  treeFile?: string,
+  moduleName?: string,
+  timeoutMinutes?: number
+): Promise<string> {
+  const buildTool = await detectBuildTool(projectPath);
+  let trees: { module: string; roots: DependencyNode[] }[];
+  let source: string;
+
+  if (treeFile) {
+    const file = path.resolve(projectPath, treeFile);
+    const text = await readFile(file, "utf-8");
+    const roots = /[+\\]--- /.test(text) ? parseGradleDependencyTree(text) : parseMavenDependencyTree(text);
+    // A saved reactor build has one tree per module
+    trees = roots.length > 1
+      ? roots.map((root) => ({ module: root.artifactId, roots: [root] }))
+      : [{ module: moduleName ?? ".", roots }];
+    source = path.relative(projectPath, file);
+  } else {
+    const loaded = await loadDependencyTrees(projectPath, buildTool, refresh ?? false, moduleName, timeoutMinutes);
+    if (loaded.error) {
+      return JSON.stringify({
+        success: false,
+        command: loaded.source,
+        message: loaded.error,
+        output: (loaded.output ?? "").split(/\r?\n/).filter((l) => /ERROR|FAILURE|What went wrong|Could not|not found|not recognized/.test(l)).slice(0, 20),
+        hint: "Pass treeFile with saved `mvn dependency:tree -Dverbose` or `gradle dependencies` output to analyze without a build",
+      }, null, 2);
+    }
+    trees = loaded.trees;
+    source = loaded.source;
+  }
 
+  const versions = JSON.parse(await checkSpringBootVersion(projectPath, moduleName));
+  const nodes = walkDependencies(trees.flatMap((t) => t.roots));
+  const resolved = nodes.filter((n) => !n.omitted && n.parent && n.groupId !== "project");
+  // The tree's spring-boot version beats the one read from the build file
+  const springBootVersion = resolved.find((n) => n.groupId === "org.springframework.boot" && n.artifactId === "spring-boot")?.version ?? versions.springBootVersion ?? "Unknown";
+  const javaVersion = String(versions.javaVersion ?? "Unknown");
+  // Each module's tree is its own test classpath; the same finding in several modules is reported once
+  const issues: DependencyIssue[] = [];
+  for (const tree of trees) {
+    for (const issue of dependencyIssues(walkDependencies(tree.roots), springBootVersion, javaVersion)) {
+      const same = issues.find((i) => i.type === issue.type && i.detail === issue.detail && i.artifacts.join() === issue.artifacts.join());
+      if (same) same.modules?.push(tree.module);
+      else issues.push({ ...issue, modules: trees.length > 1 ? [tree.module] : undefined });
+    }
+  }
+  for (const engine of ["junit-jupiter-engine", "junit-jupiter-api"]) {
+    const versions = Array.from(new Set(resolved.filter((n) => n.groupId === "org.junit.jupiter" && n.artifactId === engine).map((n) => n.version)));
+    if (versions.length > 1) {
+      issues.push({
+        type: "junit engines",
+        severity: "warning",
+        artifacts: versions.map((v) => `org.junit.jupiter:${engine}:${v}`),
+        detail: `${engine} resolves to ${versions.join(" and ")} in different modules`,
+        fix: "Let one JUnit BOM version (junit-jupiter.version) manage every module",
+      });
+    }
+  }
+  const severityOrder = { error: 0, warning: 1, info: 2 };
+  issues.sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
+
+  const libraryVersion = (groupId: string, artifactId: string) => resolved.find((n) => n.groupId === groupId && n.artifactId === artifactId)?.version;
+  const testLibraries = Object.fromEntries(Object.entries({
+    junitJupiter: libraryVersion("org.junit.jupiter", "junit-jupiter-api"),
+    junitPlatform: libraryVersion("org.junit.platform", "junit-platform-commons"),
+    junit4: libraryVersion("junit", "junit"),
+    junitVintage: libraryVersion("org.junit.vintage", "junit-vintage-engine"),
+    testng: libraryVersion("org.testng", "testng"),
+    mockito: libraryVersion("org.mockito", "mockito-core"),
+    byteBuddy: libraryVersion("net.bytebuddy", "byte-buddy"),
+    assertj: libraryVersion("org.assertj", "assertj-core"),
+    hamcrest: libraryVersion("org.hamcrest", "hamcrest"),
+    testcontainers: libraryVersion("org.testcontainers", "testcontainers"),
+    jackson: libraryVersion("com.fasterxml.jackson.core", "jackson-databind"),
+    springFramework: libraryVersion("org.springframework", "spring-core"),
+  }).filter(([, version]) => version !== undefined));
+
+  const matcher = artifact?.toLowerCase();
+  const matches = matcher
+    ? nodes
+      .filter((n) => n.parent && `${n.groupId}:${n.artifactId}`.toLowerCase().includes(matcher))
+      .map((n) => ({
+        artifact: dependencyLabel(n),
+        scope: n.scope,
+        omitted: n.omitted,
+        requestedVersion: n.requestedVersion,
+        path: dependencyPath(n),
+      }))
+      .slice(0, 30)
+    : undefined;
+
+  const errors = issues.filter((i) => i.severity === "error");
   return JSON.stringify({
-    found: true,
-    service: serviceName,
-    isTransactional,
-    repositoryDependencies: repositories,
-    publicMethodCount: publicMethods.length,
-    publicMethods: publicMethods.slice(0, 10),
-    exceptionTypes: exceptions,
-    testRecommendation: {
-      setup: `Autowire: ${serviceName} and ${repositories.join(", ")}`,
-      happyPath: `Test ${publicMethods.length} public methods`,
-      exceptions: exceptions.length > 0
-        ? `Write tests for ${exceptions.join(", ")}`
-        : "No explicit exception tests needed",
-    },
+    buildTool,
+    source,
+    springBootVersion,
+    javaVersion,
+    modules: trees.map((tree) => {
+      const treeNodes = walkDependencies(tree.roots).filter((n) => n.parent);
+      return {
+        module: tree.module,
+        artifacts: new Set(treeNodes.filter((n) => !n.omitted).map(dependencyCoordinate)).size,
+        omitted: treeNodes.filter((n) => n.omitted && n.omitted !== "duplicate").length,
+        direct: tree.roots.flatMap((root) => root.children.filter((n) => !n.omitted)).map((n) =>
+          `${dependencyLabel(n)}${n.scope && n.scope !== "compile" ? ` (${n.scope})` : ""}`
+        ),
+      };
+    }),
+    testLibraries,
+    issues,
+    matches,
+    recommendation: errors.length > 0
+      ? `Fix ${errors[0].type}: ${errors[0].artifacts.slice(0, 3).join(", ")} - ${errors[0].fix}`
+      : issues.length > 0
+        ? `No blocking conflicts; ${issues.length} warning(s) to review`
+        : "No dependency conflicts on the test classpath ✓",
   }, null, 2);
 }
 
@@ -995,6 +10847,21 @@ const server = new Server(
   }
 );
 
+// Progress notifications for clients that sent a progressToken with the tool call
+function jobProgressNotifier(progressToken?: string | number): ((job: BuildJob) => void) | undefined {
+  if (progressToken === undefined) return undefined;
+  return (job: BuildJob) => {
+    server
+      .notification({
+        method: "notifications/progress",
+        params: { progressToken, progress: job.progress, message: describeJobProgress(job) },
+      })
+      .catch(() => {
+        // Client went away; the job keeps running
+      });
+  };
+}
+
 server.setRequestHandler(ListResourcesRequestSchema, async () => {
   return { resources: RESOURCES };
 });
@@ -1049,7 +10916,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             {
               type: "text",
               text: await investigateJwtClaims(
-                resolveProjectPath(args.projectPath as string)
+                resolveProjectPath(args.projectPath as string),
+                args.module as string | undefined
               ),
             },
           ],
@@ -1061,7 +10929,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             {
               type: "text",
               text: await investigateResponseWrapper(
-                resolveProjectPath(args.projectPath as string)
+                resolveProjectPath(args.projectPath as string),
+                args.module as string | undefined
               ),
             },
           ],
@@ -1074,7 +10943,25 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               type: "text",
               text: await investigateEntityRelationships(
                 resolveProjectPath(args.projectPath as string),
-                args.entityName as string
+                args.entityName as string,
+                args.module as string | undefined
+              ),
+            },
+          ],
+        };
+
+      case "analyze_dependencies":
+        return {
+          content: [
+            {
+              type: "text",
+              text: await analyzeDependencies(
+                resolveProjectPath(args.projectPath as string),
+                args.refresh as boolean | undefined,
+                args.artifact as string | undefined,
+                args.treeFile as string | undefined,
+                args.module as string | undefined,
+                args.timeoutMinutes as number | undefined
               ),
             },
           ],
@@ -1086,7 +10973,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             {
               type: "text",
               text: await findMissingProperties(
-                resolveProjectPath(args.projectPath as string)
+                resolveProjectPath(args.projectPath as string),
+                args.module as string | undefined
               ),
             },
           ],
@@ -1098,7 +10986,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             {
               type: "text",
               text: await validateMavenCompile(
-                resolveProjectPath(args.projectPath as string)
+                resolveProjectPath(args.projectPath as string),
+                args.module as string | undefined,
+                args.timeoutMinutes as number | undefined
               ),
             },
           ],
@@ -1112,7 +11002,28 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               text: await runTestCheckpoint(
                 resolveProjectPath(args.projectPath as string),
                 args.testClass as string,
-                args.testMethod as string | undefined
+                args.testMethod as string | undefined,
+                args.module as string | undefined,
+                args.timeoutMinutes as number | undefined
+              ),
+            },
+          ],
+        };
+
+      case "detect_flaky_tests":
+        return {
+          content: [
+            {
+              type: "text",
+              text: await detectFlakyTests(
+                resolveProjectPath(args.projectPath as string),
+                args.testClass as string,
+                args.testMethod as string | undefined,
+                args.runs as number | undefined,
+                args.randomOrder as boolean | undefined,
+                args.contextMode as FlakyContextMode | undefined,
+                args.module as string | undefined,
+                args.timeoutMinutes as number | undefined
               ),
             },
           ],
@@ -1125,7 +11036,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               type: "text",
               text: await analyzeController(
                 resolveProjectPath(args.projectPath as string),
-                args.controllerName as string
+                args.controllerName as string,
+                args.module as string | undefined
               ),
             },
           ],
@@ -1138,7 +11050,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               type: "text",
               text: await checkJsonNamingStrategy(
                 resolveProjectPath(args.projectPath as string),
-                args.dtoPackage as string
+                args.dtoPackage as string,
+                args.module as string | undefined
               ),
             },
           ],
@@ -1150,7 +11063,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             {
               type: "text",
               text: await findBeansNeedingExclusion(
-                resolveProjectPath(args.projectPath as string)
+                resolveProjectPath(args.projectPath as string),
+                args.module as string | undefined
               ),
             },
           ],
@@ -1163,7 +11077,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               type: "text",
               text: await analyzeRepository(
                 resolveProjectPath(args.projectPath as string),
-                args.repositoryName as string
+                args.repositoryName as string,
+                args.module as string | undefined
               ),
             },
           ],
@@ -1175,7 +11090,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             {
               type: "text",
               text: await checkSpringBootVersion(
-                resolveProjectPath(args.projectPath as string)
+                resolveProjectPath(args.projectPath as string),
+                args.module as string | undefined
               ),
             },
           ],
@@ -1188,7 +11104,238 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               type: "text",
               text: await investigateService(
                 resolveProjectPath(args.projectPath as string),
-                args.serviceName as string
+                args.serviceName as string,
+                args.module as string | undefined
+              ),
+            },
+          ],
+        };
+
+      case "generate_controller_test":
+        return {
+          content: [
+            {
+              type: "text",
+              text: await generateControllerTest(
+                resolveProjectPath(args.projectPath as string),
+                args.controllerName as string,
+                args.writeFile as boolean | undefined,
+                args.module as string | undefined
+              ),
+            },
+          ],
+        };
+
+      case "list_endpoints":
+        return {
+          content: [
+            {
+              type: "text",
+              text: await listEndpoints(
+                resolveProjectPath(args.projectPath as string),
+                args.format as string | undefined,
+                args.module as string | undefined
+              ),
+            },
+          ],
+        };
+
+      case "find_untested_code":
+        return {
+          content: [
+            {
+              type: "text",
+              text: await findUntestedCode(
+                resolveProjectPath(args.projectPath as string),
+                args.module as string | undefined
+              ),
+            },
+          ],
+        };
+
+      case "analyze_test_contexts":
+        return {
+          content: [
+            {
+              type: "text",
+              text: await analyzeTestContexts(
+                resolveProjectPath(args.projectPath as string),
+                args.module as string | undefined
+              ),
+            },
+          ],
+        };
+
+      case "get_coverage_summary":
+        return {
+          content: [
+            {
+              type: "text",
+              text: await getCoverageSummary(
+                resolveProjectPath(args.projectPath as string),
+                args.className as string | undefined,
+                args.run as boolean | undefined,
+                args.testClass as string | undefined,
+                args.module as string | undefined,
+                args.timeoutMinutes as number | undefined
+              ),
+            },
+          ],
+        };
+
+      case "start_build_job":
+        return {
+          content: [
+            {
+              type: "text",
+              text: await reportBuildJob(
+                await startBuildJob(
+                  resolveProjectPath(args.projectPath as string),
+                  (args.kind as BuildJobKind | undefined) ?? "test",
+                  args.testClass as string | undefined,
+                  args.testMethod as string | undefined,
+                  args.module as string | undefined,
+                  args.timeoutMinutes as number | undefined
+                ),
+                args.waitSeconds as number | undefined,
+                jobProgressNotifier(request.params._meta?.progressToken)
+              ),
+            },
+          ],
+        };
+
+      case "get_job_status":
+        return {
+          content: [
+            {
+              type: "text",
+              text: args.jobId
+                ? await reportBuildJob(
+                    getBuildJob(args.jobId as string),
+                    args.waitSeconds as number | undefined,
+                    jobProgressNotifier(request.params._meta?.progressToken)
+                  )
+                : listBuildJobs(),
+            },
+          ],
+        };
+
+      case "cancel_job":
+        return {
+          content: [
+            {
+              type: "text",
+              text: await cancelBuildJob(args.jobId as string),
+            },
+          ],
+        };
+
+      case "analyze_test_datasource":
+        return {
+          content: [
+            {
+              type: "text",
+              text: await analyzeTestDatasource(
+                resolveProjectPath(args.projectPath as string),
+                args.module as string | undefined
+              ),
+            },
+          ],
+        };
+
+      case "analyze_security_config":
+        return {
+          content: [
+            {
+              type: "text",
+              text: await analyzeSecurityConfig(
+                resolveProjectPath(args.projectPath as string),
+                args.module as string | undefined
+              ),
+            },
+          ],
+        };
+
+      case "entity_graph":
+        return {
+          content: [
+            {
+              type: "text",
+              text: await entityGraph(
+                resolveProjectPath(args.projectPath as string),
+                args.format as string | undefined,
+                args.module as string | undefined
+              ),
+            },
+          ],
+        };
+
+      case "generate_entity_fixture":
+        return {
+          content: [
+            {
+              type: "text",
+              text: await generateEntityFixture(
+                resolveProjectPath(args.projectPath as string),
+                args.entityName as string,
+                args.writeFile as boolean | undefined,
+                args.module as string | undefined
+              ),
+            },
+          ],
+        };
+
+      case "check_schema_drift":
+        return {
+          content: [
+            {
+              type: "text",
+              text: await checkSchemaDrift(
+                resolveProjectPath(args.projectPath as string),
+                args.module as string | undefined
+              ),
+            },
+          ],
+        };
+
+      case "map_exception_handling":
+        return {
+          content: [
+            {
+              type: "text",
+              text: await mapExceptionHandling(
+                resolveProjectPath(args.projectPath as string),
+                args.controllerName as string | undefined,
+                args.module as string | undefined
+              ),
+            },
+          ],
+        };
+
+      case "trace_endpoint":
+        return {
+          content: [
+            {
+              type: "text",
+              text: await traceEndpoint(
+                resolveProjectPath(args.projectPath as string),
+                args.method as string,
+                args.path as string,
+                args.module as string | undefined
+              ),
+            },
+          ],
+        };
+
+      case "get_index_status":
+        return {
+          content: [
+            {
+              type: "text",
+              text: await getIndexStatus(
+                resolveProjectPath(args.projectPath as string),
+                args.refresh as boolean | undefined,
+                args.module as string | undefined
               ),
             },
           ],
@@ -1227,6 +11374,9 @@ async function main() {
   };
   process.stdin.on("end", shutdown);
   process.stdin.on("close", shutdown);
+  process.on("SIGTERM", shutdown);
+  process.on("SIGINT", shutdown);
+  process.on("exit", stopAllBuildJobs);
 }
 
 main().catch((error) => {
@@ -0,0 +1,76 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { access } from "node:fs/promises";
+import { join } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { createProject, withServer } from "./helpers.mjs";
+
+const POM = "<project><modelVersion>4.0.0</modelVersion><groupId>com.acme</groupId><artifactId>shop</artifactId><version>1</version></project>";
+
+// Stands in for Maven: logs like Surefire and writes one report with a failing test
+const FAKE_MVN = `#!/bin/sh
+echo "[INFO] Building shop 1 [1/1]"
+echo "[INFO] Running com.acme.ItemTest"
+mkdir -p target/surefire-reports
+cat > target/surefire-reports/TEST-com.acme.ItemTest.xml <<'XML'
+<testsuite name="com.acme.ItemTest" tests="2" failures="1" errors="0" skipped="0" time="0.1">
+  <testcase name="lists" classname="com.acme.ItemTest" time="0.05"/>
+  <testcase name="creates" classname="com.acme.ItemTest" time="0.05"><failure message="expected 201" type="java.lang.AssertionError">expected 201</failure></testcase>
+</testsuite>
+XML
+echo "[ERROR] Tests run: 2, Failures: 1, Errors: 0, Skipped: 0, Time elapsed: 0.1 s <<< FAILURE! - in com.acme.ItemTest"
+exit 1
+`;
+
+// A build that takes a while and leaves a marker if nobody stops it
+const SLOW_MVN = `#!/bin/sh
+sleep 2
+touch finished.txt
+`;
+
+test("runs the test suite in the background and reports the parsed results", async (t) => {
+  const projectPath = await createProject(t, { "pom.xml": POM, "bin/mvn": FAKE_MVN });
+
+  await withServer(async (call) => {
+    const started = await call("start_build_job", { projectPath });
+    assert.equal(started.command, "mvn test");
+
+    const job = await call("get_job_status", { jobId: started.jobId, waitSeconds: 30 });
+    assert.equal(job.status, "failed");
+    assert.equal(job.progress, "shop [1/1] - 1 test classes done, 2 tests run");
+    assert.equal(job.testFailures, 1);
+    assert.equal(job.result.success, false);
+    assert.deepEqual(job.result.failedTests.map((f) => `${f.class}#${f.method}: ${f.message}`), [
+      "com.acme.ItemTest#creates: expected 201",
+    ]);
+
+    const { jobs } = await call("get_job_status", {});
+    assert.deepEqual(jobs.map((j) => `${j.jobId} ${j.status}`), [`${started.jobId} failed`]);
+  }, { pathPrefix: join(projectPath, "bin") });
+});
+
+test("cancels a running job and stops its processes", async (t) => {
+  const projectPath = await createProject(t, { "pom.xml": POM, "bin/mvn": SLOW_MVN });
+
+  await withServer(async (call) => {
+    const { jobId } = await call("start_build_job", { projectPath, kind: "compile" });
+    const job = await call("cancel_job", { jobId });
+    assert.equal(job.status, "cancelled");
+    await assert.rejects(call("get_job_status", { jobId: "job-99" }), /Job job-99 not found. Known jobs: job-1/);
+  }, { pathPrefix: join(projectPath, "bin") });
+
+  await sleep(3000);
+  await assert.rejects(access(join(projectPath, "finished.txt")));
+});
+
+test("stops running jobs when the server shuts down", async (t) => {
+  const projectPath = await createProject(t, { "pom.xml": POM, "bin/mvn": SLOW_MVN });
+
+  await withServer(async (call) => {
+    const job = await call("start_build_job", { projectPath });
+    assert.equal(job.status, "running");
+  }, { pathPrefix: join(projectPath, "bin") });
+
+  await sleep(3000);
+  await assert.rejects(access(join(projectPath, "finished.txt")));
+});
@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { callTool, createProject } from "./helpers.mjs";
+
+test("reads the Java version from a Kotlin jvmToolchain in a Gradle subproject", async (t) => {
+  const projectPath = await createProject(t, {
+    "settings.gradle.kts": 'include(":svc:user")\n',
+    "build.gradle.kts": 'plugins { id("org.springframework.boot") version "3.2.1" }\n',
+    "svc/user/build.gradle.kts": "kotlin { jvmToolchain(17) }\n",
+  });
+  const result = await callTool("check_spring_boot_version", { projectPath, module: ":svc:user" });
+
+  assert.equal(result.buildTool, "gradle");
+  assert.equal(result.springBootVersion, "3.2.1");
+  assert.equal(result.javaVersion, "17");
+  assert.equal(result.recommendations.testDependencies, "Use JUnit 5.10+, Mockito 5.x+");
+});
+
+test("scopes analysis to a Gradle subproject given by its project path", async (t) => {
+  const projectPath = await createProject(t, {
+    "settings.gradle.kts": 'include(":svc:user", ":svc:order")\n',
+    "build.gradle.kts": "",
+    "svc/user/src/main/java/com/acme/UserController.java": `package com.acme;
+import org.springframework.web.bind.annotation.*;
+@RestController @RequestMapping("/users")
+public class UserController { @GetMapping("/{id}") public String get(@PathVariable Long id) { return ""; } }`,
+    "svc/order/src/main/java/com/acme/OrderController.java": `package com.acme;
+import org.springframework.web.bind.annotation.*;
+@RestController @RequestMapping("/orders")
+public class OrderController { @GetMapping public String list() { return ""; } }`,
+  });
+  const result = await callTool("list_endpoints", { projectPath, module: ":svc:user" });
+
+  assert.deepEqual(result.endpoints.map((e) => `${e.method} ${e.path} ${e.module}`), ["GET /users/{id} svc/user"]);
+});
+
+test("recommends Mockito 4 for Java 8 projects", async (t) => {
+  const projectPath = await createProject(t, {
+    "build.gradle": `plugins { id 'org.springframework.boot' version '2.7.18' }
+java { sourceCompatibility = JavaVersion.VERSION_1_8 }
+`,
+  });
+  const result = await callTool("check_spring_boot_version", { projectPath });
+
+  assert.equal(result.javaVersion, "8");
+  assert.equal(result.recommendations.testDependencies, "Use JUnit 5.11.4, Mockito 4.11.0 (Mockito 5 needs Java 11)");
+});
@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { callTool, createProject } from "./helpers.mjs";
+
+const POM = "<project><modelVersion>4.0.0</modelVersion><groupId>com.acme</groupId><artifactId>shop</artifactId><version>1</version></project>";
+
+const controller = (name, path) => `package com.acme.web;
+import org.springframework.web.bind.annotation.*;
+@RestController @RequestMapping("${path}")
+public class ${name} { @GetMapping public String list() { return ""; } }`;
+
+test("takes an abbreviation that fits one class of the expected kind", async (t) => {
+  const projectPath = await createProject(t, {
+    "pom.xml": POM,
+    "src/main/java/com/acme/web/UserController.java": controller("UserController", "/users"),
+    "src/main/java/com/acme/util/UserCtrlUtil.java": "package com.acme.util;\npublic class UserCtrlUtil {}",
+  });
+  const result = await callTool("analyze_controller", { projectPath, controllerName: "UserCtrl" });
+
+  assert.equal(result.found, true);
+  assert.equal(result.controller, "UserController");
+  assert.deepEqual(result.resolvedFrom, { name: "UserCtrl", matchedBy: "abbreviation" });
+});
+
+test("resolves fully-qualified names and file paths", async (t) => {
+  const projectPath = await createProject(t, {
+    "pom.xml": POM,
+    "src/main/java/com/acme/web/UserController.java": controller("UserController", "/users"),
+  });
+
+  const byName = await callTool("analyze_controller", { projectPath, controllerName: "com.acme.web.UserController" });
+  assert.equal(byName.resolvedFrom.matchedBy, "qualified name");
+
+  const byPath = await callTool("analyze_controller", { projectPath, controllerName: "web/UserController.java" });
+  assert.equal(byPath.resolvedFrom.matchedBy, "file path");
+});
+
+test("lists candidates when an abbreviation fits several classes", async (t) => {
+  const projectPath = await createProject(t, {
+    "pom.xml": POM,
+    "src/main/java/com/acme/web/UserController.java": controller("UserController", "/users"),
+    "src/main/java/com/acme/web/UserCatalogController.java": controller("UserCatalogController", "/catalog"),
+  });
+  const result = await callTool("analyze_controller", { projectPath, controllerName: "UserC" });
+
+  assert.equal(result.found, false);
+  assert.deepEqual(result.candidates.map((c) => c.qualifiedName), [
+    "com.acme.web.UserController",
+    "com.acme.web.UserCatalogController",
+  ]);
+});
+
+test("suggests misspellings instead of guessing", async (t) => {
+  const projectPath = await createProject(t, {
+    "pom.xml": POM,
+    "src/main/java/com/acme/web/UserController.java": controller("UserController", "/users"),
+  });
+  const result = await callTool("analyze_controller", { projectPath, controllerName: "UsreController" });
+
+  assert.equal(result.found, false);
+  assert.deepEqual(result.didYouMean, ["UserController"]);
+});
@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { callTool, createProject } from "./helpers.mjs";
+
+const POM = "<project><modelVersion>4.0.0</modelVersion><groupId>com.acme</groupId><artifactId>shop</artifactId><version>1</version></project>";
+
+test("resolves @Value and @ConfigurationProperties keys against YAML documents for the test profile", async (t) => {
+  const projectPath = await createProject(t, {
+    "pom.xml": POM,
+    "src/main/resources/application.yml": `app:
+  name: shop
+  retry:
+    attempts: 3
+  base-url: \${APP_HOST:http://localhost}/api
+---
+spring:
+  config:
+    activate:
+      on-profile: test
+app:
+  feature:
+    enabled: true
+---
+spring:
+  config:
+    activate:
+      on-profile: prod
+app:
+  prod-only: x
+`,
+    "src/test/resources/application-test.yml": "app:\n  mail:\n    from: test@acme.com\n",
+    "src/main/java/com/acme/AppConfig.java": `package com.acme;
+import org.springframework.beans.factory.annotation.Value;
+public class AppConfig {
+  @Value("\${app.name}") String name;
+  @Value("\${app.retry.attempts}") int attempts;
+  @Value("\${app.feature.enabled}") boolean feature;
+  @Value("\${app.prod-only}") String prodOnly;
+  @Value("\${app.timeout:30}") int timeout;
+  @Value("\${app.base-url}") String baseUrl;
+}`,
+    "src/main/java/com/acme/MailProperties.java": `package com.acme;
+import org.springframework.boot.context.properties.ConfigurationProperties;
+@ConfigurationProperties(prefix = "app.mail")
+public class MailProperties { private String from; private String replyTo; private int port = 25; }`,
+  });
+  const result = await callTool("find_missing_properties", { projectPath });
+
+  assert.deepEqual(result.activeProfiles, ["test"]);
+  const status = Object.fromEntries(result.properties.map((p) => [p.key, p.status]));
+  assert.deepEqual(status, {
+    "app.name": "resolved",
+    "app.retry.attempts": "resolved",
+    "app.base-url": "resolved",
+    "app.feature.enabled": "resolved",
+    "app.mail.from": "resolved",
+    "app.timeout": "defaultOnly",
+    "app.mail.port": "defaultOnly",
+    "app.prod-only": "missing",
+    "app.mail.reply-to": "missing",
+  });
+  const mailFrom = result.properties.find((p) => p.key === "app.mail.from");
+  assert.equal(mailFrom.definedIn, "src/test/resources/application-test.yml");
+});
@@ -0,0 +1,97 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { callTool, createProject } from "./helpers.mjs";
+
+const pom = (...starters) => `<project><modelVersion>4.0.0</modelVersion><groupId>com.acme</groupId><artifactId>shop</artifactId><version>1</version>
+<parent><groupId>org.springframework.boot</groupId><artifactId>spring-boot-starter-parent</artifactId><version>3.2.0</version></parent>
+<dependencies>${starters.map((s) => `<dependency><groupId>org.springframework.boot</groupId><artifactId>spring-boot-starter-${s}</artifactId></dependency>`).join("")}</dependencies></project>`;
+
+const SECURITY_CONFIG = `package com.acme;
+import org.springframework.context.annotation.Bean;
+import org.springframework.context.annotation.Configuration;
+import org.springframework.security.config.annotation.web.builders.HttpSecurity;
+import org.springframework.security.web.SecurityFilterChain;
+@Configuration
+public class SecurityConfig {
+  @Bean SecurityFilterChain chain(HttpSecurity http) throws Exception {
+    http.authorizeHttpRequests(auth -> auth
+        .requestMatchers("/api/public/**").permitAll()
+        .requestMatchers("/api/admin/**").hasRole("ADMIN")
+        .anyRequest().authenticated());
+    return http.build();
+  }
+}`;
+
+const ITEM_CONTROLLER = `package com.acme.web;
+import java.util.List;
+import org.springframework.http.ResponseEntity;
+import org.springframework.web.bind.annotation.*;
+@RestController @RequestMapping("/api")
+public class ItemController {
+  @GetMapping("/public/items") public List<String> items() { return List.of(); }
+  @GetMapping("/admin/stats") public ResponseEntity<List<String>> stats() { return ResponseEntity.ok(List.of()); }
+  @PostMapping("/orders") public String order(@RequestBody String body) { return body; }
+}`;
+
+// Test methods of the generated class by name, each with its source text
+function testMethods(content) {
+  return Object.fromEntries(
+    content.split(/\n\n(?=    @Test)/).slice(1).map((block) => [block.match(/void (\w+)\(/)[1], block])
+  );
+}
+
+test("derives 401/403 tests from the filter chain's URL rules", async (t) => {
+  const projectPath = await createProject(t, {
+    "pom.xml": pom("web", "security"),
+    "src/main/java/com/acme/SecurityConfig.java": SECURITY_CONFIG,
+    "src/main/java/com/acme/web/ItemController.java": ITEM_CONTROLLER,
+  });
+  const result = await callTool("generate_controller_test", { projectPath, controllerName: "ItemController" });
+  const methods = testMethods(result.content);
+
+  assert.deepEqual(Object.keys(methods), [
+    "items_succeeds",
+    "stats_succeeds",
+    "stats_unauthenticated_returns401",
+    "stats_withoutRequiredRole_returns403",
+    "order_succeeds",
+    "order_unauthenticated_returns401",
+  ]);
+  assert.doesNotMatch(methods.items_succeeds, /@WithMockUser/);
+  assert.match(methods.stats_succeeds, /@WithMockUser\(roles = \{"ADMIN"\}\)/);
+  assert.match(methods.order_succeeds, /\.with\(csrf\(\)\)/);
+});
+
+test("asserts a JSON array for collection bodies, wrapped in ResponseEntity or not", async (t) => {
+  const projectPath = await createProject(t, {
+    "pom.xml": pom("web", "security"),
+    "src/main/java/com/acme/SecurityConfig.java": SECURITY_CONFIG,
+    "src/main/java/com/acme/web/ItemController.java": ITEM_CONTROLLER,
+  });
+  const { content } = await callTool("generate_controller_test", { projectPath, controllerName: "ItemController" });
+  const methods = testMethods(content);
+
+  assert.match(methods.items_succeeds, /jsonPath\("\$"\)\.isArray\(\)/);
+  assert.match(methods.stats_succeeds, /jsonPath\("\$"\)\.isArray\(\)/);
+  assert.match(methods.order_succeeds, /jsonPath\("\$"\)\.exists\(\)/);
+});
+
+test("only uses what the classpath provides", async (t) => {
+  const webOnly = await createProject(t, {
+    "pom.xml": pom("web"),
+    "src/main/java/com/acme/web/ItemController.java": ITEM_CONTROLLER,
+  });
+  const plain = await callTool("generate_controller_test", { projectPath: webOnly, controllerName: "ItemController" });
+
+  assert.equal(plain.conventions.springSecurity, false);
+  assert.doesNotMatch(plain.content, /EntityManager|Transactional|WithMockUser|csrf|returns40[13]/);
+
+  const withJpa = await createProject(t, {
+    "pom.xml": pom("web", "data-jpa"),
+    "src/main/java/com/acme/web/ItemController.java": ITEM_CONTROLLER,
+  });
+  const jpa = await callTool("generate_controller_test", { projectPath: withJpa, controllerName: "ItemController" });
+
+  assert.match(jpa.content, /^@Transactional$/m);
+  assert.doesNotMatch(jpa.content, /EntityManager/);
+});
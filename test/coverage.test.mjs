@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { callTool, createProject } from "./helpers.mjs";
+
+const POM = "<project><modelVersion>4.0.0</modelVersion><groupId>com.acme</groupId><artifactId>shop</artifactId><version>1</version></project>";
+
+const JACOCO_REPORT = `<?xml version="1.0" encoding="UTF-8"?>
+<report name="shop">
+  <package name="com/acme">
+    <class name="com/acme/OrderService" sourcefilename="OrderService.java">
+      <method name="create" desc="()V" line="5">
+        <counter type="LINE" missed="1" covered="3"/>
+        <counter type="BRANCH" missed="1" covered="1"/>
+      </method>
+      <method name="cancel" desc="()V" line="12">
+        <counter type="LINE" missed="2" covered="0"/>
+      </method>
+      <counter type="LINE" missed="3" covered="3"/>
+    </class>
+    <sourcefile name="OrderService.java">
+      <line nr="5" mi="0" ci="2" mb="0" cb="0"/>
+      <line nr="6" mi="0" ci="2" mb="1" cb="1"/>
+      <line nr="7" mi="0" ci="2" mb="0" cb="0"/>
+      <line nr="8" mi="2" ci="0" mb="0" cb="0"/>
+      <line nr="12" mi="2" ci="0" mb="0" cb="0"/>
+      <line nr="13" mi="2" ci="0" mb="0" cb="0"/>
+      <counter type="LINE" missed="3" covered="3"/>
+    </sourcefile>
+  </package>
+  <counter type="LINE" missed="3" covered="3"/>
+  <counter type="BRANCH" missed="1" covered="1"/>
+</report>`;
+
+test("summarizes JaCoCo coverage per class, method and line", async (t) => {
+  const projectPath = await createProject(t, { "pom.xml": POM, "target/site/jacoco/jacoco.xml": JACOCO_REPORT });
+  const result = await callTool("get_coverage_summary", { projectPath, className: "OrderService" });
+
+  assert.equal(result.found, true);
+  assert.deepEqual(result.total, { lineCoverage: 50, branchCoverage: 50, methodCoverage: null });
+
+  const [orderService] = result.classes;
+  assert.equal(orderService.class, "com.acme.OrderService");
+  assert.equal(orderService.missedLines, 3);
+  assert.equal(orderService.uncoveredLines, "8, 12-13");
+  assert.equal(orderService.partiallyCoveredBranches, "6");
+  assert.deepEqual(
+    orderService.methods.map((m) => [m.name, m.lineCoverage, m.branchCoverage]),
+    [["create", 75, 50], ["cancel", 0, null]]
+  );
+});
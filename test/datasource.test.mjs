@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { callTool, createProject } from "./helpers.mjs";
+
+const POM = `<project><modelVersion>4.0.0</modelVersion><groupId>com.acme</groupId><artifactId>shop</artifactId><version>1</version><dependencies>
+<dependency><groupId>org.postgresql</groupId><artifactId>postgresql</artifactId></dependency>
+<dependency><groupId>org.testcontainers</groupId><artifactId>postgresql</artifactId><scope>test</scope></dependency>
+</dependencies></project>`;
+
+// Stands in for the Docker CLI: a reachable daemon with only the Postgres image cached; records every call
+const FAKE_DOCKER = `#!/bin/sh
+echo "$@" >> "$(dirname "$0")/../docker-calls.txt"
+case "$1" in
+  --version) echo "Docker version 24.0.7, build afdd53b" ;;
+  info) echo "24.0.7" ;;
+  image) [ "$3" = "postgres:16-alpine" ] && echo "sha256:abc" || exit 1 ;;
+esac
+`;
+
+test("inspects the Testcontainers images and skips literals that are not image references", async (t) => {
+  const projectPath = await createProject(t, {
+    "pom.xml": POM,
+    "bin/docker": FAKE_DOCKER,
+    "src/test/java/com/acme/RepositoryIT.java": `package com.acme;
+import org.testcontainers.containers.*;
+import org.testcontainers.junit.jupiter.*;
+import org.testcontainers.utility.DockerImageName;
+@Testcontainers
+class RepositoryIT {
+  @Container static PostgreSQLContainer<?> postgres = new PostgreSQLContainer<>("postgres:16-alpine");
+  @Container static GenericContainer<?> odd = new GenericContainer<>(DockerImageName.parse("--quiet"));
+}`,
+  });
+  const result = await callTool("analyze_test_datasource", { projectPath }, { pathPrefix: join(projectPath, "bin") });
+
+  assert.equal(result.mode, "testcontainers");
+  assert.equal(result.database, "postgresql");
+  assert.equal(result.containerRuntime.daemonReachable, true);
+  const images = Object.fromEntries(result.containerRuntime.images.map((i) => [i.image, i]));
+  assert.equal(images["postgres:16-alpine"].availableLocally, true);
+  assert.equal(images["--quiet"].skipped, "not a valid image reference");
+
+  const calls = await readFile(join(projectPath, "docker-calls.txt"), "utf-8");
+  assert.doesNotMatch(calls, /--quiet/);
+});
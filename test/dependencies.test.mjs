@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { join } from "node:path";
+import { callTool, createProject } from "./helpers.mjs";
+
+const MAVEN_TREE = `[INFO] --- maven-dependency-plugin:3.6.1:tree (default-cli) @ shop ---
+[INFO] com.acme:shop:jar:1
+[INFO] +- org.springframework.boot:spring-boot-starter-web:jar:3.2.0:compile
+[INFO] |  +- org.springframework:spring-core:jar:6.1.1:compile
+[INFO] |  \\- com.fasterxml.jackson.core:jackson-databind:jar:2.15.3:compile
+[INFO] +- com.fasterxml.jackson.datatype:jackson-datatype-jsr310:jar:2.13.4:compile
+[INFO] |  \\- (com.fasterxml.jackson.core:jackson-databind:jar:2.13.4:compile - omitted for conflict with 2.15.3)
+[INFO] +- javax.persistence:javax.persistence-api:jar:2.2:compile
+[INFO] +- org.springframework.boot:spring-boot-starter-test:jar:3.2.0:test
+[INFO] |  +- org.mockito:mockito-core:jar:4.0.0:test
+[INFO] |  |  \\- net.bytebuddy:byte-buddy:jar:1.11.22:test
+[INFO] |  \\- (org.mockito:mockito-core:jar:5.7.0:test - omitted for conflict with 4.0.0)
+[INFO] \\- junit:junit:jar:4.13.2:test
+[INFO] ------------------------------------------------------------------------
+[INFO] BUILD SUCCESS
+`;
+
+const GRADLE_TREE = `
+> Task :dependencies
+
+testRuntimeClasspath - Runtime classpath of source set 'test'.
++--- org.springframework.boot:spring-boot-starter-test -> 3.2.0
+|    +--- org.mockito:mockito-core:5.7.0
+|    |    \\--- net.bytebuddy:byte-buddy:1.14.10
+|    \\--- com.fasterxml.jackson.core:jackson-databind:2.15.3 (*)
++--- com.fasterxml.jackson.core:jackson-databind:2.13.0 -> 2.15.3
+\\--- org.mockito:mockito-junit-jupiter:4.0.0
+
+BUILD SUCCESSFUL in 1s
+`;
+
+const issueTypes = (result) => result.issues.map((i) => `${i.type}: ${i.artifacts.join(", ")}`);
+
+test("parses a Maven dependency:tree and flags conflicts against the Boot and Java versions", async (t) => {
+  const projectPath = await createProject(t, {
+    "pom.xml": `<project><modelVersion>4.0.0</modelVersion><groupId>com.acme</groupId><artifactId>shop</artifactId><version>1</version>
+<parent><groupId>org.springframework.boot</groupId><artifactId>spring-boot-starter-parent</artifactId><version>3.2.0</version></parent>
+<properties><java.version>21</java.version></properties></project>`,
+    "tree.txt": MAVEN_TREE,
+  });
+  const result = await callTool("analyze_dependencies", { projectPath, treeFile: join(projectPath, "tree.txt") });
+
+  assert.equal(result.springBootVersion, "3.2.0");
+  assert.equal(result.javaVersion, "21");
+  assert.equal(result.modules[0].omitted, 2);
+  assert.equal(result.testLibraries.mockito, "4.0.0");
+  assert.equal(result.testLibraries.byteBuddy, "1.11.22");
+
+  const issues = issueTypes(result);
+  assert.ok(issues.includes("version conflict: org.mockito:mockito-core"));
+  assert.ok(issues.includes("misaligned versions: com.fasterxml.jackson.datatype:jackson-datatype-jsr310:2.13.4"));
+  assert.ok(issues.includes("javax/jakarta mix: javax.persistence:javax.persistence-api:2.2"));
+  assert.ok(issues.includes("incompatible test library: net.bytebuddy:byte-buddy:1.11.22"));
+});
+
+test("parses Gradle dependencies output with version selections and repeated subtrees", async (t) => {
+  const projectPath = await createProject(t, {
+    "build.gradle.kts": `plugins { id("org.springframework.boot") version "3.2.0" }
+kotlin { jvmToolchain(17) }
+`,
+    "deps.txt": GRADLE_TREE,
+  });
+  const result = await callTool("analyze_dependencies", {
+    projectPath,
+    treeFile: join(projectPath, "deps.txt"),
+    artifact: "jackson-databind",
+  });
+
+  assert.equal(result.buildTool, "gradle");
+  assert.equal(result.javaVersion, "17");
+  assert.deepEqual(result.modules[0].direct, [
+    "org.springframework.boot:spring-boot-starter-test:3.2.0",
+    "com.fasterxml.jackson.core:jackson-databind:2.15.3",
+    "org.mockito:mockito-junit-jupiter:4.0.0",
+  ]);
+  assert.deepEqual(
+    result.matches.map((m) => [m.omitted ?? null, m.requestedVersion ?? null]),
+    [["duplicate", null], [null, "2.13.0"]]
+  );
+  assert.ok(issueTypes(result).includes("misaligned versions: org.mockito:mockito-junit-jupiter:4.0.0"));
+});
@@ -0,0 +1,73 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { callTool, createProject } from "./helpers.mjs";
+
+const POM = "<project><modelVersion>4.0.0</modelVersion><groupId>com.acme</groupId><artifactId>shop</artifactId><version>1</version></project>";
+
+const ENTITIES = {
+  "pom.xml": POM,
+  "src/main/java/com/acme/model/Address.java": `package com.acme.model;
+import jakarta.persistence.*;
+@Embeddable
+public class Address { @Column(nullable = false) private String city; private String zip; }`,
+  "src/main/java/com/acme/model/Customer.java": `package com.acme.model;
+import jakarta.persistence.*;
+@Entity
+public class Customer {
+  @Id @GeneratedValue private Long id;
+  @Column(nullable = false, unique = true, length = 40) private String email;
+  @Embedded private Address address;
+  @Column(nullable = false) private boolean deleted;
+  private String nickname;
+}`,
+  "src/main/java/com/acme/model/PurchaseOrder.java": `package com.acme.model;
+import jakarta.persistence.*;
+import jakarta.validation.constraints.*;
+@Entity
+public class PurchaseOrder {
+  public enum Status { NEW, PAID }
+  @Id @GeneratedValue private Long id;
+  @ManyToOne(optional = false) private Customer customer;
+  @NotNull @Enumerated(EnumType.STRING) private Status status;
+  @Size(max = 4) @Column(nullable = false) private String reference;
+}`,
+};
+
+// setField(...) assignments of the generated factory, as "field = value"
+function assignments(content) {
+  return Array.from(content.matchAll(/setField\(\w+, "(\w+)", (.+)\);/g), (m) => `${m[1]} = ${m[2]}`);
+}
+
+test("fills required columns and persists required parents first", async (t) => {
+  const projectPath = await createProject(t, ENTITIES);
+  const result = await callTool("generate_entity_fixture", { projectPath, entityName: "PurchaseOrder" });
+
+  assert.equal(result.path, "src/test/java/com/acme/model/PurchaseOrderFixtures.java");
+  assert.deepEqual(result.creationOrder, ["Customer", "PurchaseOrder"]);
+  assert.deepEqual(assignments(result.content), [
+    "customer = persistedCustomer()",
+    "status = PurchaseOrder.Status.NEW",
+    'reference = "refe"',
+    'city = "city"',
+    'email = "user" + next() + "@example.com"',
+    "address = address",
+    "deleted = false",
+  ]);
+  assert.deepEqual(result.softDelete, [{ entity: "Customer", field: "deleted", value: "false", source: "field name" }]);
+  assert.doesNotMatch(result.content, /nickname/);
+});
+
+test("writes the factory once and never overwrites it", async (t) => {
+  const projectPath = await createProject(t, ENTITIES);
+
+  const first = await callTool("generate_entity_fixture", { projectPath, entityName: "PurchaseOrder", writeFile: true });
+  assert.equal(first.written, true);
+  const written = await readFile(join(projectPath, first.path), "utf-8");
+  assert.match(written, /^public class PurchaseOrderFixtures \{$/m);
+
+  const second = await callTool("generate_entity_fixture", { projectPath, entityName: "PurchaseOrder", writeFile: true });
+  assert.equal(second.written, false);
+  assert.equal(second.message, "PurchaseOrderFixtures already exists - not overwritten");
+});
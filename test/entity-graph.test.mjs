@@ -0,0 +1,93 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { callTool, createProject } from "./helpers.mjs";
+
+const POM = "<project><modelVersion>4.0.0</modelVersion><groupId>com.acme</groupId><artifactId>shop</artifactId><version>1</version></project>";
+
+const ENTITIES = {
+  "pom.xml": POM,
+  "src/main/java/com/acme/model/BaseEntity.java": `package com.acme.model;
+import jakarta.persistence.*;
+@MappedSuperclass
+public abstract class BaseEntity { @Id @GeneratedValue protected Long id; }`,
+  "src/main/java/com/acme/model/Address.java": `package com.acme.model;
+import jakarta.persistence.*;
+@Embeddable
+public class Address { @Column(nullable = false) private String city; private String zip; }`,
+  "src/main/java/com/acme/model/Customer.java": `package com.acme.model;
+import jakarta.persistence.*;
+@Entity
+public class Customer extends BaseEntity {
+  @Embedded private Address address;
+}`,
+  "src/main/java/com/acme/model/PurchaseOrder.java": `package com.acme.model;
+import java.util.List;
+import jakarta.persistence.*;
+@Entity
+public class PurchaseOrder extends BaseEntity {
+  @ManyToOne(optional = false, fetch = FetchType.LAZY) private Customer customer;
+  @OneToMany(mappedBy = "order", cascade = CascadeType.ALL) private List<OrderItem> items;
+}`,
+  "src/main/java/com/acme/model/OrderItem.java": `package com.acme.model;
+import jakarta.persistence.*;
+@Entity
+public class OrderItem extends BaseEntity {
+  @ManyToOne @JoinColumn(name = "order_id", nullable = false) private PurchaseOrder order;
+}`,
+};
+
+test("maps relationships, inherited and embedded fields and an insertion order", async (t) => {
+  const projectPath = await createProject(t, ENTITIES);
+  const result = await callTool("entity_graph", { projectPath });
+
+  const byName = Object.fromEntries(result.entities.map((e) => [e.name, e]));
+  assert.deepEqual(byName.Customer.mappedSuperclasses, ["BaseEntity"]);
+  assert.deepEqual(byName.Customer.embedded, [{ field: "address", type: "Address", fields: ["city", "zip"] }]);
+
+  const [customer, items] = byName.PurchaseOrder.relationships;
+  assert.deepEqual(
+    { kind: customer.kind, target: customer.target, fetch: customer.fetch, required: customer.required },
+    { kind: "ManyToOne", target: "Customer", fetch: "LAZY", required: true }
+  );
+  assert.deepEqual(
+    { owning: items.owning, mappedBy: items.mappedBy, cascade: items.cascade },
+    { owning: false, mappedBy: "order", cascade: ["ALL"] }
+  );
+  // Defaults apply where the annotation is silent; nullable = false on the join column makes it required
+  const [order] = byName.OrderItem.relationships;
+  assert.deepEqual(
+    { fetch: order.fetch, optional: order.optional, required: order.required, joinColumn: order.joinColumn },
+    { fetch: "EAGER", optional: true, required: true, joinColumn: "order_id" }
+  );
+
+  assert.deepEqual(result.insertionOrder.map((s) => s.entity), ["Customer", "PurchaseOrder", "OrderItem"]);
+  assert.deepEqual(result.cycles, []);
+  assert.match(result.diagram, /^erDiagram\n/);
+  assert.match(result.diagram, /OrderItem }o--\|\| PurchaseOrder : "order"/);
+});
+
+test("breaks a cycle at its optional reference", async (t) => {
+  const projectPath = await createProject(t, {
+    ...ENTITIES,
+    "src/main/java/com/acme/model/Customer.java": `package com.acme.model;
+import jakarta.persistence.*;
+@Entity
+public class Customer extends BaseEntity {
+  @OneToOne private PurchaseOrder lastOrder;
+}`,
+  });
+  const result = await callTool("entity_graph", { projectPath, format: "dot" });
+
+  assert.deepEqual(result.insertionOrder[0], {
+    step: 1,
+    entity: "Customer",
+    dependsOn: ["PurchaseOrder"],
+    setLater: ["lastOrder -> PurchaseOrder"],
+  });
+  assert.equal(result.cycles.length, 1);
+  assert.equal(
+    result.cycles[0].explanation,
+    "Insert Customer with lastOrder = null, create PurchaseOrder, then set Customer.lastOrder"
+  );
+  assert.match(result.diagram, /"Customer" -> "PurchaseOrder" \[label="lastOrder \(OneToOne\)", style=dashed\];/);
+});
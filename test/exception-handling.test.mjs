@@ -0,0 +1,93 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { callTool, createProject } from "./helpers.mjs";
+
+const POM = "<project><modelVersion>4.0.0</modelVersion><groupId>com.acme</groupId><artifactId>shop</artifactId><version>1</version></project>";
+
+const FILES = {
+  "pom.xml": POM,
+  "src/main/java/com/acme/web/OrderController.java": `package com.acme.web;
+import com.acme.service.OrderService;
+import lombok.RequiredArgsConstructor;
+import org.springframework.web.bind.annotation.*;
+@RestController @RequestMapping("/api/orders") @RequiredArgsConstructor
+public class OrderController {
+  private final OrderService orderService;
+  @GetMapping("/{id}") public String get(@PathVariable Long id) { return orderService.find(id); }
+  @PostMapping public String create(@RequestBody String reference) { return orderService.create(reference); }
+}`,
+  "src/main/java/com/acme/web/ApiExceptionHandler.java": `package com.acme.web;
+import com.acme.service.PaymentException;
+import org.springframework.http.*;
+import org.springframework.web.bind.annotation.*;
+@RestControllerAdvice
+public class ApiExceptionHandler {
+  @ExceptionHandler(IllegalArgumentException.class)
+  public ResponseEntity<ErrorBody> badRequest(IllegalArgumentException e) { return ResponseEntity.badRequest().body(new ErrorBody(e.getMessage())); }
+  @ExceptionHandler(PaymentException.class) @ResponseStatus(HttpStatus.PAYMENT_REQUIRED)
+  public ProblemDetail payment(PaymentException e) { return ProblemDetail.forStatus(402); }
+}`,
+  "src/main/java/com/acme/web/ErrorBody.java": `package com.acme.web;
+public record ErrorBody(String message) {}`,
+  "src/main/java/com/acme/service/PaymentException.java": `package com.acme.service;
+public class PaymentException extends RuntimeException {}`,
+  "src/main/java/com/acme/service/OrderNotFoundException.java": `package com.acme.service;
+import org.springframework.http.HttpStatus;
+import org.springframework.web.bind.annotation.ResponseStatus;
+@ResponseStatus(HttpStatus.NOT_FOUND)
+public class OrderNotFoundException extends RuntimeException { public OrderNotFoundException(Long id) { super("Order " + id); } }`,
+  "src/main/java/com/acme/service/OrderService.java": `package com.acme.service;
+import org.springframework.stereotype.Service;
+@Service
+public class OrderService {
+  public String find(Long id) { throw new OrderNotFoundException(id); }
+  public String create(String reference) {
+    if (reference.isBlank()) throw new IllegalArgumentException("reference");
+    throw new PaymentException();
+  }
+}`,
+};
+
+// "<exception> <status> <handler>" per endpoint route
+function exceptionsByRoute(result) {
+  return Object.fromEntries(result.endpoints.map((e) => [
+    e.route,
+    e.exceptions.map((x) => `${x.exception} ${x.status} ${x.handledBy}`),
+  ]));
+}
+
+test("follows exceptions from services to the advice or @ResponseStatus that maps them", async (t) => {
+  const projectPath = await createProject(t, FILES);
+  const result = await callTool("map_exception_handling", { projectPath });
+
+  assert.deepEqual(exceptionsByRoute(result), {
+    "POST /api/orders": [
+      "HttpMessageNotReadableException 400 Spring MVC default",
+      "IllegalArgumentException 400 ApiExceptionHandler.badRequest",
+      "PaymentException 402 ApiExceptionHandler.payment",
+    ],
+    "GET /api/orders/{id}": [
+      "MethodArgumentTypeMismatchException 400 Spring MVC default",
+      "OrderNotFoundException 404 @ResponseStatus on OrderNotFoundException",
+    ],
+  });
+  assert.equal(result.exceptionClasses.find((c) => c.name === "OrderNotFoundException").responseStatus, 404);
+  assert.deepEqual(result.unhandled, []);
+});
+
+test("describes the error body each handler returns", async (t) => {
+  const projectPath = await createProject(t, FILES);
+  const result = await callTool("map_exception_handling", { projectPath, controllerName: "OrderController" });
+
+  const [advice] = result.advices;
+  assert.equal(advice.scope, "all controllers");
+  const bodies = Object.fromEntries(advice.handlers.map((h) => [h.method, h.body]));
+  assert.deepEqual(bodies.badRequest, { type: "ErrorBody", example: { message: "test" } });
+  assert.equal(bodies.payment.contentType, "application/problem+json");
+
+  const notFound = result.endpoints
+    .flatMap((e) => e.exceptions)
+    .find((x) => x.exception === "OrderNotFoundException");
+  assert.deepEqual(notFound.thrownBy, ["OrderService.find"]);
+  assert.match(notFound.body.mockMvc, /MockMvc does not forward to \/error/);
+});
@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { callTool, createProject } from "./helpers.mjs";
+
+const POM = "<project><modelVersion>4.0.0</modelVersion><groupId>com.acme</groupId><artifactId>shop</artifactId><version>1</version></project>";
+
+// Stands in for Maven: records its arguments per run and fails OrderServiceTest.expires on every second run
+const FAKE_MVN = `#!/bin/sh
+echo "$@" >> mvn-args.txt
+run=$(wc -l < mvn-args.txt)
+if [ $((run % 2)) -eq 0 ]; then
+  failure='<failure message="expected 0 but was '$run'" type="org.opentest4j.AssertionFailedError">boom</failure>'
+fi
+mkdir -p target/surefire-reports
+cat > target/surefire-reports/TEST-com.acme.OrderServiceTest.xml <<XML
+<testsuite name="com.acme.OrderServiceTest" tests="2" failures="$((1 - run % 2))" errors="0" skipped="0" time="0.1">
+  <testcase name="creates" classname="com.acme.OrderServiceTest" time="0.05"/>
+  <testcase name="expires" classname="com.acme.OrderServiceTest" time="0.05">$failure</testcase>
+</testsuite>
+XML
+`;
+
+const ORDER_SERVICE_TEST = `package com.acme;
+import java.util.ArrayList;
+import java.util.List;
+import org.junit.jupiter.api.Test;
+class OrderServiceTest {
+  static List<String> seen = new ArrayList<>();
+  @Test void creates() {}
+  @Test void expires() throws Exception { Thread.sleep(100); }
+}`;
+
+test("reports pass rates, clustered failures and the JVM mode the failures belong to", async (t) => {
+  const projectPath = await createProject(t, {
+    "pom.xml": POM,
+    "bin/mvn": FAKE_MVN,
+    "src/test/java/com/acme/OrderServiceTest.java": ORDER_SERVICE_TEST,
+  });
+  const result = await callTool(
+    "detect_flaky_tests",
+    { projectPath, testClass: "OrderServiceTest", runs: 4, contextMode: "both" },
+    { pathPrefix: join(projectPath, "bin") }
+  );
+
+  assert.equal(result.verdict, "flaky");
+  assert.deepEqual(result.tests.map((r) => `${r.test} ${r.passRate}`), [
+    "com.acme.OrderServiceTest.expires 2/4",
+    "com.acme.OrderServiceTest.creates 4/4",
+  ]);
+  assert.deepEqual(result.tests[0].failedRuns, [2, 4]);
+  // Messages that differ only in numbers are one failure
+  assert.equal(result.failureClusters.length, 1);
+  assert.equal(result.failureClusters[0].occurrences, 2);
+  assert.deepEqual(result.runResults.map((r) => r.context), ["reuse", "fork", "reuse", "fork"]);
+  assert.equal(result.contextComparison.forkRunsFailed, "2/2");
+  assert.match(result.contextComparison.conclusion, /^Fails only in a fresh JVM/);
+
+  const args = (await readFile(join(projectPath, "mvn-args.txt"), "utf-8")).trim().split("\n");
+  assert.equal(args[0], "test -Dtest=OrderServiceTest");
+  assert.equal(args[1], "test -Dtest=OrderServiceTest -DforkCount=1 -DreuseForks=false");
+});
+
+test("passes a new method-order seed per run and reports the seeds that failed", async (t) => {
+  const projectPath = await createProject(t, {
+    "pom.xml": POM,
+    "bin/mvn": FAKE_MVN,
+    "src/test/java/com/acme/OrderServiceTest.java": ORDER_SERVICE_TEST,
+  });
+  const result = await callTool(
+    "detect_flaky_tests",
+    { projectPath, testClass: "OrderServiceTest", runs: 2, randomOrder: true },
+    { pathPrefix: join(projectPath, "bin") }
+  );
+
+  const args = (await readFile(join(projectPath, "mvn-args.txt"), "utf-8")).trim().split("\n");
+  const seeds = args.map((line) => Number(line.match(/-Djunit\.jupiter\.execution\.order\.random\.seed=(\d+)/)[1]));
+  assert.deepEqual(result.runResults.map((r) => r.seed), seeds);
+  assert.deepEqual(result.failingSeeds, [seeds[1]]);
+  assert.match(result.recommendation, new RegExp(`random\\.seed=${seeds[1]}$`));
+  assert.deepEqual(result.staticFindings.map((f) => `${f.cause} ${f.location}`), [
+    "static mutable state OrderServiceTest",
+    "Thread.sleep OrderServiceTest.expires:8",
+  ]);
+});
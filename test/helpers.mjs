@@ -0,0 +1,45 @@
+import { mkdtemp, mkdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+
+const serverPath = join(dirname(fileURLToPath(import.meta.url)), "..", "dist", "index.js");
+
+// Write the given files (relative path -> content) into a fresh directory; returns its path
+export async function createProject(t, files) {
+  const root = await mkdtemp(join(tmpdir(), "mcp-test-"));
+  t.after(() => rm(root, { recursive: true, force: true }));
+  for (const [file, content] of Object.entries(files)) {
+    const target = join(root, file);
+    await mkdir(dirname(target), { recursive: true });
+    const executable = file.startsWith("bin/") || /(^|\/)(gradlew|mvnw)$/.test(file);
+    await writeFile(target, content, { mode: executable ? 0o755 : 0o644 });
+  }
+  return root;
+}
+
+// Start the built server and hand fn a call(name, args) function that returns each tool's JSON result;
+// a fake build tool can be put on PATH with pathPrefix
+export async function withServer(fn, { pathPrefix } = {}) {
+  const env = { ...process.env, MCP_INDEX_WATCH: "false" };
+  if (pathPrefix) env.PATH = `${pathPrefix}:${env.PATH}`;
+  const client = new Client({ name: "test", version: "1.0.0" }, { capabilities: {} });
+  await client.connect(new StdioClientTransport({ command: process.execPath, args: [serverPath], env, stderr: "ignore" }));
+  try {
+    return await fn(async (name, args) => {
+      const result = await client.callTool({ name, arguments: args });
+      const text = result.content[0].text;
+      if (result.isError) throw new Error(`${name} failed: ${text}`);
+      return JSON.parse(text);
+    });
+  } finally {
+    await client.close();
+  }
+}
+
+// Start the built server, call one tool and return its JSON result
+export function callTool(name, args, options) {
+  return withServer((call) => call(name, args), options);
+}
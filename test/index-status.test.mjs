@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { createProject, withServer } from "./helpers.mjs";
+
+const POM = "<project><modelVersion>4.0.0</modelVersion><groupId>com.acme</groupId><artifactId>shop</artifactId><version>1</version></project>";
+
+const controller = (path) => `package com.acme.web;
+import org.springframework.web.bind.annotation.*;
+@RestController
+public class OrderController { @GetMapping("${path}") public String list() { return ""; } }`;
+
+const FILES = {
+  "pom.xml": POM,
+  "src/main/resources/application.yml": "server:\n  port: 8081\n",
+  "src/main/java/com/acme/web/OrderController.java": controller("/orders"),
+  "src/main/java/com/acme/web/OrderDto.java": "package com.acme.web;\npublic record OrderDto(Long id) {}",
+};
+
+test("indexes every Java and config file on refresh", async (t) => {
+  const projectPath = await createProject(t, FILES);
+
+  await withServer(async (call) => {
+    const before = await call("get_index_status", { projectPath });
+    assert.equal(before.watchMode, "mtime checks (MCP_INDEX_WATCH=false)");
+    assert.deepEqual(before.sourceRoots.map((r) => `${r.root} ${r.indexed}`), ["src/main/java false", "src/test/java false"]);
+
+    const after = await call("get_index_status", { projectPath, refresh: true });
+    assert.deepEqual(after.sourceRoots.map((r) => `${r.root} ${r.javaFiles}`), ["src/main/java 2", "src/test/java 0"]);
+    assert.equal(after.files.java, 2);
+    assert.equal(after.files.parsedJava, 2);
+    assert.equal(after.files.config, 1);
+    assert.equal(typeof after.timing.refreshMs, "number");
+  });
+});
+
+test("reports files changed or deleted since they were read, and rereads them on the next call", async (t) => {
+  const projectPath = await createProject(t, FILES);
+
+  await withServer(async (call) => {
+    const first = await call("list_endpoints", { projectPath });
+    assert.deepEqual(first.endpoints.map((e) => e.path), ["/orders"]);
+
+    await writeFile(join(projectPath, "src/main/java/com/acme/web/OrderController.java"), controller("/purchase-orders"));
+    await rm(join(projectPath, "src/main/java/com/acme/web/OrderDto.java"));
+
+    const status = await call("get_index_status", { projectPath });
+    assert.deepEqual(status.files.changedOnDisk, ["src/main/java/com/acme/web/OrderController.java"]);
+    assert.deepEqual(status.files.deletedOnDisk, ["src/main/java/com/acme/web/OrderDto.java"]);
+
+    const second = await call("list_endpoints", { projectPath });
+    assert.deepEqual(second.endpoints.map((e) => e.path), ["/purchase-orders"]);
+  });
+});
@@ -0,0 +1,83 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { callTool, createProject } from "./helpers.mjs";
+
+const ORDER_CONTROLLER = `package com.acme.web;
+
+import com.acme.api.Paths;
+import java.util.List;
+import org.springframework.http.ResponseEntity;
+import org.springframework.web.bind.annotation.*;
+
+/** Braces in comments { and strings "}" must not end the class */
+@RestController
+@RequestMapping({Paths.ORDERS, "/legacy/orders"})
+public class OrderController {
+  private static final String BY_ID = "/{id}";
+
+  @GetMapping(value = BY_ID, produces = "application/json")
+  public ResponseEntity<OrderDto> get(@PathVariable("id") Long id) {
+    String brace = "}";
+    return ResponseEntity.ok(new OrderDto(id, brace));
+  }
+
+  @PostMapping
+  public <T extends Comparable<T>> OrderDto create(@RequestBody OrderDto order, @RequestParam(required = false) List<String> tags) {
+    return order;
+  }
+
+  @DeleteMapping(UNKNOWN + "/x")
+  public void remove() {}
+
+  public record OrderDto(Long id, String note) {}
+}`;
+
+async function orderProject(t) {
+  return createProject(t, {
+    "pom.xml": "<project><modelVersion>4.0.0</modelVersion><groupId>com.acme</groupId><artifactId>shop</artifactId><version>1</version></project>",
+    "src/main/java/com/acme/api/Paths.java": `package com.acme.api;
+public final class Paths {
+  public static final String API = "/api";
+  public static final String ORDERS = API + "/orders";
+}`,
+    "src/main/java/com/acme/web/OrderController.java": ORDER_CONTROLLER,
+  });
+}
+
+test("resolves mapping constants across classes and expands every base path", async (t) => {
+  const projectPath = await orderProject(t);
+  const result = await callTool("list_endpoints", { projectPath });
+
+  assert.equal(result.controllerCount, 1);
+  const routes = result.endpoints.map((e) => `${e.method} ${e.path}`);
+  assert.deepEqual(routes.filter((r) => !r.startsWith("DELETE")).sort(), [
+    "GET /api/orders/{id}",
+    "GET /legacy/orders/{id}",
+    "POST /api/orders",
+    "POST /legacy/orders",
+  ]);
+});
+
+test("reads handler parameters, generic methods and request conditions", async (t) => {
+  const projectPath = await orderProject(t);
+  const { endpoints } = await callTool("list_endpoints", { projectPath });
+
+  const get = endpoints.find((e) => e.method === "GET" && e.path === "/api/orders/{id}");
+  assert.deepEqual(get.pathVariables, ["id"]);
+  assert.deepEqual(get.conditions, ["produces=application/json"]);
+  assert.equal(get.returnType, "ResponseEntity<OrderDto>");
+
+  const create = endpoints.find((e) => e.method === "POST" && e.path === "/api/orders");
+  assert.equal(create.requestBody, "OrderDto");
+  assert.deepEqual(create.requestParams, ["tags"]);
+  assert.equal(create.returnType, "OrderDto");
+});
+
+test("marks paths built from unknown constants as unresolved", async (t) => {
+  const projectPath = await orderProject(t);
+  const { endpoints } = await callTool("list_endpoints", { projectPath });
+
+  const removes = endpoints.filter((e) => e.method === "DELETE");
+  assert.equal(removes.length, 2);
+  assert.ok(removes.every((e) => e.unresolved));
+});
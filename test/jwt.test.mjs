@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { callTool, createProject } from "./helpers.mjs";
+
+const POM = "<project><modelVersion>4.0.0</modelVersion><groupId>com.acme</groupId><artifactId>shop</artifactId><version>1</version></project>";
+
+test("resolves placeholders through profile documents, profile files and defaults", async (t) => {
+  const projectPath = await createProject(t, {
+    "pom.xml": POM,
+    "src/main/resources/application.yml": `jwt:
+  secret: \${MCP_TEST_JWT_SECRET:changeme}
+  issuer: https://\${jwt.host}/auth
+  host: prod.acme.com
+  signing-key: \${MCP_TEST_SIGNING_KEY}
+---
+spring:
+  config:
+    activate:
+      on-profile: test
+jwt:
+  host: test.acme.com
+`,
+    "src/test/resources/application-test.properties": "jwt.secret=test-secret\n",
+    "src/main/java/com/acme/JwtFilter.java": `package com.acme;
+import io.jsonwebtoken.Claims;
+import io.jsonwebtoken.Jwts;
+import org.springframework.beans.factory.annotation.Value;
+import org.springframework.web.filter.OncePerRequestFilter;
+public class JwtFilter extends OncePerRequestFilter {
+  @Value("\${jwt.secret}") private String secret;
+  @Value("\${jwt.issuer}") private String issuer;
+  @Value("\${jwt.signing-key}") private String signingKey;
+  void parse(String token) {
+    Claims claims = Jwts.parser().build().parseClaimsJws(token).getBody();
+    String tenant = claims.get("tenant", String.class);
+  }
+}`,
+  });
+  const result = await callTool("investigate_jwt_claims", { projectPath });
+
+  const keys = Object.fromEntries(result.signing.keys.map((k) => [k.property, k]));
+  assert.equal(keys["jwt.secret"].testValue, "test-secret");
+  assert.equal(keys["jwt.secret"].definedIn, "src/test/resources/application-test.properties");
+  assert.equal(keys["jwt.issuer"].testValue, "https://test.acme.com/auth");
+  assert.equal(keys["jwt.signing-key"].testValue, null);
+  assert.deepEqual(keys["jwt.signing-key"].requiresEnvironment, ["MCP_TEST_SIGNING_KEY"]);
+  assert.deepEqual(result.customClaims, ["tenant"]);
+});
+
+test("uses the converter's authority prefix in both the token recipe and its note", async (t) => {
+  const projectPath = await createProject(t, {
+    "pom.xml": POM,
+    "src/main/java/com/acme/SecurityConfig.java": `package com.acme;
+import org.springframework.context.annotation.Bean;
+import org.springframework.security.config.annotation.web.builders.HttpSecurity;
+import org.springframework.security.oauth2.server.resource.authentication.JwtAuthenticationConverter;
+import org.springframework.security.oauth2.server.resource.authentication.JwtGrantedAuthoritiesConverter;
+import org.springframework.security.web.SecurityFilterChain;
+public class SecurityConfig {
+  @Bean SecurityFilterChain chain(HttpSecurity http) throws Exception {
+    return http.oauth2ResourceServer(o -> o.jwt(j -> j.jwtAuthenticationConverter(converter()))).build();
+  }
+  JwtAuthenticationConverter converter() {
+    JwtGrantedAuthoritiesConverter authorities = new JwtGrantedAuthoritiesConverter();
+    authorities.setAuthoritiesClaimName("roles");
+    JwtAuthenticationConverter converter = new JwtAuthenticationConverter();
+    converter.setJwtGrantedAuthoritiesConverter(authorities);
+    return converter;
+  }
+}`,
+  });
+  const result = await callTool("investigate_jwt_claims", { projectPath });
+
+  assert.equal(result.mechanism, "oauth2-resource-server");
+  assert.match(result.testToken.code, /new SimpleGrantedAuthority\("SCOPE_ADMIN"\)/);
+  assert.ok(result.testToken.notes.includes('Authorities come from the "roles" claim with prefix "SCOPE_"'));
+});
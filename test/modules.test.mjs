@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { access, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { callTool, createProject } from "./helpers.mjs";
+
+const POM_MODULE = (artifactId) =>
+  `<project><modelVersion>4.0.0</modelVersion><parent><groupId>com.acme</groupId><artifactId>shop</artifactId><version>1</version></parent><artifactId>${artifactId}</artifactId></project>`;
+
+// Stands in for the Gradle wrapper: records its arguments and succeeds
+const FAKE_GRADLEW = `#!/bin/sh
+echo "$@" > gradle-args.txt
+echo "BUILD SUCCESSFUL in 1s"
+`;
+
+test("builds a Gradle subproject through its task path", async (t) => {
+  const projectPath = await createProject(t, {
+    "settings.gradle": "include ':svc:user'\n",
+    "build.gradle": "",
+    "gradlew": FAKE_GRADLEW,
+    "svc/user/build.gradle": "",
+  });
+  const result = await callTool("validate_maven_compile", { projectPath, module: "svc/user" });
+
+  assert.equal(result.success, true);
+  const args = await readFile(join(projectPath, "gradle-args.txt"), "utf-8");
+  assert.equal(args.trim(), ":svc:user:clean :svc:user:compileJava :svc:user:compileTestJava --console=plain");
+});
+
+test("refuses Gradle module names that are not plain project paths", async (t) => {
+  const projectPath = await createProject(t, {
+    "build.gradle": "",
+    "gradlew": FAKE_GRADLEW,
+    "app/build.gradle": "",
+  });
+
+  await assert.rejects(
+    callTool("validate_maven_compile", { projectPath, module: "app;touch injected;#" }),
+    /Invalid module/
+  );
+  await assert.rejects(callTool("validate_maven_compile", { projectPath, module: "../app" }), /Invalid module/);
+  await assert.rejects(callTool("validate_maven_compile", { projectPath, module: ":missing" }), /not a directory/);
+  await assert.rejects(access(join(projectPath, "injected")));
+  await assert.rejects(access(join(projectPath, "gradle-args.txt")));
+});
+
+test("scopes analysis to one module of a Maven reactor", async (t) => {
+  const controller = (name) => `package com.acme;
+import org.springframework.web.bind.annotation.*;
+@RestController
+public class ${name} { @GetMapping("/${name.toLowerCase()}") public String get() { return ""; } }`;
+  const projectPath = await createProject(t, {
+    "pom.xml": `<project><modelVersion>4.0.0</modelVersion><groupId>com.acme</groupId><artifactId>shop</artifactId><version>1</version>
+<packaging>pom</packaging><modules><module>user-service</module><module>order-service</module></modules></project>`,
+    "user-service/pom.xml": POM_MODULE("user-service"),
+    "user-service/src/main/java/com/acme/UserController.java": controller("UserController"),
+    "order-service/pom.xml": POM_MODULE("order-service"),
+    "order-service/src/main/java/com/acme/OrderController.java": controller("OrderController"),
+  });
+
+  const all = await callTool("list_endpoints", { projectPath });
+  assert.deepEqual(all.endpoints.map((e) => e.module).sort(), ["order-service", "user-service"]);
+
+  const one = await callTool("list_endpoints", { projectPath, module: "order-service" });
+  assert.deepEqual(one.endpoints.map((e) => e.path), ["/ordercontroller"]);
+});
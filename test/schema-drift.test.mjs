@@ -0,0 +1,101 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { callTool, createProject } from "./helpers.mjs";
+
+const ENTITIES = {
+  "pom.xml": "<project><modelVersion>4.0.0</modelVersion><groupId>com.acme</groupId><artifactId>shop</artifactId><version>1</version></project>",
+  "src/main/java/com/acme/Customer.java": `package com.acme;
+import jakarta.persistence.*;
+@Entity
+@Table(name = "customers")
+public class Customer {
+  @Id @GeneratedValue private Long id;
+  @Column(nullable = false) private String email;
+  @Column(name = "tax_id", length = 12) private String taxId;
+  private Integer loyaltyPoints;
+  @ManyToOne(optional = false) private Country country;
+}`,
+  "src/main/java/com/acme/Country.java": `package com.acme;
+import jakarta.persistence.*;
+@Entity
+public class Country {
+  @Id private String code;
+  private String name;
+}`,
+};
+
+test("builds the schema from Flyway migrations in version order and reports drift", async (t) => {
+  const projectPath = await createProject(t, {
+    ...ENTITIES,
+    "src/main/resources/db/migration/V1__init.sql": `-- initial schema
+CREATE TABLE customers (
+  id BIGINT PRIMARY KEY,
+  email VARCHAR(255),
+  tax_id VARCHAR(12) NOT NULL
+);`,
+    "src/main/resources/db/migration/V1_1__country.sql": `ALTER TABLE customers ADD COLUMN country_code VARCHAR(10) NOT NULL;
+ALTER TABLE customers ADD COLUMN loyalty_points VARCHAR(10);
+ALTER TABLE customers ADD COLUMN legacy_flag BOOLEAN NOT NULL;`,
+  });
+  const result = await callTool("check_schema_drift", { projectPath });
+
+  assert.equal(result.source, "flyway");
+  assert.deepEqual(result.migrations, [
+    "src/main/resources/db/migration/V1__init.sql",
+    "src/main/resources/db/migration/V1_1__country.sql",
+  ]);
+  assert.equal(result.inSync, false);
+  assert.deepEqual(result.missingTables.map((m) => m.table), ["country"]);
+  assert.deepEqual(result.missingColumns, []);
+  assert.deepEqual(
+    result.nullabilityMismatches.map((m) => [m.column, m.severity]),
+    [["customers.email", "warning"], ["customers.tax_id", "error"], ["customers.legacy_flag", "error"]]
+  );
+  assert.deepEqual(
+    result.typeMismatches.map((m) => [m.column, m.javaType, m.columnType]),
+    [["customers.loyalty_points", "Integer", "VARCHAR(10)"]]
+  );
+});
+
+test("follows Liquibase includes across YAML, XML and formatted SQL changelogs", async (t) => {
+  const projectPath = await createProject(t, {
+    ...ENTITIES,
+    "src/main/resources/db/changelog/db.changelog-master.yaml": `databaseChangeLog:
+  - include:
+      file: changes/001-init.xml
+      relativeToChangelogFile: true
+  - include:
+      file: db/changelog/sql/002-country.sql
+`,
+    "src/main/resources/db/changelog/changes/001-init.xml": `<?xml version="1.0" encoding="UTF-8"?>
+<databaseChangeLog xmlns="http://www.liquibase.org/xml/ns/dbchangelog">
+  <changeSet id="1" author="acme">
+    <createTable tableName="customers">
+      <column name="id" type="BIGINT"><constraints primaryKey="true"/></column>
+      <column name="email" type="VARCHAR(255)"><constraints nullable="false"/></column>
+      <column name="tax_id" type="VARCHAR(12)"/>
+    </createTable>
+  </changeSet>
+  <changeSet id="2" author="acme">
+    <addColumn tableName="customers">
+      <column name="loyalty_points" type="INT"/>
+    </addColumn>
+  </changeSet>
+</databaseChangeLog>`,
+    "src/main/resources/db/changelog/sql/002-country.sql": `--liquibase formatted sql
+--changeset acme:3
+CREATE TABLE country (code VARCHAR(10) PRIMARY KEY, name VARCHAR(100));
+ALTER TABLE customers ADD COLUMN country_code VARCHAR(10);
+`,
+  });
+  const result = await callTool("check_schema_drift", { projectPath });
+
+  assert.equal(result.source, "liquibase");
+  assert.deepEqual(result.migrations, [
+    "src/main/resources/db/changelog/db.changelog-master.yaml",
+    "src/main/resources/db/changelog/changes/001-init.xml",
+    "src/main/resources/db/changelog/sql/002-country.sql",
+  ]);
+  assert.equal(result.tableCount, 2);
+  assert.equal(result.inSync, true);
+});
@@ -0,0 +1,78 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { callTool, createProject } from "./helpers.mjs";
+
+const POM = `<project><modelVersion>4.0.0</modelVersion><groupId>com.acme</groupId><artifactId>shop</artifactId><version>1</version><dependencies>
+<dependency><groupId>org.springframework.boot</groupId><artifactId>spring-boot-starter-web</artifactId></dependency>
+<dependency><groupId>org.springframework.boot</groupId><artifactId>spring-boot-starter-security</artifactId></dependency>
+</dependencies></project>`;
+
+const securityConfig = (annotations) => `package com.acme;
+import org.springframework.context.annotation.Bean;
+import org.springframework.context.annotation.Configuration;
+import org.springframework.security.config.annotation.method.configuration.EnableMethodSecurity;
+import org.springframework.security.config.annotation.web.builders.HttpSecurity;
+import org.springframework.security.web.SecurityFilterChain;
+${annotations}
+public class SecurityConfig {
+  @Bean SecurityFilterChain chain(HttpSecurity http) throws Exception {
+    http.authorizeHttpRequests(auth -> auth
+        .requestMatchers("/api/public/**").permitAll()
+        .requestMatchers("/api/admin/**").hasRole("ADMIN")
+        .anyRequest().authenticated());
+    return http.build();
+  }
+}`;
+
+const ITEM_CONTROLLER = `package com.acme.web;
+import java.util.List;
+import org.springframework.security.access.prepost.PreAuthorize;
+import org.springframework.web.bind.annotation.*;
+@RestController @RequestMapping("/api")
+public class ItemController {
+  @GetMapping("/public/items") public List<String> items() { return List.of(); }
+  @GetMapping("/admin/stats") public String stats() { return ""; }
+  @PreAuthorize("hasAuthority('orders:write')") @PostMapping("/orders") public String order(@RequestBody String body) { return body; }
+}`;
+
+test("maps each endpoint to the first URL rule that matches it", async (t) => {
+  const projectPath = await createProject(t, {
+    "pom.xml": POM,
+    "src/main/java/com/acme/SecurityConfig.java": securityConfig("@Configuration"),
+    "src/main/java/com/acme/web/ItemController.java": ITEM_CONTROLLER,
+  });
+  const result = await callTool("analyze_security_config", { projectPath });
+
+  assert.equal(result.springSecurity, true);
+  assert.equal(result.filterChains[0].csrf, "enabled");
+  const byPath = Object.fromEntries(result.endpoints.map((e) => [`${e.method} ${e.path}`, e]));
+  assert.equal(byPath["GET /api/public/items"].access, "public");
+  assert.equal(byPath["GET /api/public/items"].withMockUser, null);
+  assert.equal(byPath["GET /api/admin/stats"].access, "roles");
+  assert.deepEqual(byPath["GET /api/admin/stats"].roles, ["ADMIN"]);
+  assert.equal(byPath["POST /api/orders"].urlRule, "anyRequest() -> authenticated()");
+  assert.equal(byPath["POST /api/orders"].csrfRequired, true);
+  assert.equal(byPath["GET /api/admin/stats"].csrfRequired, false);
+});
+
+test("applies @PreAuthorize only when method security is enabled", async (t) => {
+  const files = (annotations) => ({
+    "pom.xml": POM,
+    "src/main/java/com/acme/SecurityConfig.java": securityConfig(annotations),
+    "src/main/java/com/acme/web/ItemController.java": ITEM_CONTROLLER,
+  });
+  const order = (result) => result.endpoints.find((e) => e.path === "/api/orders");
+
+  const off = await callTool("analyze_security_config", { projectPath: await createProject(t, files("@Configuration")) });
+  assert.equal(order(off).access, "authenticated");
+  assert.equal(order(off).withMockUser, "@WithMockUser");
+  assert.deepEqual(off.warnings, ["@PreAuthorize is used but not enforced - enable it with @EnableMethodSecurity"]);
+
+  const on = await callTool("analyze_security_config", {
+    projectPath: await createProject(t, files("@Configuration\n@EnableMethodSecurity")),
+  });
+  assert.equal(on.methodSecurity.annotation, "@EnableMethodSecurity");
+  assert.deepEqual(order(on).authorities, ["orders:write"]);
+  assert.equal(order(on).withMockUser, '@WithMockUser(authorities = {"orders:write"})');
+  assert.deepEqual(on.warnings, []);
+});
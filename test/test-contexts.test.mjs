@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { callTool, createProject } from "./helpers.mjs";
+
+const POM = "<project><modelVersion>4.0.0</modelVersion><groupId>com.acme</groupId><artifactId>shop</artifactId><version>1</version></project>";
+
+const integrationTest = (name, { annotations = "", body = "", base = "" } = {}) => `package com.acme;
+import org.springframework.boot.test.context.SpringBootTest;
+import org.springframework.boot.test.mock.mockito.MockBean;
+import org.springframework.test.annotation.DirtiesContext;
+import org.springframework.test.context.ActiveProfiles;
+${annotations}
+class ${name} ${base ? `extends ${base} ` : ""}{
+  ${body}
+  @org.junit.jupiter.api.Test void works() {}
+}`;
+
+const FILES = {
+  "pom.xml": POM,
+  "src/test/java/com/acme/BaseIntegrationTest.java": `package com.acme;
+import org.springframework.boot.test.context.SpringBootTest;
+import org.springframework.test.context.ActiveProfiles;
+@SpringBootTest @ActiveProfiles("test")
+public abstract class BaseIntegrationTest {}`,
+  "src/test/java/com/acme/OrderIT.java": integrationTest("OrderIT", { base: "BaseIntegrationTest" }),
+  "src/test/java/com/acme/CustomerIT.java": integrationTest("CustomerIT", { base: "BaseIntegrationTest" }),
+  "src/test/java/com/acme/ReportIT.java": integrationTest("ReportIT", { annotations: '@SpringBootTest @ActiveProfiles("test")' }),
+  "src/test/java/com/acme/PaymentIT.java": integrationTest("PaymentIT", {
+    annotations: '@SpringBootTest @ActiveProfiles("test")',
+    body: "@MockBean PaymentGateway gateway;",
+  }),
+  "src/test/java/com/acme/web/OrderControllerTest.java": `package com.acme.web;
+import org.springframework.boot.test.autoconfigure.web.servlet.WebMvcTest;
+@WebMvcTest(OrderController.class)
+class OrderControllerTest { @org.junit.jupiter.api.Test void works() {} }`,
+};
+
+test("groups test classes by context cache key and names what splits them", async (t) => {
+  const projectPath = await createProject(t, FILES);
+  const result = await callTool("analyze_test_contexts", { projectPath });
+
+  assert.equal(result.springTestClasses, 5);
+  assert.deepEqual(result.contexts.map((c) => c.testClasses), [
+    ["CustomerIT", "OrderIT", "ReportIT"],
+    ["OrderControllerTest"],
+    ["PaymentIT"],
+  ]);
+  assert.equal(result.contexts[1].key.bootstrap, "@WebMvcTest(controllers=OrderController)");
+  assert.deepEqual(result.splits[0].variants[0].differences, ["adds @MockBean PaymentGateway"]);
+  assert.equal(result.estimatedContextStarts, 3);
+});
+
+test("suggests merging into the base class and counts @DirtiesContext restarts", async (t) => {
+  const projectPath = await createProject(t, {
+    ...FILES,
+    "src/test/java/com/acme/ReportIT.java": integrationTest("ReportIT", {
+      annotations: '@SpringBootTest @ActiveProfiles("test") @DirtiesContext',
+    }),
+  });
+  const result = await callTool("analyze_test_contexts", { projectPath });
+
+  const [base] = result.consolidation;
+  assert.equal(base.baseClass, "BaseIntegrationTest");
+  assert.deepEqual(base.shouldExtendBase, ["PaymentIT"]);
+  assert.deepEqual(base.moveToBase, ["@MockBean PaymentGateway"]);
+  assert.equal(base.contextsAfterMerge, 2);
+
+  assert.deepEqual(result.dirtiesContext, [
+    { testClass: "ReportIT", annotation: "@DirtiesContext(classMode=AFTER_CLASS)", extraStarts: 1 },
+  ]);
+  assert.equal(result.estimatedContextStarts, 4);
+});
@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { join } from "node:path";
+import { callTool, createProject } from "./helpers.mjs";
+
+const POM = "<project><modelVersion>4.0.0</modelVersion><groupId>com.acme</groupId><artifactId>shop</artifactId><version>1</version></project>";
+
+// Stands in for Maven: writes a Surefire report the way a failing run would
+const FAKE_MVN = `#!/bin/sh
+mkdir -p target/surefire-reports
+cat > target/surefire-reports/TEST-com.acme.OrderServiceTest.xml <<'XML'
+<?xml version="1.0" encoding="UTF-8"?>
+<testsuite name="com.acme.OrderServiceTest" tests="3" failures="2" errors="0" skipped="1" time="1,235">
+  <testcase classname="com.acme.OrderServiceTest" name="createsOrder" time="0,5">
+    <failure type="org.opentest4j.AssertionFailedError" message="expected: &lt;3&gt; but was: &lt;4&gt;">org.opentest4j.AssertionFailedError
+	at com.acme.OrderServiceTest.createsOrder(OrderServiceTest.java:12)</failure>
+  </testcase>
+  <testcase classname="com.acme.OrderServiceTest" name="listsOrders" time="1,234.5">
+    <failure type="java.lang.IllegalStateException" message="timeout"/>
+  </testcase>
+  <testcase classname="com.acme.OrderServiceTest" name="ignored" time="0"><skipped/></testcase>
+</testsuite>
+XML
+exit 1
+`;
+
+test("reads counts, failures and locale-formatted durations from JUnit XML", async (t) => {
+  const projectPath = await createProject(t, { "pom.xml": POM, "bin/mvn": FAKE_MVN });
+  const result = await callTool(
+    "run_test_checkpoint",
+    { projectPath, testClass: "OrderServiceTest" },
+    { pathPrefix: join(projectPath, "bin") }
+  );
+
+  assert.equal(result.success, false);
+  assert.equal(result.testsRun, 3);
+  assert.equal(result.failures, 2);
+  assert.equal(result.skipped, 1);
+
+  const [createsOrder, listsOrders] = result.failedTests;
+  assert.equal(createsOrder.method, "createsOrder");
+  assert.equal(createsOrder.failureType, "org.opentest4j.AssertionFailedError");
+  assert.equal(createsOrder.message, "expected: <3> but was: <4>");
+  assert.equal(createsOrder.durationSeconds, 0.5);
+  assert.equal(listsOrders.durationSeconds, 1234.5);
+});
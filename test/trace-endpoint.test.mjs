@@ -0,0 +1,89 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { callTool, createProject } from "./helpers.mjs";
+
+const POM = "<project><modelVersion>4.0.0</modelVersion><groupId>com.acme</groupId><artifactId>shop</artifactId><version>1</version></project>";
+
+const FILES = {
+  "pom.xml": POM,
+  "src/main/java/com/acme/web/OrderController.java": `package com.acme.web;
+import com.acme.service.OrderService;
+import lombok.RequiredArgsConstructor;
+import org.springframework.web.bind.annotation.*;
+@RestController @RequestMapping("/api/orders") @RequiredArgsConstructor
+public class OrderController {
+  private final OrderService orderService;
+  @GetMapping("/{id}") public Order get(@PathVariable Long id) { return orderService.find(id); }
+  @PostMapping public Order create(@RequestBody Order order) { return orderService.create(order); }
+}`,
+  "src/main/java/com/acme/web/Order.java": `package com.acme.web;
+public record Order(Long id, String reference) {}`,
+  "src/main/java/com/acme/service/OrderService.java": `package com.acme.service;
+import com.acme.web.Order;
+public interface OrderService { Order find(Long id); Order create(Order order); }`,
+  "src/main/java/com/acme/service/OrderServiceImpl.java": `package com.acme.service;
+import com.acme.repo.OrderRepository;
+import com.acme.web.Order;
+import org.springframework.stereotype.Service;
+import org.springframework.transaction.annotation.Transactional;
+import org.springframework.web.client.RestTemplate;
+@Service
+public class OrderServiceImpl implements OrderService {
+  private final OrderRepository orderRepository;
+  private final RestTemplate restTemplate;
+  public OrderServiceImpl(OrderRepository orderRepository, RestTemplate restTemplate) {
+    this.orderRepository = orderRepository;
+    this.restTemplate = restTemplate;
+  }
+  public Order find(Long id) { return orderRepository.findById(id).orElseThrow(); }
+  @Transactional public Order create(Order order) {
+    restTemplate.postForObject("http://payments/charge", order, Void.class);
+    return orderRepository.save(order);
+  }
+}`,
+  "src/main/java/com/acme/repo/OrderRepository.java": `package com.acme.repo;
+import com.acme.web.Order;
+import org.springframework.data.jpa.repository.JpaRepository;
+public interface OrderRepository extends JpaRepository<Order, Long> {}`,
+};
+
+// Flatten the call chain into "call [kind] via" lines, indented by depth
+function chainLines(node, depth = 0) {
+  const line = `${"  ".repeat(depth)}${node.call} [${node.kind}]${node.via ? ` via ${node.via}` : ""}`;
+  return [line, ...(node.calls ?? []).flatMap((child) => chainLines(child, depth + 1))];
+}
+
+test("traces an endpoint through an interface to its implementation, repository and HTTP client", async (t) => {
+  const projectPath = await createProject(t, FILES);
+  const result = await callTool("trace_endpoint", { projectPath, method: "POST", path: "/api/orders" });
+
+  assert.equal(result.handler, "OrderController.create");
+  assert.deepEqual(chainLines(result.callChain), [
+    "OrderController.create [controller]",
+    "  OrderServiceImpl.create [service] via orderService (OrderService)",
+    "    RestTemplate.postForObject [http] via restTemplate",
+    "    OrderRepository.save [repository] via orderRepository",
+  ]);
+  assert.deepEqual(result.transactions.map((tx) => `${tx.startsAt}: ${tx.participants.join(", ")}`), [
+    "OrderServiceImpl.create: RestTemplate.postForObject, OrderRepository.save",
+  ]);
+  assert.deepEqual(result.mockOrStub.map((m) => `${m.collaborator} ${m.targets.join(",")}`), [
+    "RestTemplate http://payments/charge",
+  ]);
+  assert.deepEqual(result.realBeans, ["OrderRepository"]);
+  assert.match(result.warnings[0], /^RestTemplate\.postForObject runs inside transaction 1/);
+});
+
+test("matches a concrete request path against the route template", async (t) => {
+  const projectPath = await createProject(t, FILES);
+  const result = await callTool("trace_endpoint", { projectPath, method: "GET", path: "/api/orders/42" });
+
+  assert.equal(result.endpoint, "GET /api/orders/{id}");
+  assert.deepEqual(chainLines(result.callChain), [
+    "OrderController.get [controller]",
+    "  OrderServiceImpl.find [service] via orderService (OrderService)",
+    "    OrderRepository.findById [repository] via orderRepository",
+  ]);
+  assert.deepEqual(result.transactions, []);
+  assert.deepEqual(result.mockOrStub, []);
+});